@@ -5,9 +5,13 @@
  *
  * Simplified export endpoint that validates workshop readiness and generates documents.
  * Uses final-validator and docx-generator from dependencies GZ-801/GZ-803 and GZ-901.
+ * With `document: 'tragfaehigkeit'` it returns the Tragfähigkeits-Vorprüfung
+ * (cover letter and criteria checklist for the fachkundige Stelle) instead.
  *
  * SECURITY: Uses RLS policies to ensure users can only export their own workshops.
- * ZDR COMPLIANCE: No user data stored - immediate generation and streaming.
+ * ZDR COMPLIANCE: No document data stored - immediate generation and streaming.
+ * Export attempts (score and issue IDs) are recorded in the workshop's validation history;
+ * the readiness check (GET) only compares against it.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -15,8 +19,17 @@ import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
 
-import { validateExportReadiness, createExportResponse } from '@/lib/validation/final-validator';
-import { generateBusinessPlanDocument } from '@/lib/export/docx-generator';
+import { validateExportReadiness, createExportResponse, recordExportValidation } from '@/lib/validation/final-validator';
+import {
+  createValidationSnapshot,
+  diffValidationRuns,
+  findPreviousRun,
+  loadValidationHistory,
+  type ValidationDiff
+} from '@/lib/validation/validation-history';
+import type { ExportValidationResult } from '@/lib/validation/final-validator';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateBusinessPlanDocument, generateTragfaehigkeitDocument } from '@/lib/export/docx-generator';
 import type { WorkshopSession } from '@/types/workshop-session';
 import type { DocumentExportRequest } from '@/lib/export/types';
 
@@ -26,6 +39,7 @@ import type { DocumentExportRequest } from '@/lib/export/types';
 
 const ExportRequestSchema = z.object({
   workshopId: z.string().uuid('Workshop-ID muss ein gültiges UUID sein'),
+  document: z.enum(['businessplan', 'tragfaehigkeit']).optional().default('businessplan'),
   options: z.object({
     includeDetailedFinancials: z.boolean().optional().default(true),
     includeSWOTSection: z.boolean().optional().default(true),
@@ -65,7 +79,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { workshopId, options } = validation.data;
+    const { workshopId, document, options } = validation.data;
 
     // 2. Authenticate user
     const supabase = createRouteHandlerClient({ cookies });
@@ -93,6 +107,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Tragfähigkeits-Vorprüfung lists open criteria, so it is not blocked by BA validation
+    if (document === 'tragfaehigkeit') {
+      return exportTragfaehigkeitDocument(workshopSession, startTime);
+    }
+
     // 4. CRITICAL: Validate export readiness using final-validator (GZ-803)
     console.log(`[Export] Validating export readiness for workshop ${workshopId}`);
     const validationResult = await validateExportReadiness(workshopSession);
@@ -100,6 +119,7 @@ export async function POST(request: NextRequest) {
     if (!validationResult.canExport) {
       console.log(`[Export] Validation failed for workshop ${workshopId}:`,
         validationResult.blockers.map(b => b.title));
+      await recordExportValidation(supabase, workshopId, validationResult, 'check');
 
       const response = createExportResponse(validationResult);
       return NextResponse.json(response.data, { status: response.status });
@@ -131,6 +151,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await recordExportValidation(supabase, workshopId, validationResult, 'export');
+
     // 6. Prepare successful response with document blob
     const generationTime = Date.now() - startTime;
     console.log(`[Export] Document generated successfully in ${generationTime}ms for workshop ${workshopId}`);
@@ -176,7 +198,8 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/export?workshopId={id}
  *
- * Quick validation check to determine if workshop is ready for export
+ * Quick validation check to determine if workshop is ready for export.
+ * The check is polled by the export dialog, so it is not recorded.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -235,6 +258,9 @@ export async function GET(request: NextRequest) {
     // 4. Run validation check
     const validationResult = await validateExportReadiness(workshopSession);
 
+    // 5. Compare with the last recorded run (without recording this check)
+    const changes = await diffWithLastRun(supabase, workshopId, validationResult);
+
     return NextResponse.json({
       canExport: validationResult.canExport,
       status: validationResult.summary.status,
@@ -247,10 +273,12 @@ export async function GET(request: NextRequest) {
           id: issue.id,
           severity: issue.severity,
           title: issue.title,
-          message: issue.message
+          message: issue.message,
+          evidence: issue.evidence ?? []
         }))
       },
-      recommendations: generateValidationRecommendations(validationResult)
+      recommendations: generateValidationRecommendations(validationResult),
+      changes
     });
 
   } catch (error) {
@@ -324,6 +352,70 @@ async function loadWorkshopSession(
   }
 }
 
+/**
+ * Generate and return the Tragfähigkeits-Vorprüfung for the fachkundige Stelle
+ */
+async function exportTragfaehigkeitDocument(
+  workshopSession: WorkshopSession,
+  startTime: number
+): Promise<NextResponse> {
+  const documentResult = await generateTragfaehigkeitDocument(workshopSession);
+
+  if (!documentResult.success || !documentResult.report) {
+    console.error(`[Export] Tragfähigkeit pre-check failed:`, documentResult.error);
+    return NextResponse.json(
+      {
+        error: 'generation_failed',
+        message: documentResult.error || 'Dokumentgenerierung fehlgeschlagen',
+        validationErrors: documentResult.validationErrors || []
+      },
+      { status: 500 }
+    );
+  }
+
+  const generationTime = Date.now() - startTime;
+  const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+  const businessName = workshopSession.businessName?.replace(/[^a-zA-Z0-9-_\s]/g, '') || 'Unbenanntes-Unternehmen';
+  const filename = `${businessName.replace(/\s+/g, '-')}_Tragfaehigkeit-Vorpruefung_${timestamp}.docx`;
+
+  return new NextResponse(documentResult.document, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Generation-Time-Ms': generationTime.toString(),
+      'X-Tragfaehigkeit-Passed': `${documentResult.report.passedCriteria}/${documentResult.report.criteria.length}`,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0'
+    }
+  });
+}
+
+/**
+ * Diff the current validation result against the last recorded run of the workshop
+ *
+ * History is informational, so load failures return null instead of failing the check.
+ */
+async function diffWithLastRun(
+  supabase: SupabaseClient,
+  workshopId: string,
+  result: ExportValidationResult
+): Promise<ValidationDiff | null> {
+  try {
+    const history = await loadValidationHistory(supabase, workshopId);
+    const current = createValidationSnapshot(workshopId, result, 'check');
+    const previous = findPreviousRun(history, current.timestamp);
+    if (!previous) {
+      return null;
+    }
+    return diffValidationRuns(previous, current);
+  } catch (error) {
+    console.error('[Export] Validation history unavailable:', error);
+    return null;
+  }
+}
+
 /**
  * Generate actionable recommendations based on validation result
  */
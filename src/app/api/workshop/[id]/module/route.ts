@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/root-lib/supabase/server';
+import { getGespeicherteOptionen, recomputeFinanzplanung } from '@/lib/finance/neuberechnung';
+import type { FinanzplanNeuberechnung } from '@/lib/finance/neuberechnung';
+import { getPlanStart } from '@/lib/finance/abschreibung';
+import { resolveBranche } from '@/lib/finance/branchenbenchmarks';
 
 /**
  * POST /api/workshop/[id]/module - Save module progress
  *
- * Updates the workshop's data JSONB field with module-specific data
+ * Updates the workshop's data JSONB field with module-specific data.
+ * Finanzplanung saves recompute all derived totals before they are stored.
  */
 export async function POST(
   request: NextRequest,
@@ -53,11 +58,27 @@ export async function POST(
 
     // Merge new module data with existing data
     const currentData = workshop.data || {};
+    let mergedModuleData = {
+      ...(currentData[module_name] || {}),
+      ...module_data,
+    };
+
+    // Keep Finanzplanung totals consistent with their inputs (A → G),
+    // using the stored tax, VAT, GZ, payment and seasonality settings
+    let neuberechnung: FinanzplanNeuberechnung | undefined;
+    if (module_name === 'gz-finanzplanung') {
+      neuberechnung = recomputeFinanzplanung(mergedModuleData, {
+        ...getGespeicherteOptionen(mergedModuleData),
+        industry: resolveBranche(currentData['gz-intake']?.businessType?.category),
+        afa: { planStart: getPlanStart(currentData['gz-intake']?.resources?.time?.plannedStartDate) },
+      });
+      mergedModuleData = { ...mergedModuleData, ...neuberechnung.finanzplanung };
+    }
+
     const updatedData = {
       ...currentData,
       [module_name]: {
-        ...(currentData[module_name] || {}),
-        ...module_data,
+        ...mergedModuleData,
         last_updated: new Date().toISOString(),
       },
     };
@@ -93,6 +114,13 @@ export async function POST(
       workshop: updatedWorkshop,
       module_name,
       message: 'Module progress saved successfully',
+      ...(neuberechnung && {
+        neuberechnung: {
+          abweichungen: neuberechnung.abweichungen,
+          uebersprungen: neuberechnung.uebersprungen,
+          konsistent: neuberechnung.konsistent,
+        },
+      }),
     });
   } catch (error) {
     console.error('Module progress POST error:', error);
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/root-lib/supabase/server';
+import {
+  buildScoreTimeline,
+  diffValidationRuns,
+  findPreviousRun,
+  loadValidationHistory,
+} from '@/lib/validation/validation-history';
+
+/**
+ * GET /api/workshop/[id]/validation-history?since=last_run|last_export
+ *
+ * Returns the score timeline of all recorded validation runs and the diff of
+ * the latest run against the previous run (default) or the last export.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Authenticate
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get comparison point from query params
+    const { searchParams } = new URL(request.url);
+    const since = searchParams.get('since') ?? 'last_run';
+
+    if (since !== 'last_run' && since !== 'last_export') {
+      return NextResponse.json(
+        { error: 'since must be last_run or last_export' },
+        { status: 400 }
+      );
+    }
+
+    // Fetch workshop
+    const { data: workshop, error } = await supabase
+      .from('workshops')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !workshop) {
+      return NextResponse.json(
+        { error: 'Workshop not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await loadValidationHistory(supabase, id);
+    const latest = history[history.length - 1];
+    const previous = latest
+      ? findPreviousRun(history, latest.timestamp, since === 'last_export' ? 'export' : undefined)
+      : undefined;
+
+    return NextResponse.json({
+      timeline: buildScoreTimeline(history),
+      latest: latest ?? null,
+      since,
+      diff: latest && previous ? diffValidationRuns(previous, latest) : null,
+    });
+  } catch (error) {
+    console.error('Validation history GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,59 @@
 'use client';
 
+import { useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import 'highlight.js/styles/github-dark.css';
 
 interface DocumentPreviewProps {
   content: string;
+  highlight?: {
+    section: string; // Section heading, e.g. "Liquiditaet"
+    field?: string;  // Field label within the section, e.g. "Monate"
+  };
 }
 
-export default function DocumentPreview({ content }: DocumentPreviewProps) {
+const HIGHLIGHT_CLASSES = ['rounded', 'bg-yellow-100', 'ring-2', 'ring-yellow-400'];
+
+export default function DocumentPreview({ content, highlight }: DocumentPreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const section = highlight?.section;
+  const field = highlight?.field;
+
+  // Scroll to and mark the field opened via "Beheben"
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !section) return;
+
+    const findLabel = (root: Element, label: string) =>
+      Array.from(root.querySelectorAll('strong')).find((strong) => strong.textContent?.trim() === `${label}:`);
+
+    const heading = Array.from(container.querySelectorAll('h2')).find(
+      (h2) => h2.textContent?.trim() === section
+    );
+
+    // Top-level values are rendered as "**Label:** value" without a heading
+    let target: Element | undefined = heading ?? findLabel(container, section)?.parentElement ?? undefined;
+
+    if (heading && field) {
+      for (let node = heading.nextElementSibling; node && node.tagName !== 'H2'; node = node.nextElementSibling) {
+        if (findLabel(node, field)) {
+          target = node;
+          break;
+        }
+      }
+    }
+
+    if (!target) return;
+
+    target.classList.add(...HIGHLIGHT_CLASSES);
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    return () => target.classList.remove(...HIGHLIGHT_CLASSES);
+  }, [content, section, field]);
+
   return (
-    <div className="mx-auto max-w-4xl px-8 py-6">
+    <div ref={containerRef} className="mx-auto max-w-4xl px-8 py-6">
       <article className="prose prose-slate max-w-none dark:prose-invert lg:prose-lg">
         <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>
       </article>
@@ -1,16 +1,20 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useAtomValue } from 'jotai';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
 import {
   currentModuleAtom,
+  fieldFocusAtom,
+  jumpToFieldAtom,
   workshopDataFamily,
 } from '@/lib/state/workshop-atoms';
+import { parseFieldPath } from '@/lib/validation/field-pointer';
+import { ExportButton } from '@/components/export';
 import DocumentPreview from './document-preview';
 import IntakePreview from './previews/intake-preview';
 import GeschaeftsmodellPreview from './previews/geschaeftsmodell-preview';
 import BusinessPlanPreview from './previews/businessplan-preview';
-import { FileText, Loader2, LayoutGrid, FileBarChart } from 'lucide-react';
+import { FileText, Loader2, LayoutGrid, FileBarChart, Crosshair, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { PartialIntakeOutput, IntakePhase } from '@/types/modules/intake';
@@ -38,6 +42,16 @@ export default function PreviewPanel({
   const [markdownContent, setMarkdownContent] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
   const [previewMode, setPreviewMode] = useState<PreviewMode>('data');
+  const [showExport, setShowExport] = useState(false);
+  const [fieldFocus, setFieldFocus] = useAtom(fieldFocusAtom);
+  const jumpToField = useSetAtom(jumpToFieldAtom);
+
+  // Section and field label of the focused field, as rendered in the preview
+  const focus = fieldFocus?.module === currentModule ? fieldFocus : null;
+  const [focusSection, focusField] = focus ? parseFieldPath(focus.field) : [];
+  const highlight = typeof focusSection === 'string'
+    ? { section: formatKey(focusSection), field: typeof focusField === 'string' ? formatKey(focusField) : undefined }
+    : undefined;
 
   // Merge stored workshop data with real-time module data
   const effectiveModuleData = moduleData || workshopData?.[currentModule || ''] || null;
@@ -112,11 +126,47 @@ export default function PreviewPanel({
           </Tabs>
         )}
 
-        <Button variant="outline" size="sm" disabled>
+        <Button variant="outline" size="sm" onClick={() => setShowExport((open) => !open)}>
           Exportieren
         </Button>
       </div>
 
+      {/* Export readiness with "Beheben" links into the workshop */}
+      {showExport && (
+        <div className="border-b border-border bg-card px-6 py-4">
+          <ExportButton
+            workshopId={workshopId}
+            onJumpToFix={(pointer) => {
+              jumpToField({ workshopId, pointer });
+              setShowExport(false);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Field opened via "Beheben" */}
+      {focus && (
+        <div className="flex items-center justify-between border-b border-yellow-200 bg-yellow-50 px-6 py-2 text-xs text-yellow-800">
+          <span className="flex items-center gap-2">
+            <Crosshair className="h-3.5 w-3.5" />
+            <span>
+              Zu prüfen: <code>{focus.field}</code>
+              {focus.month ? ` · Monat ${focus.month}` : ''}
+              {focus.value !== undefined ? ` · Wert: ${String(focus.value)}` : ''}
+            </span>
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setFieldFocus(null)}
+            aria-label="Markierung entfernen"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+
       {/* Document Content - Module-specific rendering */}
       <div className="flex-1 overflow-y-auto">
         {currentModule === 'gz-intake' ? (
@@ -140,7 +190,7 @@ export default function PreviewPanel({
             currentPhase={(currentPhase as GeschaeftsmodellPhase) || 'angebot'}
           />
         ) : (
-          <DocumentPreview content={markdownContent} />
+          <DocumentPreview content={markdownContent} highlight={highlight} />
         )}
       </div>
     </div>
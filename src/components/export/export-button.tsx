@@ -5,6 +5,8 @@
  * - Shows validation status before allowing export
  * - Shows progress during generation
  * - Triggers download on completion
+ * - Links each issue to the field that needs fixing ("Beheben")
+ * - Downloads the Tragfähigkeits-Vorprüfung for the fachkundige Stelle (IHK/HWK)
  * - Provides accessible UI with proper ARIA labels
  *
  * Uses final-validator to check readiness and main export API for document generation.
@@ -13,13 +15,14 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Download, FileCheck, AlertCircle, Loader2, CheckCircle } from 'lucide-react';
+import { Download, FileCheck, AlertCircle, Loader2, CheckCircle, Wrench, ClipboardCheck } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import type { ValidationEvidence } from '@/lib/validation/types';
 
 // ============================================================================
 // Types
@@ -38,6 +41,7 @@ interface ExportValidation {
       severity: 'BLOCKER' | 'WARNING';
       title: string;
       message: string;
+      evidence?: ValidationEvidence[];
     }>;
   };
   recommendations: string[];
@@ -60,6 +64,8 @@ export interface ExportButtonProps {
   onExportSuccess?: (filename: string) => void;
   /** Callback when export fails */
   onExportError?: (error: string) => void;
+  /** Callback for "Beheben": open the module, phase and field behind an issue */
+  onJumpToFix?: (pointer: ValidationEvidence) => void;
 }
 
 type ExportState = 'checking' | 'ready' | 'blocked' | 'warnings' | 'generating' | 'completed' | 'error';
@@ -74,13 +80,15 @@ export function ExportButton({
   options = {},
   className,
   onExportSuccess,
-  onExportError
+  onExportError,
+  onJumpToFix
 }: ExportButtonProps) {
   const [state, setState] = useState<ExportState>('checking');
   const [validation, setValidation] = useState<ExportValidation | null>(null);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [generationTime, setGenerationTime] = useState<number | null>(null);
+  const [isPrechecking, setIsPrechecking] = useState(false);
 
   // Check export readiness on mount and when workshopId changes
   useEffect(() => {
@@ -185,15 +193,7 @@ export function ExportButton({
       setGenerationTime(genTime);
 
       // Create blob and trigger download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      await downloadResponse(response, filename);
 
       // Update state
       setState('completed');
@@ -217,6 +217,43 @@ export function ExportButton({
     }
   };
 
+  const handlePrecheckClick = async () => {
+    setIsPrechecking(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ workshopId, document: 'tragfaehigkeit' }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Vorprüfung fehlgeschlagen');
+      }
+
+      const contentDisposition = response.headers.get('Content-Disposition');
+      const filenameMatch = contentDisposition?.match(/filename="([^"]+)"/);
+      const filename = filenameMatch?.[1] || `${businessName || 'Businessplan'}_Tragfaehigkeit-Vorpruefung.docx`;
+
+      await downloadResponse(response, filename);
+      onExportSuccess?.(filename);
+
+    } catch (err) {
+      console.error('[ExportButton] Tragfähigkeit pre-check failed:', err);
+
+      const errorMessage = err instanceof Error ? err.message : 'Vorprüfung fehlgeschlagen';
+      setError(errorMessage);
+      setState('error');
+      onExportError?.(errorMessage);
+    } finally {
+      setIsPrechecking(false);
+    }
+  };
+
   // ============================================================================
   // Render Helpers
   // ============================================================================
@@ -333,6 +370,20 @@ export function ExportButton({
           {getButtonContent()}
         </Button>
 
+        <Button
+          onClick={handlePrecheckClick}
+          disabled={isPrechecking || state === 'checking' || state === 'generating'}
+          variant="outline"
+          size="lg"
+          className="w-full sm:w-auto"
+          aria-label="Tragfähigkeits-Vorprüfung für die fachkundige Stelle als DOCX-Datei herunterladen"
+        >
+          {isPrechecking
+            ? <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            : <ClipboardCheck className="w-4 h-4 mr-2" />}
+          Tragfähigkeits-Vorprüfung
+        </Button>
+
         {getStatusBadge()}
 
         {validation && (
@@ -380,19 +431,35 @@ export function ExportButton({
               <div className="space-y-2">
                 <h4 className="text-sm font-medium">Details:</h4>
                 <div className="space-y-1">
-                  {validation.validation.details.slice(0, 3).map((detail) => (
-                    <div
-                      key={detail.id}
-                      className={cn(
-                        "text-xs p-2 rounded",
-                        detail.severity === 'BLOCKER'
-                          ? "bg-red-50 text-red-700 border border-red-200"
-                          : "bg-yellow-50 text-yellow-700 border border-yellow-200"
-                      )}
-                    >
-                      <span className="font-medium">{detail.title}:</span> {detail.message}
-                    </div>
-                  ))}
+                  {validation.validation.details.slice(0, 3).map((detail) => {
+                    const pointer = detail.evidence?.[0];
+
+                    return (
+                      <div
+                        key={detail.id}
+                        className={cn(
+                          "text-xs p-2 rounded",
+                          detail.severity === 'BLOCKER'
+                            ? "bg-red-50 text-red-700 border border-red-200"
+                            : "bg-yellow-50 text-yellow-700 border border-yellow-200"
+                        )}
+                      >
+                        <span className="font-medium">{detail.title}:</span> {detail.message}
+                        {onJumpToFix && pointer && (
+                          <Button
+                            onClick={() => onJumpToFix(pointer)}
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 ml-1 text-xs"
+                            aria-label={`${detail.title} beheben`}
+                          >
+                            <Wrench className="w-3 h-3 mr-1" />
+                            Beheben{pointer.month ? ` (Monat ${pointer.month})` : ''}
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
                   {validation.validation.details.length > 3 && (
                     <p className="text-xs text-gray-500">
                       ... und {validation.validation.details.length - 3} weitere
@@ -457,6 +524,25 @@ export function ExportButton({
   );
 }
 
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Save a document response as a file download
+ */
+async function downloadResponse(response: Response, filename: string): Promise<void> {
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
 // ============================================================================
 // Export Default
 // ============================================================================
@@ -32,6 +32,12 @@ import { generateMarketingStrategy } from './section-generators/marketing';
 import { generateOrganization } from './section-generators/organisation';
 import { generateFinancialPlanning } from './section-generators/finanzplanung';
 import { generateSWOTAndMilestones } from './section-generators/swot-meilensteine';
+import {
+  generateTragfaehigkeitCoverLetter,
+  generateTragfaehigkeitOverview,
+  generateTragfaehigkeitCriterion
+} from './section-generators/tragfaehigkeit';
+import type { TragfaehigkeitReport } from '@/lib/validation/tragfaehigkeit-precheck';
 
 // Styling and formatting
 import { getDIN5008Styles } from './templates/din-5008-styles';
@@ -202,6 +208,36 @@ export async function buildBusinessPlanDocument(
   }
 }
 
+// ============================================================================
+// Tragfähigkeits-Vorprüfung Document
+// ============================================================================
+
+/**
+ * Build the pre-check document for the fachkundige Stelle
+ *
+ * Uses the business plan structure: the cover letter takes the cover page,
+ * the criteria overview the table of contents, one main section per criterion.
+ */
+export function buildTragfaehigkeitDocument(report: TragfaehigkeitReport): BusinessPlanDocument {
+  return {
+    metadata: {
+      title: `Tragfähigkeits-Vorprüfung - ${report.businessName}`,
+      author: report.founderName || 'Unbekannter Gründer',
+      companyName: report.businessName,
+      generatedAt: new Date(report.generatedAt),
+      version: '1.0.0',
+      baCompliant: report.passed,
+      exportOptions: {}
+    },
+    coverPage: generateTragfaehigkeitCoverLetter(report),
+    tableOfContents: generateTragfaehigkeitOverview(report),
+    mainSections: report.criteria.map((criterion, index) =>
+      generateTragfaehigkeitCriterion(criterion, String(index + 1))
+    ),
+    appendices: []
+  };
+}
+
 // ============================================================================
 // Document Metadata Creation
 // ============================================================================
@@ -10,6 +10,8 @@
 
 import { Document, Packer } from 'docx';
 import { validateBACompliance } from '@/lib/validation/ba-compliance-checker';
+import { generateTragfaehigkeitReport } from '@/lib/validation/tragfaehigkeit-precheck';
+import type { TragfaehigkeitReport } from '@/lib/validation/tragfaehigkeit-precheck';
 import type { WorkshopSession } from '@/types/workshop-session';
 import type { ValidationResult } from '@/lib/validation/types';
 import type {
@@ -23,7 +25,7 @@ import type {
 } from './types';
 
 // Import builder and formatters (to be implemented)
-import { buildBusinessPlanDocument } from './document-builder';
+import { buildBusinessPlanDocument, buildTragfaehigkeitDocument } from './document-builder';
 import { extractWorkshopData } from './data-extractor';
 
 // ============================================================================
@@ -138,6 +140,38 @@ export async function generateBusinessPlanDocument(
   }
 }
 
+/**
+ * Generate the Tragfähigkeits-Vorprüfung (cover letter and criteria checklist)
+ *
+ * Not blocked by BA validation: the report is meant to show which criteria
+ * of the fachkundige Stelle are still open.
+ */
+export async function generateTragfaehigkeitDocument(
+  workshopSession: WorkshopSession
+): Promise<DocumentGenerationResult & { report?: TragfaehigkeitReport }> {
+  try {
+    const report = generateTragfaehigkeitReport(workshopSession);
+    const documentStructure = buildTragfaehigkeitDocument(report);
+    const documentBlob = await generateDocxBlob(documentStructure);
+
+    return {
+      success: true,
+      document: documentBlob,
+      metadata: documentStructure.metadata,
+      report
+    };
+
+  } catch (error) {
+    console.error('Tragfähigkeit document generation failed:', error);
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unerwarteter Fehler bei der Dokument-Generierung',
+      validationErrors: ['Die Tragfähigkeits-Vorprüfung konnte nicht erstellt werden.']
+    };
+  }
+}
+
 /**
  * Quick validation check without full document generation
  * Used for UI to show export readiness status
@@ -495,14 +495,16 @@ function createProfitabilityTable(finanzplanung: PartialFinanzplanungOutput): Ta
 function createLiquidityTable(finanzplanung: PartialFinanzplanungOutput): Table {
   try {
     const liquiditaet = finanzplanung.liquiditaet;
-    if (!liquiditaet?.monatlicheLiquiditaet) {
+    if (!liquiditaet?.monate?.length) {
       return createErrorTable('Liquiditätsdaten nicht verfügbar');
     }
 
-    // Generate first 12 months liquidity view
-    const monthLabels = generate36MonthLabels().slice(0, 12);
+    // 36-month view: one row per plan year with the month-end balance.
+    // Plan months (M1-M12) instead of calendar months, since each row is a different year.
+    const monthLabels = Array.from({ length: 12 }, (_, index) => `M${index + 1}`);
+    const planYears = Math.min(3, Math.ceil(liquiditaet.monate.length / 12));
     const liquidityValues = formatMonthlyValues(
-      liquiditaet.monatlicheLiquiditaet.slice(0, 12),
+      liquiditaet.monate.map(monat => monat?.endbestand),
       formatTableEUR
     );
 
@@ -511,7 +513,7 @@ function createLiquidityTable(finanzplanung: PartialFinanzplanungOutput): Table
       new TableRow({
         children: [
           new TableCell({
-            children: [new Paragraph({ text: 'Liquidität', style: 'TableHeader' })],
+            children: [new Paragraph({ text: 'Kontostand', style: 'TableHeader' })],
             shading: HEADER_SHADING
           }),
           ...monthLabels.map(month =>
@@ -523,19 +525,21 @@ function createLiquidityTable(finanzplanung: PartialFinanzplanungOutput): Table
         ]
       }),
 
-      // Liquidity values
-      new TableRow({
-        children: [
-          new TableCell({
-            children: [new Paragraph({ text: 'Kontostand', style: 'TableBody' })]
-          }),
-          ...liquidityValues.map(value =>
+      // Liquidity values per year (plans saved with 12 months only show Jahr 1)
+      ...Array.from({ length: planYears }, (_, yearIndex) =>
+        new TableRow({
+          children: [
             new TableCell({
-              children: [new Paragraph({ text: value, style: 'TableNumber' })]
-            })
-          )
-        ]
-      })
+              children: [new Paragraph({ text: `Jahr ${yearIndex + 1}`, style: 'TableBody' })]
+            }),
+            ...liquidityValues.slice(yearIndex * 12, (yearIndex + 1) * 12).map(value =>
+              new TableCell({
+                children: [new Paragraph({ text: value, style: 'TableNumber' })]
+              })
+            )
+          ]
+        })
+      )
     ];
 
     return new Table({
@@ -571,9 +575,10 @@ function createFinancialSummary(finanzplanung: PartialFinanzplanungOutput): Para
     const isMonth6SelfSufficient = new Decimal(month6Profit).greaterThanOrEqualTo(0);
 
     // Check liquidity never negative
-    const minLiquidity = liquiditaet?.monatlicheLiquiditaet
-      ? Math.min(...liquiditaet.monatlicheLiquiditaet.filter(val => val != null))
-      : 0;
+    const balances = (liquiditaet?.monate ?? [])
+      .map(monat => monat?.endbestand)
+      .filter((val): val is number => val != null);
+    const minLiquidity = balances.length > 0 ? Math.min(...balances) : 0;
     const liquidityAlwaysPositive = minLiquidity >= 0;
 
     let summary = 'Zusammenfassung der Finanzplanung:\n\n';
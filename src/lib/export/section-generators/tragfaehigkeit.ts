@@ -0,0 +1,185 @@
+/**
+ * Tragfähigkeits-Vorprüfung Generator (GZ-901)
+ *
+ * Creates the cover letter and criteria checklist for the fachkundige Stelle
+ * (IHK/HWK) from a Tragfähigkeit pre-check report.
+ */
+
+import {
+  Paragraph,
+  Table,
+  TableRow,
+  TableCell,
+  TextRun,
+  WidthType,
+  BorderStyle,
+  ShadingType,
+  HeadingLevel
+} from 'docx';
+import type { DocumentSection } from '../types';
+import type { TragfaehigkeitCriterion, TragfaehigkeitReport } from '@/lib/validation/tragfaehigkeit-precheck';
+import { createHeading, createBodyParagraph, createBulletParagraph } from '../document-builder';
+import { formatGermanDateLong } from '../formatters/dates';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const TABLE_WIDTH = 100; // 100% width
+const HEADER_SHADING = { fill: 'D9D9D9', type: ShadingType.CLEAR }; // Light gray
+
+// ============================================================================
+// Cover Letter
+// ============================================================================
+
+/**
+ * Generate cover letter to the fachkundige Stelle
+ */
+export function generateTragfaehigkeitCoverLetter(report: TragfaehigkeitReport): DocumentSection {
+  const content = [
+    ...(report.founderName ? [createBodyParagraph(report.founderName)] : []),
+    createBodyParagraph(formatGermanDateLong(report.generatedAt)),
+    new Paragraph({ text: '', style: 'Normal' }),
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: `Antrag auf Stellungnahme zur Tragfähigkeit der Existenzgründung: ${report.businessName}`,
+          bold: true
+        })
+      ],
+      spacing: { after: 240 }
+    }),
+    ...report.coverLetter.map(paragraph =>
+      paragraph.startsWith('• ')
+        ? createBulletParagraph(paragraph.slice(2))
+        : createBodyParagraph(paragraph)
+    )
+  ];
+
+  return {
+    id: 'tragfaehigkeit-anschreiben',
+    title: 'Anschreiben',
+    number: '',
+    content,
+    pageBreakBefore: false
+  };
+}
+
+// ============================================================================
+// Criteria Checklist
+// ============================================================================
+
+/**
+ * Generate checklist overview with one row per criterion
+ */
+export function generateTragfaehigkeitOverview(report: TragfaehigkeitReport): DocumentSection {
+  const content = [
+    createHeading('Tragfähigkeits-Vorprüfung', HeadingLevel.HEADING_1),
+    createBodyParagraph(
+      `${report.passedCriteria} von ${report.criteria.length} Kriterien der fachkundigen Stelle erfüllt.`
+    ),
+    createOverviewTable(report.criteria),
+    createBodyParagraph(
+      'Diese Vorprüfung ersetzt nicht die Stellungnahme der fachkundigen Stelle (IHK, HWK, ' +
+      'Steuerberater oder Gründungsberater).'
+    )
+  ];
+
+  return {
+    id: 'tragfaehigkeit-uebersicht',
+    title: 'Tragfähigkeits-Vorprüfung',
+    number: '',
+    content,
+    pageBreakBefore: true
+  };
+}
+
+/**
+ * Generate detail section for one criterion with findings and quoted evidence
+ */
+export function generateTragfaehigkeitCriterion(
+  criterion: TragfaehigkeitCriterion,
+  number: string
+): DocumentSection {
+  const content = [
+    createHeading(`${number}. ${criterion.title}`, HeadingLevel.HEADING_2),
+    new Paragraph({
+      children: [
+        new TextRun({ text: 'Prüffrage: ', bold: true }),
+        new TextRun({ text: criterion.question })
+      ]
+    }),
+    new Paragraph({
+      children: [
+        new TextRun({ text: 'Ergebnis: ', bold: true }),
+        new TextRun({ text: formatStatus(criterion.passed), color: criterion.passed ? '2E7D32' : 'C62828' })
+      ]
+    }),
+    ...criterion.findings.map(finding => createBulletParagraph(finding)),
+    ...(criterion.evidence.length > 0
+      ? [
+          createHeading('Angaben aus dem Businessplan', HeadingLevel.HEADING_3),
+          ...criterion.evidence.map(evidence => createBulletParagraph(`${evidence.label}: „${evidence.quote}"`))
+        ]
+      : [])
+  ];
+
+  return {
+    id: `tragfaehigkeit-${criterion.id}`,
+    title: criterion.title,
+    number,
+    content,
+    pageBreakBefore: false
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function createOverviewTable(criteria: TragfaehigkeitCriterion[]): Table {
+  const headerRow = new TableRow({
+    children: ['Kriterium', 'Ergebnis', 'Begründung'].map(text =>
+      new TableCell({
+        children: [new Paragraph({ text, style: 'TableHeader' })],
+        shading: HEADER_SHADING
+      })
+    )
+  });
+
+  const rows = criteria.map(criterion =>
+    new TableRow({
+      children: [
+        new TableCell({
+          children: [new Paragraph({ text: criterion.title, style: 'TableBody' })],
+          width: { size: 30, type: WidthType.PERCENTAGE }
+        }),
+        new TableCell({
+          children: [new Paragraph({ text: formatStatus(criterion.passed), style: 'TableBody' })],
+          width: { size: 20, type: WidthType.PERCENTAGE }
+        }),
+        new TableCell({
+          children: [new Paragraph({ text: criterion.findings[0] ?? '', style: 'TableBody' })],
+          width: { size: 50, type: WidthType.PERCENTAGE }
+        })
+      ]
+    })
+  );
+
+  return new Table({
+    rows: [headerRow, ...rows],
+    width: { size: TABLE_WIDTH, type: WidthType.PERCENTAGE },
+    borders: {
+      top: { style: BorderStyle.SINGLE, size: 1 },
+      bottom: { style: BorderStyle.SINGLE, size: 1 },
+      left: { style: BorderStyle.SINGLE, size: 1 },
+      right: { style: BorderStyle.SINGLE, size: 1 },
+      insideHorizontal: { style: BorderStyle.SINGLE, size: 1 },
+      insideVertical: { style: BorderStyle.SINGLE, size: 1 }
+    }
+  });
+}
+
+function formatStatus(passed: boolean): string {
+  return passed ? '✓ Erfüllt' : '✗ Nicht erfüllt';
+}
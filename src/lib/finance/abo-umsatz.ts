@@ -0,0 +1,377 @@
+/**
+ * Abo-Umsatz (Subscription Revenue) with Churn and Cohorts
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Builds the subscriber base cohort by cohort instead of entering
+ * preis × menge per month by hand, and derives the Umsatzstrom from it.
+ *
+ * Includes:
+ * - Cohort build-up from new subscribers per month (36 months)
+ * - Monthly churn, annual subscriptions churning only at renewal
+ * - Upgrade rate with monthly surcharge
+ * - Annual prepayment share with discount (Einzahlungen vs. MRR)
+ * - MRR, ARR and customer counts per year
+ * - Umsatzstrom (typ 'abo') with mengeJahr1 and Jahr 2/3 totals
+ * - CAC/LTV handover to the CustomerKPIs of the KPI module
+ */
+
+import Decimal from 'decimal.js';
+import type { Umsatzstrom, UmsatzsteuerSatzType } from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import type { CustomerKPIs, KPIDefinition } from '@/types/modules/kpi';
+import { getBranchenBenchmark } from './branchenbenchmarks';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// Customer lifetime cap for the LTV without churn (5 years)
+const MAX_KUNDENLEBENSDAUER_MONATE = 60;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AboModellInput {
+  name: string;
+  preisMonatlich: number;               // List price per subscriber and month
+  neukunden: number[];                  // New subscribers per month (last value continues up to month 36)
+  churnRateMonatlich: number;           // % of monthly subscribers cancelling per month
+  upgradeRateMonatlich?: number;        // % of remaining base subscribers upgrading per month (default: 0)
+  upgradeAufpreisMonatlich?: number;    // Surcharge per upgraded subscriber and month (default: 0)
+  jahresaboAnteil?: number;             // % of new subscribers prepaying 12 months (default: 0)
+  jahresaboRabatt?: number;             // % discount on the annual prepayment (default: 0)
+  cac: number;                          // Customer acquisition cost per new subscriber
+  bruttomarge?: number;                 // % gross margin for the LTV (default: Branchenbenchmark saas)
+  ustSatz?: UmsatzsteuerSatzType;
+}
+
+export interface AboMonat {
+  monat: number;                        // 1-36
+  neukunden: number;
+  kuendigungen: number;
+  kunden: number;                       // Active subscribers at month end
+  kundenJahresabo: number;              // Thereof annual prepayers
+  mrr: number;                          // Monthly recurring revenue
+  einzahlungen: number;                 // Cash received (annual prepayments up front)
+}
+
+export interface AboJahr {
+  jahr: 1 | 2 | 3;
+  neukunden: number;
+  kuendigungen: number;
+  kundenEnde: number;
+  mrrEnde: number;
+  arr: number;                          // MRR at year end × 12
+  umsatz: number;                       // Sum of MRR
+  einzahlungen: number;
+  arpu: number;                         // MRR per subscriber at year end
+  churnEffektiv: number;                // % cancellations per subscriber month (blended)
+  ltv: number;                          // Customer lifetime value (gross margin)
+}
+
+export interface AboPlan {
+  monate: AboMonat[];
+  jahre: [AboJahr, AboJahr, AboJahr];
+  umsatzstrom: Umsatzstrom;             // For Umsatzplanung.umsatzstroeme
+  cac: number;
+  ltvCacRatio: number;                  // LTV Jahr 1 / CAC
+  cacAmortisationMonate: number;        // Months of gross margin to earn back the CAC
+  annahmen: string[];
+}
+
+// ============================================================================
+// Cohort Calculation
+// ============================================================================
+
+/**
+ * New subscribers of a month, the last given value continues
+ */
+function getNeukunden(neukunden: number[], index: number): Decimal {
+  if (neukunden.length === 0) return new Decimal(0);
+  return new Decimal(neukunden[Math.min(index, neukunden.length - 1)] ?? 0);
+}
+
+/**
+ * Build the subscriber base cohort by cohort for the 36 plan months
+ *
+ * A cohort of n subscribers signed in month s is still active in month m with
+ * n × (1 - churn)^(m - s). Annual subscribers cancel only at renewal, with the
+ * churn of twelve months. Upgrades apply to the active subscribers of a cohort.
+ */
+export function calculateAboKohorten(input: AboModellInput): AboPlan {
+  const preis = new Decimal(input.preisMonatlich);
+  const churn = new Decimal(input.churnRateMonatlich).dividedBy(100);
+  const churnJahresabo = new Decimal(1).minus(new Decimal(1).minus(churn).pow(12));
+  const upgradeRate = new Decimal(input.upgradeRateMonatlich ?? 0).dividedBy(100);
+  const aufpreis = new Decimal(input.upgradeAufpreisMonatlich ?? 0);
+  const jahresaboAnteil = new Decimal(input.jahresaboAnteil ?? 0).dividedBy(100);
+  const preisJahresabo = preis.times(new Decimal(1).minus(new Decimal(input.jahresaboRabatt ?? 0).dividedBy(100)));
+  const bruttomarge = new Decimal(input.bruttomarge ?? getBranchenBenchmark('saas').margen.rohertrag.wert).dividedBy(100);
+
+  const kohorten = Array.from({ length: LIQUIDITAET_PLANUNGSMONATE }, (_, index) => getNeukunden(input.neukunden, index));
+  const monate: AboMonat[] = [];
+  const kundenMonatsanfang: Decimal[] = [];
+  const kundenMonatsende: Decimal[] = [];
+  const kuendigungenJeMonat: Decimal[] = [];
+  const mrrJeMonat: Decimal[] = [];
+  const einzahlungenJeMonat: Decimal[] = [];
+
+  for (let monat = 0; monat < LIQUIDITAET_PLANUNGSMONATE; monat++) {
+    let monatlich = new Decimal(0);
+    let jaehrlich = new Decimal(0);
+    let kuendigungen = new Decimal(0);
+    let anfang = new Decimal(0);
+    let mrr = new Decimal(0);
+    let einzahlungen = new Decimal(0);
+
+    for (let start = 0; start <= monat; start++) {
+      const kohorte = kohorten[start] ?? new Decimal(0);
+      const alter = monat - start;
+
+      // Active subscribers of this cohort at the end of the month
+      const startMonatlich = kohorte.times(new Decimal(1).minus(jahresaboAnteil));
+      const startJaehrlich = kohorte.times(jahresaboAnteil);
+      const aktivMonatlich = startMonatlich.times(new Decimal(1).minus(churn).pow(alter));
+      const aktivJaehrlich = startJaehrlich.times(new Decimal(1).minus(churnJahresabo).pow(Math.floor(alter / 12)));
+
+      if (alter > 0) {
+        const vorherMonatlich = startMonatlich.times(new Decimal(1).minus(churn).pow(alter - 1));
+        const vorherJaehrlich = startJaehrlich.times(new Decimal(1).minus(churnJahresabo).pow(Math.floor((alter - 1) / 12)));
+        anfang = anfang.plus(vorherMonatlich).plus(vorherJaehrlich);
+        kuendigungen = kuendigungen.plus(vorherMonatlich.minus(aktivMonatlich)).plus(vorherJaehrlich.minus(aktivJaehrlich));
+      }
+
+      // Share of the cohort that has upgraded by now
+      const upgradeAnteil = new Decimal(1).minus(new Decimal(1).minus(upgradeRate).pow(alter));
+      const aufpreisKohorte = aktivMonatlich.plus(aktivJaehrlich).times(upgradeAnteil).times(aufpreis);
+
+      mrr = mrr.plus(aktivMonatlich.times(preis)).plus(aktivJaehrlich.times(preisJahresabo)).plus(aufpreisKohorte);
+
+      // Annual prepayment at signup and each renewal, surcharge billed monthly
+      einzahlungen = einzahlungen.plus(aktivMonatlich.times(preis)).plus(aufpreisKohorte);
+      if (alter % 12 === 0) {
+        einzahlungen = einzahlungen.plus(aktivJaehrlich.times(preisJahresabo).times(12));
+      }
+
+      monatlich = monatlich.plus(aktivMonatlich);
+      jaehrlich = jaehrlich.plus(aktivJaehrlich);
+    }
+
+    kundenMonatsanfang.push(anfang);
+    kundenMonatsende.push(monatlich.plus(jaehrlich));
+    kuendigungenJeMonat.push(kuendigungen);
+    mrrJeMonat.push(mrr);
+    einzahlungenJeMonat.push(einzahlungen);
+    monate.push({
+      monat: monat + 1,
+      neukunden: (kohorten[monat] ?? new Decimal(0)).toNumber(),
+      kuendigungen: kuendigungen.toDecimalPlaces(2).toNumber(),
+      kunden: monatlich.plus(jaehrlich).toDecimalPlaces(2).toNumber(),
+      kundenJahresabo: jaehrlich.toDecimalPlaces(2).toNumber(),
+      mrr: mrr.toDecimalPlaces(2).toNumber(),
+      einzahlungen: einzahlungen.toDecimalPlaces(2).toNumber(),
+    });
+  }
+
+  const jahre = ([1, 2, 3] as const).map(jahr => {
+    const ende = jahr * 12 - 1;
+    const summe = (werte: Decimal[]) =>
+      werte.slice((jahr - 1) * 12, jahr * 12).reduce((sum, wert) => sum.plus(wert), new Decimal(0));
+
+    const kundenEnde = kundenMonatsende[ende] ?? new Decimal(0);
+    const mrrEnde = mrrJeMonat[ende] ?? new Decimal(0);
+    const arpu = kundenEnde.gt(0) ? mrrEnde.dividedBy(kundenEnde) : preis;
+    const kundenmonate = summe(kundenMonatsanfang);
+    const churnEffektiv = kundenmonate.gt(0) ? summe(kuendigungenJeMonat).dividedBy(kundenmonate) : churn;
+    const lebensdauer = churnEffektiv.gt(0)
+      ? Decimal.min(new Decimal(1).dividedBy(churnEffektiv), MAX_KUNDENLEBENSDAUER_MONATE)
+      : new Decimal(MAX_KUNDENLEBENSDAUER_MONATE);
+
+    return {
+      jahr,
+      neukunden: summe(kohorten).toNumber(),
+      kuendigungen: summe(kuendigungenJeMonat).toDecimalPlaces(2).toNumber(),
+      kundenEnde: kundenEnde.toDecimalPlaces(2).toNumber(),
+      mrrEnde: mrrEnde.toDecimalPlaces(2).toNumber(),
+      arr: mrrEnde.times(12).toDecimalPlaces(2).toNumber(),
+      umsatz: summe(mrrJeMonat).toDecimalPlaces(2).toNumber(),
+      einzahlungen: summe(einzahlungenJeMonat).toDecimalPlaces(2).toNumber(),
+      arpu: arpu.toDecimalPlaces(2).toNumber(),
+      churnEffektiv: churnEffektiv.times(100).toDecimalPlaces(2).toNumber(),
+      ltv: arpu.times(bruttomarge).times(lebensdauer).toDecimalPlaces(2).toNumber(),
+    };
+  }) as [AboJahr, AboJahr, AboJahr];
+
+  // Umsatzstrom in Abo-Monaten at list price: preis × menge = MRR
+  const mengen = mrrJeMonat.map(mrr => preis.gt(0) ? mrr.dividedBy(preis) : new Decimal(0));
+  const mengeJahr = (jahr: 2 | 3) => mengen
+    .slice((jahr - 1) * 12, jahr * 12)
+    .reduce((sum, menge) => sum.plus(menge), new Decimal(0))
+    .toDecimalPlaces(2)
+    .toNumber();
+
+  const cac = new Decimal(input.cac);
+  const deckungsbeitragProKunde = (kundenMonatsende[11] ?? new Decimal(0)).gt(0)
+    ? (mrrJeMonat[11] ?? new Decimal(0)).dividedBy(kundenMonatsende[11] ?? 1).times(bruttomarge)
+    : preis.times(bruttomarge);
+
+  return {
+    monate,
+    jahre,
+    umsatzstrom: {
+      name: input.name,
+      typ: 'abo',
+      einheit: 'Abo-Monat',
+      preis: input.preisMonatlich,
+      mengeJahr1: mengen.slice(0, 12).map(menge => menge.toDecimalPlaces(2).toNumber()),
+      mengeJahr2: mengeJahr(2),
+      mengeJahr3: mengeJahr(3),
+      ...(input.ustSatz && { ustSatz: input.ustSatz }),
+    },
+    cac: cac.toNumber(),
+    ltvCacRatio: cac.gt(0) ? new Decimal(jahre[0].ltv).dividedBy(cac).toDecimalPlaces(2).toNumber() : 0,
+    cacAmortisationMonate: deckungsbeitragProKunde.gt(0)
+      ? cac.dividedBy(deckungsbeitragProKunde).toDecimalPlaces(1).toNumber()
+      : 0,
+    annahmen: [
+      `${input.churnRateMonatlich}% monatliche Kündigungsquote, Jahresabos kündigen nur zur Verlängerung`,
+      `${input.jahresaboAnteil ?? 0}% Jahresabos mit Vorauszahlung und ${input.jahresaboRabatt ?? 0}% Rabatt`,
+      `${input.upgradeRateMonatlich ?? 0}% Upgrades pro Monat mit €${input.upgradeAufpreisMonatlich ?? 0} Aufpreis`,
+      `Kundenakquisitionskosten (CAC) von €${input.cac} pro Neukunde`,
+      'Umsatz als MRR (Abo-Monate zum Listenpreis), Vorauszahlungen nur in den Einzahlungen',
+    ],
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check churn and unit economics against the Branchenbenchmarks
+ */
+export function validateAboModell(
+  plan: AboPlan,
+  input: AboModellInput,
+  industry: string = 'saas'
+): { isRealistic: boolean; warnings: string[]; recommendations: string[] } {
+  const warnings: string[] = [];
+  const recommendations: string[] = [];
+  const churnBenchmark = getBranchenBenchmark(industry).kennzahlen.churnMonatlich?.wert;
+
+  if (churnBenchmark && input.churnRateMonatlich < churnBenchmark.min) {
+    warnings.push(`Kündigungsquote von ${input.churnRateMonatlich}% liegt unter dem Branchenwert von ${churnBenchmark.min}-${churnBenchmark.max}%`);
+    recommendations.push('Kündigungsquote mit Daten aus Pilotkunden oder Vergleichsanbietern belegen');
+  }
+
+  if (plan.ltvCacRatio > 0 && plan.ltvCacRatio < 3) {
+    warnings.push(`LTV/CAC-Verhältnis von ${plan.ltvCacRatio} liegt unter dem Richtwert von 3`);
+    recommendations.push('Akquisitionskosten senken oder Kundenwert durch Upgrades und Jahresabos erhöhen');
+  }
+
+  if (plan.cacAmortisationMonate > 12) {
+    warnings.push(`Akquisitionskosten amortisieren sich erst nach ${plan.cacAmortisationMonate} Monaten`);
+  }
+
+  return {
+    isRealistic: warnings.length === 0,
+    warnings,
+    recommendations,
+  };
+}
+
+// ============================================================================
+// KPI Handover
+// ============================================================================
+
+function aboKpiDefinition(
+  name: string,
+  description: string,
+  formula: string,
+  unit: string,
+  category: KPIDefinition['category'],
+  trendDirection: KPIDefinition['trendDirection']
+): KPIDefinition {
+  return {
+    name,
+    description,
+    category,
+    formula,
+    unit,
+    frequency: 'monthly',
+    trendDirection,
+    dataSource: 'Abo-Verwaltung / Zahlungsanbieter',
+  };
+}
+
+/**
+ * Customer KPIs for the KPI module (CustomerKPIsSchema) from the Abo plan
+ */
+export function createAboCustomerKPIs(
+  plan: AboPlan
+): Pick<CustomerKPIs, 'neukunden' | 'kundenakquisitionskosten' | 'kundenwert' | 'churnRate'> {
+  const [jahr1, jahr2, jahr3] = plan.jahre;
+
+  return {
+    neukunden: {
+      definition: aboKpiDefinition('Neukunden', 'Neue Abonnenten pro Jahr', 'Summe der Neuabschlüsse', 'Anzahl', 'kundenakquise', 'up_good'),
+      targets: {
+        kpiName: 'Neukunden',
+        targetJahr1: jahr1.neukunden,
+        targetJahr2: jahr2.neukunden,
+        targetJahr3: jahr3.neukunden,
+        reasoning: 'Neuabschlüsse aus der Kohortenplanung',
+      },
+    },
+    kundenakquisitionskosten: {
+      definition: aboKpiDefinition('CAC', 'Kundenakquisitionskosten pro Neukunde', 'Marketing- und Vertriebskosten / Neukunden', 'EUR', 'kundenakquise', 'down_good'),
+      targets: {
+        kpiName: 'CAC',
+        targetJahr1: plan.cac,
+        targetJahr2: plan.cac,
+        targetJahr3: plan.cac,
+        reasoning: `LTV/CAC von ${plan.ltvCacRatio}, Amortisation nach ${plan.cacAmortisationMonate} Monaten`,
+      },
+    },
+    kundenwert: {
+      definition: aboKpiDefinition('LTV', 'Deckungsbeitrag pro Kunde über die Kundenlebensdauer', 'ARPU × Bruttomarge / Churn', 'EUR', 'kundenbindung', 'up_good'),
+      targets: {
+        kpiName: 'LTV',
+        targetJahr1: jahr1.ltv,
+        targetJahr2: jahr2.ltv,
+        targetJahr3: jahr3.ltv,
+        minimumAcceptable: new Decimal(plan.cac).times(3).toNumber(),
+        reasoning: 'Mindestens dreifache Kundenakquisitionskosten',
+      },
+    },
+    churnRate: {
+      definition: aboKpiDefinition('Churn Rate', 'Monatliche Kündigungsquote', 'Kündigungen / Abonnenten am Monatsanfang', '%', 'kundenbindung', 'down_good'),
+      targets: {
+        kpiName: 'Churn Rate',
+        targetJahr1: jahr1.churnEffektiv,
+        targetJahr2: jahr2.churnEffektiv,
+        targetJahr3: jahr3.churnEffektiv,
+        reasoning: 'Gemischte Quote aus Monats- und Jahresabos',
+      },
+    },
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  calculateAboKohorten,
+  validateAboModell,
+  createAboCustomerKPIs,
+};
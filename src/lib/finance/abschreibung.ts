@@ -0,0 +1,257 @@
+/**
+ * Abschreibungen (AfA) for Rentabilitätsvorschau
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Replaces the flat depreciation estimate with the German tax rules for
+ * the investments from the Kapitalbedarf.
+ *
+ * Includes:
+ * - Default useful lives from the official AfA-Tabellen by kategorie
+ * - GWG immediate write-off (≤ €800 net, §6 Abs. 2 EStG)
+ * - Sammelposten €250-1.000 net over 5 years (§6 Abs. 2a EStG)
+ * - Pro-rata temporis in the acquisition year (§7 Abs. 1 Satz 4 EStG)
+ * - Degressive AfA within the statutory periods, with switch to linear
+ * - Annual AfA for the three Rentabilität years
+ */
+
+import Decimal from 'decimal.js';
+import type { AfaMethodeType, Investition } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// ============================================================================
+// German Tax Rules
+// ============================================================================
+
+/**
+ * Default useful lives (years) from the AfA-Tabelle für allgemein verwendbare
+ * Anlagegüter (AV) and BMF-Schreiben vom 26.02.2021 (Computerhardware/Software)
+ */
+export const AFA_NUTZUNGSDAUER: Record<Investition['kategorie'], number> = {
+  anlagen: 10,       // Maschinen, Werkzeuge (allgemein)
+  ausstattung: 13,   // Büromöbel, Ladeneinrichtung
+  fahrzeuge: 6,      // PKW
+  it: 1,             // Computerhardware und Software
+  sonstiges: 5,
+};
+
+export const GWG_GRENZE = 800;                 // €800 net - immediate write-off
+export const SAMMELPOSTEN_UNTERGRENZE = 250;   // Up to €250 net always immediate expense
+export const SAMMELPOSTEN_OBERGRENZE = 1000;
+export const SAMMELPOSTEN_JAHRE = 5;
+
+/**
+ * Periods in which degressive AfA is allowed for movable assets
+ * (acquisition month inclusive, satz = max. % of book value, faktor = max. × linear rate)
+ */
+export const DEGRESSIVE_AFA_ZEITRAEUME = [
+  { von: { jahr: 2020, monat: 1 }, bis: { jahr: 2022, monat: 12 }, satz: 25, faktor: 2.5 },  // Corona-Steuerhilfegesetz
+  { von: { jahr: 2024, monat: 4 }, bis: { jahr: 2024, monat: 12 }, satz: 20, faktor: 2 },    // Wachstumschancengesetz
+  { von: { jahr: 2025, monat: 7 }, bis: { jahr: 2027, monat: 12 }, satz: 30, faktor: 3 },    // Investitionssofortprogramm
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AfaConfig {
+  sammelposten?: boolean;              // Wahlrecht: Sammelposten for €250-1.000 instead of GWG up to €800
+  planStart?: { jahr: number; monat: number }; // Calendar month of plan month 1 (without: no degressive AfA)
+}
+
+export interface AfaPosition {
+  name: string;
+  kategorie: Investition['kategorie'];
+  betrag: number;
+  methode: AfaMethodeType;
+  nutzungsdauer: number;               // Years
+  anschaffungsmonat: number;           // Plan month
+  jahre: [number, number, number];     // AfA per Rentabilität year
+  restbuchwert: number;                // Book value after year 3
+}
+
+export interface AfaPlan {
+  positionen: AfaPosition[];
+  jahre: [number, number, number];     // Total AfA per year → RentabilitaetJahr.abschreibungen
+  gwgSumme: number;                    // Written off immediately
+  sammelpostenSumme: number;
+  hinweise: string[];
+}
+
+// ============================================================================
+// Method Selection
+// ============================================================================
+
+/**
+ * Calendar month of plan month 1 from the planned start date (ISO, e.g. "2026-03-01")
+ */
+export function getPlanStart(plannedStartDate?: string): { jahr: number; monat: number } | undefined {
+  const match = plannedStartDate?.match(/^(\d{4})-(\d{2})/);
+  const monat = Number(match?.[2]);
+  if (!match || monat < 1 || monat > 12) return undefined;
+
+  return { jahr: Number(match[1]), monat };
+}
+
+/**
+ * Calendar month of a plan month
+ */
+function toKalendermonat(planStart: { jahr: number; monat: number }, planMonat: number): { jahr: number; monat: number } {
+  const index = planStart.jahr * 12 + (planStart.monat - 1) + (planMonat - 1);
+  return { jahr: Math.floor(index / 12), monat: (index % 12) + 1 };
+}
+
+/**
+ * Degressive AfA rate (%) for an acquisition month, undefined if not allowed
+ */
+export function getDegressiverSatz(
+  anschaffung: { jahr: number; monat: number },
+  nutzungsdauer: number
+): number | undefined {
+  const datum = anschaffung.jahr * 12 + anschaffung.monat;
+  const zeitraum = DEGRESSIVE_AFA_ZEITRAEUME.find(z =>
+    datum >= z.von.jahr * 12 + z.von.monat && datum <= z.bis.jahr * 12 + z.bis.monat
+  );
+  if (!zeitraum || nutzungsdauer <= 0) return undefined;
+
+  return Decimal.min(zeitraum.satz, new Decimal(zeitraum.faktor).times(100).dividedBy(nutzungsdauer)).toNumber();
+}
+
+/**
+ * Determine the AfA method from the net amount and the Wahlrecht
+ */
+export function getAfaMethode(investition: Investition, sammelposten: boolean = false): AfaMethodeType {
+  const betrag = investition.betrag;
+
+  if (betrag <= SAMMELPOSTEN_UNTERGRENZE) return 'gwg';
+  if (sammelposten) {
+    if (betrag <= SAMMELPOSTEN_OBERGRENZE) return 'sammelposten';
+  } else if (betrag <= GWG_GRENZE) {
+    return 'gwg';
+  }
+
+  return investition.afaMethode ?? 'linear';
+}
+
+// ============================================================================
+// AfA Calculation
+// ============================================================================
+
+/**
+ * Annual AfA of one investment for the three plan years
+ */
+export function calculateAfaPosition(investition: Investition, config: AfaConfig = {}): AfaPosition {
+  const nutzungsdauer = investition.nutzungsdauer || AFA_NUTZUNGSDAUER[investition.kategorie];
+  const anschaffungsmonat = Math.min(36, Math.max(1, Math.round(investition.anschaffungsmonat ?? 1)));
+  const anschaffungsjahr = Math.floor((anschaffungsmonat - 1) / 12);
+  const monatImJahr = ((anschaffungsmonat - 1) % 12) + 1;
+
+  let methode = getAfaMethode(investition, config.sammelposten);
+  // The statutory periods need a calendar month - without a plan start the result would depend on today
+  const degressiverSatz = methode === 'degressiv' && config.planStart
+    ? getDegressiverSatz(toKalendermonat(config.planStart, anschaffungsmonat), nutzungsdauer)
+    : undefined;
+  if (methode === 'degressiv' && degressiverSatz === undefined) methode = 'linear';
+
+  const betrag = new Decimal(investition.betrag);
+  let restwert = betrag;
+  let restlaufzeitMonate = new Decimal(nutzungsdauer).times(12);
+  const jahre: number[] = [];
+
+  for (let jahr = 0; jahr < 3; jahr++) {
+    if (jahr < anschaffungsjahr || restwert.lte(0)) {
+      jahre.push(0);
+      continue;
+    }
+
+    let afa: Decimal;
+    if (methode === 'gwg') {
+      afa = restwert;
+    } else if (methode === 'sammelposten') {
+      afa = betrag.dividedBy(SAMMELPOSTEN_JAHRE);
+    } else {
+      // Pro rata temporis: full months from the acquisition month
+      const monate = jahr === anschaffungsjahr ? 13 - monatImJahr : 12;
+      const linear = restlaufzeitMonate.lte(monate)
+        ? restwert
+        : restwert.times(monate).dividedBy(restlaufzeitMonate);
+      // Degressive until linear on the remaining life is higher (§7 Abs. 3 EStG)
+      afa = degressiverSatz !== undefined
+        ? Decimal.max(linear, restwert.times(degressiverSatz).dividedBy(100).times(monate).dividedBy(12))
+        : linear;
+      restlaufzeitMonate = restlaufzeitMonate.minus(monate);
+    }
+
+    afa = Decimal.min(restwert, afa.toDecimalPlaces(2));
+    restwert = restwert.minus(afa);
+    jahre.push(afa.toNumber());
+  }
+
+  return {
+    name: investition.name,
+    kategorie: investition.kategorie,
+    betrag: investition.betrag,
+    methode,
+    nutzungsdauer: methode === 'sammelposten' ? SAMMELPOSTEN_JAHRE : methode === 'gwg' ? 1 : nutzungsdauer,
+    anschaffungsmonat,
+    jahre: jahre as [number, number, number],
+    restbuchwert: restwert.toNumber(),
+  };
+}
+
+/**
+ * AfA plan for all investments of the Kapitalbedarf
+ */
+export function calculateAfaPlan(investitionen: Investition[], config: AfaConfig = {}): AfaPlan {
+  const positionen = investitionen.map(investition => calculateAfaPosition(investition, config));
+  const hinweise: string[] = [];
+
+  investitionen.forEach((investition, index) => {
+    if (investition.afaMethode === 'degressiv' && positionen[index]?.methode === 'linear'
+      && investition.betrag > (config.sammelposten ? SAMMELPOSTEN_OBERGRENZE : GWG_GRENZE)) {
+      hinweise.push(config.planStart
+        ? `${investition.name}: Degressive AfA zum Anschaffungszeitpunkt nicht zulässig - lineare AfA angesetzt`
+        : `${investition.name}: Degressive AfA ohne geplanten Starttermin nicht prüfbar - lineare AfA angesetzt`);
+    }
+  });
+
+  const summe = (methode: AfaMethodeType) => positionen
+    .filter(position => position.methode === methode)
+    .reduce((sum, position) => sum.plus(position.betrag), new Decimal(0))
+    .toNumber();
+
+  const jahre = [0, 1, 2].map(jahr => positionen
+    .reduce((sum, position) => sum.plus(position.jahre[jahr] ?? 0), new Decimal(0))
+    .toNumber()
+  ) as [number, number, number];
+
+  return {
+    positionen,
+    jahre,
+    gwgSumme: summe('gwg'),
+    sammelpostenSumme: summe('sammelposten'),
+    hinweise,
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  AFA_NUTZUNGSDAUER,
+  getDegressiverSatz,
+  getAfaMethode,
+  calculateAfaPosition,
+  calculateAfaPlan,
+};
@@ -0,0 +1,514 @@
+/**
+ * Bank Statement Import (CAMT.053 / MT940 / CSV)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Founders already have their spending history in online banking - instead
+ * of asking for every number in chat, the statement is parsed, categorized
+ * and the monthly averages are proposed for confirmation.
+ *
+ * Includes:
+ * - Parsers for CAMT.053 XML, MT940 and German bank CSV exports (Sparkasse, DKB, ING)
+ * - Keyword categorization into Privatentnahme categories or Kostenkategorien
+ * - Monthly averages as proposal for the Privatentnahme and the Kostenplanung
+ *
+ * Files must be decoded before parsing (Sparkasse CSV exports are ISO-8859-1).
+ */
+
+import Decimal from 'decimal.js';
+import type { KostenkategorieType, Privatentnahme } from '@/types/modules/finanzplanung';
+import type { KostenpositionInput } from './kostenplanung';
+import { calculatePrivatentnahme } from './privatentnahme';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// Fewer months do not show recurring payments (insurance, quarterly bills)
+const MINDEST_MONATE = 3;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BankFormat = 'camt053' | 'mt940' | 'csv';
+
+export type KontoArt = 'privat' | 'geschaeftlich';
+
+export type PrivatentnahmeKategorie =
+  | 'miete'
+  | 'lebensmittel'
+  | 'versicherungen'
+  | 'mobilitaet'
+  | 'kommunikation'
+  | 'sonstigeAusgaben'
+  | 'sparrate';
+
+export interface BankUmsatz {
+  datum: string;                       // Booking date (YYYY-MM-DD)
+  betrag: number;                      // Negative for debits
+  gegenpartei: string;                 // Payee or payer
+  verwendungszweck: string;
+}
+
+export interface KategorisierterUmsatz extends BankUmsatz {
+  bereich: 'privat' | 'betrieb' | 'einnahme' | 'intern' | 'unbekannt';
+  kategorie?: PrivatentnahmeKategorie | KostenkategorieType;
+}
+
+export interface BankImportVorschlag {
+  konto: KontoArt;
+  von: string;
+  bis: string;
+  monate: number;
+  privatentnahme: Record<PrivatentnahmeKategorie, number>;        // Monthly averages (private account)
+  kosten: Partial<Record<KostenkategorieType, number>>;           // Monthly averages (business account)
+  einnahmenMonatlich: number;
+  nichtZugeordnet: KategorisierterUmsatz[];                        // Proposed as sonstige, founder should check
+  hinweise: string[];
+}
+
+// ============================================================================
+// Parsing Utilities
+// ============================================================================
+
+/**
+ * Parse German amounts: "-1.234,56", "1.234", "1234,56 €", "1,234.56" (ING English export)
+ *
+ * Returns null for values that are not an amount (e.g. "n/a"), so the
+ * parsers can skip the booking instead of failing the whole import.
+ */
+function parseBetrag(wert: string): number | null {
+  const bereinigt = wert.replace(/[€\s]|EUR/g, '');
+  let normalisiert: string;
+  if (/,\d{1,2}$/.test(bereinigt)) {
+    normalisiert = bereinigt.replace(/\./g, '').replace(',', '.');
+  } else if (/^[-+]?\d{1,3}(\.\d{3})+$/.test(bereinigt)) {
+    // Dots without decimal comma are thousands separators: "1.234" = 1234 €
+    normalisiert = bereinigt.replace(/\./g, '');
+  } else {
+    normalisiert = bereinigt.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(normalisiert)) {
+    return null;
+  }
+  return new Decimal(normalisiert).toNumber();
+}
+
+/**
+ * Parse German dates (DD.MM.YYYY, DD.MM.YY) and ISO dates to YYYY-MM-DD
+ */
+function parseDatum(wert: string): string {
+  const iso = wert.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const deutsch = wert.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{2,4})$/);
+  if (!deutsch) return '';
+
+  const [, tag = '', monat = '', jahr = ''] = deutsch;
+  const jahrVoll = jahr.length === 2 ? `20${jahr}` : jahr;
+  return `${jahrVoll}-${monat.padStart(2, '0')}-${tag.padStart(2, '0')}`;
+}
+
+function decodeXml(wert: string): string {
+  return wert
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Content of the first matching XML element (namespaces ignored)
+ */
+function xmlWert(xml: string, tag: string): string | undefined {
+  const treffer = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return treffer?.[1] !== undefined ? decodeXml(treffer[1]) : undefined;
+}
+
+function xmlWerte(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), treffer => decodeXml(treffer[1] ?? ''));
+}
+
+// ============================================================================
+// Format Parsers
+// ============================================================================
+
+/**
+ * Detect the statement format from the file content
+ */
+export function detectBankFormat(inhalt: string): BankFormat {
+  if (/<(?:\w+:)?Document[\s>]/.test(inhalt) && /camt\.05[23]/.test(inhalt)) return 'camt053';
+  if (/^:20:/m.test(inhalt) && /^:61:/m.test(inhalt)) return 'mt940';
+  return 'csv';
+}
+
+/**
+ * CAMT.053 (ISO 20022 Kontoauszug) - one <Ntry> per booking
+ */
+export function parseCamt053(xml: string): BankUmsatz[] {
+  return xmlWerte(xml, 'Ntry').flatMap(eintrag => {
+    const betrag = parseBetrag(xmlWert(eintrag, 'Amt') ?? '');
+    if (betrag === null) return [];
+
+    const soll = xmlWert(eintrag, 'CdtDbtInd') === 'DBIT';
+    const buchungstag = xmlWert(eintrag, 'BookgDt') ?? '';
+
+    // Debit: the creditor is the counterparty, credit: the debtor
+    const partei = xmlWert(eintrag, soll ? 'Cdtr' : 'Dbtr') ?? '';
+
+    return [{
+      datum: parseDatum(xmlWert(buchungstag, 'Dt') ?? xmlWert(buchungstag, 'DtTm') ?? ''),
+      betrag: soll ? -betrag : betrag,
+      gegenpartei: xmlWert(partei, 'Nm') ?? '',
+      verwendungszweck: xmlWerte(eintrag, 'Ustrd').join(' '),
+    }];
+  });
+}
+
+/**
+ * MT940 (SWIFT) - :61: booking line followed by the :86: details
+ *
+ * German banks structure :86: with ?-subfields: ?20-?29 and ?60-?63 hold
+ * the Verwendungszweck, ?32/?33 the name of the counterparty.
+ */
+export function parseMt940(text: string): BankUmsatz[] {
+  const umsaetze: BankUmsatz[] = [];
+  const felder = text.replace(/\r\n/g, '\n').split(/\n(?=:\d{2}[A-Z]?:)/);
+
+  felder.forEach((feld, index) => {
+    const buchung = feld.match(/^:61:(\d{2})(\d{2})(\d{2})(?:\d{4})?(R?[CD])[A-Z]?(\d+,\d*)/);
+    if (!buchung) return;
+
+    const [, jahr, monat, tag, kennung = 'C', betragText = '0'] = buchung;
+    const betrag = parseBetrag(betragText);
+    if (betrag === null) return;
+    // D and RC (reversal of a credit) reduce the balance
+    const soll = kennung === 'D' || kennung === 'RC';
+
+    const naechstesFeld = felder[index + 1] ?? '';
+    const details = naechstesFeld.startsWith(':86:') ? naechstesFeld.slice(4).replace(/\n/g, '') : '';
+    const unterfelder = new Map<string, string>();
+    details.split('?').slice(1).forEach(unterfeld => {
+      const code = unterfeld.slice(0, 2);
+      unterfelder.set(code, (unterfelder.get(code) ?? '') + unterfeld.slice(2));
+    });
+
+    const zweckCodes = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63'];
+    const verwendungszweck = unterfelder.size > 0
+      ? zweckCodes.map(code => unterfelder.get(code) ?? '').join('').trim()
+      : details.trim();
+
+    umsaetze.push({
+      datum: `20${jahr}-${monat}-${tag}`,
+      betrag: soll ? -betrag : betrag,
+      gegenpartei: `${unterfelder.get('32') ?? ''}${unterfelder.get('33') ?? ''}`.trim(),
+      verwendungszweck,
+    });
+  });
+
+  return umsaetze;
+}
+
+// Column names of the common German CSV exports (lowercase)
+const CSV_SPALTEN = {
+  datum: ['buchungstag', 'buchungsdatum', 'buchung', 'datum'],
+  betrag: ['betrag', 'betrag (eur)', 'betrag (€)', 'umsatz in eur'],
+  empfaenger: ['zahlungsempfänger*in', 'beguenstigter/zahlungspflichtiger', 'begünstigter/zahlungspflichtiger', 'auftraggeber / begünstigter', 'auftraggeber/empfänger', 'empfänger', 'name'],
+  zahlungspflichtiger: ['zahlungspflichtige*r'],
+  buchungstext: ['buchungstext', 'umsatztyp'],
+  verwendungszweck: ['verwendungszweck'],
+};
+
+function splitCsvZeile(zeile: string, trenner: string): string[] {
+  const werte: string[] = [];
+  let aktuell = '';
+  let inAnfuehrung = false;
+
+  for (let i = 0; i < zeile.length; i++) {
+    const zeichen = zeile[i];
+    if (zeichen === '"') {
+      if (inAnfuehrung && zeile[i + 1] === '"') {
+        aktuell += '"';
+        i++;
+      } else {
+        inAnfuehrung = !inAnfuehrung;
+      }
+    } else if (zeichen === trenner && !inAnfuehrung) {
+      werte.push(aktuell.trim());
+      aktuell = '';
+    } else {
+      aktuell += zeichen;
+    }
+  }
+  werte.push(aktuell.trim());
+
+  return werte;
+}
+
+/**
+ * German bank CSV exports (Sparkasse, DKB, ING and similar layouts)
+ *
+ * Metadata lines before the header (DKB, ING) are skipped - the header is
+ * the first line with a date and an amount column.
+ */
+export function parseBankCsv(text: string): BankUmsatz[] {
+  const zeilen = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(zeile => zeile.trim() !== '');
+  const trenner = (zeilen[0]?.split(';').length ?? 0) >= (zeilen[0]?.split(',').length ?? 0) ? ';' : ',';
+
+  const findeSpalte = (kopf: string[], namen: string[]) =>
+    namen.map(name => kopf.indexOf(name)).find(index => index >= 0) ?? -1;
+
+  const kopfIndex = zeilen.findIndex(zeile => {
+    const kopf = splitCsvZeile(zeile, trenner).map(spalte => spalte.toLowerCase());
+    return findeSpalte(kopf, CSV_SPALTEN.datum) >= 0 && findeSpalte(kopf, CSV_SPALTEN.betrag) >= 0;
+  });
+  if (kopfIndex < 0) return [];
+
+  const kopf = splitCsvZeile(zeilen[kopfIndex] ?? '', trenner).map(spalte => spalte.toLowerCase());
+  const spalte = {
+    datum: findeSpalte(kopf, CSV_SPALTEN.datum),
+    betrag: findeSpalte(kopf, CSV_SPALTEN.betrag),
+    empfaenger: findeSpalte(kopf, CSV_SPALTEN.empfaenger),
+    zahlungspflichtiger: findeSpalte(kopf, CSV_SPALTEN.zahlungspflichtiger),
+    buchungstext: findeSpalte(kopf, CSV_SPALTEN.buchungstext),
+    verwendungszweck: findeSpalte(kopf, CSV_SPALTEN.verwendungszweck),
+  };
+
+  return zeilen.slice(kopfIndex + 1).flatMap(zeile => {
+    const werte = splitCsvZeile(zeile, trenner);
+    const datum = parseDatum(werte[spalte.datum] ?? '');
+    if (!datum) return [];
+
+    // Rows without a valid amount (e.g. "n/a" for pending bookings) are skipped
+    const betrag = parseBetrag(werte[spalte.betrag] ?? '');
+    if (betrag === null) return [];
+
+    // DKB lists payer and payee separately
+    const parteiSpalte = betrag > 0 && spalte.zahlungspflichtiger >= 0 ? spalte.zahlungspflichtiger : spalte.empfaenger;
+    const verwendungszweck = [werte[spalte.buchungstext], werte[spalte.verwendungszweck]]
+      .filter(wert => wert)
+      .join(' ');
+
+    return [{
+      datum,
+      betrag,
+      gegenpartei: werte[parteiSpalte] ?? '',
+      verwendungszweck,
+    }];
+  });
+}
+
+/**
+ * Parse a bank statement in any supported format
+ */
+export function parseBankumsaetze(inhalt: string, format: BankFormat = detectBankFormat(inhalt)): BankUmsatz[] {
+  switch (format) {
+    case 'camt053':
+      return parseCamt053(inhalt);
+    case 'mt940':
+      return parseMt940(inhalt);
+    default:
+      return parseBankCsv(inhalt);
+  }
+}
+
+// ============================================================================
+// Categorization
+// ============================================================================
+
+// Keywords in counterparty or Verwendungszweck (lowercase, first match wins)
+const PRIVAT_REGELN: { kategorie: PrivatentnahmeKategorie; stichworte: string[] }[] = [
+  { kategorie: 'versicherungen', stichworte: ['versicherung', 'allianz', 'huk-coburg', 'ergo', 'axa', 'debeka', 'krankenkasse', 'aok', 'barmer', 'techniker'] },
+  { kategorie: 'miete', stichworte: ['miete', 'nebenkosten', 'hausverwaltung', 'wohnungsbau', 'stadtwerke', 'strom', 'rundfunkbeitrag'] },
+  { kategorie: 'lebensmittel', stichworte: ['rewe', 'edeka', 'aldi', 'lidl', 'netto', 'penny', 'kaufland', 'rossmann', 'dm-drogerie', 'supermarkt', 'baeckerei', 'bäckerei'] },
+  { kategorie: 'mobilitaet', stichworte: ['tankstelle', 'aral', 'shell', 'esso', 'deutsche bahn', 'db vertrieb', 'bvg', 'mvg', 'hvv', 'deutschlandticket', 'kfz', 'parken'] },
+  { kategorie: 'kommunikation', stichworte: ['telekom', 'vodafone', 'telefonica', 'o2', '1&1', 'congstar', 'mobilfunk', 'internet'] },
+  { kategorie: 'sparrate', stichworte: ['sparplan', 'tagesgeld', 'bausparkasse', 'depot', 'sparbuch'] },
+];
+
+const BETRIEB_REGELN: { kategorie: KostenkategorieType; stichworte: string[] }[] = [
+  { kategorie: 'steuern', stichworte: ['finanzamt', 'steuer'] },
+  { kategorie: 'personal', stichworte: ['lohn', 'gehalt', 'minijob-zentrale', 'knappschaft'] },
+  { kategorie: 'versicherung', stichworte: ['versicherung', 'berufshaftpflicht', 'berufsgenossenschaft'] },
+  { kategorie: 'miete', stichworte: ['miete', 'büro', 'buero', 'coworking'] },
+  { kategorie: 'marketing', stichworte: ['google ads', 'meta platforms', 'facebook', 'linkedin', 'werbung', 'druckerei'] },
+  { kategorie: 'material', stichworte: ['großhandel', 'grosshandel', 'metro', 'wareneinkauf', 'material'] },
+  { kategorie: 'zinsen', stichworte: ['zinsen', 'sollzins'] },
+];
+
+const INTERN_STICHWORTE = ['umbuchung', 'übertrag', 'uebertrag', 'eigene überweisung'];
+
+/**
+ * Assign one booking to a Privatentnahme category or Kostenkategorie
+ */
+export function categorizeBankumsatz(umsatz: BankUmsatz, konto: KontoArt = 'privat'): KategorisierterUmsatz {
+  const text = `${umsatz.gegenpartei} ${umsatz.verwendungszweck}`.toLowerCase();
+  const passt = (stichworte: string[]) => stichworte.some(stichwort => text.includes(stichwort));
+
+  if (passt(INTERN_STICHWORTE)) return { ...umsatz, bereich: 'intern' };
+  if (umsatz.betrag > 0) return { ...umsatz, bereich: 'einnahme' };
+
+  if (konto === 'geschaeftlich') {
+    const regel = BETRIEB_REGELN.find(kandidat => passt(kandidat.stichworte));
+    return regel
+      ? { ...umsatz, bereich: 'betrieb', kategorie: regel.kategorie }
+      : { ...umsatz, bereich: 'unbekannt', kategorie: 'sonstige' };
+  }
+
+  const regel = PRIVAT_REGELN.find(kandidat => passt(kandidat.stichworte));
+  return regel
+    ? { ...umsatz, bereich: 'privat', kategorie: regel.kategorie }
+    : { ...umsatz, bereich: 'unbekannt', kategorie: 'sonstigeAusgaben' };
+}
+
+// ============================================================================
+// Proposal
+// ============================================================================
+
+/**
+ * Calendar months covered by the bookings (first to last month, inclusive)
+ */
+function countMonate(von: string, bis: string): number {
+  if (!von || !bis) return 0;
+  const [vonJahr = 0, vonMonat = 0] = von.split('-').map(Number);
+  const [bisJahr = 0, bisMonat = 0] = bis.split('-').map(Number);
+  return (bisJahr - vonJahr) * 12 + (bisMonat - vonMonat) + 1;
+}
+
+/**
+ * Monthly averages per category as proposal for the founder
+ *
+ * Bookings without a matching rule are proposed as sonstige and listed in
+ * nichtZugeordnet, so the founder can confirm or move them.
+ */
+export function createBankImportVorschlag(umsaetze: BankUmsatz[], konto: KontoArt = 'privat'): BankImportVorschlag {
+  const kategorisiert = umsaetze
+    .filter(umsatz => umsatz.datum)
+    .map(umsatz => categorizeBankumsatz(umsatz, konto));
+  const daten = kategorisiert.map(umsatz => umsatz.datum).sort();
+  const von = daten[0] ?? '';
+  const bis = daten[daten.length - 1] ?? '';
+  const monate = countMonate(von, bis);
+
+  const summen = new Map<string, Decimal>();
+  kategorisiert
+    .filter(umsatz => umsatz.kategorie && (umsatz.bereich === 'privat' || umsatz.bereich === 'betrieb' || umsatz.bereich === 'unbekannt'))
+    .forEach(umsatz => {
+      const kategorie = umsatz.kategorie as string;
+      summen.set(kategorie, (summen.get(kategorie) ?? new Decimal(0)).plus(new Decimal(umsatz.betrag).abs()));
+    });
+
+  const durchschnitt = (summe: Decimal | undefined) =>
+    monate > 0 ? (summe ?? new Decimal(0)).dividedBy(monate).toDecimalPlaces(2).toNumber() : 0;
+
+  const privatKategorien: PrivatentnahmeKategorie[] = [
+    'miete', 'lebensmittel', 'versicherungen', 'mobilitaet', 'kommunikation', 'sonstigeAusgaben', 'sparrate',
+  ];
+  const privatentnahme = Object.fromEntries(
+    privatKategorien.map(kategorie => [kategorie, konto === 'privat' ? durchschnitt(summen.get(kategorie)) : 0])
+  ) as Record<PrivatentnahmeKategorie, number>;
+
+  const kosten: Partial<Record<KostenkategorieType, number>> = {};
+  if (konto === 'geschaeftlich') {
+    summen.forEach((summe, kategorie) => {
+      kosten[kategorie as KostenkategorieType] = durchschnitt(summe);
+    });
+  }
+
+  const einnahmen = kategorisiert
+    .filter(umsatz => umsatz.bereich === 'einnahme')
+    .reduce((summe, umsatz) => summe.plus(umsatz.betrag), new Decimal(0));
+  const nichtZugeordnet = kategorisiert.filter(umsatz => umsatz.bereich === 'unbekannt');
+
+  const hinweise: string[] = [];
+  if (monate < MINDEST_MONATE) {
+    hinweise.push(`Nur ${monate} Monat(e) importiert - mindestens ${MINDEST_MONATE} Monate zeigen auch quartalsweise Zahlungen`);
+  }
+  if (nichtZugeordnet.length > 0) {
+    hinweise.push(`${nichtZugeordnet.length} Umsätze nicht zugeordnet - bitte prüfen (vorläufig unter Sonstiges)`);
+  }
+
+  return {
+    konto,
+    von,
+    bis,
+    monate,
+    privatentnahme,
+    kosten,
+    einnahmenMonatlich: durchschnitt(einnahmen),
+    nichtZugeordnet,
+    hinweise,
+  };
+}
+
+/**
+ * Privatentnahme from the confirmed proposal (founder corrections override)
+ */
+export function applyPrivatentnahmeVorschlag(
+  vorschlag: BankImportVorschlag,
+  korrekturen: Partial<Record<PrivatentnahmeKategorie, number>> = {},
+  sozialversicherung?: number
+): Privatentnahme {
+  const werte = { ...vorschlag.privatentnahme, ...korrekturen };
+
+  return calculatePrivatentnahme({
+    ...werte,
+    ...(sozialversicherung !== undefined && { sozialversicherung }),
+  });
+}
+
+/**
+ * Cost positions for calculateKostenplanung from a business account proposal
+ *
+ * Material follows the revenue (variable share of the imported income),
+ * all other categories are fixed costs.
+ */
+export function createKostenpositionenVorschlag(vorschlag: BankImportVorschlag): KostenpositionInput[] {
+  return (Object.entries(vorschlag.kosten) as [KostenkategorieType, number][])
+    .filter(([, betrag]) => betrag > 0)
+    .map(([kategorie, betrag]) => {
+      if (kategorie === 'material' && vorschlag.einnahmenMonatlich > 0) {
+        return {
+          name: 'Bankimport: material',
+          kategorie,
+          fixOderVariabel: 'variabel' as const,
+          variablerAnteil: new Decimal(betrag).dividedBy(vorschlag.einnahmenMonatlich).times(100).toDecimalPlaces(1).toNumber(),
+        };
+      }
+
+      return {
+        name: `Bankimport: ${kategorie}`,
+        kategorie,
+        fixOderVariabel: 'fix' as const,
+        betragMonatlich: betrag,
+      };
+    });
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  detectBankFormat,
+  parseCamt053,
+  parseMt940,
+  parseBankCsv,
+  parseBankumsaetze,
+  categorizeBankumsatz,
+  createBankImportVorschlag,
+  applyPrivatentnahmeVorschlag,
+  createKostenpositionenVorschlag,
+};
@@ -0,0 +1,535 @@
+/**
+ * Branchenbenchmarks - central registry for all Finanzplanung calculators
+ *
+ * CRITICAL: Every benchmark value carries its source and validity year.
+ * Calculators and validators read benchmarks only from this registry,
+ * so updating a benchmark is a single data change.
+ *
+ * Includes:
+ * - One entry per DetailedBusinessTypeId (15 business types) plus a default
+ * - Margins, Deckungsbeitrag and break-even months
+ * - Cost ratios per Kostenkategorie (% of revenue)
+ * - Seasonality per quarter, growth rates and typical Stundensätze
+ * - Payment terms (customers and suppliers)
+ * - Legacy keys (ecommerce, services, ...) and intake categories resolved to the registry ids
+ */
+
+import { DetailedBusinessTypeId } from '@/lib/business-types';
+import type { KostenkategorieType } from '@/types/modules/finanzplanung';
+import type { BusinessCategory as IntakeBusinessCategory } from '@/types/modules/intake';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const BENCHMARK_VERSION = '2025.1';
+
+export interface BenchmarkQuelle {
+  quelle: string;                      // Publication the value is taken from
+  gueltigJahr: number;                 // Reference year of the value
+}
+
+export interface BenchmarkWert<T> extends BenchmarkQuelle {
+  wert: T;
+}
+
+export interface BenchmarkSpanne {
+  min: number;
+  max: number;
+  typisch: number;
+}
+
+export interface BranchenBenchmark {
+  id: DetailedBusinessTypeId | 'default';
+  margen: {
+    rohertrag: BenchmarkWert<number>;          // % of revenue
+    betriebsergebnis: BenchmarkWert<number>;   // % of revenue
+    umsatzrendite: BenchmarkWert<number>;      // % of revenue after tax
+  };
+  deckungsbeitrag: BenchmarkWert<number>;      // % of revenue
+  breakEven: {
+    mindestUmsatzMonatlich: BenchmarkWert<number>;
+    maxMonate: BenchmarkWert<number>;
+  };
+  kostenquoten: Partial<Record<KostenkategorieType, BenchmarkWert<BenchmarkSpanne>>>; // % of revenue
+  pflichtkategorien: KostenkategorieType[];    // Cost categories expected in every plan of this type
+  kennzahlen: Record<string, BenchmarkWert<BenchmarkSpanne>>; // Stundensatz, Auslastung, Warenkorb, ...
+  wachstum: BenchmarkWert<{ jahr1to2: number; jahr2to3: number }>; // % per year
+  saisonalitaet: BenchmarkWert<{
+    quartale: [number, number, number, number];
+    beschreibung: string;
+  }>;
+  zahlungsziele: BenchmarkWert<{
+    kundenTage: number;
+    lieferantenTage: number;
+  }>;
+  tipps: string[];
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+const QUELLEN = {
+  bdu: { quelle: 'BDU Facts & Figures zum Beratermarkt', gueltigJahr: 2024 },
+  datev: { quelle: 'DATEV Branchenkennzahlen (Kleinbetriebe)', gueltigJahr: 2023 },
+  destatisDienstleistung: { quelle: 'Statistisches Bundesamt, Strukturerhebung im Dienstleistungsbereich', gueltigJahr: 2022 },
+  destatisHandel: { quelle: 'Statistisches Bundesamt, Jahresstatistik im Handel', gueltigJahr: 2022 },
+  destatisGastgewerbe: { quelle: 'Statistisches Bundesamt, Jahresstatistik im Gastgewerbe', gueltigJahr: 2022 },
+  hde: { quelle: 'HDE Online-Monitor', gueltigJahr: 2024 },
+  zdh: { quelle: 'ZDH Betriebsvergleich Handwerk', gueltigJahr: 2023 },
+  dehoga: { quelle: 'DEHOGA Zahlenspiegel', gueltigJahr: 2024 },
+  bitkom: { quelle: 'Bitkom Marktdaten ITK', gueltigJahr: 2024 },
+  freelancermap: { quelle: 'freelancermap Freelancer-Kompass', gueltigJahr: 2024 },
+  intrum: { quelle: 'Intrum European Payment Report', gueltigJahr: 2024 },
+  kfw: { quelle: 'KfW-Gründungsmonitor', gueltigJahr: 2024 },
+  planung: { quelle: 'Planungsannahme GZ Businessplan Generator', gueltigJahr: 2025 },
+} satisfies Record<string, BenchmarkQuelle>;
+
+function wert<T>(value: T, quelle: BenchmarkQuelle): BenchmarkWert<T> {
+  return { wert: value, ...quelle };
+}
+
+function spanne(min: number, max: number, typisch: number, quelle: BenchmarkQuelle): BenchmarkWert<BenchmarkSpanne> {
+  return wert({ min, max, typisch }, quelle);
+}
+
+function margen(rohertrag: number, betriebsergebnis: number, umsatzrendite: number, quelle: BenchmarkQuelle): BranchenBenchmark['margen'] {
+  return {
+    rohertrag: wert(rohertrag, quelle),
+    betriebsergebnis: wert(betriebsergebnis, quelle),
+    umsatzrendite: wert(umsatzrendite, quelle),
+  };
+}
+
+function breakEven(mindestUmsatzMonatlich: number, maxMonate: number): BranchenBenchmark['breakEven'] {
+  return {
+    mindestUmsatzMonatlich: wert(mindestUmsatzMonatlich, QUELLEN.planung),
+    maxMonate: wert(maxMonate, QUELLEN.kfw),
+  };
+}
+
+// Seasonality patterns shared by several business types
+const SAISON_DIENSTLEISTUNG = { quartale: [1.1, 0.9, 0.8, 1.1], beschreibung: 'gering' } as const;
+const SAISON_KEINE = { quartale: [1.0, 1.0, 1.0, 1.0], beschreibung: 'keine' } as const;
+
+function saison(muster: { quartale: readonly [number, number, number, number]; beschreibung: string }, quelle: BenchmarkQuelle = QUELLEN.planung): BranchenBenchmark['saisonalitaet'] {
+  return wert({ quartale: [...muster.quartale], beschreibung: muster.beschreibung }, quelle);
+}
+
+function zahlungsziele(kundenTage: number, lieferantenTage: number): BranchenBenchmark['zahlungsziele'] {
+  return wert({ kundenTage, lieferantenTage }, QUELLEN.intrum);
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const DEFAULT_BENCHMARK: BranchenBenchmark = {
+  id: 'default',
+  margen: margen(60, 15, 8, QUELLEN.datev),
+  deckungsbeitrag: wert(45, QUELLEN.datev),
+  breakEven: breakEven(5000, 24),
+  kostenquoten: {
+    personal: spanne(20, 40, 30, QUELLEN.datev),
+    material: spanne(30, 60, 45, QUELLEN.datev),
+    sonstige: spanne(15, 25, 20, QUELLEN.datev),
+  },
+  pflichtkategorien: [],
+  kennzahlen: {},
+  wachstum: wert({ jahr1to2: 30, jahr2to3: 20 }, QUELLEN.planung),
+  saisonalitaet: saison({ ...SAISON_KEINE, beschreibung: 'unbekannt' }),
+  zahlungsziele: zahlungsziele(45, 30),
+  tipps: ['Kostenstruktur regelmäßig prüfen', 'Variable statt fixe Kosten bevorzugen'],
+};
+
+export const BRANCHEN_BENCHMARKS: Record<DetailedBusinessTypeId, BranchenBenchmark> = {
+  beratung: {
+    id: 'beratung',
+    margen: margen(85, 25, 15, QUELLEN.bdu),
+    deckungsbeitrag: wert(60, QUELLEN.bdu),
+    breakEven: breakEven(3000, 12),
+    kostenquoten: {
+      personal: spanne(30, 50, 40, QUELLEN.bdu),
+      marketing: spanne(5, 15, 10, QUELLEN.bdu),
+      sonstige: spanne(10, 20, 15, QUELLEN.bdu),
+    },
+    pflichtkategorien: ['personal', 'versicherung', 'marketing'],
+    kennzahlen: {
+      stundensatz: spanne(80, 200, 120, QUELLEN.bdu),
+      auslastung: spanne(60, 85, 75, QUELLEN.bdu),     // % of working hours
+    },
+    wachstum: wert({ jahr1to2: 25, jahr2to3: 15 }, QUELLEN.bdu),
+    saisonalitaet: saison(SAISON_DIENSTLEISTUNG),
+    zahlungsziele: zahlungsziele(30, 14),
+    tipps: ['Home-Office nutzen', 'Flexible Tools statt feste Software', 'Performance-basiertes Marketing'],
+  },
+  agentur: {
+    id: 'agentur',
+    margen: margen(70, 15, 10, QUELLEN.destatisDienstleistung),
+    deckungsbeitrag: wert(55, QUELLEN.destatisDienstleistung),
+    breakEven: breakEven(5000, 15),
+    kostenquoten: {
+      personal: spanne(35, 55, 45, QUELLEN.destatisDienstleistung),
+      marketing: spanne(5, 12, 8, QUELLEN.destatisDienstleistung),
+      sonstige: spanne(10, 20, 15, QUELLEN.destatisDienstleistung),
+    },
+    pflichtkategorien: ['personal', 'versicherung', 'marketing'],
+    kennzahlen: {
+      stundensatz: spanne(70, 150, 95, QUELLEN.freelancermap),
+      auslastung: spanne(55, 80, 70, QUELLEN.planung),
+    },
+    wachstum: wert({ jahr1to2: 30, jahr2to3: 20 }, QUELLEN.planung),
+    saisonalitaet: saison(SAISON_DIENSTLEISTUNG),
+    zahlungsziele: zahlungsziele(45, 30),
+    tipps: ['Retainer-Verträge für planbaren Umsatz', 'Freelancer-Netzwerk statt früher Festanstellung', 'Projekte nach Aufwand kalkulieren'],
+  },
+  freiberufler: {
+    id: 'freiberufler',
+    margen: margen(90, 35, 25, QUELLEN.freelancermap),
+    deckungsbeitrag: wert(70, QUELLEN.freelancermap),
+    breakEven: breakEven(2500, 9),
+    kostenquoten: {
+      marketing: spanne(3, 10, 5, QUELLEN.freelancermap),
+      sonstige: spanne(5, 15, 10, QUELLEN.freelancermap),
+    },
+    pflichtkategorien: ['versicherung'],
+    kennzahlen: {
+      stundensatz: spanne(60, 130, 85, QUELLEN.freelancermap),
+      auslastung: spanne(55, 80, 70, QUELLEN.freelancermap),
+    },
+    wachstum: wert({ jahr1to2: 20, jahr2to3: 10 }, QUELLEN.planung),
+    saisonalitaet: saison(SAISON_DIENSTLEISTUNG),
+    zahlungsziele: zahlungsziele(30, 14),
+    tipps: ['Urlaub und Krankheit im Stundensatz einpreisen', 'Akquise auch bei voller Auslastung fortführen'],
+  },
+  gesundheit: {
+    id: 'gesundheit',
+    margen: margen(75, 20, 14, QUELLEN.destatisDienstleistung),
+    deckungsbeitrag: wert(60, QUELLEN.destatisDienstleistung),
+    breakEven: breakEven(4000, 15),
+    kostenquoten: {
+      personal: spanne(25, 45, 35, QUELLEN.destatisDienstleistung),
+      miete: spanne(8, 15, 10, QUELLEN.destatisDienstleistung),
+      material: spanne(5, 15, 8, QUELLEN.destatisDienstleistung),
+    },
+    pflichtkategorien: ['personal', 'miete', 'versicherung'],
+    kennzahlen: {
+      stundensatz: spanne(60, 120, 80, QUELLEN.destatisDienstleistung),
+      auslastung: spanne(65, 90, 80, QUELLEN.planung),
+    },
+    wachstum: wert({ jahr1to2: 20, jahr2to3: 12 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [1.0, 1.0, 0.9, 1.1], beschreibung: 'gering (Urlaubszeit)' }),
+    zahlungsziele: zahlungsziele(45, 30),
+    tipps: ['Abrechnungszyklen der Kassen einplanen', 'Terminauslastung aktiv steuern'],
+  },
+  'e-commerce': {
+    id: 'e-commerce',
+    margen: margen(45, 12, 8, QUELLEN.hde),
+    deckungsbeitrag: wert(40, QUELLEN.hde),
+    breakEven: breakEven(5000, 18),
+    kostenquoten: {
+      material: spanne(40, 70, 55, QUELLEN.hde),
+      marketing: spanne(10, 25, 15, QUELLEN.hde),
+      personal: spanne(15, 35, 25, QUELLEN.hde),
+    },
+    pflichtkategorien: ['material', 'marketing', 'versicherung'],
+    kennzahlen: {
+      durchschnittswert: spanne(25, 100, 50, QUELLEN.hde),  // € per order
+      konversionsrate: spanne(1, 5, 2.5, QUELLEN.hde),      // %
+      lagerreichweite: spanne(30, 90, 60, QUELLEN.hde),     // Days inventory outstanding
+    },
+    wachstum: wert({ jahr1to2: 75, jahr2to3: 40 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [0.9, 1.0, 1.0, 1.1], beschreibung: 'hoch (Q4)' }, QUELLEN.hde),
+    zahlungsziele: zahlungsziele(3, 30),
+    tipps: ['Automatisierung investieren', 'Lagermanagement optimieren', 'Performance Marketing'],
+  },
+  einzelhandel: {
+    id: 'einzelhandel',
+    margen: margen(40, 8, 4, QUELLEN.destatisHandel),
+    deckungsbeitrag: wert(35, QUELLEN.destatisHandel),
+    breakEven: breakEven(12000, 24),
+    kostenquoten: {
+      material: spanne(55, 70, 62, QUELLEN.destatisHandel),
+      personal: spanne(12, 20, 16, QUELLEN.destatisHandel),
+      miete: spanne(6, 12, 9, QUELLEN.destatisHandel),
+    },
+    pflichtkategorien: ['personal', 'miete', 'material', 'versicherung'],
+    kennzahlen: {
+      umsatzProQm: spanne(2500, 6000, 3500, QUELLEN.destatisHandel), // € per year
+      lagerreichweite: spanne(60, 120, 90, QUELLEN.destatisHandel),
+    },
+    wachstum: wert({ jahr1to2: 15, jahr2to3: 8 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [0.9, 0.95, 0.95, 1.2], beschreibung: 'hoch (Weihnachtsgeschäft)' }, QUELLEN.destatisHandel),
+    zahlungsziele: zahlungsziele(0, 30),
+    tipps: ['Mietvertrag mit Umsatzbezug verhandeln', 'Warenbestand eng an Abverkauf ausrichten'],
+  },
+  'hybrid-handel': {
+    id: 'hybrid-handel',
+    margen: margen(42, 10, 6, QUELLEN.hde),
+    deckungsbeitrag: wert(38, QUELLEN.hde),
+    breakEven: breakEven(8000, 20),
+    kostenquoten: {
+      material: spanne(50, 65, 58, QUELLEN.hde),
+      marketing: spanne(5, 15, 10, QUELLEN.hde),
+      miete: spanne(5, 10, 7, QUELLEN.destatisHandel),
+      personal: spanne(12, 25, 18, QUELLEN.destatisHandel),
+    },
+    pflichtkategorien: ['material', 'miete', 'marketing', 'versicherung'],
+    kennzahlen: {
+      durchschnittswert: spanne(30, 120, 60, QUELLEN.hde),
+      lagerreichweite: spanne(45, 100, 75, QUELLEN.hde),
+    },
+    wachstum: wert({ jahr1to2: 30, jahr2to3: 18 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [0.9, 1.0, 0.95, 1.15], beschreibung: 'mittel (Q4)' }, QUELLEN.hde),
+    zahlungsziele: zahlungsziele(2, 30),
+    tipps: ['Bestände kanalübergreifend steuern', 'Ladenfläche als Abholstation nutzen'],
+  },
+  handwerk: {
+    id: 'handwerk',
+    margen: margen(55, 15, 10, QUELLEN.zdh),
+    deckungsbeitrag: wert(35, QUELLEN.zdh),
+    breakEven: breakEven(8000, 24),
+    kostenquoten: {
+      material: spanne(35, 55, 45, QUELLEN.zdh),
+      personal: spanne(25, 40, 35, QUELLEN.zdh),
+      abschreibung: spanne(3, 8, 5, QUELLEN.zdh),
+    },
+    pflichtkategorien: ['personal', 'material', 'versicherung', 'abschreibung'],
+    kennzahlen: {
+      stundensatz: spanne(50, 120, 80, QUELLEN.zdh),
+      auslastung: spanne(70, 90, 80, QUELLEN.zdh),
+      lagerreichweite: spanne(10, 45, 20, QUELLEN.zdh),
+    },
+    wachstum: wert({ jahr1to2: 20, jahr2to3: 15 }, QUELLEN.zdh),
+    saisonalitaet: saison({ quartale: [0.8, 1.1, 1.1, 1.0], beschreibung: 'mittel (Wetter)' }, QUELLEN.zdh),
+    zahlungsziele: zahlungsziele(30, 30),
+    tipps: ['Materialpreise weitergeben', 'Effizienz durch gute Planung', 'Maschinen richtig kalkulieren'],
+  },
+  gewerbe: {
+    id: 'gewerbe',
+    margen: margen(50, 10, 6, QUELLEN.datev),
+    deckungsbeitrag: wert(40, QUELLEN.datev),
+    breakEven: breakEven(6000, 24),
+    kostenquoten: {
+      material: spanne(30, 50, 40, QUELLEN.datev),
+      personal: spanne(20, 35, 28, QUELLEN.datev),
+      miete: spanne(5, 12, 8, QUELLEN.datev),
+    },
+    pflichtkategorien: ['personal', 'material', 'versicherung'],
+    kennzahlen: {},
+    wachstum: wert({ jahr1to2: 20, jahr2to3: 12 }, QUELLEN.planung),
+    saisonalitaet: saison(SAISON_KEINE),
+    zahlungsziele: zahlungsziele(30, 30),
+    tipps: ['Kapazitäten an Auftragslage koppeln', 'Variable statt fixe Kosten bevorzugen'],
+  },
+  'mobile-dienste': {
+    id: 'mobile-dienste',
+    margen: margen(70, 18, 12, QUELLEN.destatisDienstleistung),
+    deckungsbeitrag: wert(55, QUELLEN.destatisDienstleistung),
+    breakEven: breakEven(3000, 12),
+    kostenquoten: {
+      personal: spanne(20, 40, 30, QUELLEN.destatisDienstleistung),
+      material: spanne(5, 15, 10, QUELLEN.destatisDienstleistung),
+      sonstige: spanne(10, 20, 15, QUELLEN.destatisDienstleistung), // Fahrzeug und Fahrtkosten
+    },
+    pflichtkategorien: ['versicherung', 'sonstige'],
+    kennzahlen: {
+      stundensatz: spanne(35, 70, 50, QUELLEN.destatisDienstleistung),
+      auslastung: spanne(60, 85, 70, QUELLEN.planung),
+    },
+    wachstum: wert({ jahr1to2: 20, jahr2to3: 10 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [0.9, 1.05, 1.05, 1.0], beschreibung: 'gering (Winter)' }),
+    zahlungsziele: zahlungsziele(7, 14),
+    tipps: ['Fahrtzeiten im Preis berücksichtigen', 'Touren nach Regionen bündeln'],
+  },
+  restaurant: {
+    id: 'restaurant',
+    margen: margen(65, 8, 4, QUELLEN.dehoga),
+    deckungsbeitrag: wert(25, QUELLEN.dehoga),
+    breakEven: breakEven(15000, 18),
+    kostenquoten: {
+      personal: spanne(30, 40, 35, QUELLEN.dehoga),
+      material: spanne(25, 35, 30, QUELLEN.dehoga),
+      miete: spanne(5, 10, 8, QUELLEN.dehoga),
+    },
+    pflichtkategorien: ['personal', 'miete', 'material', 'versicherung'],
+    kennzahlen: {
+      umsatzProQm: spanne(3000, 8000, 5000, QUELLEN.dehoga), // € per year
+      plaetze: spanne(20, 100, 40, QUELLEN.dehoga),
+    },
+    wachstum: wert({ jahr1to2: 10, jahr2to3: 8 }, QUELLEN.dehoga),
+    saisonalitaet: saison({ quartale: [0.9, 1.1, 1.2, 0.8], beschreibung: 'mittel (Tourismus)' }, QUELLEN.destatisGastgewerbe),
+    zahlungsziele: zahlungsziele(0, 14),
+    tipps: ['Prime Location rechtfertigen', 'Speisekarte-Engineering', 'Personaleffizienz'],
+  },
+  foodtruck: {
+    id: 'foodtruck',
+    margen: margen(65, 12, 8, QUELLEN.dehoga),
+    deckungsbeitrag: wert(55, QUELLEN.dehoga),
+    breakEven: breakEven(6000, 12),
+    kostenquoten: {
+      material: spanne(28, 38, 32, QUELLEN.dehoga),
+      personal: spanne(15, 30, 22, QUELLEN.dehoga),
+      sonstige: spanne(5, 12, 8, QUELLEN.planung),  // Standgebühren
+    },
+    pflichtkategorien: ['material', 'versicherung', 'sonstige'],
+    kennzahlen: {
+      bonsProTag: spanne(60, 250, 120, QUELLEN.planung),
+    },
+    wachstum: wert({ jahr1to2: 15, jahr2to3: 10 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [0.6, 1.2, 1.4, 0.8], beschreibung: 'hoch (Sommer)' }),
+    zahlungsziele: zahlungsziele(0, 14),
+    tipps: ['Winterstandorte und Events frühzeitig sichern', 'Kleine Karte mit hoher Marge'],
+  },
+  catering: {
+    id: 'catering',
+    margen: margen(60, 10, 6, QUELLEN.dehoga),
+    deckungsbeitrag: wert(45, QUELLEN.dehoga),
+    breakEven: breakEven(8000, 18),
+    kostenquoten: {
+      material: spanne(30, 40, 35, QUELLEN.dehoga),
+      personal: spanne(25, 40, 32, QUELLEN.dehoga),
+    },
+    pflichtkategorien: ['personal', 'material', 'versicherung'],
+    kennzahlen: {
+      preisProGast: spanne(20, 80, 35, QUELLEN.dehoga),
+    },
+    wachstum: wert({ jahr1to2: 20, jahr2to3: 12 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [0.8, 1.1, 1.0, 1.1], beschreibung: 'mittel (Events, Weihnachtsfeiern)' }),
+    zahlungsziele: zahlungsziele(14, 14),
+    tipps: ['Anzahlungen vereinbaren', 'Aushilfen flexibel einplanen'],
+  },
+  saas: {
+    id: 'saas',
+    margen: margen(80, 10, 5, QUELLEN.bitkom),
+    deckungsbeitrag: wert(75, QUELLEN.bitkom),
+    breakEven: breakEven(5000, 30),
+    kostenquoten: {
+      personal: spanne(40, 60, 50, QUELLEN.bitkom),
+      marketing: spanne(15, 35, 25, QUELLEN.bitkom),
+      sonstige: spanne(5, 15, 10, QUELLEN.bitkom),  // Hosting
+    },
+    pflichtkategorien: ['personal', 'marketing', 'sonstige'],
+    kennzahlen: {
+      arpu: spanne(20, 200, 50, QUELLEN.bitkom),         // € per customer and month
+      churnMonatlich: spanne(1, 5, 3, QUELLEN.bitkom),   // %
+    },
+    wachstum: wert({ jahr1to2: 100, jahr2to3: 60 }, QUELLEN.planung),
+    saisonalitaet: saison({ quartale: [1.0, 1.0, 0.95, 1.05], beschreibung: 'gering' }),
+    zahlungsziele: zahlungsziele(7, 30),
+    tipps: ['Jahresabos mit Vorauszahlung anbieten', 'Churn früh messen', 'Hosting-Kosten mit Nutzerzahl skalieren'],
+  },
+  'it-dienstleistung': {
+    id: 'it-dienstleistung',
+    margen: margen(80, 20, 12, QUELLEN.bitkom),
+    deckungsbeitrag: wert(60, QUELLEN.bitkom),
+    breakEven: breakEven(4000, 12),
+    kostenquoten: {
+      personal: spanne(30, 50, 40, QUELLEN.bitkom),
+      marketing: spanne(3, 10, 6, QUELLEN.bitkom),
+      sonstige: spanne(8, 15, 12, QUELLEN.bitkom),
+    },
+    pflichtkategorien: ['personal', 'versicherung'],
+    kennzahlen: {
+      stundensatz: spanne(70, 140, 95, QUELLEN.freelancermap),
+      auslastung: spanne(60, 85, 75, QUELLEN.freelancermap),
+    },
+    wachstum: wert({ jahr1to2: 25, jahr2to3: 15 }, QUELLEN.planung),
+    saisonalitaet: saison(SAISON_DIENSTLEISTUNG),
+    zahlungsziele: zahlungsziele(30, 30),
+    tipps: ['Wartungsverträge für wiederkehrenden Umsatz', 'Zertifizierungen als Preisargument nutzen'],
+  },
+};
+
+/**
+ * Keys used before the registry existed, mapped to DetailedBusinessTypeId
+ */
+export const LEGACY_BRANCHEN_KEYS: Record<string, DetailedBusinessTypeId> = {
+  ecommerce: 'e-commerce',
+  services: 'beratung',
+  dienstleistung: 'beratung',
+  handel: 'einzelhandel',
+  gastronomie: 'restaurant',
+  software: 'saas',
+  it: 'it-dienstleistung',
+};
+
+/**
+ * Business categories of the intake (gz-intake businessType.category), mapped to DetailedBusinessTypeId
+ */
+export const INTAKE_KATEGORIE_BRANCHEN: Record<string, DetailedBusinessTypeId> = {
+  consulting: 'beratung',
+  ecommerce: 'e-commerce',
+  local_service: 'handwerk',
+  local_retail: 'einzelhandel',
+  manufacturing: 'handwerk',
+  hybrid: 'hybrid-handel',
+} satisfies Record<IntakeBusinessCategory, DetailedBusinessTypeId>;
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Resolve an industry key (registry id, legacy key or intake category) to a DetailedBusinessTypeId
+ */
+export function resolveBranche(industry: string | undefined): DetailedBusinessTypeId | undefined {
+  if (!industry) return undefined;
+
+  const key = industry.trim().toLowerCase();
+  const parsed = DetailedBusinessTypeId.safeParse(key);
+
+  return parsed.success ? parsed.data : LEGACY_BRANCHEN_KEYS[key] ?? INTAKE_KATEGORIE_BRANCHEN[key];
+}
+
+/**
+ * Benchmarks for an industry, default benchmarks for unknown keys
+ */
+export function getBranchenBenchmark(industry?: string): BranchenBenchmark {
+  const id = resolveBranche(industry);
+  return id ? BRANCHEN_BENCHMARKS[id] : DEFAULT_BENCHMARK;
+}
+
+/**
+ * All benchmark values older than the given age, for the yearly data review
+ */
+export function findVeralteteBenchmarks(
+  aktuellesJahr: number,
+  maxAlterJahre: number = 3
+): { id: BranchenBenchmark['id']; pfad: string; quelle: string; gueltigJahr: number }[] {
+  const veraltet: { id: BranchenBenchmark['id']; pfad: string; quelle: string; gueltigJahr: number }[] = [];
+
+  const pruefen = (id: BranchenBenchmark['id'], pfad: string, value: unknown) => {
+    if (!value || typeof value !== 'object') return;
+
+    if ('gueltigJahr' in value && 'quelle' in value && 'wert' in value) {
+      const { quelle, gueltigJahr } = value as BenchmarkQuelle;
+      if (aktuellesJahr - gueltigJahr > maxAlterJahre) {
+        veraltet.push({ id, pfad, quelle, gueltigJahr });
+      }
+      return;
+    }
+
+    Object.entries(value).forEach(([key, child]) => pruefen(id, pfad ? `${pfad}.${key}` : key, child));
+  };
+
+  [DEFAULT_BENCHMARK, ...Object.values(BRANCHEN_BENCHMARKS)].forEach(benchmark => pruefen(benchmark.id, '', benchmark));
+
+  return veraltet;
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  BENCHMARK_VERSION,
+  BRANCHEN_BENCHMARKS,
+  DEFAULT_BENCHMARK,
+  LEGACY_BRANCHEN_KEYS,
+  INTAKE_KATEGORIE_BRANCHEN,
+  resolveBranche,
+  getBranchenBenchmark,
+  findVeralteteBenchmarks,
+};
@@ -17,6 +17,7 @@ import type {
   Umsatzplanung,
   Kostenplanung,
 } from '@/types/modules/finanzplanung';
+import { getBranchenBenchmark } from './branchenbenchmarks';
 
 // ============================================================================
 // Configuration
@@ -334,16 +335,13 @@ export function validateBreakEvenRealism(result: BreakEvenResult, industry: stri
   const industryGuidance: string[] = [];
 
   // Industry-specific validation
-  const industryBenchmarks = {
-    beratung: { minMonthlyRevenue: 3000, maxBreakEvenMonths: 12, typicalMargin: 60 },
-    ecommerce: { minMonthlyRevenue: 5000, maxBreakEvenMonths: 18, typicalMargin: 40 },
-    handwerk: { minMonthlyRevenue: 8000, maxBreakEvenMonths: 24, typicalMargin: 35 },
-    restaurant: { minMonthlyRevenue: 15000, maxBreakEvenMonths: 18, typicalMargin: 25 },
-    default: { minMonthlyRevenue: 5000, maxBreakEvenMonths: 24, typicalMargin: 45 },
+  const branche = getBranchenBenchmark(industry);
+  const benchmark = {
+    minMonthlyRevenue: branche.breakEven.mindestUmsatzMonatlich.wert,
+    maxBreakEvenMonths: branche.breakEven.maxMonate.wert,
+    typicalMargin: branche.deckungsbeitrag.wert,
   };
 
-  const benchmark = industryBenchmarks[industry as keyof typeof industryBenchmarks] || industryBenchmarks.default;
-
   if (result.breakEvenUmsatzMonatlich < benchmark.minMonthlyRevenue) {
     warnings.push(`Break-Even-Umsatz unter ${formatEUR(benchmark.minMonthlyRevenue)}/Monat ungewöhnlich niedrig für ${industry}`);
   }
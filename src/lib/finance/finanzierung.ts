@@ -8,7 +8,9 @@
  * - Financing source calculations
  * - Equity/debt ratio calculations
  * - Interest and loan payment calculations
+ * - Per-loan Tilgungspläne (annuity / Ratentilgung, tilgungsfreie Anlaufzeit)
  * - Financing gap analysis
+ * - Monthly Gründungszuschuss inflows (Phase 1 / optional Phase 2)
  * - Risk assessment
  */
 
@@ -17,7 +19,9 @@ import type {
   Finanzierung,
   Finanzierungsquelle,
   FinanzierungsquelleType,
+  GruendungszuschussConfig,
 } from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
 
 // ============================================================================
 // Configuration
@@ -220,6 +224,138 @@ export function calculateLoanAmortization(
   return schedule;
 }
 
+/**
+ * Sources that are repaid (Fremdkapital)
+ */
+const DARLEHEN_TYPEN: FinanzierungsquelleType[] = [
+  'bankkredit',
+  'foerderkredit',
+  'family_friends',
+  'andere',
+];
+
+export interface LoanScheduleEntry {
+  month: number;                       // Plan month (1-based)
+  payment: number;                     // Interest + principal
+  interest: number;
+  principal: number;
+  balance: number;                     // Remaining debt after payment
+}
+
+export interface DebtServiceSchedule {
+  interest: number[];                  // Per plan month
+  principal: number[];                 // Per plan month
+  payment: number[];                   // Per plan month
+}
+
+/**
+ * Check whether a financing source is a loan with a repayment schedule
+ */
+export function isLoanSource(quelle: Finanzierungsquelle): boolean {
+  return DARLEHEN_TYPEN.includes(quelle.typ)
+    && quelle.betrag > 0
+    && (quelle.laufzeit ?? 0) > 0;
+}
+
+/**
+ * Calculate the repayment schedule of a single loan on the plan timeline
+ *
+ * The loan is paid out at the start of `auszahlungsmonat` (default: 1), rates
+ * are due at month end. During `tilgungsfrei` months only interest is paid
+ * (typical for KfW StartGeldKredit), afterwards the loan is repaid over the
+ * remaining term as annuity or with constant principal (Ratentilgung).
+ */
+export function calculateLoanSchedule(
+  quelle: Finanzierungsquelle,
+  monthsToCalculate: number = LIQUIDITAET_PLANUNGSMONATE
+): LoanScheduleEntry[] {
+  const laufzeit = Math.max(0, Math.round(quelle.laufzeit ?? 0));
+  const tilgungsfrei = Math.min(Math.max(0, Math.round(quelle.tilgungsfrei ?? 0)), Math.max(0, laufzeit - 1));
+  const auszahlungsmonat = Math.max(1, Math.round(quelle.auszahlungsmonat ?? 1));
+  const tilgungsmonate = laufzeit - tilgungsfrei;
+
+  const monthlyRate = new Decimal(quelle.zinssatz ?? 0).dividedBy(100).dividedBy(12);
+  let balance = new Decimal(quelle.betrag);
+
+  // Annuity is fixed for the repayment phase; Ratentilgung repays constant principal
+  const annuity = tilgungsmonate > 0
+    ? new Decimal(calculateLoanPayment(quelle.betrag, quelle.zinssatz ?? 0, tilgungsmonate).monthlyPayment)
+    : new Decimal(0);
+  const rate = tilgungsmonate > 0 ? balance.dividedBy(tilgungsmonate) : new Decimal(0);
+
+  const schedule: LoanScheduleEntry[] = [];
+
+  for (let month = 1; month <= monthsToCalculate; month++) {
+    const laufzeitMonat = month - auszahlungsmonat + 1;
+
+    if (laufzeitMonat < 1 || laufzeitMonat > laufzeit || balance.lte(0)) {
+      schedule.push({ month, payment: 0, interest: 0, principal: 0, balance: laufzeitMonat < 1 ? 0 : balance.toNumber() });
+      continue;
+    }
+
+    const interest = balance.times(monthlyRate);
+    let principal = new Decimal(0);
+
+    if (laufzeitMonat > tilgungsfrei) {
+      principal = quelle.tilgungsart === 'raten' ? rate : annuity.minus(interest);
+      // Last rate clears rounding differences
+      if (laufzeitMonat === laufzeit || principal.gt(balance)) {
+        principal = balance;
+      }
+    }
+
+    balance = balance.minus(principal);
+
+    schedule.push({
+      month,
+      payment: interest.plus(principal).toNumber(),
+      interest: interest.toNumber(),
+      principal: principal.toNumber(),
+      balance: balance.toNumber(),
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Aggregate interest and principal of all loans per plan month
+ */
+export function calculateDebtServiceSchedule(
+  finanzierung: Pick<Finanzierung, 'quellen'>,
+  monthsToCalculate: number = LIQUIDITAET_PLANUNGSMONATE
+): DebtServiceSchedule {
+  const interest = Array.from({ length: monthsToCalculate }, () => new Decimal(0));
+  const principal = Array.from({ length: monthsToCalculate }, () => new Decimal(0));
+
+  finanzierung.quellen.filter(isLoanSource).forEach(quelle => {
+    calculateLoanSchedule(quelle, monthsToCalculate).forEach((entry, index) => {
+      interest[index] = (interest[index] ?? new Decimal(0)).plus(entry.interest);
+      principal[index] = (principal[index] ?? new Decimal(0)).plus(entry.principal);
+    });
+  });
+
+  return {
+    interest: interest.map(value => value.toNumber()),
+    principal: principal.map(value => value.toNumber()),
+    payment: interest.map((value, index) => value.plus(principal[index] ?? 0).toNumber()),
+  };
+}
+
+/**
+ * Sum loan interest per plan year (Jahr 1-3) for the Rentabilitätsvorschau
+ */
+export function calculateAnnualInterest(finanzierung: Pick<Finanzierung, 'quellen'>): [number, number, number] {
+  const { interest } = calculateDebtServiceSchedule(finanzierung);
+
+  return [0, 1, 2].map(year =>
+    interest
+      .slice(year * 12, (year + 1) * 12)
+      .reduce((sum, value) => sum.plus(value), new Decimal(0))
+      .toNumber()
+  ) as [number, number, number];
+}
+
 // ============================================================================
 // Risk Assessment
 // ============================================================================
@@ -295,14 +431,18 @@ export function assessFinancingRisk(
 // Gründungszuschuss Calculations
 // ============================================================================
 
+export const GZ_PHASE1_MONATE = 6;
+const GZ_PHASE2_MONATE = 9;
+const GZ_SOZIALVERSICHERUNGSPAUSCHALE = 300;
+
 /**
  * Calculate Gründungszuschuss amounts based on previous ALG I
  */
 export function calculateGruendungszuschuss(
   previousALG1: number,
   _hasChildren: boolean = false,
-  phase1Months: number = 6,
-  phase2Months: number = 9
+  phase1Months: number = GZ_PHASE1_MONATE,
+  phase2Months: number = GZ_PHASE2_MONATE
 ): {
   phase1Monthly: number;
   phase1Total: number;
@@ -315,11 +455,11 @@ export function calculateGruendungszuschuss(
   const phase2MonthsDecimal = new Decimal(phase2Months);
 
   // Phase 1: ALG I + €300 social security
-  const phase1Monthly = alg1Decimal.plus(300);
+  const phase1Monthly = alg1Decimal.plus(GZ_SOZIALVERSICHERUNGSPAUSCHALE);
   const phase1Total = phase1Monthly.times(phase1MonthsDecimal);
 
   // Phase 2: €300 social security only
-  const phase2Monthly = new Decimal(300);
+  const phase2Monthly = new Decimal(GZ_SOZIALVERSICHERUNGSPAUSCHALE);
   const phase2Total = phase2Monthly.times(phase2MonthsDecimal);
 
   const totalGZ = phase1Total.plus(phase2Total);
@@ -333,6 +473,45 @@ export function calculateGruendungszuschuss(
   };
 }
 
+/**
+ * Project Gründungszuschuss as monthly inflows on the plan timeline
+ *
+ * Phase 1 pays ALG I + 300 € for 6 months, the optional Phase 2 pays
+ * 300 € for another 9 months.
+ */
+export function projectMonthlyGruendungszuschuss(
+  config: GruendungszuschussConfig,
+  monthsToCalculate: number = LIQUIDITAET_PLANUNGSMONATE
+): number[] {
+  const phase2Months = config.phase2Beantragt ? GZ_PHASE2_MONATE : 0;
+  const gz = calculateGruendungszuschuss(config.alg1Monatlich, false, GZ_PHASE1_MONATE, phase2Months);
+
+  return Array.from({ length: monthsToCalculate }, (_, index) => {
+    if (index < GZ_PHASE1_MONATE) return gz.phase1Monthly;
+    if (index < GZ_PHASE1_MONATE + phase2Months) return gz.phase2Monthly;
+    return 0;
+  });
+}
+
+/**
+ * Derive the GZ configuration from the total of a financing source
+ *
+ * betrag = 6 × (ALG I + 300 €) + 9 × 300 € (if Phase 2 is requested)
+ */
+export function deriveGruendungszuschussConfig(
+  betrag: number,
+  phase2Beantragt: boolean = true
+): GruendungszuschussConfig {
+  const pauschalen = new Decimal(GZ_SOZIALVERSICHERUNGSPAUSCHALE)
+    .times(GZ_PHASE1_MONATE + (phase2Beantragt ? GZ_PHASE2_MONATE : 0));
+  const alg1Monatlich = Decimal.max(0, new Decimal(betrag).minus(pauschalen).dividedBy(GZ_PHASE1_MONATE));
+
+  return {
+    alg1Monatlich: alg1Monatlich.toNumber(),
+    phase2Beantragt,
+  };
+}
+
 // ============================================================================
 // Complete Financing Calculation
 // ============================================================================
@@ -436,6 +615,10 @@ export function validateFinancingSource(quelle: Finanzierungsquelle): {
     errors.push('Laufzeit muss positiv sein');
   }
 
+  if (quelle.tilgungsfrei && quelle.laufzeit && quelle.tilgungsfrei >= quelle.laufzeit) {
+    errors.push('Tilgungsfreie Zeit muss kürzer als die Laufzeit sein');
+  }
+
   if (quelle.typ === 'gruendungszuschuss' && quelle.betrag > 25000) {
     errors.push('Gründungszuschuss kann maximal ca. €25.000 sein');
   }
@@ -457,8 +640,14 @@ export default {
   calculateFinancingGap,
   calculateLoanPayment,
   calculateLoanAmortization,
+  isLoanSource,
+  calculateLoanSchedule,
+  calculateDebtServiceSchedule,
+  calculateAnnualInterest,
   assessFinancingRisk,
   calculateGruendungszuschuss,
+  projectMonthlyGruendungszuschuss,
+  deriveGruendungszuschussConfig,
   calculateFinanzierung,
   testStandardFinancingScenario,
   formatFinancingSource,
@@ -0,0 +1,495 @@
+/**
+ * Förderprogramme - catalogue of public start-up financing
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Every programme carries its source and validity year, like the
+ * Branchenbenchmarks. Conditions change every year, so the catalogue is
+ * versioned and values are planning assumptions until the Hausbank or
+ * Förderinstitut confirms them.
+ *
+ * Includes:
+ * - KfW ERP-Gründerkredit StartGeld and Mikrokredit
+ * - Landesförderbanken (NRW.BANK, L-Bank, IBB)
+ * - Einstiegsgeld (§16b SGB II) and Meistergründungsprämie NRW
+ * - Eligibility rules evaluated against Intake, Standort and Kapitalbedarf
+ * - Pre-filled Finanzierungsquellen with typical rates, terms and tilgungsfreie Zeit
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  Finanzierungsquelle,
+  FinanzierungsquelleType,
+  PartialFinanzplanungOutput,
+  TilgungsartType,
+} from '@/types/modules/finanzplanung';
+import type { CurrentStatus, PartialIntakeOutput } from '@/types/modules/intake';
+import type { PartialUnternehmenOutput } from '@/types/modules/unternehmen';
+import type { BenchmarkQuelle, BenchmarkSpanne } from './branchenbenchmarks';
+import { resolveBranche } from './branchenbenchmarks';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+export const FOERDERKATALOG_VERSION = '2025.1';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Bundesland =
+  | 'BW' | 'BY' | 'BE' | 'BB' | 'HB' | 'HH' | 'HE' | 'MV'
+  | 'NI' | 'NW' | 'RP' | 'SL' | 'SN' | 'ST' | 'SH' | 'TH';
+
+export const BUNDESLAENDER: Record<Bundesland, string> = {
+  BW: 'Baden-Württemberg',
+  BY: 'Bayern',
+  BE: 'Berlin',
+  BB: 'Brandenburg',
+  HB: 'Bremen',
+  HH: 'Hamburg',
+  HE: 'Hessen',
+  MV: 'Mecklenburg-Vorpommern',
+  NI: 'Niedersachsen',
+  NW: 'Nordrhein-Westfalen',
+  RP: 'Rheinland-Pfalz',
+  SL: 'Saarland',
+  SN: 'Sachsen',
+  ST: 'Sachsen-Anhalt',
+  SH: 'Schleswig-Holstein',
+  TH: 'Thüringen',
+};
+
+// Founder data the eligibility rules are evaluated against
+export interface FoerderProfil {
+  gesamtkapitalbedarf?: number;
+  finanzierungsbedarf: number;         // Open amount after Eigenkapital and planned sources
+  bundesland?: Bundesland;
+  erwerbsstatus?: CurrentStatus;
+  alg1Anspruch?: boolean;              // ALG I left (Gründungszuschuss instead of Einstiegsgeld)
+  meisterbrief?: boolean;
+  haupterwerb?: boolean;
+  branche?: string;                    // DetailedBusinessTypeId or legacy key
+}
+
+export type FoerderRegel =
+  | { typ: 'maxKapitalbedarf'; betrag: number }        // Gesamtfinanzierungsbedarf limit
+  | { typ: 'bundesland'; bundeslaender: Bundesland[] }
+  | { typ: 'erwerbslosOhneAlg1' }                      // Bürgergeld (SGB II)
+  | { typ: 'meisterbrief' }
+  | { typ: 'haupterwerb' };
+
+export type FoerderEignung = 'geeignet' | 'pruefen' | 'ungeeignet';
+
+export interface FoerderProgramm {
+  id: string;
+  name: string;
+  traeger: string;
+  art: 'kredit' | 'zuschuss';
+  typ: FinanzierungsquelleType;
+  betrag: BenchmarkSpanne;             // EUR
+  zinssatz?: BenchmarkSpanne;          // % per year
+  laufzeit?: number;                   // Months
+  tilgungsfrei?: number;               // Grace months (interest only)
+  tilgungsart?: TilgungsartType;
+  sicherheiten?: string;
+  regeln: FoerderRegel[];
+  hinweise: string[];
+  quelle: BenchmarkQuelle;
+}
+
+export interface FoerderRegelPruefung {
+  regel: FoerderRegel['typ'];
+  ergebnis: 'erfuellt' | 'nicht_erfuellt' | 'unbekannt';
+  begruendung: string;
+}
+
+export interface FoerderVorschlag {
+  programm: FoerderProgramm;
+  eignung: FoerderEignung;
+  pruefungen: FoerderRegelPruefung[];
+  finanzierungsquelle: Finanzierungsquelle; // Pre-filled source for the Finanzierung module
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+const QUELLEN = {
+  kfw: { quelle: 'KfW Merkblatt ERP-Gründerkredit – StartGeld (067)', gueltigJahr: 2025 },
+  mikrokredit: { quelle: 'Mikrofinanzinstitute Deutschland (DMI), Konditionen Mikrokredit', gueltigJahr: 2024 },
+  nrwBank: { quelle: 'NRW.BANK Produktinformation Gründungs- und Wachstumsfinanzierung', gueltigJahr: 2025 },
+  lBank: { quelle: 'L-Bank Merkblatt Startfinanzierung 80', gueltigJahr: 2025 },
+  ibb: { quelle: 'IBB Produktinformation Berlin Start', gueltigJahr: 2025 },
+  sgb2: { quelle: '§16b SGB II, Regelbedarfsstufe 1', gueltigJahr: 2025 },
+  meisterNrw: { quelle: 'MWIKE NRW Richtlinie Meistergründungsprämie', gueltigJahr: 2024 },
+} satisfies Record<string, BenchmarkQuelle>;
+
+// Regelbedarf Stufe 1 (Bürgergeld) as base for the Einstiegsgeld
+const REGELBEDARF_MONATLICH = 563;
+
+// ============================================================================
+// Catalogue
+// ============================================================================
+
+export const FOERDERPROGRAMME: FoerderProgramm[] = [
+  {
+    id: 'kfw-startgeld',
+    name: 'ERP-Gründerkredit – StartGeld',
+    traeger: 'KfW über die Hausbank',
+    art: 'kredit',
+    typ: 'foerderkredit',
+    betrag: { min: 5000, max: 125000, typisch: 50000 },
+    zinssatz: { min: 4.5, max: 7.5, typisch: 6.0 },
+    laufzeit: 120,
+    tilgungsfrei: 24,
+    tilgungsart: 'raten',
+    sicherheiten: '80 % Haftungsfreistellung der Hausbank durch die KfW',
+    regeln: [{ typ: 'maxKapitalbedarf', betrag: 125000 }],
+    hinweise: [
+      'Antrag über die Hausbank vor Beginn des Vorhabens',
+      'Auch im Nebenerwerb möglich, wenn der Haupterwerb angestrebt wird',
+    ],
+    quelle: QUELLEN.kfw,
+  },
+  {
+    id: 'mikrokredit',
+    name: 'Mikrokredit',
+    traeger: 'Akkreditierte Mikrofinanzinstitute',
+    art: 'kredit',
+    typ: 'foerderkredit',
+    betrag: { min: 1000, max: 25000, typisch: 10000 },
+    zinssatz: { min: 7.0, max: 9.9, typisch: 8.9 },
+    laufzeit: 48,
+    tilgungsfrei: 6,
+    tilgungsart: 'annuitaet',
+    regeln: [],
+    hinweise: [
+      'Für Gründungen ohne Zugang zu klassischen Bankkrediten',
+      'Stufenweise Vergabe: Folgekredit nach pünktlicher Rückzahlung',
+    ],
+    quelle: QUELLEN.mikrokredit,
+  },
+  {
+    id: 'nrw-bank-guw',
+    name: 'NRW.BANK.Gründungs- und Wachstumsfinanzierung',
+    traeger: 'NRW.BANK über die Hausbank',
+    art: 'kredit',
+    typ: 'foerderkredit',
+    betrag: { min: 10000, max: 250000, typisch: 60000 },
+    zinssatz: { min: 4.0, max: 7.0, typisch: 5.5 },
+    laufzeit: 120,
+    tilgungsfrei: 24,
+    tilgungsart: 'raten',
+    sicherheiten: '50 % Haftungsfreistellung der Hausbank möglich',
+    regeln: [{ typ: 'bundesland', bundeslaender: ['NW'] }],
+    hinweise: ['Kombinierbar mit der Meistergründungsprämie NRW'],
+    quelle: QUELLEN.nrwBank,
+  },
+  {
+    id: 'l-bank-startfinanzierung',
+    name: 'Startfinanzierung 80',
+    traeger: 'L-Bank über die Hausbank',
+    art: 'kredit',
+    typ: 'foerderkredit',
+    betrag: { min: 5000, max: 100000, typisch: 40000 },
+    zinssatz: { min: 3.5, max: 7.0, typisch: 5.0 },
+    laufzeit: 120,
+    tilgungsfrei: 24,
+    tilgungsart: 'raten',
+    sicherheiten: '80 % Haftungsfreistellung der Hausbank durch die L-Bank',
+    regeln: [{ typ: 'bundesland', bundeslaender: ['BW'] }],
+    hinweise: ['Gründung oder Übernahme in den letzten 5 Jahren'],
+    quelle: QUELLEN.lBank,
+  },
+  {
+    id: 'ibb-berlin-start',
+    name: 'Berlin Start',
+    traeger: 'Investitionsbank Berlin (IBB) über die Hausbank',
+    art: 'kredit',
+    typ: 'foerderkredit',
+    betrag: { min: 10000, max: 250000, typisch: 50000 },
+    zinssatz: { min: 4.0, max: 7.5, typisch: 5.5 },
+    laufzeit: 120,
+    tilgungsfrei: 24,
+    tilgungsart: 'raten',
+    sicherheiten: 'Bis zu 70 % Haftungsfreistellung der Hausbank',
+    regeln: [{ typ: 'bundesland', bundeslaender: ['BE'] }],
+    hinweise: ['Betriebsstätte in Berlin erforderlich'],
+    quelle: QUELLEN.ibb,
+  },
+  {
+    id: 'einstiegsgeld',
+    name: 'Einstiegsgeld',
+    traeger: 'Jobcenter',
+    art: 'zuschuss',
+    typ: 'andere',
+    // Usually 50 % of the Regelbedarf for 12 months, at most 100 % for 24 months
+    betrag: {
+      min: 0,
+      max: new Decimal(REGELBEDARF_MONATLICH).times(24).toNumber(),
+      typisch: new Decimal(REGELBEDARF_MONATLICH).times(0.5).times(12).toNumber(),
+    },
+    regeln: [{ typ: 'erwerbslosOhneAlg1' }],
+    hinweise: [
+      'Ermessensleistung: Antrag beim Jobcenter vor der Gründung stellen',
+      'Wird monatlich zusätzlich zum Bürgergeld gezahlt',
+      'Sachmittelzuschuss bis 5.000 € nach §16c SGB II zusätzlich möglich',
+    ],
+    quelle: QUELLEN.sgb2,
+  },
+  {
+    id: 'meistergruendungspraemie-nrw',
+    name: 'Meistergründungsprämie NRW',
+    traeger: 'Land NRW über die Handwerkskammer',
+    art: 'zuschuss',
+    typ: 'andere',
+    betrag: { min: 7500, max: 7500, typisch: 7500 },
+    regeln: [
+      { typ: 'bundesland', bundeslaender: ['NW'] },
+      { typ: 'meisterbrief' },
+      { typ: 'haupterwerb' },
+    ],
+    hinweise: [
+      'Antrag innerhalb von 12 Monaten nach der Gründung',
+      'Voraussetzung: Förderdarlehen der NRW.BANK oder Hausbank von mindestens 15.000 €',
+    ],
+    quelle: QUELLEN.meisterNrw,
+  },
+];
+
+// ============================================================================
+// Profile from Module Data
+// ============================================================================
+
+// Bundesland names, abbreviations and larger cities in Standort texts
+const BUNDESLAND_STICHWORTE: Record<Bundesland, string[]> = {
+  BW: ['baden-württemberg', 'stuttgart', 'karlsruhe', 'mannheim', 'freiburg', 'heidelberg', 'ulm'],
+  BY: ['bayern', 'münchen', 'nürnberg', 'augsburg', 'regensburg', 'würzburg'],
+  BE: ['berlin'],
+  BB: ['brandenburg', 'potsdam', 'cottbus'],
+  HB: ['bremen', 'bremerhaven'],
+  HH: ['hamburg'],
+  HE: ['hessen', 'frankfurt am main', 'wiesbaden', 'kassel', 'darmstadt'],
+  MV: ['mecklenburg-vorpommern', 'rostock', 'schwerin'],
+  NI: ['niedersachsen', 'hannover', 'braunschweig', 'osnabrück', 'oldenburg', 'göttingen'],
+  NW: ['nordrhein-westfalen', 'nrw', 'köln', 'düsseldorf', 'dortmund', 'essen', 'duisburg', 'bochum', 'münster', 'bielefeld', 'aachen', 'bonn'],
+  RP: ['rheinland-pfalz', 'mainz', 'koblenz', 'trier', 'kaiserslautern'],
+  SL: ['saarland', 'saarbrücken'],
+  SN: ['sachsen', 'dresden', 'leipzig', 'chemnitz'],
+  ST: ['sachsen-anhalt', 'magdeburg', 'halle'],
+  SH: ['schleswig-holstein', 'kiel', 'lübeck', 'flensburg'],
+  TH: ['thüringen', 'erfurt', 'jena', 'weimar'],
+};
+
+/**
+ * Detect the Bundesland in a free-text Standort ("Köln, NRW")
+ *
+ * Longer keywords win, so "Sachsen-Anhalt" is not read as "Sachsen".
+ */
+export function erkenneBundesland(text: string | undefined): Bundesland | undefined {
+  if (!text) return undefined;
+
+  const normalized = text.toLowerCase();
+  const treffer = (Object.entries(BUNDESLAND_STICHWORTE) as [Bundesland, string[]][])
+    .flatMap(([bundesland, stichworte]) => stichworte.map(stichwort => ({ bundesland, stichwort })))
+    .filter(({ stichwort }) => new RegExp(`(^|[^a-zäöüß])${stichwort}($|[^a-zäöüß-])`).test(normalized))
+    .sort((a, b) => b.stichwort.length - a.stichwort.length);
+
+  return treffer[0]?.bundesland;
+}
+
+/**
+ * Build the eligibility profile from Intake, Unternehmen and Finanzplanung
+ *
+ * The Finanzierungsbedarf is the open Finanzierungslücke; without a
+ * Finanzierung it is the Kapitalbedarf minus the available Eigenkapital.
+ */
+export function createFoerderProfil(input: {
+  intake?: PartialIntakeOutput;
+  unternehmen?: PartialUnternehmenOutput;
+  finanzplanung?: PartialFinanzplanungOutput;
+  bundesland?: Bundesland;             // Override when the Standort has no region
+}): FoerderProfil {
+  const { intake, unternehmen, finanzplanung } = input;
+  const gesamtkapitalbedarf = finanzplanung?.kapitalbedarf?.gesamtkapitalbedarf;
+  const finanzierungsluecke = finanzplanung?.finanzierung?.finanzierungsluecke;
+  const eigenkapital = intake?.resources?.financial?.availableCapital ?? 0;
+
+  const finanzierungsbedarf = finanzierungsluecke !== undefined
+    ? Decimal.max(0, finanzierungsluecke)
+    : Decimal.max(0, new Decimal(gesamtkapitalbedarf ?? 0).minus(eigenkapital));
+
+  const qualifikationen = [
+    intake?.founder?.qualifications?.education ?? '',
+    ...(intake?.founder?.qualifications?.certifications ?? []),
+  ];
+  const algStatus = intake?.founder?.algStatus;
+
+  return {
+    gesamtkapitalbedarf,
+    finanzierungsbedarf: finanzierungsbedarf.toNumber(),
+    bundesland: input.bundesland ?? erkenneBundesland(unternehmen?.standort?.address),
+    erwerbsstatus: intake?.founder?.currentStatus,
+    alg1Anspruch: algStatus ? (algStatus.daysRemaining ?? 0) > 0 : undefined,
+    meisterbrief: intake?.founder?.qualifications
+      ? qualifikationen.some(text => /meister/i.test(text))
+      : undefined,
+    haupterwerb: intake?.resources?.time?.isFullTime,
+    branche: intake?.businessType?.category,
+  };
+}
+
+// ============================================================================
+// Eligibility
+// ============================================================================
+
+/**
+ * Evaluate one eligibility rule - missing profile data yields 'unbekannt'
+ */
+export function pruefeFoerderRegel(regel: FoerderRegel, profil: FoerderProfil): FoerderRegelPruefung {
+  const ergebnis = (erfuellt: boolean | undefined, begruendung: string): FoerderRegelPruefung => ({
+    regel: regel.typ,
+    ergebnis: erfuellt === undefined ? 'unbekannt' : erfuellt ? 'erfuellt' : 'nicht_erfuellt',
+    begruendung,
+  });
+
+  switch (regel.typ) {
+    case 'maxKapitalbedarf':
+      return ergebnis(
+        profil.gesamtkapitalbedarf === undefined ? undefined : profil.gesamtkapitalbedarf <= regel.betrag,
+        `Gesamtfinanzierungsbedarf bis ${regel.betrag.toLocaleString('de-DE')} €`
+      );
+    case 'bundesland':
+      return ergebnis(
+        profil.bundesland === undefined ? undefined : regel.bundeslaender.includes(profil.bundesland),
+        `Standort in ${regel.bundeslaender.map(bundesland => BUNDESLAENDER[bundesland]).join(', ')}`
+      );
+    case 'erwerbslosOhneAlg1':
+      return ergebnis(
+        profil.erwerbsstatus === undefined
+          ? undefined
+          : profil.erwerbsstatus === 'unemployed' && profil.alg1Anspruch !== true,
+        'Bezug von Bürgergeld (kein Anspruch auf ALG I und Gründungszuschuss)'
+      );
+    case 'meisterbrief':
+      return ergebnis(profil.meisterbrief, 'Meisterbrief oder gleichwertige Qualifikation im Handwerk');
+    case 'haupterwerb':
+      return ergebnis(profil.haupterwerb, 'Gründung im Haupterwerb');
+  }
+}
+
+/**
+ * Check a programme against the profile and pre-fill its Finanzierungsquelle
+ *
+ * Loans are sized to the Finanzierungsbedarf within the programme limits,
+ * grants use their typical amount.
+ */
+export function bewerteFoerderprogramm(programm: FoerderProgramm, profil: FoerderProfil): FoerderVorschlag {
+  const pruefungen = programm.regeln.map(regel => pruefeFoerderRegel(regel, profil));
+
+  const eignung: FoerderEignung = pruefungen.some(pruefung => pruefung.ergebnis === 'nicht_erfuellt')
+    ? 'ungeeignet'
+    : pruefungen.some(pruefung => pruefung.ergebnis === 'unbekannt') ? 'pruefen' : 'geeignet';
+
+  const betrag = programm.art === 'kredit'
+    ? Decimal.min(programm.betrag.max, Decimal.max(programm.betrag.min, profil.finanzierungsbedarf))
+    : new Decimal(programm.betrag.typisch);
+
+  return {
+    programm,
+    eignung,
+    pruefungen,
+    finanzierungsquelle: {
+      typ: programm.typ,
+      bezeichnung: `${programm.name} (${programm.traeger})`,
+      betrag: betrag.toNumber(),
+      ...(programm.zinssatz && { zinssatz: programm.zinssatz.typisch }),
+      ...(programm.laufzeit !== undefined && { laufzeit: programm.laufzeit }),
+      ...(programm.tilgungsfrei !== undefined && { tilgungsfrei: programm.tilgungsfrei }),
+      ...(programm.tilgungsart && { tilgungsart: programm.tilgungsart }),
+      ...(programm.sicherheiten && { sicherheiten: programm.sicherheiten }),
+      status: 'geplant',
+    },
+  };
+}
+
+const EIGNUNG_REIHENFOLGE: Record<FoerderEignung, number> = { geeignet: 0, pruefen: 1, ungeeignet: 2 };
+
+/**
+ * Evaluate the whole catalogue for a profile
+ *
+ * Sorted by eligibility, grants before loans, then by the typical rate.
+ * Handwerk programmes are only shown for Handwerk or founders with Meisterbrief.
+ */
+export function findeFoerderprogramme(
+  profil: FoerderProfil,
+  katalog: FoerderProgramm[] = FOERDERPROGRAMME
+): FoerderVorschlag[] {
+  const istHandwerk = resolveBranche(profil.branche) === 'handwerk' || profil.meisterbrief === true;
+
+  return katalog
+    .filter(programm => istHandwerk || !programm.regeln.some(regel => regel.typ === 'meisterbrief'))
+    .map(programm => bewerteFoerderprogramm(programm, profil))
+    .sort((a, b) =>
+      EIGNUNG_REIHENFOLGE[a.eignung] - EIGNUNG_REIHENFOLGE[b.eignung]
+      || (a.programm.art === b.programm.art ? 0 : a.programm.art === 'zuschuss' ? -1 : 1)
+      || (a.programm.zinssatz?.typisch ?? 0) - (b.programm.zinssatz?.typisch ?? 0)
+    );
+}
+
+/**
+ * Finanzierungsquellen for all eligible programmes
+ *
+ * Only one loan is suggested (the cheapest), as several Förderkredite for
+ * the same Finanzierungsbedarf would double the financing.
+ */
+export function createFoerderFinanzierungsquellen(
+  vorschlaege: FoerderVorschlag[],
+  eignungen: FoerderEignung[] = ['geeignet']
+): Finanzierungsquelle[] {
+  const passend = vorschlaege.filter(vorschlag => eignungen.includes(vorschlag.eignung));
+  const kredit = passend
+    .filter(vorschlag => vorschlag.programm.art === 'kredit')
+    .sort((a, b) => (a.programm.zinssatz?.typisch ?? 0) - (b.programm.zinssatz?.typisch ?? 0))[0];
+
+  return passend
+    .filter(vorschlag => vorschlag.programm.art === 'zuschuss' || vorschlag === kredit)
+    .map(vorschlag => vorschlag.finanzierungsquelle);
+}
+
+/**
+ * Catalogue entries older than the given age, for the yearly data review
+ */
+export function findVeralteteFoerderprogramme(
+  aktuellesJahr: number,
+  maxAlterJahre: number = 1
+): { id: string; quelle: string; gueltigJahr: number }[] {
+  return FOERDERPROGRAMME
+    .filter(programm => aktuellesJahr - programm.quelle.gueltigJahr > maxAlterJahre)
+    .map(programm => ({ id: programm.id, ...programm.quelle }));
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  FOERDERKATALOG_VERSION,
+  FOERDERPROGRAMME,
+  erkenneBundesland,
+  createFoerderProfil,
+  pruefeFoerderRegel,
+  bewerteFoerderprogramm,
+  findeFoerderprogramme,
+  createFoerderFinanzierungsquellen,
+  findVeralteteFoerderprogramme,
+};
@@ -0,0 +1,271 @@
+/**
+ * Gründer-Sozialversicherung (Founder Social and Health Insurance)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Self-employed founders pay their social insurance in full from the
+ * Privatentnahme - the biggest surprise after leaving employment.
+ *
+ * Includes:
+ * - Freiwillige gesetzliche Krankenversicherung on the planned profit,
+ *   with Mindestbemessungsgrundlage and Beitragsbemessungsgrenze
+ * - Pflegeversicherung with Kinderlosenzuschlag
+ * - Arbeitslosenversicherung auf Antrag (§28a SGB III)
+ * - Rentenversicherungspflicht for Handwerker and some Freiberufler (§2 SGB VI)
+ * - Realistic monthly minimum for the Privatentnahme
+ */
+
+import Decimal from 'decimal.js';
+import type { Rentabilitaet } from '@/types/modules/finanzplanung';
+import type { DetailedBusinessTypeId } from '@/lib/business-types';
+import { SOZIALVERSICHERUNG } from './personalkosten';
+import { formatEUR } from './umsatzplanung';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// ============================================================================
+// German Social Security for the Self-Employed 2026
+// ============================================================================
+
+export const GRUENDER_SOZIALVERSICHERUNG = {
+  kvErmaessigt: 14.0,                 // Without Krankengeld entitlement
+  pvKinderlosenzuschlag: 0.6,         // From age 23 without children
+  mindestbemessungMonatlich: 1318.33, // 1/90 of the monthly Bezugsgröße × 30 (§240 Abs. 4 SGB V)
+  bezugsgroesseMonatlich: 3955,       // §18 SGB IV
+  rvMindestbemessungMonatlich: 603,   // Minimum income for einkommensgerechte RV-Beiträge
+  regelaltersgrenze: 67,
+};
+
+/**
+ * Business types with (possible) mandatory Rentenversicherung
+ */
+const RENTENVERSICHERUNGSPFLICHT: Partial<Record<DetailedBusinessTypeId, { pflichtig: boolean; hinweis: string }>> = {
+  handwerk: {
+    pflichtig: true,
+    hinweis: 'Eingetragene Handwerker in zulassungspflichtigen Gewerken sind rentenversicherungspflichtig (§2 Satz 1 Nr. 8 SGB VI)',
+  },
+  gesundheit: {
+    pflichtig: false,
+    hinweis: 'Pflegepersonen, Hebammen und Physiotherapeuten ohne versicherungspflichtige Angestellte sind rentenversicherungspflichtig (§2 Satz 1 Nr. 2, 3 SGB VI) - bitte prüfen',
+  },
+  freiberufler: {
+    pflichtig: false,
+    hinweis: 'Selbstständige Lehrer, Dozenten und Künstler (über die KSK) sind rentenversicherungspflichtig (§2 Satz 1 Nr. 1, 5 SGB VI) - bitte prüfen',
+  },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GruenderSozialversicherungOptions {
+  businessTypeId?: DetailedBusinessTypeId;
+  alter: number;
+  kinderlos?: boolean;                     // Default: true
+  krankengeld?: boolean;                   // Wahlerklärung Krankengeld (default: true)
+  arbeitslosenversicherung?: boolean;      // Antragspflichtversicherung (default: false)
+  rentenversicherungspflichtig?: boolean;  // Override the business type default
+}
+
+export interface GruenderSozialversicherungJahr {
+  jahr: number;
+  gewinnMonatlich: number;
+  bemessungsgrundlage: number;             // Monthly KV/PV base
+  krankenversicherung: number;
+  pflegeversicherung: number;
+  arbeitslosenversicherung: number;
+  rentenversicherung: number;
+  gesamtMonatlich: number;
+}
+
+export interface GruenderSozialversicherung {
+  jahre: GruenderSozialversicherungJahr[];
+  mindestbeitragMonatlich: number;         // Year 1 total → Privatentnahme
+  annahmen: string[];
+  hinweise: string[];
+}
+
+// ============================================================================
+// Contribution Calculations
+// ============================================================================
+
+function formatSatz(satz: Decimal.Value): string {
+  return `${new Decimal(satz).toString().replace('.', ',')}%`;
+}
+
+/**
+ * Monthly KV/PV base: profit between Mindestbemessungsgrundlage and BBG
+ */
+export function calculateBemessungsgrundlage(gewinnMonatlich: number): number {
+  return Decimal.min(
+    SOZIALVERSICHERUNG.bbgKvPv,
+    Decimal.max(GRUENDER_SOZIALVERSICHERUNG.mindestbemessungMonatlich, gewinnMonatlich)
+  ).toNumber();
+}
+
+/**
+ * KV and PV rate (%) of a voluntarily insured founder
+ */
+export function getKvPvSaetze(options: Pick<GruenderSozialversicherungOptions, 'alter' | 'kinderlos' | 'krankengeld'>): {
+  krankenversicherung: number;
+  pflegeversicherung: number;
+} {
+  const kvSatz = options.krankengeld === false
+    ? GRUENDER_SOZIALVERSICHERUNG.kvErmaessigt
+    : SOZIALVERSICHERUNG.krankenversicherung;
+  const kinderlosenzuschlag = (options.kinderlos ?? true) && options.alter >= 23
+    ? GRUENDER_SOZIALVERSICHERUNG.pvKinderlosenzuschlag
+    : 0;
+
+  return {
+    krankenversicherung: new Decimal(kvSatz).plus(SOZIALVERSICHERUNG.kvZusatzbeitrag).toNumber(),
+    pflegeversicherung: new Decimal(SOZIALVERSICHERUNG.pflegeversicherung).plus(kinderlosenzuschlag).toNumber(),
+  };
+}
+
+/**
+ * Mandatory Rentenversicherung by business type, explicit choice wins
+ */
+export function getRentenversicherungspflicht(
+  options: Pick<GruenderSozialversicherungOptions, 'businessTypeId' | 'alter' | 'rentenversicherungspflichtig'>
+): { pflichtig: boolean; hinweis?: string } {
+  const regel = options.businessTypeId ? RENTENVERSICHERUNGSPFLICHT[options.businessTypeId] : undefined;
+
+  if (options.alter >= GRUENDER_SOZIALVERSICHERUNG.regelaltersgrenze) {
+    return { pflichtig: false, hinweis: 'Ab der Regelaltersgrenze besteht keine Rentenversicherungspflicht mehr' };
+  }
+
+  return {
+    pflichtig: options.rentenversicherungspflichtig ?? regel?.pflichtig ?? false,
+    hinweis: regel?.hinweis,
+  };
+}
+
+/**
+ * Monthly contributions for one plan year
+ *
+ * ALV auf Antrag: half Bezugsgröße in the founding year and the year after.
+ * RV: half Regelbeitrag in the first three years (§165 Abs. 1 Satz 2 SGB VI).
+ */
+export function calculateSozialversicherungJahr(
+  jahr: number,
+  gewinnJaehrlich: number,
+  options: GruenderSozialversicherungOptions
+): GruenderSozialversicherungJahr {
+  const gewinnMonatlich = new Decimal(gewinnJaehrlich).dividedBy(12);
+  const bemessungsgrundlage = new Decimal(calculateBemessungsgrundlage(gewinnMonatlich.toNumber()));
+  const saetze = getKvPvSaetze(options);
+  const bezugsgroesse = new Decimal(GRUENDER_SOZIALVERSICHERUNG.bezugsgroesseMonatlich);
+
+  const krankenversicherung = bemessungsgrundlage.times(saetze.krankenversicherung).dividedBy(100).toDecimalPlaces(2);
+  const pflegeversicherung = bemessungsgrundlage.times(saetze.pflegeversicherung).dividedBy(100).toDecimalPlaces(2);
+
+  let arbeitslosenversicherung = new Decimal(0);
+  if (options.arbeitslosenversicherung && options.alter < GRUENDER_SOZIALVERSICHERUNG.regelaltersgrenze) {
+    const basis = jahr <= 2 ? bezugsgroesse.dividedBy(2) : bezugsgroesse;
+    arbeitslosenversicherung = basis.times(SOZIALVERSICHERUNG.arbeitslosenversicherung).dividedBy(100).toDecimalPlaces(2);
+  }
+
+  let rentenversicherung = new Decimal(0);
+  if (getRentenversicherungspflicht(options).pflichtig) {
+    rentenversicherung = bezugsgroesse.dividedBy(2).times(SOZIALVERSICHERUNG.rentenversicherung).dividedBy(100).toDecimalPlaces(2);
+  }
+
+  const gesamtMonatlich = krankenversicherung
+    .plus(pflegeversicherung)
+    .plus(arbeitslosenversicherung)
+    .plus(rentenversicherung);
+
+  return {
+    jahr,
+    gewinnMonatlich: gewinnMonatlich.toDecimalPlaces(2).toNumber(),
+    bemessungsgrundlage: bemessungsgrundlage.toNumber(),
+    krankenversicherung: krankenversicherung.toNumber(),
+    pflegeversicherung: pflegeversicherung.toNumber(),
+    arbeitslosenversicherung: arbeitslosenversicherung.toNumber(),
+    rentenversicherung: rentenversicherung.toNumber(),
+    gesamtMonatlich: gesamtMonatlich.toNumber(),
+  };
+}
+
+// ============================================================================
+// Complete Calculation Function
+// ============================================================================
+
+/**
+ * Founder social insurance for the three plan years from the projected profit
+ */
+export function calculateGruenderSozialversicherung(
+  rentabilitaet: Pick<Rentabilitaet, 'jahr1' | 'jahr2' | 'jahr3'>,
+  options: GruenderSozialversicherungOptions
+): GruenderSozialversicherung {
+  const gewinne = [rentabilitaet.jahr1, rentabilitaet.jahr2, rentabilitaet.jahr3].map(jahr => jahr.ergebnisVorSteuern);
+  const jahre = gewinne.map((gewinn, index) => calculateSozialversicherungJahr(index + 1, gewinn, options));
+  const saetze = getKvPvSaetze(options);
+  const rentenversicherung = getRentenversicherungspflicht(options);
+
+  const annahmen: string[] = [
+    `Freiwillige gesetzliche Krankenversicherung: ${formatSatz(saetze.krankenversicherung)} inkl. Zusatzbeitrag${options.krankengeld === false ? ' (ermäßigter Satz ohne Krankengeld)' : ' (mit Anspruch auf Krankengeld)'}`,
+    `Beitragsbemessung vorläufig nach dem geplanten Gewinn, mindestens ${formatEUR(GRUENDER_SOZIALVERSICHERUNG.mindestbemessungMonatlich)} und höchstens ${formatEUR(SOZIALVERSICHERUNG.bbgKvPv)} pro Monat - endgültig nach dem Einkommensteuerbescheid (§240 Abs. 4a SGB V)`,
+    `Pflegeversicherung: ${formatSatz(saetze.pflegeversicherung)}${saetze.pflegeversicherung > SOZIALVERSICHERUNG.pflegeversicherung ? ' inkl. Kinderlosenzuschlag' : ''}`,
+  ];
+
+  if (options.arbeitslosenversicherung) {
+    annahmen.push(`Arbeitslosenversicherung auf Antrag: ${formatSatz(SOZIALVERSICHERUNG.arbeitslosenversicherung)} der halben Bezugsgröße im Gründungsjahr und im Folgejahr, danach der vollen Bezugsgröße`);
+  }
+
+  if (rentenversicherung.pflichtig) {
+    annahmen.push(`Rentenversicherungspflicht: halber Regelbeitrag (${formatSatz(SOZIALVERSICHERUNG.rentenversicherung)} der halben Bezugsgröße) in den ersten drei Kalenderjahren`);
+  }
+
+  const hinweise: string[] = [];
+
+  if (rentenversicherung.hinweis) {
+    hinweise.push(rentenversicherung.hinweis);
+  }
+
+  if (rentenversicherung.pflichtig) {
+    hinweise.push(`Auf Antrag sind einkommensgerechte Beiträge ab einem Einkommen von ${formatEUR(GRUENDER_SOZIALVERSICHERUNG.rvMindestbemessungMonatlich)} pro Monat möglich`);
+  }
+
+  if (!options.arbeitslosenversicherung && options.alter < GRUENDER_SOZIALVERSICHERUNG.regelaltersgrenze) {
+    hinweise.push('Arbeitslosenversicherung auf Antrag prüfen - der Antrag muss innerhalb von drei Monaten nach Gründung gestellt werden');
+  }
+
+  if (gewinne.some(gewinn => gewinn <= 0)) {
+    hinweise.push('Auch ohne Gewinn fällt der Mindestbeitrag zur Kranken- und Pflegeversicherung an');
+  }
+
+  if (options.alter >= 55) {
+    hinweise.push('Ab 55 Jahren ist die Rückkehr aus der privaten in die gesetzliche Krankenversicherung kaum noch möglich');
+  }
+
+  return {
+    jahre,
+    mindestbeitragMonatlich: jahre[0]?.gesamtMonatlich ?? 0,
+    annahmen,
+    hinweise,
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  GRUENDER_SOZIALVERSICHERUNG,
+  calculateBemessungsgrundlage,
+  getKvPvSaetze,
+  getRentenversicherungspflicht,
+  calculateSozialversicherungJahr,
+  calculateGruenderSozialversicherung,
+};
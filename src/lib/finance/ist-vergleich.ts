@@ -0,0 +1,495 @@
+/**
+ * Plan vs. Ist (Actuals after the Launch)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * After the BA approval the plan is compared with the monthly actuals the
+ * founder enters - the basis for the Gründungszuschuss Phase 2 application.
+ *
+ * Includes:
+ * - Monthly actuals (Umsatz, Kosten, Kontostand) in PartialFinanzplanungOutput.istDaten
+ * - Variance analysis against Umsatzplanung, Kostenplanung and Liquidität
+ * - Rolling forecast: actuals plus trend, recalculated through the existing calculators
+ * - Phase 2 readiness report
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  IstMonat,
+  Kostenplanung,
+  PartialFinanzplanungOutput,
+  Rentabilitaet,
+  SzenarioAnnahmen,
+  Umsatzplanung,
+} from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import type { LiquiditaetInput } from './liquiditaet';
+import { calculateLiquiditaet, formatEUR } from './liquiditaet';
+import { calculateRentabilitaet } from './rentabilitaet';
+import { projectGrowthRates, projectMonthlyRevenue } from './umsatzplanung';
+import { projectMonthlyCosts } from './kostenplanung';
+import { applySzenarioAnnahmen } from './szenarien';
+import { GZ_PHASE1_MONATE } from './finanzierung';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// Variance in % of the plan
+const TOLERANZ_PROZENT = 10;
+const KRITISCH_PROZENT = 25;
+
+// Months used for the forecast trend
+const TREND_MONATE = 3;
+
+// Phase 2 is applied for before the end of Phase 1
+const MINDEST_IST_MONATE = GZ_PHASE1_MONATE - 1;
+const MINDEST_UMSATZERREICHUNG = 70;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AbweichungStatus = 'im-plan' | 'abweichend' | 'kritisch';
+
+export interface IstVergleichMonat {
+  monat: number;
+  umsatzSoll: number;
+  umsatzIst: number;
+  umsatzAbweichung: number;
+  umsatzAbweichungProzent: number;
+  kostenSoll: number;                  // Fixkosten + variable Kosten + Personalkosten
+  kostenIst: number;
+  kostenAbweichung: number;
+  kostenAbweichungProzent: number;
+  kontostandSoll: number;              // Endbestand of the Liquiditätsplanung
+  kontostandIst: number;
+  kontostandAbweichung: number;
+  status: AbweichungStatus;
+}
+
+export interface IstVergleich {
+  monate: IstVergleichMonat[];
+  umsatzSollKumuliert: number;
+  umsatzIstKumuliert: number;
+  umsatzErreichungProzent: number;     // Ist / Soll × 100
+  kostenSollKumuliert: number;
+  kostenIstKumuliert: number;
+  kostenAbweichungProzent: number;
+  status: AbweichungStatus;            // Worst month
+  hinweise: string[];
+}
+
+export interface RollingForecast {
+  istMonate: number;
+  annahmen: SzenarioAnnahmen;          // Trend of the last months as scenario overrides
+  umsatzplanung: Umsatzplanung;        // Actuals in Jahr 1, trend afterwards
+  kostenplanung: Kostenplanung;
+  rentabilitaet: Rentabilitaet;
+  kontostand: number[];                // 36 months: actuals, then forecast from the last Kontostand
+  minimumLiquiditaet: number;
+  minimumMonat: number;
+  hatNegativeLiquiditaet: boolean;
+}
+
+export interface Phase2Kriterium {
+  id: string;
+  name: string;
+  erfuellt: boolean;
+  detail: string;
+}
+
+export interface Phase2Bericht {
+  bereit: boolean;
+  istMonate: number;
+  kriterien: Phase2Kriterium[];
+  empfehlungen: string[];
+  zusammenfassung: string;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Actuals sorted by month, only months within the plan horizon
+ */
+function sortIstDaten(ist: IstMonat[]): IstMonat[] {
+  return ist
+    .filter(monat => monat.monat >= 1 && monat.monat <= LIQUIDITAET_PLANUNGSMONATE)
+    .sort((a, b) => a.monat - b.monat);
+}
+
+/**
+ * Deviation in % of the plan value (0 without plan value)
+ */
+function abweichungProzent(soll: Decimal, ist: Decimal): number {
+  if (soll.isZero()) return 0;
+  return ist.minus(soll).dividedBy(soll).times(100).toDecimalPlaces(1).toNumber();
+}
+
+function formatProzent(wert: number): string {
+  return `${wert > 0 ? '+' : ''}${wert.toFixed(1).replace('.', ',')}%`;
+}
+
+function schlechtererStatus(a: AbweichungStatus, b: AbweichungStatus): AbweichungStatus {
+  const rang: Record<AbweichungStatus, number> = { 'im-plan': 0, abweichend: 1, kritisch: 2 };
+  return rang[b] > rang[a] ? b : a;
+}
+
+/**
+ * Planned revenue, costs and Kontostand per month (36 months)
+ */
+function getSollWerte(input: LiquiditaetInput) {
+  const umsatz = projectMonthlyRevenue(input.umsatzplanung, input.seasonality);
+  const kosten = projectMonthlyCosts(input.umsatzplanung, input.kostenplanung, input.seasonality);
+  const liquiditaet = calculateLiquiditaet(input);
+
+  return {
+    umsatz,
+    fixkosten: kosten.fixkosten.map((betrag, index) =>
+      new Decimal(betrag).plus(kosten.personalkosten[index] ?? 0).toNumber()
+    ),
+    variableKosten: kosten.variableKosten,
+    kontostand: liquiditaet.monate.map(monat => monat.endbestand),
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Store actuals in the Finanzplanung output (replaces months already entered)
+ */
+export function storeIstDaten(
+  finanzplanung: PartialFinanzplanungOutput,
+  ist: IstMonat[]
+): PartialFinanzplanungOutput {
+  const monate = new Set(ist.map(monat => monat.monat));
+  const bestehend = (finanzplanung.istDaten ?? []).filter(monat => !monate.has(monat.monat));
+
+  return {
+    ...finanzplanung,
+    istDaten: sortIstDaten([...bestehend, ...ist]),
+  };
+}
+
+// ============================================================================
+// Variance Analysis
+// ============================================================================
+
+/**
+ * Compare the actuals with Umsatzplanung, Kostenplanung and Liquidität
+ */
+export function calculateIstVergleich(input: LiquiditaetInput, ist: IstMonat[]): IstVergleich {
+  const soll = getSollWerte(input);
+  const hinweise: string[] = [];
+
+  let umsatzSollKumuliert = new Decimal(0);
+  let umsatzIstKumuliert = new Decimal(0);
+  let kostenSollKumuliert = new Decimal(0);
+  let kostenIstKumuliert = new Decimal(0);
+  let gesamtStatus: AbweichungStatus = 'im-plan';
+
+  const monate = sortIstDaten(ist).map(istMonat => {
+    const index = istMonat.monat - 1;
+    const umsatzSoll = new Decimal(soll.umsatz[index] ?? 0);
+    const kostenSoll = new Decimal(soll.fixkosten[index] ?? 0).plus(soll.variableKosten[index] ?? 0);
+    const kontostandSoll = new Decimal(soll.kontostand[index] ?? 0);
+    const umsatzIst = new Decimal(istMonat.umsatz);
+    const kostenIst = new Decimal(istMonat.kosten);
+
+    const umsatzProzent = abweichungProzent(umsatzSoll, umsatzIst);
+    const kostenProzent = abweichungProzent(kostenSoll, kostenIst);
+
+    // Less revenue and more costs than planned are the critical directions
+    let status: AbweichungStatus = 'im-plan';
+    if (umsatzProzent <= -TOLERANZ_PROZENT || kostenProzent >= TOLERANZ_PROZENT) status = 'abweichend';
+    if (umsatzProzent <= -KRITISCH_PROZENT || kostenProzent >= KRITISCH_PROZENT || istMonat.kontostand < 0) {
+      status = 'kritisch';
+    }
+
+    if (istMonat.kontostand < 0) {
+      hinweise.push(`Monat ${istMonat.monat}: Kontostand negativ (${formatEUR(istMonat.kontostand)})`);
+    } else if (status === 'kritisch') {
+      hinweise.push(
+        `Monat ${istMonat.monat}: Umsatz ${formatProzent(umsatzProzent)}, Kosten ${formatProzent(kostenProzent)} gegenüber Plan`
+      );
+    }
+
+    umsatzSollKumuliert = umsatzSollKumuliert.plus(umsatzSoll);
+    umsatzIstKumuliert = umsatzIstKumuliert.plus(umsatzIst);
+    kostenSollKumuliert = kostenSollKumuliert.plus(kostenSoll);
+    kostenIstKumuliert = kostenIstKumuliert.plus(kostenIst);
+    gesamtStatus = schlechtererStatus(gesamtStatus, status);
+
+    return {
+      monat: istMonat.monat,
+      umsatzSoll: umsatzSoll.toDecimalPlaces(2).toNumber(),
+      umsatzIst: umsatzIst.toNumber(),
+      umsatzAbweichung: umsatzIst.minus(umsatzSoll).toDecimalPlaces(2).toNumber(),
+      umsatzAbweichungProzent: umsatzProzent,
+      kostenSoll: kostenSoll.toDecimalPlaces(2).toNumber(),
+      kostenIst: kostenIst.toNumber(),
+      kostenAbweichung: kostenIst.minus(kostenSoll).toDecimalPlaces(2).toNumber(),
+      kostenAbweichungProzent: kostenProzent,
+      kontostandSoll: kontostandSoll.toDecimalPlaces(2).toNumber(),
+      kontostandIst: istMonat.kontostand,
+      kontostandAbweichung: new Decimal(istMonat.kontostand).minus(kontostandSoll).toDecimalPlaces(2).toNumber(),
+      status,
+    };
+  });
+
+  const umsatzErreichungProzent = umsatzSollKumuliert.gt(0)
+    ? umsatzIstKumuliert.dividedBy(umsatzSollKumuliert).times(100).toDecimalPlaces(1).toNumber()
+    : 0;
+
+  return {
+    monate,
+    umsatzSollKumuliert: umsatzSollKumuliert.toDecimalPlaces(2).toNumber(),
+    umsatzIstKumuliert: umsatzIstKumuliert.toNumber(),
+    umsatzErreichungProzent,
+    kostenSollKumuliert: kostenSollKumuliert.toDecimalPlaces(2).toNumber(),
+    kostenIstKumuliert: kostenIstKumuliert.toNumber(),
+    kostenAbweichungProzent: abweichungProzent(kostenSollKumuliert, kostenIstKumuliert),
+    status: gesamtStatus,
+    hinweise,
+  };
+}
+
+// ============================================================================
+// Rolling Forecast
+// ============================================================================
+
+/**
+ * Trend of the last months as scenario overrides
+ *
+ * Revenue follows the actual/plan ratio. Variable costs follow the revenue
+ * (as in applyKostenAenderung), the remaining cost deviation is fixed costs.
+ */
+function calculateTrendAnnahmen(input: LiquiditaetInput, ist: IstMonat[]): SzenarioAnnahmen {
+  const soll = getSollWerte(input);
+  const trendMonate = ist.slice(-TREND_MONATE);
+
+  const summe = (werte: (number | undefined)[]) =>
+    werte.reduce<Decimal>((sum, wert) => sum.plus(wert ?? 0), new Decimal(0));
+
+  const umsatzSoll = summe(trendMonate.map(monat => soll.umsatz[monat.monat - 1]));
+  const umsatzIst = summe(trendMonate.map(monat => monat.umsatz));
+  const umsatzFaktor = umsatzSoll.gt(0) ? umsatzIst.dividedBy(umsatzSoll) : new Decimal(1);
+
+  const fixSoll = summe(trendMonate.map(monat => soll.fixkosten[monat.monat - 1]));
+  const variabelSoll = summe(trendMonate.map(monat => soll.variableKosten[monat.monat - 1]));
+  const fixIst = summe(trendMonate.map(monat => monat.kosten)).minus(variabelSoll.times(umsatzFaktor));
+  const fixFaktor = fixSoll.gt(0) ? fixIst.dividedBy(fixSoll) : new Decimal(1);
+
+  return {
+    umsatzAenderung: umsatzFaktor.minus(1).times(100).toDecimalPlaces(2).toNumber(),
+    fixkostenAenderung: Decimal.max(-100, fixFaktor.minus(1).times(100)).toDecimalPlaces(2).toNumber(),
+    variableKostenAenderung: 0,
+    zahlungszielAenderung: 0,
+  };
+}
+
+/**
+ * Replace the elapsed months of Jahr 1 with the actual revenue
+ */
+function applyIstUmsatz(
+  umsatzplanung: Umsatzplanung,
+  kostenplanung: Kostenplanung,
+  ist: IstMonat[]
+): { umsatzplanung: Umsatzplanung; kostenplanung: Kostenplanung } {
+  const istJahr1 = new Map(ist.filter(monat => monat.monat <= 12).map(monat => [monat.monat, monat.umsatz]));
+  const umsatzJahr1 = umsatzplanung.umsatzJahr1.map((betrag, index) => istJahr1.get(index + 1) ?? betrag);
+  const umsatzJahr1Summe = umsatzJahr1.reduce((sum, betrag) => sum.plus(betrag), new Decimal(0));
+  const growthRates = projectGrowthRates(umsatzJahr1Summe.toNumber(), umsatzplanung.umsatzJahr2, umsatzplanung.umsatzJahr3);
+
+  // Keep the planned variable cost ratio of Jahr 1
+  const variableKostenSummeJahr1 = umsatzplanung.umsatzJahr1Summe > 0
+    ? new Decimal(kostenplanung.variableKostenSummeJahr1)
+      .dividedBy(umsatzplanung.umsatzJahr1Summe)
+      .times(umsatzJahr1Summe)
+    : new Decimal(kostenplanung.variableKostenSummeJahr1);
+
+  return {
+    umsatzplanung: {
+      ...umsatzplanung,
+      umsatzJahr1,
+      umsatzJahr1Summe: umsatzJahr1Summe.toNumber(),
+      wachstumsrateJahr2: growthRates.jahr1ToJahr2,
+      wachstumsrateJahr3: growthRates.jahr2ToJahr3,
+    },
+    kostenplanung: {
+      ...kostenplanung,
+      variableKostenSummeJahr1: variableKostenSummeJahr1.toDecimalPlaces(2).toNumber(),
+      gesamtkostenJahr1: new Decimal(kostenplanung.gesamtkostenJahr1)
+        .minus(kostenplanung.variableKostenSummeJahr1)
+        .plus(variableKostenSummeJahr1)
+        .toDecimalPlaces(2)
+        .toNumber(),
+    },
+  };
+}
+
+/**
+ * Re-run the Finanzplanung with the actuals and the trend of the last months
+ *
+ * The Liquidität continues from the last actual Kontostand with the
+ * monthly cash flows of the recalculated plan.
+ */
+export function calculateRollingForecast(input: LiquiditaetInput, ist: IstMonat[]): RollingForecast {
+  const istDaten = sortIstDaten(ist);
+  const annahmen = calculateTrendAnnahmen(input, istDaten);
+  const trendInput = applySzenarioAnnahmen(input, annahmen);
+  const forecastPlanung = applyIstUmsatz(trendInput.umsatzplanung, trendInput.kostenplanung, istDaten);
+  const forecastInput: LiquiditaetInput = { ...trendInput, ...forecastPlanung };
+
+  const rentabilitaet = calculateRentabilitaet({
+    umsatzplanung: forecastInput.umsatzplanung,
+    kostenplanung: forecastInput.kostenplanung,
+    finanzierung: forecastInput.finanzierung,
+    kapitalbedarf: forecastInput.kapitalbedarf,
+    afa: forecastInput.afa,
+    steuerProfil: forecastInput.steuerProfil,
+  });
+  const liquiditaet = calculateLiquiditaet(forecastInput);
+
+  const letzterIstMonat = istDaten[istDaten.length - 1];
+  const verschiebung = letzterIstMonat
+    ? new Decimal(letzterIstMonat.kontostand).minus(liquiditaet.monate[letzterIstMonat.monat - 1]?.endbestand ?? 0)
+    : new Decimal(0);
+  const istKontostand = new Map(istDaten.map(monat => [monat.monat, monat.kontostand]));
+
+  const kontostand = liquiditaet.monate.map(monat =>
+    istKontostand.get(monat.monat) ?? new Decimal(monat.endbestand).plus(verschiebung).toDecimalPlaces(2).toNumber()
+  );
+
+  const minimumLiquiditaet = Math.min(...kontostand);
+
+  return {
+    istMonate: istDaten.length,
+    annahmen,
+    umsatzplanung: forecastInput.umsatzplanung,
+    kostenplanung: forecastInput.kostenplanung,
+    rentabilitaet,
+    kontostand,
+    minimumLiquiditaet,
+    minimumMonat: kontostand.indexOf(minimumLiquiditaet) + 1,
+    hatNegativeLiquiditaet: minimumLiquiditaet < 0,
+  };
+}
+
+// ============================================================================
+// Phase 2 Report
+// ============================================================================
+
+/**
+ * Readiness report for the Gründungszuschuss Phase 2 application
+ *
+ * The Agentur für Arbeit expects proof of intensive, full-time business
+ * activity: actuals for the first months, revenue close to the plan and a
+ * business that can carry itself with the reduced Phase 2 support.
+ */
+export function createPhase2Bericht(input: LiquiditaetInput, ist: IstMonat[]): Phase2Bericht {
+  const istDaten = sortIstDaten(ist);
+  const vergleich = calculateIstVergleich(input, istDaten);
+  const forecast = calculateRollingForecast(input, istDaten);
+
+  const trendMonate = istDaten.slice(-TREND_MONATE);
+  const ergebnisMonatlich = trendMonate.length > 0
+    ? trendMonate
+      .reduce((sum, monat) => sum.plus(monat.umsatz).minus(monat.kosten), new Decimal(0))
+      .dividedBy(trendMonate.length)
+    : new Decimal(0);
+  const negativeMonate = istDaten.filter(monat => monat.kontostand < 0);
+
+  const kriterien: Phase2Kriterium[] = [
+    {
+      id: 'ist-monate',
+      name: 'Ist-Daten erfasst',
+      erfuellt: istDaten.length >= MINDEST_IST_MONATE,
+      detail: `${istDaten.length} von mindestens ${MINDEST_IST_MONATE} Monaten erfasst`,
+    },
+    {
+      id: 'umsatz-erreichung',
+      name: 'Umsatz im Rahmen des Plans',
+      erfuellt: vergleich.umsatzErreichungProzent >= MINDEST_UMSATZERREICHUNG,
+      detail: `${vergleich.umsatzErreichungProzent.toFixed(1).replace('.', ',')}% des geplanten Umsatzes erreicht (${formatEUR(vergleich.umsatzIstKumuliert)} von ${formatEUR(vergleich.umsatzSollKumuliert)})`,
+    },
+    {
+      id: 'kontostand',
+      name: 'Kontostand nie negativ',
+      erfuellt: negativeMonate.length === 0,
+      detail: negativeMonate.length === 0
+        ? 'Geschäftskonto in allen erfassten Monaten gedeckt'
+        : `Negativer Kontostand in Monat ${negativeMonate.map(monat => monat.monat).join(', ')}`,
+    },
+    {
+      id: 'ergebnis-trend',
+      name: 'Positives Monatsergebnis',
+      erfuellt: ergebnisMonatlich.gt(0),
+      detail: `Durchschnittliches Ergebnis der letzten ${trendMonate.length} Monate: ${formatEUR(ergebnisMonatlich)}`,
+    },
+    {
+      id: 'forecast-liquiditaet',
+      name: 'Liquidität im Forecast gesichert',
+      erfuellt: !forecast.hatNegativeLiquiditaet,
+      detail: forecast.hatNegativeLiquiditaet
+        ? `Forecast zeigt ${formatEUR(forecast.minimumLiquiditaet)} in Monat ${forecast.minimumMonat}`
+        : `Niedrigster Kontostand im Forecast: ${formatEUR(forecast.minimumLiquiditaet)} (Monat ${forecast.minimumMonat})`,
+    },
+  ];
+
+  const empfehlungen: string[] = [];
+  const offen = (id: string) => kriterien.some(kriterium => kriterium.id === id && !kriterium.erfuellt);
+
+  if (offen('ist-monate')) {
+    empfehlungen.push('Erfassen Sie Umsatz, Kosten und Kontostand für alle Monate seit der Gründung');
+  }
+  if (offen('umsatz-erreichung')) {
+    empfehlungen.push('Begründen Sie die Umsatzabweichung (z.B. Anlaufverzögerung, Auftragsbestand) und legen Sie Maßnahmen zur Kundengewinnung dar');
+  }
+  if (offen('kontostand') || offen('forecast-liquiditaet')) {
+    empfehlungen.push('Planen Sie zusätzliche Finanzierung oder Kostensenkungen, um die Liquidität zu sichern');
+  }
+  if (offen('ergebnis-trend')) {
+    empfehlungen.push('Zeigen Sie, ab wann die Einnahmen die laufenden Kosten decken (Kostensenkung, Preiserhöhung)');
+  }
+  if (ergebnisMonatlich.lt(input.privatentnahme.monatlichePrivatentnahme)) {
+    empfehlungen.push(
+      `Das Monatsergebnis deckt die Privatentnahme von ${formatEUR(input.privatentnahme.monatlichePrivatentnahme)} noch nicht - in Phase 2 gibt es nur noch die Sozialversicherungspauschale`
+    );
+  }
+
+  const bereit = kriterien.every(kriterium => kriterium.erfuellt);
+  const erfuellt = kriterien.filter(kriterium => kriterium.erfuellt).length;
+
+  return {
+    bereit,
+    istMonate: istDaten.length,
+    kriterien,
+    empfehlungen,
+    zusammenfassung: bereit
+      ? `Bereit für den Antrag auf Phase 2: alle ${kriterien.length} Kriterien erfüllt.`
+      : `Noch nicht bereit für Phase 2: ${erfuellt} von ${kriterien.length} Kriterien erfüllt.`,
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  storeIstDaten,
+  calculateIstVergleich,
+  calculateRollingForecast,
+  createPhase2Bericht,
+};
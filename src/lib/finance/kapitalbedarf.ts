@@ -8,6 +8,7 @@
  * - Gründungskosten calculation
  * - Investitionen summation
  * - Anlaufkosten calculation with reserves
+ * - Betriebsmittel (Warenbestand and Forderungen) for trade businesses
  * - Total capital requirements
  * - German EUR formatting
  */
@@ -17,6 +18,7 @@ import type {
   Kapitalbedarf,
   Investition,
 } from '@/types/modules/finanzplanung';
+import { AFA_NUTZUNGSDAUER } from './abschreibung';
 
 // ============================================================================
 // Configuration
@@ -144,13 +146,16 @@ export function calculateInvestitionenByCategory(
 
 /**
  * Calculate annual depreciation for an investment
+ *
+ * Simple full-year estimate - see calculateAfaPlan for GWG, Sammelposten
+ * and pro-rata temporis.
  */
 export function calculateDepreciation(
   investition: Investition,
   method: 'linear' | 'declining' = 'linear'
 ): number {
   const betrag = new Decimal(investition.betrag);
-  const nutzungsdauer = new Decimal(investition.nutzungsdauer || 5);
+  const nutzungsdauer = new Decimal(investition.nutzungsdauer || AFA_NUTZUNGSDAUER[investition.kategorie]);
 
   if (method === 'linear') {
     return betrag.dividedBy(nutzungsdauer).toNumber();
@@ -242,20 +247,23 @@ export function validateAnlaufkosten(
 
 /**
  * Calculate total capital requirements
- * Formula: Gründungskosten + Investitionen + Anlaufkosten
+ * Formula: Gründungskosten + Investitionen + Anlaufkosten + Betriebsmittel
  */
 export function calculateGesamtkapitalbedarf(
   gruendungskosten: number,
   investitionen: number,
-  anlaufkosten: number
+  anlaufkosten: number,
+  betriebsmittel: number = 0
 ): number {
   const gruendungskostenDecimal = new Decimal(gruendungskosten);
   const investitionenDecimal = new Decimal(investitionen);
   const anlaufkostenDecimal = new Decimal(anlaufkosten);
+  const betriebsmittelDecimal = new Decimal(betriebsmittel);
 
   const total = gruendungskostenDecimal
     .plus(investitionenDecimal)
-    .plus(anlaufkostenDecimal);
+    .plus(anlaufkostenDecimal)
+    .plus(betriebsmittelDecimal);
 
   return total.toNumber();
 }
@@ -277,6 +285,10 @@ export function calculateKapitalbedarf(input: {
     monatlicheKosten: number;
     reservePercent?: number;
   };
+  betriebsmittel?: {
+    warenbestand: number;
+    forderungen?: number;
+  };
 }): Kapitalbedarf {
   // Calculate Gründungskosten
   const gruendungskostenSumme = calculateGruendungskosten(
@@ -297,11 +309,23 @@ export function calculateKapitalbedarf(input: {
     input.anlaufkosten.reservePercent
   );
 
+  // Calculate Betriebsmittel (working capital)
+  const betriebsmittel = input.betriebsmittel
+    ? {
+        warenbestand: input.betriebsmittel.warenbestand,
+        forderungen: input.betriebsmittel.forderungen ?? 0,
+        summe: new Decimal(input.betriebsmittel.warenbestand)
+          .plus(input.betriebsmittel.forderungen ?? 0)
+          .toNumber(),
+      }
+    : undefined;
+
   // Calculate total
   const gesamtkapitalbedarf = calculateGesamtkapitalbedarf(
     gruendungskostenSumme,
     investitionenSumme,
-    anlaufkostenCalc.gesamtsumme
+    anlaufkostenCalc.gesamtsumme,
+    betriebsmittel?.summe
   );
 
   return {
@@ -321,6 +345,7 @@ export function calculateKapitalbedarf(input: {
       reserve: anlaufkostenCalc.reserve,
       summe: anlaufkostenCalc.gesamtsumme,
     },
+    ...(betriebsmittel && { betriebsmittel }),
     gesamtkapitalbedarf,
   };
 }
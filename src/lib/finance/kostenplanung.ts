@@ -7,6 +7,7 @@
  * Includes:
  * - Fixed vs variable cost separation
  * - Cost scaling with revenue growth
+ * - Monthly cost projection for the 36-month liquidity plan
  * - Industry benchmark validation
  * - Cost optimization suggestions
  * - Integration with existing Privatentnahme data
@@ -17,7 +18,12 @@ import type {
   Kostenplanung,
   Kostenposition,
   KostenkategorieType,
+  Umsatzplanung,
+  UmsatzsteuerSatzType,
+  SeasonalityConfig,
 } from '@/types/modules/finanzplanung';
+import { projectMonthlyRevenue } from './umsatzplanung';
+import { getBranchenBenchmark } from './branchenbenchmarks';
 
 // ============================================================================
 // Configuration
@@ -31,6 +37,9 @@ Decimal.set({
   toExpPos: 28,
 });
 
+// Fixed costs grow slightly with the business (Jahr 1, 2, 3)
+export const FIXKOSTEN_FAKTOR_PRO_JAHR = [1, 1.1, 1.2] as const;
+
 // ============================================================================
 // Types for Internal Calculations
 // ============================================================================
@@ -42,6 +51,7 @@ export interface KostenpositionInput {
   betragMonatlich?: number;
   betragJaehrlich?: number;
   variablerAnteil?: number; // % of revenue for variable costs
+  vorsteuerSatz?: UmsatzsteuerSatzType;
 }
 
 export interface CostStructureAnalysis {
@@ -72,6 +82,10 @@ export interface BenchmarkResult {
   warnings: string[];
 }
 
+export type IndustryCostGuidance = Partial<Record<'personalkosten' | Exclude<KostenkategorieType, 'personal'>, string>> & {
+  tipps: string[];
+};
+
 export interface ValidationResult {
   isComplete: boolean;
   isRealistic: boolean;
@@ -200,8 +214,7 @@ export function projectCostScaling(
     const revenueDecimal = new Decimal(revenue);
 
     // Fixed costs stay mostly the same but may grow slightly with business
-    const fixkostenMultiplier = jahr === 1 ? new Decimal(1) :
-                               jahr === 2 ? new Decimal(1.1) : new Decimal(1.2);
+    const fixkostenMultiplier = new Decimal(FIXKOSTEN_FAKTOR_PRO_JAHR[index] ?? FIXKOSTEN_FAKTOR_PRO_JAHR[2]);
 
     const fixkosten = calculateFixedCosts(baseCosts.fixed);
     const fixkostenScaled = new Decimal(fixkosten).times(12).times(fixkostenMultiplier);
@@ -227,6 +240,58 @@ export function projectCostScaling(
   return projections;
 }
 
+export interface MonthlyCostProjection {
+  fixkosten: number[];       // 36 months, incl. yearly growth factor
+  variableKosten: number[];  // 36 months, by month the revenue is earned
+  personalkosten: number[];  // 36 months employer cost from the Personalplanung (no Vorsteuer)
+}
+
+/**
+ * Project monthly fixed and variable costs for the 36-month horizon
+ *
+ * Variable costs follow the monthly revenue at the cost ratio of the
+ * respective plan year (variableKostenSummeJahrN / UmsatzJahrN).
+ * Personnel costs come from the Personalplanung timeline (see personalkosten.ts).
+ */
+export function projectMonthlyCosts(
+  umsatzplanung: Umsatzplanung,
+  kostenplanung: Kostenplanung,
+  seasonality?: SeasonalityConfig
+): MonthlyCostProjection {
+  const monthlyRevenue = projectMonthlyRevenue(umsatzplanung, seasonality);
+  const umsatzProJahr = [umsatzplanung.umsatzJahr1Summe, umsatzplanung.umsatzJahr2, umsatzplanung.umsatzJahr3];
+  const variableKostenProJahr = [
+    kostenplanung.variableKostenSummeJahr1,
+    kostenplanung.variableKostenSummeJahr2,
+    kostenplanung.variableKostenSummeJahr3,
+  ];
+
+  const fixkosten: number[] = [];
+  const variableKosten: number[] = [];
+
+  monthlyRevenue.forEach((umsatz, index) => {
+    const jahrIndex = Math.floor(index / 12);
+    const jahresUmsatz = umsatzProJahr[jahrIndex] ?? 0;
+    const kostenQuote = jahresUmsatz > 0
+      ? new Decimal(variableKostenProJahr[jahrIndex] ?? 0).dividedBy(jahresUmsatz)
+      : new Decimal(0);
+
+    fixkosten.push(
+      new Decimal(kostenplanung.fixkostenSummeMonatlich)
+        .times(FIXKOSTEN_FAKTOR_PRO_JAHR[jahrIndex] ?? 1)
+        .toNumber()
+    );
+    variableKosten.push(new Decimal(umsatz).times(kostenQuote).toNumber());
+  });
+
+  const personalkosten = Array.from(
+    { length: monthlyRevenue.length },
+    (_, index) => kostenplanung.personalkostenMonatlich?.[index] ?? 0
+  );
+
+  return { fixkosten, variableKosten, personalkosten };
+}
+
 // ============================================================================
 // Validation Functions
 // ============================================================================
@@ -244,18 +309,10 @@ export function validateCostCompleteness(
   // Essential categories for all businesses
   const essentialCategories = ['personal', 'versicherung', 'steuern'];
 
-  // Industry-specific required categories
-  const industryRequirements: Record<string, string[]> = {
-    beratung: ['personal', 'versicherung', 'marketing'],
-    ecommerce: ['material', 'marketing', 'versicherung'],
-    handwerk: ['personal', 'material', 'versicherung', 'abschreibung'],
-    restaurant: ['personal', 'miete', 'material', 'versicherung'],
-  };
-
-  const requiredCategories = [
+  const requiredCategories = [...new Set([
     ...essentialCategories,
-    ...(industryRequirements[industry] || [])
-  ];
+    ...getBranchenBenchmark(industry).pflichtkategorien,
+  ])];
 
   const missingCategories = requiredCategories.filter(
     cat => !presentCategories.includes(cat as KostenkategorieType)
@@ -302,45 +359,22 @@ export function checkCostBenchmarks(
   const abweichungen: BenchmarkResult['abweichungen'] = [];
 
   // Industry benchmarks (% of revenue)
-  const benchmarks: Record<string, Record<string, { min: number; max: number; typical: number }>> = {
-    beratung: {
-      personal: { min: 30, max: 50, typical: 40 },
-      marketing: { min: 5, max: 15, typical: 10 },
-      overhead: { min: 10, max: 20, typical: 15 },
-    },
-    ecommerce: {
-      material: { min: 40, max: 70, typical: 55 },
-      marketing: { min: 10, max: 25, typical: 15 },
-      personal: { min: 15, max: 35, typical: 25 },
-    },
-    handwerk: {
-      material: { min: 35, max: 55, typical: 45 },
-      personal: { min: 25, max: 40, typical: 35 },
-      abschreibung: { min: 3, max: 8, typical: 5 },
-    },
-    default: {
-      personal: { min: 20, max: 40, typical: 30 },
-      material: { min: 30, max: 60, typical: 45 },
-      overhead: { min: 15, max: 25, typical: 20 },
-    },
-  };
-
-  const industryBenchmarks = benchmarks[industry] || benchmarks.default;
+  const { kostenquoten } = getBranchenBenchmark(industry);
 
   // Calculate actual percentages
   costs.forEach(cost => {
     const kategorie = cost.kategorie;
-    const benchmark = industryBenchmarks[kategorie as keyof typeof industryBenchmarks];
+    const benchmark = kostenquoten[kategorie]?.wert;
 
     if (benchmark && revenueDecimal.gt(0)) {
       const betragJaehrlich = cost.betragJaehrlich || (cost.betragMonatlich || 0) * 12;
       const anteilIst = new Decimal(betragJaehrlich).dividedBy(revenueDecimal).times(100);
-      const abweichung = anteilIst.minus(benchmark.typical).dividedBy(benchmark.typical).times(100);
+      const abweichung = anteilIst.minus(benchmark.typisch).dividedBy(benchmark.typisch).times(100);
 
       abweichungen.push({
         kategorie,
         ist: anteilIst.toNumber(),
-        benchmark: benchmark.typical,
+        benchmark: benchmark.typisch,
         abweichung: abweichung.toNumber(),
       });
 
@@ -387,8 +421,8 @@ export function calculateKostenplanung(input: {
 
   // Calculate total costs per year
   const gesamtkostenJahr1 = new Decimal(fixkostenSummeJaehrlich).plus(variableKostenSummeJahr1).toNumber();
-  const gesamtkostenJahr2 = new Decimal(fixkostenSummeJaehrlich * 1.1).plus(variableKostenSummeJahr2).toNumber(); // 10% fixed cost increase
-  const gesamtkostenJahr3 = new Decimal(fixkostenSummeJaehrlich * 1.2).plus(variableKostenSummeJahr3).toNumber(); // 20% fixed cost increase
+  const gesamtkostenJahr2 = new Decimal(fixkostenSummeJaehrlich).times(FIXKOSTEN_FAKTOR_PRO_JAHR[1]).plus(variableKostenSummeJahr2).toNumber();
+  const gesamtkostenJahr3 = new Decimal(fixkostenSummeJaehrlich).times(FIXKOSTEN_FAKTOR_PRO_JAHR[2]).plus(variableKostenSummeJahr3).toNumber();
 
   // Convert input to output format
   const outputFixkosten: Kostenposition[] = fixkosten.map(cost => ({
@@ -397,6 +431,7 @@ export function calculateKostenplanung(input: {
     fixOderVariabel: cost.fixOderVariabel,
     betragMonatlich: cost.betragMonatlich || (cost.betragJaehrlich || 0) / 12,
     betragJaehrlich: cost.betragJaehrlich || (cost.betragMonatlich || 0) * 12,
+    vorsteuerSatz: cost.vorsteuerSatz,
   }));
 
   const outputVariableKosten: Kostenposition[] = variableKostenItems.map(cost => ({
@@ -406,6 +441,7 @@ export function calculateKostenplanung(input: {
     betragMonatlich: 0, // Variable costs are calculated based on revenue
     betragJaehrlich: 0, // Will be calculated based on actual revenue
     variablerAnteil: cost.variablerAnteil,
+    vorsteuerSatz: cost.vorsteuerSatz,
   }));
 
   return {
@@ -577,43 +613,21 @@ export function calculateCostPercentage(cost: number, revenue: number): number {
 }
 
 /**
- * Get industry cost structure recommendations
+ * Get industry cost structure recommendations from the benchmark registry
  */
-export function getIndustryCostGuidance(industry: string) {
-  const guidance = {
-    beratung: {
-      personalkosten: 'Hauptkostenfaktor - 30-50% vom Umsatz ist normal',
-      material: 'Minimal - meist nur Büromaterial und Software',
-      marketing: '5-15% für Akquise und Netzwerk-Aufbau',
-      tipps: ['Home-Office nutzen', 'Flexible Tools statt feste Software', 'Performance-basiertes Marketing'],
-    },
-    ecommerce: {
-      personalkosten: 'Moderate 15-35% - kann mit Automatisierung reduziert werden',
-      material: 'Hauptkostenfaktor - 40-70% für Wareneinkauf',
-      marketing: '10-25% für Online-Marketing und Kundengewinnung',
-      tipps: ['Automatisierung investieren', 'Lagermanagement optimieren', 'Performance Marketing'],
-    },
-    handwerk: {
-      personalkosten: 'Hoch 25-40% - Fachkräfte sind teuer',
-      material: 'Hoch 35-55% - Materialpreise schwanken',
-      abschreibung: 'Wichtig 3-8% - Werkzeuge und Fahrzeuge',
-      tipps: ['Materialpreise weitergeben', 'Effizienz durch gute Planung', 'Maschinen richtig kalkulieren'],
-    },
-    restaurant: {
-      personalkosten: 'Sehr hoch 30-40% - Service-intensiv',
-      material: 'Hoch 25-35% - Lebensmittelkosten',
-      miete: 'Kritisch - max. 10% vom Umsatz',
-      tipps: ['Prime Location rechtfertigen', 'Speisekarte-Engineering', 'Personaleffizienz'],
-    },
-    default: {
-      personalkosten: 'Variiert stark je nach Branche 20-40%',
-      material: 'Abhängig vom Geschäftsmodell 20-60%',
-      overhead: 'Niedrig halten 15-25% für Overhead-Kosten',
-      tipps: ['Kostenstruktur regelmäßig prüfen', 'Variable statt fixe Kosten bevorzugen'],
-    },
-  };
+export function getIndustryCostGuidance(industry: string): IndustryCostGuidance {
+  const { kostenquoten, tipps } = getBranchenBenchmark(industry);
+  const guidance: IndustryCostGuidance = { tipps };
+
+  (Object.keys(kostenquoten) as KostenkategorieType[]).forEach(kategorie => {
+    const quote = kostenquoten[kategorie];
+    if (!quote) return;
+
+    const key = kategorie === 'personal' ? 'personalkosten' : kategorie;
+    guidance[key] = `${quote.wert.min}-${quote.wert.max}% vom Umsatz (typisch ${quote.wert.typisch}%, ${quote.quelle} ${quote.gueltigJahr})`;
+  });
 
-  return guidance[industry as keyof typeof guidance] || guidance.default;
+  return guidance;
 }
 
 // ============================================================================
@@ -625,6 +639,7 @@ export default {
   calculateFixedCosts,
   calculateVariableCosts,
   projectCostScaling,
+  projectMonthlyCosts,
   validateCostCompleteness,
   checkCostBenchmarks,
   calculateKostenplanung,
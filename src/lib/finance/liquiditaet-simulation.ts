@@ -0,0 +1,236 @@
+/**
+ * Monte-Carlo Liquidity Risk Simulation (GZ-603 Teil G)
+ *
+ * CRITICAL: All cash balances use decimal.js to avoid floating-point errors.
+ * Random numbers come from a seeded generator - the same seed always yields
+ * the same result, so tests and stored plans are reproducible.
+ *
+ * Includes:
+ * - Seeded pseudo random generator (mulberry32)
+ * - Normal, triangular and uniform distributions
+ * - Sampling of monthly revenue, customer payment delays and cost overruns
+ * - Probability of any negative month, P5/P50/P95 cash curves
+ * - Reserve needed for 95 % survival (input for validateLiquidityForBA)
+ */
+
+import Decimal from 'decimal.js';
+import type { LiquiditaetSimulation } from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import type { LiquiditaetInput } from './liquiditaet';
+import { calculateLiquiditaet, getBranchenPaymentTerms } from './liquiditaet';
+import { projectMonthlyRevenue } from './umsatzplanung';
+import { projectMonthlyCosts } from './kostenplanung';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Verteilung =
+  | { typ: 'normal'; mittelwert: number; standardabweichung: number }
+  | { typ: 'dreieck'; minimum: number; modus: number; maximum: number }
+  | { typ: 'gleich'; minimum: number; maximum: number };
+
+export interface SimulationConfig {
+  iterationen: number;                 // Number of simulated runs
+  seed: number;                        // Same seed = same result
+  umsatzFaktor: Verteilung;            // Multiplier on planned revenue per month
+  zahlungsverzugTage: Verteilung;      // Extra days customers pay late (on top of payment terms)
+  kostenFaktor: Verteilung;            // Multiplier on operating costs per month (overruns)
+}
+
+// ============================================================================
+// German Market Configuration
+// ============================================================================
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  iterationen: 1000,
+  seed: 1,
+  umsatzFaktor: { typ: 'normal', mittelwert: 1, standardabweichung: 0.15 },
+  zahlungsverzugTage: { typ: 'dreieck', minimum: 0, modus: 0, maximum: 30 },
+  kostenFaktor: { typ: 'dreieck', minimum: 0.95, modus: 1, maximum: 1.2 },
+};
+
+// ============================================================================
+// Random Numbers
+// ============================================================================
+
+/**
+ * Seeded pseudo random generator (mulberry32), returns values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw one value from a distribution
+ */
+export function sampleVerteilung(verteilung: Verteilung, random: () => number): number {
+  switch (verteilung.typ) {
+    case 'normal': {
+      // Box-Muller transform
+      const u1 = Math.max(random(), Number.EPSILON);
+      const u2 = random();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return verteilung.mittelwert + z * verteilung.standardabweichung;
+    }
+    case 'dreieck': {
+      // Inverse CDF of the triangular distribution
+      const { minimum, modus, maximum } = verteilung;
+      if (maximum <= minimum) return minimum;
+      const u = random();
+      const grenze = (modus - minimum) / (maximum - minimum);
+      return u < grenze
+        ? minimum + Math.sqrt(u * (maximum - minimum) * (modus - minimum))
+        : maximum - Math.sqrt((1 - u) * (maximum - minimum) * (maximum - modus));
+    }
+    case 'gleich':
+      return verteilung.minimum + random() * (verteilung.maximum - verteilung.minimum);
+  }
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Percentile with linear interpolation on sorted values (p in 0-100)
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+  return new Decimal(lowerValue).plus(new Decimal(upperValue).minus(lowerValue).times(index - lower)).toNumber();
+}
+
+/**
+ * Simulate the 36-month liquidity plan under uncertain revenue, payment
+ * delays and cost overruns
+ *
+ * Operating cash flows (revenue receipts, fixed and variable costs) are
+ * sampled per month. All other flows (financing, GZ, investments, loans,
+ * private withdrawals, taxes) are taken from the deterministic plan.
+ */
+export function simulateLiquiditaet(
+  input: LiquiditaetInput,
+  config: Partial<SimulationConfig> = {}
+): LiquiditaetSimulation {
+  const { iterationen, seed, umsatzFaktor, zahlungsverzugTage, kostenFaktor } = {
+    ...DEFAULT_SIMULATION_CONFIG,
+    ...config,
+  };
+  if (!Number.isInteger(iterationen) || iterationen < 1) {
+    throw new Error('Iterations must be a positive integer');
+  }
+
+  const paymentTerms = input.paymentTerms ?? getBranchenPaymentTerms(input.industry);
+  const random = createRandom(seed);
+
+  // Deterministic plan components
+  const plan = calculateLiquiditaet(input);
+  const monthlyRevenue = projectMonthlyRevenue(input.umsatzplanung, input.seasonality);
+  const monthlyCosts = projectMonthlyCosts(input.umsatzplanung, input.kostenplanung, input.seasonality);
+  const variableDelayMonths = Math.ceil(paymentTerms.variableCostPaymentDelay / 30);
+
+  const sonstigeEinzahlungen = plan.monate.map(m => new Decimal(m.einzahlungenGesamt).minus(m.einzahlungenUmsatz));
+  const sonstigeAuszahlungen = plan.monate.map(m => new Decimal(m.auszahlungenGesamt).minus(m.auszahlungenBetrieb));
+
+  const endbestaende: number[][] = Array.from({ length: LIQUIDITAET_PLANUNGSMONATE }, () => []);
+  const minima: number[] = [];
+  let negativeLaeufe = 0;
+
+  for (let lauf = 0; lauf < iterationen; lauf++) {
+    const einzahlungen = Array.from({ length: LIQUIDITAET_PLANUNGSMONATE }, () => new Decimal(0));
+    const variableKosten = Array.from({ length: LIQUIDITAET_PLANUNGSMONATE }, () => new Decimal(0));
+
+    // Revenue earned per month, received after the sampled payment delay
+    for (let monat = 0; monat < LIQUIDITAET_PLANUNGSMONATE; monat++) {
+      const faktor = Math.max(0, sampleVerteilung(umsatzFaktor, random));
+      const verzugTage = paymentTerms.customerPaymentDays + Math.max(0, sampleVerteilung(zahlungsverzugTage, random));
+      const eingangsMonat = monat + Math.ceil(verzugTage / 30);
+
+      if (eingangsMonat < LIQUIDITAET_PLANUNGSMONATE) {
+        einzahlungen[eingangsMonat] = (einzahlungen[eingangsMonat] ?? new Decimal(0))
+          .plus(new Decimal(monthlyRevenue[monat] || 0).times(faktor));
+      }
+
+      // Variable costs follow the realised revenue
+      const zahlungsMonat = monat + variableDelayMonths;
+      if (zahlungsMonat < LIQUIDITAET_PLANUNGSMONATE) {
+        variableKosten[zahlungsMonat] = (variableKosten[zahlungsMonat] ?? new Decimal(0))
+          .plus(new Decimal(monthlyCosts.variableKosten[monat] || 0).times(faktor));
+      }
+    }
+
+    let kasse = new Decimal(0);
+    let minimum = Number.POSITIVE_INFINITY;
+
+    for (let monat = 0; monat < LIQUIDITAET_PLANUNGSMONATE; monat++) {
+      const ueberschreitung = Math.max(0, sampleVerteilung(kostenFaktor, random));
+      const betriebskosten = new Decimal(monthlyCosts.fixkosten[monat] || 0)
+        .plus(monthlyCosts.personalkosten[monat] || 0)
+        .plus(variableKosten[monat] ?? 0)
+        .times(ueberschreitung);
+
+      kasse = kasse
+        .plus(einzahlungen[monat] ?? 0)
+        .plus(sonstigeEinzahlungen[monat] ?? 0)
+        .minus(betriebskosten)
+        .minus(sonstigeAuszahlungen[monat] ?? 0);
+
+      const endbestand = kasse.toNumber();
+      endbestaende[monat]?.push(endbestand);
+      minimum = Math.min(minimum, endbestand);
+    }
+
+    minima.push(minimum);
+    if (minimum < 0) negativeLaeufe++;
+  }
+
+  const kurven = endbestaende.map(werte => [...werte].sort((a, b) => a - b));
+  const sortierteMinima = [...minima].sort((a, b) => a - b);
+
+  return {
+    iterationen,
+    seed,
+    wahrscheinlichkeitNegativ: new Decimal(negativeLaeufe).dividedBy(iterationen).toNumber(),
+    p5: kurven.map(werte => percentile(werte, 5)),
+    p50: kurven.map(werte => percentile(werte, 50)),
+    p95: kurven.map(werte => percentile(werte, 95)),
+    // Extra starting cash that keeps 95 % of all runs non-negative
+    reserveFuer95Prozent: Math.max(0, -percentile(sortierteMinima, 5)),
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  DEFAULT_SIMULATION_CONFIG,
+  createRandom,
+  sampleVerteilung,
+  simulateLiquiditaet,
+};
@@ -8,8 +8,13 @@
  * Negative liquidity = business insolvency = automatic BA rejection.
  *
  * Includes:
- * - Monthly cash flow analysis with exact timing
+ * - 36-month cash flow analysis with exact timing (monthly for all 3 years)
  * - German B2B payment terms (30-60 day delays)
+ * - Optional Umsatzsteuer layer (gross cash flows + USt-Voranmeldung)
+ * - Optional quarterly Ertragsteuer-Vorauszahlungen
+ * - Optional Warenbestand outflows (initial stock, reorder cycle, Lagerreichweite)
+ * - Per-loan Tilgungspläne (interest and principal, tilgungsfreie Anlaufzeit)
+ * - Gründungszuschuss as monthly inflow (Phase 1 / optional Phase 2)
  * - Integration with all modules A-F
  * - Safety buffer calculations and recommendations
  * - Critical liquidity warnings and blockers
@@ -24,7 +29,33 @@ import type {
   Privatentnahme,
   Umsatzplanung,
   Kostenplanung,
+  LiquiditaetSimulation,
+  UmsatzsteuerConfig,
+  SteuerProfil,
+  GruendungszuschussConfig,
 } from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import { projectMonthlyRevenue } from './umsatzplanung';
+import { projectMonthlyCosts } from './kostenplanung';
+import {
+  calculateUmsatzsteuerPlan,
+  projectMonthlyUmsatzsteuer,
+  projectMonthlyVorsteuer,
+} from './umsatzsteuer';
+import { calculateRentabilitaet } from './rentabilitaet';
+import { getBranchenBenchmark } from './branchenbenchmarks';
+import type { AfaConfig } from './abschreibung';
+import { calculateWarenbestandPlan } from './warenbestand';
+import type { WarenbestandConfig } from './warenbestand';
+import { calculateSteuerVorauszahlungen } from './steuern';
+import type { ValidationEvidence } from '@/lib/validation/types';
+import { createFieldPointer } from '@/lib/validation/field-pointer';
+import {
+  calculateDebtServiceSchedule,
+  isLoanSource,
+  projectMonthlyGruendungszuschuss,
+  deriveGruendungszuschussConfig,
+} from './finanzierung';
 
 // ============================================================================
 // Configuration
@@ -49,7 +80,13 @@ export interface LiquiditaetInput {
   umsatzplanung: Umsatzplanung;
   kostenplanung: Kostenplanung;
   paymentTerms?: PaymentTermsConfig;    // Override default German B2B terms
-  seasonality?: SeasonalityConfig;      // Seasonal cash flow patterns
+  industry?: string;                    // Payment terms from the Branchenbenchmarks (DetailedBusinessTypeId)
+  seasonality?: SeasonalityConfig;      // Seasonal pattern for Years 2-3
+  umsatzsteuer?: UmsatzsteuerConfig;    // VAT layer (without: net planning)
+  steuerProfil?: SteuerProfil;          // Quarterly ESt/GewSt-Vorauszahlungen
+  gruendungszuschuss?: GruendungszuschussConfig; // ALG I + Phase 2 toggle (default: derived from GZ source)
+  afa?: AfaConfig;                      // AfA options for the tax base (Sammelposten, degressive AfA)
+  warenbestand?: WarenbestandConfig;    // Stock purchases for trade and production (without: Wareneinsatz only)
 }
 
 export interface PaymentTermsConfig {
@@ -70,14 +107,21 @@ export interface CashFlowProjection {
   // Inflows
   revenueInflow: number;               // Actual cash received (delayed)
   financingInflow: number;             // New financing/investments
+  grantInflows: number;                // Gründungszuschuss (monthly)
   otherInflows: number;                // Other cash sources
+  vatInflows: number;                  // USt from customers + Vorsteuer refunds
   totalInflows: number;
 
   // Outflows
   operatingOutflows: number;           // Operating costs paid
   investmentOutflows: number;          // Capital investments
-  debtServiceOutflows: number;         // Loan payments
+  debtServiceOutflows: number;         // Loan payments (interest + principal)
+  interestOutflows: number;            // Loan interest
+  principalOutflows: number;           // Loan principal repayments
   privateWithdrawals: number;          // Owner withdrawals
+  vatOutflows: number;                 // Vorsteuer to suppliers + USt-Zahllast
+  taxOutflows: number;                 // ESt/GewSt/KSt-Vorauszahlungen
+  inventoryOutflows: number;           // Stock purchases beyond the Wareneinsatz
   totalOutflows: number;
 
   // Results
@@ -91,7 +135,7 @@ export interface CashFlowProjection {
 
 export interface LiquidityAnalysis {
   // Critical metrics
-  minimumCash: number;                 // Lowest cash point in year
+  minimumCash: number;                 // Lowest cash point in 36 months
   minimumCashMonth: number;            // Month of lowest cash
   averageCash: number;                 // Average monthly cash
 
@@ -120,75 +164,170 @@ export interface LiquidityValidation {
   hasTightCashFlow: boolean;          // Cash below 1-month expenses
   hasHighVolatility: boolean;         // Unpredictable cash flows
   hasSeasonalRisks: boolean;          // Seasonal cash flow concerns
+  hasSimulationRisk: boolean;         // Monte-Carlo: >5 % of runs go negative
 
   // Recommendations
   actionItems: string[];               // Specific improvement actions
   contingencyPlans: string[];          // What to do if things go wrong
+
+  // Fields behind the blockers ("jump to fix" targets)
+  evidence: ValidationEvidence[];
 }
 
 // ============================================================================
 // German Market Configuration
 // ============================================================================
 
-const GERMAN_PAYMENT_DEFAULTS: PaymentTermsConfig = {
+export const GERMAN_PAYMENT_DEFAULTS: PaymentTermsConfig = {
   customerPaymentDays: 45,             // B2B average in Germany
   supplierPaymentDays: 30,             // Standard payment terms
   variableCostPaymentDelay: 30,        // Materials, marketing, etc.
 };
 
-const GERMAN_SEASONALITY_PATTERNS = {
-  services: [1.1, 0.9, 0.8, 1.1],     // Strong Q1/Q4, slow summer
-  ecommerce: [0.9, 1.0, 1.0, 1.1],    // Holiday boost in Q4
-  handwerk: [0.8, 1.1, 1.1, 1.0],     // Winter slow, spring/summer strong
-  restaurant: [0.9, 1.1, 1.2, 0.8],   // Summer peak, winter slow
-  default: [1.0, 1.0, 1.0, 1.0],      // No seasonality
-};
+/**
+ * Payment terms for an industry from the benchmark registry
+ */
+export function getBranchenPaymentTerms(industry?: string): PaymentTermsConfig {
+  if (!industry) return GERMAN_PAYMENT_DEFAULTS;
+
+  const { kundenTage, lieferantenTage } = getBranchenBenchmark(industry).zahlungsziele.wert;
+  return {
+    ...GERMAN_PAYMENT_DEFAULTS,
+    customerPaymentDays: kundenTage,
+    supplierPaymentDays: lieferantenTage,
+  };
+}
+
+// Accept at most 5 % of simulated runs with a negative month
+const SIMULATION_RISIKO_SCHWELLE = 0.05;
 
 // ============================================================================
 // Core Liquidity Calculations
 // ============================================================================
 
 /**
- * Calculate detailed monthly cash flow with German payment timing
+ * Plan-wide projections the monthly cash flow reads from
+ *
+ * Computed once per liquidity plan instead of once per month.
  */
-export function calculateMonthlyCashFlow(
-  input: LiquiditaetInput,
-  month: number
-): CashFlowProjection {
+export interface LiquiditaetProjektionen {
+  paymentTerms: PaymentTermsConfig;
+  umsatz: number[];                                    // Net revenue per month
+  kosten: ReturnType<typeof projectMonthlyCosts>;
+  kapitaldienst: ReturnType<typeof calculateDebtServiceSchedule>;
+  gruendungszuschuss: number[];
+  umsatzsteuer?: {
+    ustAufUmsatz: number[];
+    vorsteuer: ReturnType<typeof projectMonthlyVorsteuer>;
+    zahlungFinanzamt: number[];                        // Positive = Zahllast, negative = Erstattung
+  };
+  steuerVorauszahlungen?: number[];
+  warenbestandMehrauszahlungen?: number[];
+}
+
+/**
+ * Compute the plan-wide projections for all 36 months
+ */
+export function projectLiquiditaet(input: LiquiditaetInput): LiquiditaetProjektionen {
   const {
     kapitalbedarf,
     finanzierung,
-    privatentnahme,
     umsatzplanung,
     kostenplanung,
-    paymentTerms = GERMAN_PAYMENT_DEFAULTS,
+    industry,
+    paymentTerms = getBranchenPaymentTerms(industry),
+    seasonality,
+    umsatzsteuer,
+    steuerProfil,
+    gruendungszuschuss,
+    afa,
+    warenbestand,
   } = input;
 
-  // Starting cash (month 1 = financing, subsequent months = carried forward)
-  const beginningCash = month === 1 ? finanzierung.gesamtfinanzierung : 0; // Will be calculated in full function
+  const projektionen: LiquiditaetProjektionen = {
+    paymentTerms,
+    umsatz: projectMonthlyRevenue(umsatzplanung, seasonality),
+    kosten: projectMonthlyCosts(umsatzplanung, kostenplanung, seasonality),
+    kapitaldienst: calculateDebtServiceSchedule(finanzierung),
+    gruendungszuschuss: getGruendungszuschussPlan(finanzierung, gruendungszuschuss),
+  };
+
+  // Umsatzsteuer: gross payments follow the net timing, Finanzamt settles via Voranmeldung
+  if (umsatzsteuer) {
+    const ustPlan = calculateUmsatzsteuerPlan({
+      umsatzplanung,
+      kostenplanung,
+      kapitalbedarf,
+      config: umsatzsteuer,
+      paymentTerms,
+      seasonality,
+    });
+    projektionen.umsatzsteuer = {
+      ustAufUmsatz: projectMonthlyUmsatzsteuer(umsatzplanung, umsatzsteuer, seasonality),
+      vorsteuer: projectMonthlyVorsteuer(umsatzplanung, kostenplanung, kapitalbedarf, seasonality),
+      zahlungFinanzamt: ustPlan.monate.map(monat => monat.zahlungFinanzamt),
+    };
+  }
+
+  // Income tax prepayments based on the planned profit of each year
+  if (steuerProfil) {
+    const rentabilitaet = calculateRentabilitaet({ umsatzplanung, kostenplanung, finanzierung, kapitalbedarf, afa, steuerProfil });
+    projektionen.steuerVorauszahlungen = calculateSteuerVorauszahlungen(
+      [rentabilitaet.jahr1, rentabilitaet.jahr2, rentabilitaet.jahr3].map(jahr => jahr.steuerDetails)
+    );
+  }
+
+  // Warenbestand: initial stock and minimum stock paid before the goods are sold
+  if (warenbestand) {
+    projektionen.warenbestandMehrauszahlungen = calculateWarenbestandPlan(umsatzplanung, kostenplanung, warenbestand, {
+      seasonality,
+      variableCostPaymentDelay: paymentTerms.variableCostPaymentDelay,
+    }).mehrauszahlungen;
+  }
+
+  return projektionen;
+}
+
+/**
+ * Calculate detailed monthly cash flow with German payment timing
+ *
+ * Supports months 1-36. Year 2/3 revenue is derived from the annual
+ * quantities (mengeJahr2/mengeJahr3) distributed by seasonality.
+ * Pass the projections when calculating several months of the same plan.
+ */
+export function calculateMonthlyCashFlow(
+  input: LiquiditaetInput,
+  month: number,
+  projektionen: LiquiditaetProjektionen = projectLiquiditaet(input)
+): CashFlowProjection {
+  const { kapitalbedarf, finanzierung, privatentnahme } = input;
+  const { paymentTerms, umsatz, kosten, kapitaldienst } = projektionen;
+
+  // Starting cash is carried forward in the full function (financing arrives as inflow)
+  const beginningCash = 0;
 
-  // Revenue inflow (delayed by payment terms)
-  const currentMonthRevenue = new Decimal(umsatzplanung.umsatzJahr1[month - 1] || 0);
   const paymentDelayMonths = Math.ceil(paymentTerms.customerPaymentDays / 30);
 
   // Revenue arrives with delay
   const revenueMonth = month - paymentDelayMonths;
-  const revenueInflow = revenueMonth > 0 && revenueMonth <= 12
-    ? new Decimal(umsatzplanung.umsatzJahr1[revenueMonth - 1] || 0)
+  const revenueInflow = revenueMonth > 0 && revenueMonth <= LIQUIDITAET_PLANUNGSMONATE
+    ? new Decimal(umsatz[revenueMonth - 1] || 0)
     : new Decimal(0);
 
   // Operating outflows (with payment timing)
-  const monthlyFixedCosts = new Decimal(kostenplanung.fixkostenSummeMonatlich);
+  const monthlyFixedCosts = new Decimal(kosten.fixkosten[month - 1] || 0);
 
   // Variable costs paid with delay
   const variableDelayMonths = Math.ceil(paymentTerms.variableCostPaymentDelay / 30);
   const variableMonth = month - variableDelayMonths;
-  const delayedVariableCosts = variableMonth > 0 && variableMonth <= 12
-    ? new Decimal(umsatzplanung.umsatzJahr1[variableMonth - 1] || 0)
-        .times(kostenplanung.variableKostenSummeJahr1 / umsatzplanung.umsatzJahr1Summe || 0)
+  const delayedVariableCosts = variableMonth > 0 && variableMonth <= LIQUIDITAET_PLANUNGSMONATE
+    ? new Decimal(kosten.variableKosten[variableMonth - 1] || 0)
     : new Decimal(0);
 
-  const operatingOutflows = monthlyFixedCosts.plus(delayedVariableCosts);
+  // Payroll from the Personalplanung (salary and employer contributions)
+  const personnelCosts = new Decimal(kosten.personalkosten[month - 1] || 0);
+
+  const operatingOutflows = monthlyFixedCosts.plus(delayedVariableCosts).plus(personnelCosts);
 
   // Investment outflows (front-loaded)
   const totalInvestments = new Decimal(kapitalbedarf.investitionenSumme);
@@ -197,15 +336,43 @@ export function calculateMonthlyCashFlow(
   // Private withdrawals
   const privateWithdrawals = new Decimal(privatentnahme.monatlichePrivatentnahme);
 
-  // Calculate loan payments (simplified - assuming equal monthly payments)
-  const debtServiceOutflows = calculateMonthlyDebtService(finanzierung);
+  // Loan payments from the per-loan Tilgungsplan
+  const interestOutflows = new Decimal(kapitaldienst.interest[month - 1] || 0);
+  const principalOutflows = new Decimal(kapitaldienst.principal[month - 1] || 0);
+  const debtServiceOutflows = interestOutflows.plus(principalOutflows);
+
+  // Financing inflow (month 1, loans paid out later arrive in their disbursement month)
+  const financingInflow = calculateFinancingInflow(finanzierung, month);
+
+  // Gründungszuschuss is paid monthly, not as starting capital
+  const grantInflows = new Decimal(projektionen.gruendungszuschuss[month - 1] || 0);
+
+  let vatInflows = new Decimal(0);
+  let vatOutflows = new Decimal(0);
+  if (projektionen.umsatzsteuer) {
+    const { ustAufUmsatz, vorsteuer } = projektionen.umsatzsteuer;
+    const zahlungFinanzamt = new Decimal(projektionen.umsatzsteuer.zahlungFinanzamt[month - 1] || 0);
+
+    vatInflows = new Decimal(revenueMonth > 0 ? ustAufUmsatz[revenueMonth - 1] || 0 : 0)
+      .plus(zahlungFinanzamt.lt(0) ? zahlungFinanzamt.abs() : 0);
+    vatOutflows = new Decimal(vorsteuer.fixkosten[month - 1] || 0)
+      .plus(variableMonth > 0 ? vorsteuer.variableKosten[variableMonth - 1] || 0 : 0)
+      .plus(vorsteuer.investitionen[month - 1] || 0)
+      .plus(zahlungFinanzamt.gt(0) ? zahlungFinanzamt : 0);
+  }
 
-  // Financing inflow (first month only)
-  const financingInflow = month === 1 ? new Decimal(finanzierung.gesamtfinanzierung) : new Decimal(0);
+  const taxOutflows = new Decimal(projektionen.steuerVorauszahlungen?.[month - 1] || 0);
+  const inventoryOutflows = new Decimal(projektionen.warenbestandMehrauszahlungen?.[month - 1] || 0);
 
   // Calculate totals
-  const totalInflows = revenueInflow.plus(financingInflow);
-  const totalOutflows = operatingOutflows.plus(investmentOutflows).plus(privateWithdrawals).plus(debtServiceOutflows);
+  const totalInflows = revenueInflow.plus(financingInflow).plus(grantInflows).plus(vatInflows);
+  const totalOutflows = operatingOutflows
+    .plus(investmentOutflows)
+    .plus(privateWithdrawals)
+    .plus(debtServiceOutflows)
+    .plus(vatOutflows)
+    .plus(taxOutflows)
+    .plus(inventoryOutflows);
   const netCashFlow = totalInflows.minus(totalOutflows);
 
   return {
@@ -213,12 +380,19 @@ export function calculateMonthlyCashFlow(
     beginningCash: beginningCash,
     revenueInflow: revenueInflow.toNumber(),
     financingInflow: financingInflow.toNumber(),
+    grantInflows: grantInflows.toNumber(),
     otherInflows: 0,
+    vatInflows: vatInflows.toNumber(),
     totalInflows: totalInflows.toNumber(),
     operatingOutflows: operatingOutflows.toNumber(),
     investmentOutflows: investmentOutflows.toNumber(),
     debtServiceOutflows: debtServiceOutflows.toNumber(),
+    interestOutflows: interestOutflows.toNumber(),
+    principalOutflows: principalOutflows.toNumber(),
     privateWithdrawals: privateWithdrawals.toNumber(),
+    vatOutflows: vatOutflows.toNumber(),
+    taxOutflows: taxOutflows.toNumber(),
+    inventoryOutflows: inventoryOutflows.toNumber(),
     totalOutflows: totalOutflows.toNumber(),
     netCashFlow: netCashFlow.toNumber(),
     endingCash: 0, // Will be calculated in full analysis
@@ -228,17 +402,18 @@ export function calculateMonthlyCashFlow(
 }
 
 /**
- * Calculate complete 12-month liquidity analysis
+ * Calculate complete 36-month liquidity analysis
  */
 export function calculateLiquiditaet(input: LiquiditaetInput): Liquiditaet {
   const monate: LiquiditaetMonat[] = [];
-  let runningCash = new Decimal(input.finanzierung.gesamtfinanzierung);
-  let minimumLiquiditaet = runningCash.toNumber();
+  let runningCash = new Decimal(0);
+  let minimumLiquiditaet = Number.POSITIVE_INFINITY;
   let minimumMonat = 1;
+  const projektionen = projectLiquiditaet(input);
 
   // Calculate month-by-month cash flow
-  for (let month = 1; month <= 12; month++) {
-    const projection = calculateMonthlyCashFlow(input, month);
+  for (let month = 1; month <= LIQUIDITAET_PLANUNGSMONATE; month++) {
+    const projection = calculateMonthlyCashFlow(input, month, projektionen);
 
     // Starting cash for this month
     const anfangsbestand = runningCash.toNumber();
@@ -258,19 +433,25 @@ export function calculateLiquiditaet(input: LiquiditaetInput): Liquiditaet {
       monat: month,
       anfangsbestand,
       einzahlungenUmsatz: projection.revenueInflow,
-      einzahlungenSonstige: projection.financingInflow,
+      einzahlungenSonstige: projection.financingInflow + projection.grantInflows,
+      einzahlungenGruendungszuschuss: projection.grantInflows,
       einzahlungenGesamt: projection.totalInflows,
       auszahlungenBetrieb: projection.operatingOutflows,
       auszahlungenInvestitionen: projection.investmentOutflows,
-      auszahlungenTilgung: projection.debtServiceOutflows,
+      auszahlungenTilgung: projection.principalOutflows,
+      auszahlungenZinsen: projection.interestOutflows,
       auszahlungenPrivat: projection.privateWithdrawals,
+      einzahlungenUmsatzsteuer: projection.vatInflows,
+      auszahlungenUmsatzsteuer: projection.vatOutflows,
+      auszahlungenSteuern: projection.taxOutflows,
+      auszahlungenWarenbestand: projection.inventoryOutflows,
       auszahlungenGesamt: projection.totalOutflows,
       endbestand,
     });
   }
 
   // Calculate summary metrics
-  const durchschnittLiquiditaet = monate.reduce((sum, m) => sum + m.endbestand, 0) / 12;
+  const durchschnittLiquiditaet = monate.reduce((sum, m) => sum + m.endbestand, 0) / monate.length;
   const liquiditaetsReserve = Math.max(0, minimumLiquiditaet);
   const hatNegativeLiquiditaet = minimumLiquiditaet < 0;
 
@@ -339,6 +520,10 @@ export function analyzeLiquidityRisks(liquiditaet: Liquiditaet, input: Liquidita
     complianceRisks.push('Liquiditätsreserve unter 1 Monatskosten - sehr riskant');
   }
 
+  if (input.gruendungszuschuss && !input.gruendungszuschuss.phase2Beantragt) {
+    complianceRisks.push('Gründungszuschuss Phase 2 nicht eingeplant - ab Monat 7 entfällt die Förderung');
+  }
+
   return {
     minimumCash: liquiditaet.minimumLiquiditaet,
     minimumCashMonth: liquiditaet.minimumMonat,
@@ -360,25 +545,51 @@ export function analyzeLiquidityRisks(liquiditaet: Liquiditaet, input: Liquidita
  */
 export function validateLiquidityForBA(
   liquiditaet: Liquiditaet,
-  analysis: LiquidityAnalysis
+  analysis: LiquidityAnalysis,
+  simulation?: LiquiditaetSimulation
 ): LiquidityValidation {
   const blockers: string[] = [];
   const warnings: string[] = [];
   const actionItems: string[] = [];
   const contingencyPlans: string[] = [];
+  const evidence: ValidationEvidence[] = [];
 
   // CRITICAL BLOCKERS (prevent export)
-  const hasNegativeLiquidity = liquiditaet.hatNegativeLiquiditaet;
+  const negativeMonths = liquiditaet.monate.filter(m => m.endbestand < 0).map(m => m.monat);
+  liquiditaet.monate.forEach((monat, index) => {
+    if (monat.endbestand < 0) {
+      evidence.push(createFieldPointer('gz-finanzplanung', `liquiditaet.monate[${index}].endbestand`, {
+        month: monat.monat,
+        value: monat.endbestand,
+      }));
+    }
+  });
+  const hasNegativeLiquidity = liquiditaet.hatNegativeLiquiditaet || negativeMonths.length > 0;
   if (hasNegativeLiquidity) {
     blockers.push('Negative Liquidität in mindestens einem Monat');
     actionItems.push('Finanzierung erhöhen oder Kosten senken');
     actionItems.push('Zahlungskonditionen mit Kunden und Lieferanten neu verhandeln');
   }
 
+  // Negative months after Year 1 are easy to miss in a 12-month view
+  const lateNegativeMonths = negativeMonths.filter(monat => monat > 12);
+  if (lateNegativeMonths.length > 0) {
+    actionItems.push(`Liquiditätsengpass in Jahr ${getPlanYearIndex(lateNegativeMonths[0] ?? 13) + 1} (ab Monat ${lateNegativeMonths[0]}) - Wachstum, Fixkostensteigerung und Tilgung prüfen`);
+  }
+
+  // The BA / fachkundige Stelle expects the full 36-month horizon
+  if (liquiditaet.monate.length < LIQUIDITAET_PLANUNGSMONATE) {
+    actionItems.push(`Liquiditätsplan auf ${LIQUIDITAET_PLANUNGSMONATE} Monate erweitern (aktuell ${liquiditaet.monate.length})`);
+  }
+
   const hasInsufficientStartup = liquiditaet.minimumLiquiditaet < -analysis.recommendedReserve;
   if (hasInsufficientStartup) {
     blockers.push('Startkapital reicht nicht für empfohlenen 3-Monats-Puffer');
     actionItems.push('Zusätzliche Finanzierung von mindestens €' + Math.round(analysis.reserveShortfall));
+    evidence.push(createFieldPointer('gz-finanzplanung', 'liquiditaet.minimumLiquiditaet', {
+      month: liquiditaet.minimumMonat,
+      value: liquiditaet.minimumLiquiditaet,
+    }));
   }
 
   // WARNINGS (concerns but not blockers)
@@ -400,6 +611,15 @@ export function validateLiquidityForBA(
     contingencyPlans.push('Saisonkredit oder flexible Finanzierung für schwache Monate');
   }
 
+  // Monte-Carlo: plan is positive, but too many realistic deviations are not
+  const hasSimulationRisk = simulation !== undefined
+    && simulation.wahrscheinlichkeitNegativ > SIMULATION_RISIKO_SCHWELLE;
+  if (simulation && hasSimulationRisk) {
+    warnings.push(`In ${Math.round(simulation.wahrscheinlichkeitNegativ * 100)}% der Simulationen negative Liquidität`);
+    actionItems.push(`Zusätzliche Reserve von ${formatEUR(simulation.reserveFuer95Prozent)} für 95% Sicherheit einplanen`);
+    contingencyPlans.push('Frühwarnsystem: Liquiditätsplan monatlich mit Ist-Zahlen abgleichen');
+  }
+
   // Additional German-specific recommendations
   if (liquiditaet.minimumMonat <= 3) {
     actionItems.push('Frühe Liquiditätskrise - Anlaufphase länger planen');
@@ -416,8 +636,10 @@ export function validateLiquidityForBA(
     hasTightCashFlow,
     hasHighVolatility,
     hasSeasonalRisks,
+    hasSimulationRisk,
     actionItems,
     contingencyPlans,
+    evidence,
   };
 }
 
@@ -426,34 +648,54 @@ export function validateLiquidityForBA(
 // ============================================================================
 
 /**
- * Calculate monthly debt service payments
+ * Map a plan month (1-36) to its plan year index (0 = Jahr 1, 1 = Jahr 2, 2 = Jahr 3)
  */
-function calculateMonthlyDebtService(finanzierung: Finanzierung): Decimal {
-  let totalDebtService = new Decimal(0);
-
-  finanzierung.quellen.forEach(quelle => {
-    if (quelle.zinssatz && quelle.laufzeit && quelle.betrag > 0) {
-      // Simplified monthly payment calculation (principal + interest)
-      const principal = new Decimal(quelle.betrag);
-      const monthlyRate = new Decimal(quelle.zinssatz).dividedBy(100).dividedBy(12);
-      const numPayments = new Decimal(quelle.laufzeit);
-
-      if (monthlyRate.gt(0)) {
-        // PMT formula: P * (r(1+r)^n) / ((1+r)^n - 1)
-        const onePlusR = new Decimal(1).plus(monthlyRate);
-        const numerator = principal.times(monthlyRate).times(onePlusR.pow(numPayments.toNumber()));
-        const denominator = onePlusR.pow(numPayments.toNumber()).minus(1);
-        const monthlyPayment = numerator.dividedBy(denominator);
-
-        totalDebtService = totalDebtService.plus(monthlyPayment);
-      } else {
-        // No interest - just principal
-        totalDebtService = totalDebtService.plus(principal.dividedBy(numPayments));
-      }
-    }
-  });
+function getPlanYearIndex(month: number): number {
+  return Math.min(2, Math.max(0, Math.floor((month - 1) / 12)));
+}
+
+/**
+ * Calculate financing inflow of a month
+ *
+ * All sources arrive in month 1 except loans with a later auszahlungsmonat
+ * and the Gründungszuschuss (paid monthly, see getGruendungszuschussPlan).
+ */
+function calculateFinancingInflow(finanzierung: Finanzierung, month: number): Decimal {
+  const spaeteDarlehen = finanzierung.quellen.filter(
+    quelle => isLoanSource(quelle) && (quelle.auszahlungsmonat ?? 1) > 1
+  );
+
+  if (month === 1) {
+    const spaeterAusgezahlt = finanzierung.quellen
+      .filter(quelle => quelle.typ === 'gruendungszuschuss')
+      .concat(spaeteDarlehen)
+      .reduce((sum, quelle) => sum.plus(quelle.betrag), new Decimal(0));
+    return Decimal.max(0, new Decimal(finanzierung.gesamtfinanzierung).minus(spaeterAusgezahlt));
+  }
+
+  return spaeteDarlehen
+    .filter(quelle => Math.round(quelle.auszahlungsmonat ?? 1) === month)
+    .reduce((sum, quelle) => sum.plus(quelle.betrag), new Decimal(0));
+}
+
+/**
+ * Monthly Gründungszuschuss payments (36 months)
+ *
+ * Uses the explicit configuration or derives ALG I from the GZ financing source.
+ */
+function getGruendungszuschussPlan(
+  finanzierung: Finanzierung,
+  config?: GruendungszuschussConfig
+): number[] {
+  const gzBetrag = finanzierung.quellen
+    .filter(quelle => quelle.typ === 'gruendungszuschuss')
+    .reduce((sum, quelle) => sum + quelle.betrag, 0);
+
+  const gzConfig = config ?? (gzBetrag > 0 ? deriveGruendungszuschussConfig(gzBetrag) : undefined);
 
-  return totalDebtService;
+  return gzConfig
+    ? projectMonthlyGruendungszuschuss(gzConfig)
+    : Array(LIQUIDITAET_PLANUNGSMONATE).fill(0);
 }
 
 /**
@@ -463,8 +705,7 @@ export function applySeasonalAdjustments(
   monthlyRevenue: number[],
   industry: string = 'default'
 ): number[] {
-  const patterns = GERMAN_SEASONALITY_PATTERNS as any;
-  const multipliers = patterns[industry] || patterns.default;
+  const multipliers = getBranchenBenchmark(industry).saisonalitaet.wert.quartale;
 
   return monthlyRevenue.map((revenue, index) => {
     const quarter = Math.floor(index / 3);
@@ -640,9 +881,11 @@ export function createHealthyLiquidityTest(): LiquiditaetInput {
 export default {
   calculateLiquiditaet,
   calculateMonthlyCashFlow,
+  projectLiquiditaet,
   analyzeLiquidityRisks,
   validateLiquidityForBA,
   applySeasonalAdjustments,
+  getBranchenPaymentTerms,
   formatEUR,
   calculateDaysOfCash,
   createNegativeLiquidityTest,
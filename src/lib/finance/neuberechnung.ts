@@ -0,0 +1,530 @@
+/**
+ * Finanzplan Neuberechnung (Consistency Solver)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * The module data is written step by step in the chat, so stored totals
+ * (Summen, Quoten, Endbestände) drift away from their inputs. This pipeline
+ * takes the raw inputs, recomputes every derived value through the existing
+ * calculators and reports each field where the stored value diverged.
+ *
+ * Includes:
+ * - Recalculation in dependency order A → G (Kapitalbedarf to Liquidität)
+ * - Pauschalwerte: totals without line items are kept as inputs
+ * - Field-level deviations (path, stored value, recomputed value)
+ * - Skipped sections with the missing inputs
+ */
+
+import Decimal from 'decimal.js';
+import { z } from 'zod';
+import type {
+  Finanzierung,
+  Kapitalbedarf,
+  Kostenplanung,
+  PartialFinanzplanungOutput,
+  Privatentnahme,
+  Umsatzplanung,
+} from '@/types/modules/finanzplanung';
+import {
+  FinanzierungsquelleSchema,
+  FinanzierungSchema,
+  GruendungszuschussConfigSchema,
+  InvestitionSchema,
+  KapitalbedarfSchema,
+  KostenplanungSchema,
+  KostenpositionSchema,
+  PaymentTermsConfigSchema,
+  PersonalstelleSchema,
+  PrivatentnahmeSchema,
+  SeasonalityConfigSchema,
+  SteuerProfilSchema,
+  UmsatzplanungSchema,
+  UmsatzsteuerConfigSchema,
+  UmsatzstromSchema,
+} from '@/types/modules/finanzplanung';
+import type { LiquiditaetInput } from './liquiditaet';
+import { calculateLiquiditaet } from './liquiditaet';
+import { calculateRentabilitaet } from './rentabilitaet';
+import {
+  calculateAnlaufkosten,
+  calculateGesamtkapitalbedarf,
+  calculateGruendungskosten,
+  calculateInvestitionen,
+} from './kapitalbedarf';
+import { calculateFinanzierung, calculateFinancingGap } from './finanzierung';
+import { calculatePrivatentnahme } from './privatentnahme';
+import { calculateUmsatzplanung, projectGrowthRates } from './umsatzplanung';
+import { FIXKOSTEN_FAKTOR_PRO_JAHR, calculateFixedCosts, calculateVariableCosts } from './kostenplanung';
+import { applyPersonalplanung, getPersonalkostenProJahr } from './personalkosten';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// Differences up to one cent are rounding, not an inconsistency
+const TOLERANZ = new Decimal(0.01);
+
+// Raw inputs per section (calculated totals omitted)
+const KapitalbedarfEingabeSchema = z.object({
+  gruendungskosten: KapitalbedarfSchema.shape.gruendungskosten.omit({ summe: true }),
+  investitionen: z.array(InvestitionSchema).default([]),
+  investitionenSumme: z.number().min(0).optional(),
+  anlaufkosten: KapitalbedarfSchema.shape.anlaufkosten.omit({ summe: true }).partial({ reserve: true }),
+  betriebsmittel: z.object({
+    warenbestand: z.number().min(0),
+    forderungen: z.number().min(0).default(0),
+  }).optional(),
+});
+
+const FinanzierungEingabeSchema = z.object({
+  quellen: z.array(FinanzierungsquelleSchema).default([]),
+  gesamtfinanzierung: z.number().min(0).optional(),
+});
+
+const PrivatentnahmeEingabeSchema = PrivatentnahmeSchema.omit({
+  monatlichePrivatentnahme: true,
+  jaehrlichePrivatentnahme: true,
+});
+
+const UmsatzplanungEingabeSchema = z.object({
+  umsatzstroeme: z.array(UmsatzstromSchema).default([]),
+  umsatzJahr1: z.array(z.number().min(0)).length(12).optional(),
+  umsatzJahr2: z.number().min(0).optional(),
+  umsatzJahr3: z.number().min(0).optional(),
+  annahmen: z.array(z.string()).default([]),
+});
+
+const KostenpositionEingabeSchema = KostenpositionSchema.partial({ betragMonatlich: true, betragJaehrlich: true });
+
+const KostenplanungEingabeSchema = z.object({
+  fixkosten: z.array(KostenpositionEingabeSchema).default([]),
+  variableKosten: z.array(KostenpositionEingabeSchema).default([]),
+  personalplanung: z.array(PersonalstelleSchema).optional(),
+  personalkostenMonatlich: z.array(z.number().min(0)).length(36).optional(),
+  fixkostenSummeMonatlich: z.number().min(0).optional(),
+  variableKostenSummeJahr1: z.number().min(0).optional(),
+  variableKostenSummeJahr2: z.number().min(0).optional(),
+  variableKostenSummeJahr3: z.number().min(0).optional(),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FinanzplanTeil =
+  | 'kapitalbedarf'
+  | 'finanzierung'
+  | 'privatentnahme'
+  | 'umsatzplanung'
+  | 'kostenplanung'
+  | 'rentabilitaet'
+  | 'liquiditaet';
+
+export interface FinanzplanAbweichung {
+  teil: FinanzplanTeil;
+  pfad: string;                        // e.g. "kapitalbedarf.anlaufkosten.summe"
+  gespeichert: number | boolean;       // Value stored in the module data
+  berechnet: number | boolean;         // Value recomputed from the inputs
+}
+
+export interface FinanzplanNeuberechnung {
+  finanzplanung: PartialFinanzplanungOutput; // Module data with recomputed totals
+  abweichungen: FinanzplanAbweichung[];
+  neuberechnet: FinanzplanTeil[];
+  uebersprungen: { teil: FinanzplanTeil; grund: string }[];
+  konsistent: boolean;                 // No stored value diverged
+}
+
+// Payment terms, VAT, tax profile etc. used for Rentabilität and Liquidität
+export type NeuberechnungOptionen = Omit<
+  LiquiditaetInput,
+  'kapitalbedarf' | 'finanzierung' | 'privatentnahme' | 'umsatzplanung' | 'kostenplanung'
+>;
+
+type Neuberechnung<T> = { wert: T } | { grund: string };
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Missing or invalid inputs as readable field list
+ */
+function formatFehlendeEingaben(error: z.ZodError): string {
+  const felder = Array.from(new Set(error.issues.map(issue => issue.path.join('.') || 'Eingaben')));
+  return `Eingaben fehlen oder sind ungültig: ${felder.join(', ')}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare all recomputed values with the stored ones
+ *
+ * Fields that were not stored yet are filled in silently - only values
+ * that actually diverge are reported.
+ */
+function vergleicheWerte(
+  teil: FinanzplanTeil,
+  pfad: string,
+  gespeichert: unknown,
+  berechnet: unknown,
+  abweichungen: FinanzplanAbweichung[]
+): void {
+  if (typeof berechnet === 'number') {
+    if (typeof gespeichert === 'number' && new Decimal(gespeichert).minus(berechnet).abs().gt(TOLERANZ)) {
+      abweichungen.push({ teil, pfad, gespeichert, berechnet });
+    }
+    return;
+  }
+
+  if (typeof berechnet === 'boolean') {
+    if (typeof gespeichert === 'boolean' && gespeichert !== berechnet) {
+      abweichungen.push({ teil, pfad, gespeichert, berechnet });
+    }
+    return;
+  }
+
+  if (Array.isArray(berechnet)) {
+    berechnet.forEach((wert, index) => vergleicheWerte(
+      teil,
+      `${pfad}[${index}]`,
+      Array.isArray(gespeichert) ? gespeichert[index] : undefined,
+      wert,
+      abweichungen
+    ));
+    return;
+  }
+
+  if (isRecord(berechnet)) {
+    for (const [key, wert] of Object.entries(berechnet)) {
+      vergleicheWerte(teil, `${pfad}.${key}`, isRecord(gespeichert) ? gespeichert[key] : undefined, wert, abweichungen);
+    }
+  }
+}
+
+// ============================================================================
+// A-E: Input Sections
+// ============================================================================
+
+/**
+ * A: Kapitalbedarf
+ *
+ * A stored reserve is an input (absolute buffer); without it the default
+ * 20 % of calculateAnlaufkosten applies. Without line items the stored
+ * investitionenSumme is kept as Pauschalwert.
+ */
+function recomputeKapitalbedarf(gespeichert: PartialFinanzplanungOutput['kapitalbedarf']): Neuberechnung<Kapitalbedarf> {
+  const eingabe = KapitalbedarfEingabeSchema.safeParse(gespeichert ?? {});
+  if (!eingabe.success) return { grund: formatFehlendeEingaben(eingabe.error) };
+
+  const { gruendungskosten, investitionen, anlaufkosten, betriebsmittel } = eingabe.data;
+
+  const gruendungskostenSumme = calculateGruendungskosten(
+    gruendungskosten.notar,
+    gruendungskosten.handelsregister,
+    gruendungskosten.beratung,
+    gruendungskosten.marketing,
+    gruendungskosten.sonstige
+  );
+
+  const investitionenSumme = investitionen.length > 0
+    ? calculateInvestitionen(investitionen)
+    : eingabe.data.investitionenSumme ?? 0;
+
+  const anlauf = anlaufkosten.reserve === undefined
+    ? calculateAnlaufkosten(anlaufkosten.monatlicheKosten, anlaufkosten.monate)
+    : calculateAnlaufkosten(anlaufkosten.monatlicheKosten, anlaufkosten.monate, 0);
+  const reserve = anlaufkosten.reserve ?? anlauf.reserve;
+  const anlaufkostenSumme = new Decimal(anlauf.laufendeKosten).plus(reserve).toNumber();
+
+  const betriebsmittelSumme = betriebsmittel
+    ? new Decimal(betriebsmittel.warenbestand).plus(betriebsmittel.forderungen).toNumber()
+    : undefined;
+
+  return {
+    wert: {
+      gruendungskosten: { ...gruendungskosten, summe: gruendungskostenSumme },
+      investitionen,
+      investitionenSumme,
+      anlaufkosten: {
+        monate: anlaufkosten.monate,
+        monatlicheKosten: anlaufkosten.monatlicheKosten,
+        reserve,
+        summe: anlaufkostenSumme,
+      },
+      ...(betriebsmittel && { betriebsmittel: { ...betriebsmittel, summe: betriebsmittelSumme ?? 0 } }),
+      gesamtkapitalbedarf: calculateGesamtkapitalbedarf(
+        gruendungskostenSumme,
+        investitionenSumme,
+        anlaufkostenSumme,
+        betriebsmittelSumme
+      ),
+    },
+  };
+}
+
+/**
+ * B: Finanzierung against the (recomputed) Gesamtkapitalbedarf
+ *
+ * Without Finanzierungsquellen the stored gesamtfinanzierung is kept and
+ * only the Finanzierungslücke is recomputed.
+ */
+function recomputeFinanzierung(
+  gespeichert: PartialFinanzplanungOutput['finanzierung'],
+  kapitalbedarf: number | undefined
+): Neuberechnung<Partial<Finanzierung>> {
+  if (kapitalbedarf === undefined) return { grund: 'Gesamtkapitalbedarf fehlt' };
+
+  const eingabe = FinanzierungEingabeSchema.safeParse(gespeichert ?? {});
+  if (!eingabe.success) return { grund: formatFehlendeEingaben(eingabe.error) };
+
+  const { quellen, gesamtfinanzierung } = eingabe.data;
+  if (quellen.length > 0) {
+    return { wert: calculateFinanzierung(quellen, kapitalbedarf) };
+  }
+
+  if (gesamtfinanzierung === undefined) return { grund: 'Finanzierungsquellen fehlen' };
+
+  return {
+    wert: {
+      quellen,
+      gesamtfinanzierung,
+      finanzierungsluecke: calculateFinancingGap(kapitalbedarf, gesamtfinanzierung),
+    },
+  };
+}
+
+/**
+ * C: Privatentnahme from the household categories
+ */
+function recomputePrivatentnahme(gespeichert: PartialFinanzplanungOutput['privatentnahme']): Neuberechnung<Privatentnahme> {
+  const eingabe = PrivatentnahmeEingabeSchema.safeParse(gespeichert ?? {});
+  if (!eingabe.success) return { grund: formatFehlendeEingaben(eingabe.error) };
+
+  return { wert: calculatePrivatentnahme(eingabe.data) };
+}
+
+/**
+ * D: Umsatzplanung from the Umsatzströme
+ *
+ * Without streams the monthly Year 1 revenue is the input and only the
+ * annual total and growth rates are recomputed.
+ */
+function recomputeUmsatzplanung(gespeichert: PartialFinanzplanungOutput['umsatzplanung']): Neuberechnung<Umsatzplanung> {
+  const eingabe = UmsatzplanungEingabeSchema.safeParse(gespeichert ?? {});
+  if (!eingabe.success) return { grund: formatFehlendeEingaben(eingabe.error) };
+
+  const { umsatzstroeme, umsatzJahr1, umsatzJahr2, umsatzJahr3, annahmen } = eingabe.data;
+
+  if (umsatzstroeme.length > 0) {
+    const umsatzplanung = calculateUmsatzplanung({ umsatzstroeme, annahmen });
+    // calculateUmsatzplanung drops the VAT rate of the streams
+    return { wert: { ...umsatzplanung, umsatzstroeme } };
+  }
+
+  if (!umsatzJahr1 || umsatzJahr2 === undefined || umsatzJahr3 === undefined) {
+    return { grund: 'Umsatzströme oder Umsatz Jahr 1-3 fehlen' };
+  }
+
+  const umsatzJahr1Summe = umsatzJahr1.reduce((sum, umsatz) => sum.plus(umsatz), new Decimal(0)).toNumber();
+  const wachstum = projectGrowthRates(umsatzJahr1Summe, umsatzJahr2, umsatzJahr3);
+
+  return {
+    wert: {
+      umsatzstroeme,
+      umsatzJahr1,
+      umsatzJahr1Summe,
+      umsatzJahr2,
+      umsatzJahr3,
+      wachstumsrateJahr2: wachstum.jahr1ToJahr2,
+      wachstumsrateJahr3: wachstum.jahr2ToJahr3,
+      annahmen,
+    },
+  };
+}
+
+/**
+ * E: Kostenplanung against the (recomputed) revenue
+ *
+ * Fixed and variable totals are recomputed from their line items; without
+ * line items (or without variablerAnteil) the stored totals are kept.
+ */
+function recomputeKostenplanung(
+  gespeichert: PartialFinanzplanungOutput['kostenplanung'],
+  umsatzplanung: PartialFinanzplanungOutput['umsatzplanung']
+): Neuberechnung<Kostenplanung> {
+  const eingabe = KostenplanungEingabeSchema.safeParse(gespeichert ?? {});
+  if (!eingabe.success) return { grund: formatFehlendeEingaben(eingabe.error) };
+
+  const { fixkosten, variableKosten, personalplanung, personalkostenMonatlich } = eingabe.data;
+
+  const fixkostenSummeMonatlich = fixkosten.length > 0
+    ? calculateFixedCosts(fixkosten)
+    : eingabe.data.fixkostenSummeMonatlich;
+  if (fixkostenSummeMonatlich === undefined) return { grund: 'Fixkosten fehlen' };
+
+  const umsatz = [umsatzplanung?.umsatzJahr1Summe, umsatzplanung?.umsatzJahr2, umsatzplanung?.umsatzJahr3];
+  const anteilig = variableKosten.filter(position => position.variablerAnteil !== undefined);
+  const variableKostenSummen = anteilig.length > 0
+    ? umsatz.map(jahr => (jahr === undefined ? undefined : calculateVariableCosts(variableKosten, jahr)))
+    : [eingabe.data.variableKostenSummeJahr1, eingabe.data.variableKostenSummeJahr2, eingabe.data.variableKostenSummeJahr3];
+
+  const [variableKostenSummeJahr1, variableKostenSummeJahr2, variableKostenSummeJahr3] = variableKostenSummen;
+  if (variableKostenSummeJahr1 === undefined || variableKostenSummeJahr2 === undefined || variableKostenSummeJahr3 === undefined) {
+    return { grund: anteilig.length > 0 ? 'Umsatz Jahr 1-3 fehlt für die variablen Kosten' : 'Variable Kosten fehlen' };
+  }
+
+  const fixkostenSummeJaehrlich = new Decimal(fixkostenSummeMonatlich).times(12);
+  const personal = getPersonalkostenProJahr({ personalkostenMonatlich });
+
+  const kostenplanung: Kostenplanung = {
+    fixkosten: fixkosten.map(position => ({
+      ...position,
+      betragMonatlich: position.betragMonatlich ?? new Decimal(position.betragJaehrlich ?? 0).dividedBy(12).toNumber(),
+      betragJaehrlich: position.betragJaehrlich ?? new Decimal(position.betragMonatlich ?? 0).times(12).toNumber(),
+    })),
+    variableKosten: variableKosten.map(position => ({
+      ...position,
+      betragMonatlich: position.betragMonatlich ?? 0,
+      betragJaehrlich: position.betragJaehrlich ?? 0,
+    })),
+    ...(personalkostenMonatlich && { personalkostenMonatlich }),
+    fixkostenSummeMonatlich,
+    fixkostenSummeJaehrlich: fixkostenSummeJaehrlich.toNumber(),
+    variableKostenSummeJahr1,
+    variableKostenSummeJahr2,
+    variableKostenSummeJahr3,
+    gesamtkostenJahr1: fixkostenSummeJaehrlich.plus(variableKostenSummeJahr1).plus(personal[0]).toNumber(),
+    gesamtkostenJahr2: fixkostenSummeJaehrlich.times(FIXKOSTEN_FAKTOR_PRO_JAHR[1]).plus(variableKostenSummeJahr2).plus(personal[1]).toNumber(),
+    gesamtkostenJahr3: fixkostenSummeJaehrlich.times(FIXKOSTEN_FAKTOR_PRO_JAHR[2]).plus(variableKostenSummeJahr3).plus(personal[2]).toNumber(),
+  };
+
+  // The Personalplanung rebuilds the monthly payroll timeline
+  return { wert: personalplanung ? applyPersonalplanung(kostenplanung, personalplanung) : kostenplanung };
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Planning settings stored next to the sections of the Finanzplanung
+ *
+ * Settings that do not match their schema are left out, the recomputation
+ * then falls back to its defaults.
+ */
+export function getGespeicherteOptionen(finanzplanung: Record<string, unknown>): NeuberechnungOptionen {
+  const lesen = <S extends z.ZodTypeAny>(schema: S, wert: unknown): z.infer<S> | undefined => {
+    const ergebnis = schema.safeParse(wert);
+    return ergebnis.success ? ergebnis.data : undefined;
+  };
+
+  return {
+    steuerProfil: lesen(SteuerProfilSchema, finanzplanung.steuerProfil),
+    umsatzsteuer: lesen(UmsatzsteuerConfigSchema, finanzplanung.umsatzsteuer),
+    gruendungszuschuss: lesen(GruendungszuschussConfigSchema, finanzplanung.gruendungszuschuss),
+    paymentTerms: lesen(PaymentTermsConfigSchema, finanzplanung.paymentTerms),
+    seasonality: lesen(SeasonalityConfigSchema, finanzplanung.seasonality),
+  };
+}
+
+/**
+ * Recompute all derived Finanzplanung values in dependency order (A → G)
+ *
+ * Each section is recomputed from its raw inputs and the recomputed
+ * upstream sections. Rentabilität and Liquidität need complete sections
+ * A-E; sections with missing inputs are skipped and keep their stored data.
+ */
+export function recomputeFinanzplanung(
+  finanzplanung: PartialFinanzplanungOutput,
+  optionen: NeuberechnungOptionen = {}
+): FinanzplanNeuberechnung {
+  const ergebnis: PartialFinanzplanungOutput = { ...finanzplanung };
+  const abweichungen: FinanzplanAbweichung[] = [];
+  const neuberechnet: FinanzplanTeil[] = [];
+  const uebersprungen: FinanzplanNeuberechnung['uebersprungen'] = [];
+
+  const uebernehmen = <T extends object>(teil: FinanzplanTeil, neuberechnung: Neuberechnung<T>) => {
+    if ('grund' in neuberechnung) {
+      uebersprungen.push({ teil, grund: neuberechnung.grund });
+      return;
+    }
+    vergleicheWerte(teil, teil, finanzplanung[teil], neuberechnung.wert, abweichungen);
+    ergebnis[teil] = { ...finanzplanung[teil], ...neuberechnung.wert };
+    neuberechnet.push(teil);
+  };
+
+  // A-E: inputs and their totals
+  uebernehmen('kapitalbedarf', recomputeKapitalbedarf(finanzplanung.kapitalbedarf));
+  uebernehmen('finanzierung', recomputeFinanzierung(finanzplanung.finanzierung, ergebnis.kapitalbedarf?.gesamtkapitalbedarf));
+  uebernehmen('privatentnahme', recomputePrivatentnahme(finanzplanung.privatentnahme));
+  uebernehmen('umsatzplanung', recomputeUmsatzplanung(finanzplanung.umsatzplanung));
+  uebernehmen('kostenplanung', recomputeKostenplanung(finanzplanung.kostenplanung, ergebnis.umsatzplanung));
+
+  // F-G: complete plan required
+  const kapitalbedarf = KapitalbedarfSchema.safeParse(ergebnis.kapitalbedarf);
+  const finanzierung = FinanzierungSchema.safeParse(ergebnis.finanzierung);
+  const privatentnahme = PrivatentnahmeSchema.safeParse(ergebnis.privatentnahme);
+  const umsatzplanung = UmsatzplanungSchema.safeParse(ergebnis.umsatzplanung);
+  const kostenplanung = KostenplanungSchema.safeParse(ergebnis.kostenplanung);
+
+  if (kapitalbedarf.success && finanzierung.success && privatentnahme.success && umsatzplanung.success && kostenplanung.success) {
+    const input: LiquiditaetInput = {
+      ...optionen,
+      kapitalbedarf: kapitalbedarf.data,
+      finanzierung: finanzierung.data,
+      privatentnahme: privatentnahme.data,
+      umsatzplanung: umsatzplanung.data,
+      kostenplanung: kostenplanung.data,
+    };
+
+    uebernehmen('rentabilitaet', {
+      wert: calculateRentabilitaet({
+        umsatzplanung: input.umsatzplanung,
+        kostenplanung: input.kostenplanung,
+        finanzierung: input.finanzierung,
+        kapitalbedarf: input.kapitalbedarf,
+        afa: input.afa,
+        industry: input.industry,
+        steuerProfil: input.steuerProfil,
+      }),
+    });
+    uebernehmen('liquiditaet', { wert: calculateLiquiditaet(input) });
+  } else {
+    const unvollstaendig = [
+      !kapitalbedarf.success && 'Kapitalbedarf',
+      !finanzierung.success && 'Finanzierung',
+      !privatentnahme.success && 'Privatentnahme',
+      !umsatzplanung.success && 'Umsatzplanung',
+      !kostenplanung.success && 'Kostenplanung',
+    ].filter(Boolean).join(', ');
+    const grund = `Unvollständige Teile: ${unvollstaendig}`;
+
+    uebersprungen.push({ teil: 'rentabilitaet', grund }, { teil: 'liquiditaet', grund });
+  }
+
+  return {
+    finanzplanung: ergebnis,
+    abweichungen,
+    neuberechnet,
+    uebersprungen,
+    konsistent: abweichungen.length === 0,
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  recomputeFinanzplanung,
+};
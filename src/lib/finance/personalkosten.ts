@@ -0,0 +1,407 @@
+/**
+ * Personalkosten Calculations (Payroll with Employer Contributions)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Turns the planned hires into monthly employer costs for Kostenplanung,
+ * Rentabilität and the liquidity timeline.
+ *
+ * Includes:
+ * - Employer shares of Kranken-, Pflege-, Renten- and Arbeitslosenversicherung
+ *   up to the Beitragsbemessungsgrenzen
+ * - Minijob flat rates (Minijob-Zentrale)
+ * - Midijob employer contribution in the Übergangsbereich (§20 Abs. 2a SGB IV)
+ * - Umlagen U1/U2, Insolvenzgeldumlage and Berufsgenossenschaft
+ * - Derivation of the Personalplanung from the Organisation team
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  BeschaeftigungsartType,
+  Kostenplanung,
+  Personalstelle,
+} from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import type { TeamMember } from '@/types/modules/organisation';
+import { FIXKOSTEN_FAKTOR_PRO_JAHR } from './kostenplanung';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// ============================================================================
+// German Social Security 2026
+// ============================================================================
+
+/**
+ * Total contribution rates in % (employer pays half unless noted)
+ */
+export const SOZIALVERSICHERUNG = {
+  krankenversicherung: 14.6,
+  kvZusatzbeitrag: 2.9,               // Average Zusatzbeitrag
+  pflegeversicherung: 3.6,            // Kinderlosenzuschlag is paid by the employee only
+  rentenversicherung: 18.6,
+  arbeitslosenversicherung: 2.6,
+  bbgKvPv: 5812.5,                    // Beitragsbemessungsgrenze KV/PV per month
+  bbgRvAv: 8450,                      // Beitragsbemessungsgrenze RV/AV per month
+};
+
+/**
+ * Employer-only levies in % of gross salary
+ */
+export const UMLAGEN = {
+  u1: 1.6,                            // Entgeltfortzahlung (≤ 30 employees), depends on Krankenkasse
+  u2: 0.44,                           // Mutterschaft, depends on Krankenkasse
+  insolvenzgeld: 0.15,
+  unfallversicherung: 1.0,            // Berufsgenossenschaft, depends on Gefahrtarif
+};
+
+export const MINIJOB = {
+  grenze: 603,                        // Geringfügigkeitsgrenze per month
+  krankenversicherung: 13,
+  rentenversicherung: 15,
+  pauschsteuer: 2,
+  u1: 1.1,
+  u2: 0.22,
+};
+
+export const MIDIJOB_OBERGRENZE = 2000;
+export const MINDESTLOHN = 13.9;      // € per hour
+const STUNDEN_VOLLZEIT_MONAT = new Decimal(40).times(52).dividedBy(12);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Arbeitgeberkosten {
+  brutto: number;
+  sozialversicherung: number;         // Employer shares KV/PV/RV/AV or Minijob flat rates
+  umlagen: number;                    // U1, U2, Insolvenzgeld, Berufsgenossenschaft
+  pauschsteuer: number;               // Minijob only
+  gesamt: number;                     // Monthly employer cost
+}
+
+export interface PersonalkostenPlan {
+  stellen: Array<Personalstelle & { kosten: Arbeitgeberkosten }>;
+  monate: number[];                   // 36 months employer cost
+  jahre: [number, number, number];
+}
+
+// ============================================================================
+// Employer Cost per Employee
+// ============================================================================
+
+/**
+ * Sum of all Sozialversicherung rates (basis for Midijob factor F)
+ */
+function getGesamtsozialversicherungssatz(): Decimal {
+  return new Decimal(SOZIALVERSICHERUNG.krankenversicherung)
+    .plus(SOZIALVERSICHERUNG.kvZusatzbeitrag)
+    .plus(SOZIALVERSICHERUNG.pflegeversicherung)
+    .plus(SOZIALVERSICHERUNG.rentenversicherung)
+    .plus(SOZIALVERSICHERUNG.arbeitslosenversicherung);
+}
+
+/**
+ * Employer share for a regular employment, capped at the BBG
+ */
+function calculateArbeitgeberanteil(brutto: Decimal): Decimal {
+  const basisKvPv = Decimal.min(brutto, SOZIALVERSICHERUNG.bbgKvPv);
+  const basisRvAv = Decimal.min(brutto, SOZIALVERSICHERUNG.bbgRvAv);
+
+  const kvPvSatz = new Decimal(SOZIALVERSICHERUNG.krankenversicherung)
+    .plus(SOZIALVERSICHERUNG.kvZusatzbeitrag)
+    .plus(SOZIALVERSICHERUNG.pflegeversicherung);
+  const rvAvSatz = new Decimal(SOZIALVERSICHERUNG.rentenversicherung)
+    .plus(SOZIALVERSICHERUNG.arbeitslosenversicherung);
+
+  return basisKvPv.times(kvPvSatz).plus(basisRvAv.times(rvAvSatz)).dividedBy(200);
+}
+
+/**
+ * Employer share in the Übergangsbereich
+ *
+ * Total contribution on the reduced base BE minus the employee share on
+ * BE_AN - the employer pays 28% at the Minijob limit and falls to the
+ * regular half share at the upper limit.
+ */
+function calculateMidijobArbeitgeberanteil(brutto: Decimal): Decimal {
+  const g = new Decimal(MINIJOB.grenze);
+  const og = new Decimal(MIDIJOB_OBERGRENZE);
+  const satz = getGesamtsozialversicherungssatz().dividedBy(100);
+  const faktorF = new Decimal(28).dividedBy(getGesamtsozialversicherungssatz());
+
+  const spanne = og.minus(g);
+  const beitragspflichtigGesamt = faktorF.times(g)
+    .plus(og.dividedBy(spanne).minus(g.dividedBy(spanne).times(faktorF)).times(brutto.minus(g)));
+  const beitragspflichtigArbeitnehmer = og.dividedBy(spanne).times(brutto.minus(g));
+
+  return beitragspflichtigGesamt.times(satz).minus(beitragspflichtigArbeitnehmer.times(satz).dividedBy(2));
+}
+
+/**
+ * Effective category for the contribution rules
+ *
+ * Teilzeit/Vollzeit salaries within the Übergangsbereich are Midijobs by law.
+ */
+export function getEffektiveBeschaeftigungsart(
+  beschaeftigungsart: BeschaeftigungsartType,
+  bruttoMonatlich: number
+): BeschaeftigungsartType {
+  if (beschaeftigungsart === 'minijob') return 'minijob';
+  if (bruttoMonatlich > MINIJOB.grenze && bruttoMonatlich <= MIDIJOB_OBERGRENZE) return 'midijob';
+  return beschaeftigungsart === 'midijob' ? 'teilzeit' : beschaeftigungsart;
+}
+
+/**
+ * Monthly employer cost of one employee
+ */
+export function calculateArbeitgeberkosten(
+  beschaeftigungsart: BeschaeftigungsartType,
+  bruttoMonatlich: number
+): Arbeitgeberkosten {
+  const brutto = new Decimal(bruttoMonatlich);
+  const art = getEffektiveBeschaeftigungsart(beschaeftigungsart, bruttoMonatlich);
+
+  let sozialversicherung: Decimal;
+  let umlagen: Decimal;
+  let pauschsteuer = new Decimal(0);
+
+  if (art === 'minijob') {
+    sozialversicherung = brutto.times(MINIJOB.krankenversicherung + MINIJOB.rentenversicherung).dividedBy(100);
+    pauschsteuer = brutto.times(MINIJOB.pauschsteuer).dividedBy(100);
+    umlagen = brutto
+      .times(new Decimal(MINIJOB.u1).plus(MINIJOB.u2).plus(UMLAGEN.insolvenzgeld).plus(UMLAGEN.unfallversicherung))
+      .dividedBy(100);
+  } else {
+    sozialversicherung = art === 'midijob'
+      ? calculateMidijobArbeitgeberanteil(brutto)
+      : calculateArbeitgeberanteil(brutto);
+    umlagen = Decimal.min(brutto, SOZIALVERSICHERUNG.bbgRvAv)
+      .times(new Decimal(UMLAGEN.u1).plus(UMLAGEN.u2).plus(UMLAGEN.insolvenzgeld))
+      .plus(brutto.times(UMLAGEN.unfallversicherung))
+      .dividedBy(100);
+  }
+
+  sozialversicherung = sozialversicherung.toDecimalPlaces(2);
+  umlagen = umlagen.toDecimalPlaces(2);
+  pauschsteuer = pauschsteuer.toDecimalPlaces(2);
+
+  return {
+    brutto: brutto.toNumber(),
+    sozialversicherung: sozialversicherung.toNumber(),
+    umlagen: umlagen.toNumber(),
+    pauschsteuer: pauschsteuer.toNumber(),
+    gesamt: brutto.plus(sozialversicherung).plus(umlagen).plus(pauschsteuer).toNumber(),
+  };
+}
+
+// ============================================================================
+// Personnel Plan
+// ============================================================================
+
+/**
+ * Monthly employer costs of all planned hires for 36 months
+ */
+export function calculatePersonalkostenPlan(stellen: Personalstelle[]): PersonalkostenPlan {
+  const monate = Array.from({ length: LIQUIDITAET_PLANUNGSMONATE }, () => new Decimal(0));
+
+  const stellenMitKosten = stellen.map(stelle => {
+    const kosten = calculateArbeitgeberkosten(stelle.beschaeftigungsart, stelle.bruttoMonatlich);
+    const ende = stelle.endMonat ?? LIQUIDITAET_PLANUNGSMONATE;
+
+    for (let monat = Math.max(1, Math.round(stelle.startMonat)); monat <= ende; monat++) {
+      monate[monat - 1] = (monate[monat - 1] ?? new Decimal(0)).plus(kosten.gesamt);
+    }
+
+    return { ...stelle, kosten };
+  });
+
+  const jahre = [0, 1, 2].map(jahr => monate
+    .slice(jahr * 12, (jahr + 1) * 12)
+    .reduce((sum, betrag) => sum.plus(betrag), new Decimal(0))
+    .toNumber()
+  ) as [number, number, number];
+
+  return {
+    stellen: stellenMitKosten,
+    monate: monate.map(betrag => betrag.toNumber()),
+    jahre,
+  };
+}
+
+/**
+ * Personnel costs per plan year from the Kostenplanung timeline
+ */
+export function getPersonalkostenProJahr(kostenplanung: Pick<Kostenplanung, 'personalkostenMonatlich'>): [number, number, number] {
+  const monate = kostenplanung.personalkostenMonatlich ?? [];
+
+  return [0, 1, 2].map(jahr => monate
+    .slice(jahr * 12, (jahr + 1) * 12)
+    .reduce((sum, betrag) => sum.plus(betrag), new Decimal(0))
+    .toNumber()
+  ) as [number, number, number];
+}
+
+/**
+ * Push the Personalplanung into the Kostenplanung
+ *
+ * Employer costs are kept as a monthly timeline next to the flat fixed
+ * costs - hires start mid-plan, so they cannot be a constant Kostenposition.
+ */
+export function applyPersonalplanung(kostenplanung: Kostenplanung, stellen: Personalstelle[]): Kostenplanung {
+  const plan = calculatePersonalkostenPlan(stellen);
+  const fixkostenJaehrlich = new Decimal(kostenplanung.fixkostenSummeJaehrlich);
+
+  return {
+    ...kostenplanung,
+    personalplanung: stellen,
+    personalkostenMonatlich: plan.monate,
+    gesamtkostenJahr1: fixkostenJaehrlich.plus(kostenplanung.variableKostenSummeJahr1).plus(plan.jahre[0]).toNumber(),
+    gesamtkostenJahr2: fixkostenJaehrlich.times(FIXKOSTEN_FAKTOR_PRO_JAHR[1]).plus(kostenplanung.variableKostenSummeJahr2).plus(plan.jahre[1]).toNumber(),
+    gesamtkostenJahr3: fixkostenJaehrlich.times(FIXKOSTEN_FAKTOR_PRO_JAHR[2]).plus(kostenplanung.variableKostenSummeJahr3).plus(plan.jahre[2]).toNumber(),
+  };
+}
+
+// ============================================================================
+// Organisation Integration
+// ============================================================================
+
+// Team roles that are paid via payroll (founders, freelancers and advisors are not)
+const ANGESTELLTE_ROLLEN: TeamMember['role'][] = ['employee_fulltime', 'employee_parttime', 'intern'];
+
+/**
+ * Plan month from the start date of a team member
+ *
+ * Accepts a plan month ("Monat 7", "ab Monat 13", "7") or a calendar date
+ * (ISO "2026-09-01", German "01.09.2026" / "09.2026" / "09/2026"), which is
+ * counted from the plan start. Undefined if the text cannot be placed.
+ */
+function parseStartMonat(startDate: string, planStart?: { jahr: number; monat: number }): number | undefined {
+  const text = startDate.trim();
+  const begrenzen = (monat: number) => Math.min(LIQUIDITAET_PLANUNGSMONATE, Math.max(1, monat));
+
+  const planMonat = text.match(/^(?:ab\s+)?(?:monat\s+)?(\d{1,2})$/i);
+  if (planMonat) return begrenzen(Number(planMonat[1]));
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+  const deutsch = text.match(/^(?:\d{1,2}\.)?(\d{1,2})[./](\d{4})$/);
+  const jahr = Number(iso?.[1] ?? deutsch?.[2]);
+  const monat = Number(iso?.[2] ?? deutsch?.[1]);
+  if (!planStart || !(iso || deutsch) || monat < 1 || monat > 12) return undefined;
+
+  return begrenzen((jahr - planStart.jahr) * 12 + (monat - planStart.monat) + 1);
+}
+
+/**
+ * Derive the Personalplanung from the Organisation team members
+ *
+ * Start dates that cannot be placed in the plan count from month 1.
+ */
+export function createPersonalplanungFromTeam(
+  teamMembers: TeamMember[],
+  planStart?: { jahr: number; monat: number }
+): Personalstelle[] {
+  return teamMembers
+    .filter(member => ANGESTELLTE_ROLLEN.includes(member.role) && (member.salary ?? 0) > 0)
+    .map(member => {
+      const brutto = member.salary ?? 0;
+      const beschaeftigungsart: BeschaeftigungsartType = member.role === 'employee_fulltime'
+        ? 'vollzeit'
+        : brutto <= MINIJOB.grenze
+          ? 'minijob'
+          : brutto <= MIDIJOB_OBERGRENZE ? 'midijob' : 'teilzeit';
+
+      return {
+        rolle: member.name,
+        beschaeftigungsart,
+        bruttoMonatlich: brutto,
+        startMonat: member.isHired || !member.startDate ? 1 : parseStartMonat(member.startDate, planStart) ?? 1,
+      };
+    });
+}
+
+// ============================================================================
+// Validation Functions
+// ============================================================================
+
+/**
+ * Validate a planned position against Minijob limits and Mindestlohn
+ */
+export function validatePersonalstelle(stelle: Personalstelle): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (stelle.beschaeftigungsart === 'minijob' && stelle.bruttoMonatlich > MINIJOB.grenze) {
+    errors.push(`${stelle.rolle}: Minijob-Verdienst über ${MINIJOB.grenze} € - sozialversicherungspflichtige Beschäftigung`);
+  }
+
+  if (stelle.beschaeftigungsart === 'vollzeit') {
+    const mindestgehalt = STUNDEN_VOLLZEIT_MONAT.times(MINDESTLOHN).toDecimalPlaces(2);
+    if (mindestgehalt.gt(stelle.bruttoMonatlich)) {
+      errors.push(`${stelle.rolle}: Vollzeitgehalt unter Mindestlohn (mind. ${mindestgehalt.toFixed(2)} € brutto)`);
+    }
+  }
+
+  if (stelle.endMonat !== undefined && stelle.endMonat < stelle.startMonat) {
+    errors.push(`${stelle.rolle}: Endmonat liegt vor dem Startmonat`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Compare Organisation team and Personalplanung
+ */
+export function checkPersonalplanungConsistency(
+  teamMembers: TeamMember[],
+  kostenplanung: Pick<Kostenplanung, 'personalplanung'>,
+  planStart?: { jahr: number; monat: number }
+): string[] {
+  const warnings: string[] = [];
+  const geplant = kostenplanung.personalplanung ?? [];
+
+  teamMembers
+    .filter(member => ANGESTELLTE_ROLLEN.includes(member.role) && (member.salary ?? 0) > 0 && !member.isHired)
+    .filter(member => member.startDate && parseStartMonat(member.startDate, planStart) === undefined)
+    .forEach(member => {
+      warnings.push(`${member.name}: Starttermin "${member.startDate}" ist keinem Planmonat zuzuordnen - Personalkosten ab Monat 1 angesetzt`);
+    });
+
+  createPersonalplanungFromTeam(teamMembers, planStart).forEach(stelle => {
+    const eintrag = geplant.find(p => p.rolle === stelle.rolle);
+    if (!eintrag) {
+      warnings.push(`${stelle.rolle} ist im Team geplant, aber nicht in den Personalkosten enthalten`);
+    } else if (eintrag.bruttoMonatlich !== stelle.bruttoMonatlich) {
+      warnings.push(`${stelle.rolle}: Gehalt in Organisation (${stelle.bruttoMonatlich} €) weicht von Personalkosten (${eintrag.bruttoMonatlich} €) ab`);
+    }
+  });
+
+  return warnings;
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  calculateArbeitgeberkosten,
+  calculatePersonalkostenPlan,
+  getPersonalkostenProJahr,
+  applyPersonalplanung,
+  createPersonalplanungFromTeam,
+  validatePersonalstelle,
+  checkPersonalplanungConsistency,
+};
@@ -10,10 +10,13 @@
  * - Category-based expense breakdown
  * - Annual totals and tax implications
  * - Lifestyle sustainability analysis
+ * - Founder social insurance minimum (Kranken-, Pflege-, Renten-, Arbeitslosenversicherung)
  */
 
 import Decimal from 'decimal.js';
 import type { Privatentnahme } from '@/types/modules/finanzplanung';
+import type { GruenderSozialversicherung } from './gruender-sozialversicherung';
+import { formatEUR } from './umsatzplanung';
 
 // ============================================================================
 // Configuration
@@ -41,7 +44,8 @@ export function calculateMonatlichePrivatentnahme(
   mobilitaet: number,
   kommunikation: number,
   sonstigeAusgaben: number,
-  sparrate: number = 0
+  sparrate: number = 0,
+  sozialversicherung: number = 0
 ): number {
   const mieteDecimal = new Decimal(miete);
   const lebensmittelDecimal = new Decimal(lebensmittel);
@@ -50,6 +54,7 @@ export function calculateMonatlichePrivatentnahme(
   const kommunikationDecimal = new Decimal(kommunikation);
   const sonstigeAusgabenDecimal = new Decimal(sonstigeAusgaben);
   const sparrateDecimal = new Decimal(sparrate);
+  const sozialversicherungDecimal = new Decimal(sozialversicherung);
 
   const total = mieteDecimal
     .plus(lebensmittelDecimal)
@@ -57,7 +62,8 @@ export function calculateMonatlichePrivatentnahme(
     .plus(mobilitaetDecimal)
     .plus(kommunikationDecimal)
     .plus(sonstigeAusgabenDecimal)
-    .plus(sparrateDecimal);
+    .plus(sparrateDecimal)
+    .plus(sozialversicherungDecimal);
 
   return total.toNumber();
 }
@@ -83,6 +89,7 @@ export function calculatePrivatentnahme(input: {
   kommunikation: number;
   sonstigeAusgaben: number;
   sparrate?: number;
+  sozialversicherung?: number;         // Monthly minimum from calculateGruenderSozialversicherung
 }): Privatentnahme {
   const sparrate = input.sparrate || 0;
 
@@ -93,7 +100,8 @@ export function calculatePrivatentnahme(input: {
     input.mobilitaet,
     input.kommunikation,
     input.sonstigeAusgaben,
-    sparrate
+    sparrate,
+    input.sozialversicherung
   );
 
   const jaehrlichePrivatentnahme = calculateJaehrlichePrivatentnahme(monatlichePrivatentnahme);
@@ -106,6 +114,7 @@ export function calculatePrivatentnahme(input: {
     kommunikation: input.kommunikation,
     sonstigeAusgaben: input.sonstigeAusgaben,
     sparrate,
+    ...(input.sozialversicherung !== undefined && { sozialversicherung: input.sozialversicherung }),
     monatlichePrivatentnahme,
     jaehrlichePrivatentnahme,
   };
@@ -469,7 +478,8 @@ export function testStandardScenarios(): {
 export function validatePrivatentnahme(
   privatentnahme: Privatentnahme,
   region?: string,
-  familyStatus?: 'single' | 'partner' | 'family'
+  familyStatus?: 'single' | 'partner' | 'family',
+  sozialversicherung?: GruenderSozialversicherung
 ): {
   isRealistic: boolean;
   warnings: string[];
@@ -497,7 +507,14 @@ export function validatePrivatentnahme(
     suggestions.push('Günstigere Wohnsituation für Gründungsphase suchen');
   }
 
-  if (privatentnahme.versicherungen < 200) {
+  if (sozialversicherung) {
+    // Founder social insurance may be planned separately or within versicherungen
+    const geplant = privatentnahme.sozialversicherung ?? privatentnahme.versicherungen;
+    if (geplant < sozialversicherung.mindestbeitragMonatlich) {
+      warnings.push(`Sozialversicherung (${formatEUR(geplant)}/Monat) unter dem Mindestbeitrag von ${formatEUR(sozialversicherung.mindestbeitragMonatlich)}/Monat`);
+      suggestions.push('Kranken- und Pflegeversicherung als Selbstständiger mit dem berechneten Beitrag einplanen');
+    }
+  } else if (privatentnahme.versicherungen + (privatentnahme.sozialversicherung ?? 0) < 200) {
     warnings.push('Versicherungskosten sehr niedrig - KV vergessen?');
     suggestions.push('Krankenversicherung und weitere notwendige Versicherungen prüfen');
   }
@@ -546,6 +563,9 @@ export function formatExpenseBreakdown(privatentnahme: Privatentnahme): string[]
     `Miete/Wohnen: ${formatter.format(privatentnahme.miete)}`,
     `Lebensmittel: ${formatter.format(privatentnahme.lebensmittel)}`,
     `Versicherungen: ${formatter.format(privatentnahme.versicherungen)}`,
+    ...(privatentnahme.sozialversicherung !== undefined
+      ? [`Sozialversicherung: ${formatter.format(privatentnahme.sozialversicherung)}`]
+      : []),
     `Mobilität: ${formatter.format(privatentnahme.mobilitaet)}`,
     `Kommunikation: ${formatter.format(privatentnahme.kommunikation)}`,
     `Sonstige Ausgaben: ${formatter.format(privatentnahme.sonstigeAusgaben)}`,
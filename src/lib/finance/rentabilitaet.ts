@@ -7,8 +7,11 @@
  * Includes:
  * - 3-year profitability analysis with exact arithmetic
  * - Gross profit, operating profit, net profit calculations
+ * - Loan interest from the per-loan Tilgungsplan (see finanzierung.ts)
+ * - AfA from the Kapitalbedarf investments (GWG, Sammelposten, see abschreibung.ts)
+ * - Payroll incl. employer contributions from the Personalplanung (see personalkosten.ts)
  * - Profit margin analysis and industry benchmarking
- * - Tax calculations (German business context)
+ * - Tax calculations via Ertragsteuer engine (ESt/GewSt/KSt, see steuern.ts)
  * - Break-even integration and validation
  * - BA compliance checks and warnings
  */
@@ -19,8 +22,21 @@ import type {
   RentabilitaetJahr,
   Umsatzplanung,
   Kostenplanung,
+  Finanzierung,
+  Kapitalbedarf,
+  SteuerJahr,
+  SteuerProfil,
 } from '@/types/modules/finanzplanung';
 import { calculateBreakEvenFromFinanzplanung } from './break-even';
+import { KLEINUNTERNEHMER_GRENZEN, getKleinunternehmerJahre } from './umsatzsteuer';
+import { DEFAULT_STEUER_PROFIL, calculateSteuerplanung } from './steuern';
+import { calculateAnnualInterest } from './finanzierung';
+import type { AfaConfig } from './abschreibung';
+import { calculateAfaPlan } from './abschreibung';
+import { getPersonalkostenProJahr } from './personalkosten';
+import { getBranchenBenchmark } from './branchenbenchmarks';
+import type { ValidationEvidence } from '@/lib/validation/types';
+import { createFieldPointer } from '@/lib/validation/field-pointer';
 
 // ============================================================================
 // Configuration
@@ -41,8 +57,12 @@ Decimal.set({
 export interface RentabilitaetInput {
   umsatzplanung: Umsatzplanung;
   kostenplanung: Kostenplanung;
+  finanzierung?: Pick<Finanzierung, 'quellen'>; // Loans for interest (without: no interest)
+  kapitalbedarf?: Pick<Kapitalbedarf, 'investitionen'>; // Investments for AfA (without: 5% of fixed costs)
+  afa?: AfaConfig;                      // Sammelposten-Wahlrecht, plan start for degressive AfA
   industry?: string;                    // For benchmarking
-  taxRate?: number;                     // Override default German tax rate
+  taxRate?: number;                     // Flat rate override (skips the tax engine)
+  steuerProfil?: SteuerProfil;          // Rechtsform, Veranlagung, Hebesatz, Freiberufler
 }
 
 export interface ProfitabilityMetrics {
@@ -80,42 +100,26 @@ export interface TaxAnalysis {
   taxRiskWarnings: string[];           // German tax compliance warnings
 }
 
-// ============================================================================
-// German Tax Configuration
-// ============================================================================
-
-const GERMAN_TAX_RATES = {
-  // Kleinunternehmerregelung (up to €22,000)
-  kleinunternehmer: 0,
-
-  // Gewerbliche Tätigkeit (standard business)
-  gewerbe: {
-    einkommensteuer: 0.25,             // ~25% personal income tax (average)
-    gewerbesteuer: 0.035,              // ~3.5% business tax (average municipality)
-    kirchensteuer: 0.018,              // 1.8% (8% of income tax, if applicable)
-    solidaritaetszuschlag: 0.0055,     // 0.55% (deleted for most in 2021, but kept for safety)
-  },
-
-  // Freiberufliche Tätigkeit (freelance/professional)
-  freiberuflich: {
-    einkommensteuer: 0.25,             // ~25% personal income tax
-    kirchensteuer: 0.018,              // 1.8%
-    solidaritaetszuschlag: 0.0055,     // 0.55%
-  },
-};
-
 // ============================================================================
 // Core Profitability Calculations
 // ============================================================================
 
 /**
  * Calculate profitability for a single year
+ *
+ * Taxes come either from the tax engine (SteuerJahr) or a flat rate override.
+ * Depreciation comes from the AfA plan; without it 5% of the fixed costs
+ * are shown as depreciation. Payroll from the Personalplanung is added to
+ * the personnel costs.
  */
 function calculateSingleYearProfitability(
   revenue: number,
   fixedCosts: number,
   variableCosts: number,
-  taxRate: number
+  interest: number,
+  besteuerung: SteuerJahr | number,
+  depreciation?: number,
+  payroll: number = 0
 ): RentabilitaetJahr {
   // Convert to Decimal for exact calculations
   const umsatz = new Decimal(revenue);
@@ -127,10 +131,14 @@ function calculateSingleYearProfitability(
   const fixedCostsDecimal = new Decimal(fixedCosts);
 
   // Rough allocation of fixed costs (could be refined based on actual cost structure)
-  const personalkosten = fixedCostsDecimal.times(0.6); // 60% of fixed costs typically personnel
-  const sonstigeBetriebskosten = fixedCostsDecimal.times(0.35); // 35% other operating costs
-  const abschreibungen = fixedCostsDecimal.times(0.05); // 5% depreciation
-  const zinsen = new Decimal(0); // Assuming no interest for simplicity
+  const personalkosten = fixedCostsDecimal.times(0.6).plus(payroll); // 60% of fixed costs typically personnel
+  const sonstigeBetriebskosten = depreciation === undefined
+    ? fixedCostsDecimal.times(0.35) // 35% other operating costs
+    : fixedCostsDecimal.times(0.4);
+  const abschreibungen = depreciation === undefined
+    ? fixedCostsDecimal.times(0.05) // 5% depreciation
+    : new Decimal(depreciation);
+  const zinsen = new Decimal(interest);
 
   // Calculate operating result
   const ergebnisVorSteuern = rohertrag
@@ -140,9 +148,12 @@ function calculateSingleYearProfitability(
     .minus(zinsen);
 
   // Calculate taxes (only if profit is positive)
-  const steuern = ergebnisVorSteuern.gt(0)
-    ? ergebnisVorSteuern.times(new Decimal(taxRate))
-    : new Decimal(0);
+  const steuerDetails = typeof besteuerung === 'number' ? undefined : besteuerung;
+  const steuern = typeof besteuerung !== 'number'
+    ? new Decimal(besteuerung.steuernGesamt)
+    : ergebnisVorSteuern.gt(0)
+      ? ergebnisVorSteuern.times(new Decimal(besteuerung))
+      : new Decimal(0);
 
   const jahresueberschuss = ergebnisVorSteuern.minus(steuern);
 
@@ -168,6 +179,7 @@ function calculateSingleYearProfitability(
     jahresueberschuss: jahresueberschuss.toNumber(),
     rohertragsmarge: rohertragsmarge.toNumber(),
     umsatzrendite: umsatzrendite.toNumber(),
+    ...(steuerDetails && { steuerDetails }),
   };
 }
 
@@ -175,35 +187,56 @@ function calculateSingleYearProfitability(
  * Calculate complete 3-year profitability analysis
  */
 export function calculateRentabilitaet(input: RentabilitaetInput): Rentabilitaet {
-  const { umsatzplanung, kostenplanung, industry = 'default', taxRate } = input;
-
-  // Determine tax rate (German context)
-  const effectiveRate = taxRate || calculateGermanTaxRate(umsatzplanung.umsatzJahr1Summe);
+  const { umsatzplanung, kostenplanung, finanzierung, kapitalbedarf, afa, industry = 'default', taxRate, steuerProfil = DEFAULT_STEUER_PROFIL } = input;
 
   // Calculate break-even metrics
   const breakEven = calculateBreakEvenFromFinanzplanung(kostenplanung, umsatzplanung);
 
-  // Calculate year-by-year profitability
-  const jahr1 = calculateSingleYearProfitability(
-    umsatzplanung.umsatzJahr1Summe,
-    kostenplanung.fixkostenSummeJaehrlich,
-    kostenplanung.variableKostenSummeJahr1,
-    effectiveRate
-  );
-
-  const jahr2 = calculateSingleYearProfitability(
-    umsatzplanung.umsatzJahr2,
-    kostenplanung.fixkostenSummeJaehrlich * 1.1, // 10% increase in fixed costs
-    kostenplanung.variableKostenSummeJahr2,
-    effectiveRate
-  );
+  // Interest per plan year from the loan schedules
+  const zinsen = finanzierung ? calculateAnnualInterest(finanzierung) : [0, 0, 0];
+  const personal = getPersonalkostenProJahr(kostenplanung);
+
+  // AfA plan replaces depreciation entered as fixed cost position
+  const afaPlan = kapitalbedarf ? calculateAfaPlan(kapitalbedarf.investitionen, afa) : undefined;
+  const fixkostenOhneAfa = afaPlan
+    ? kostenplanung.fixkosten
+      .filter(position => position.kategorie === 'abschreibung')
+      .reduce((sum, position) => sum.minus(position.betragJaehrlich), new Decimal(kostenplanung.fixkostenSummeJaehrlich))
+      .toNumber()
+    : kostenplanung.fixkostenSummeJaehrlich;
+
+  const jahresWerte = [
+    { umsatz: umsatzplanung.umsatzJahr1Summe, fixkosten: fixkostenOhneAfa, variableKosten: kostenplanung.variableKostenSummeJahr1, zinsen: zinsen[0] ?? 0, abschreibungen: afaPlan?.jahre[0], personal: personal[0] },
+    { umsatz: umsatzplanung.umsatzJahr2, fixkosten: fixkostenOhneAfa * 1.1, variableKosten: kostenplanung.variableKostenSummeJahr2, zinsen: zinsen[1] ?? 0, abschreibungen: afaPlan?.jahre[1], personal: personal[1] }, // 10% increase in fixed costs
+    { umsatz: umsatzplanung.umsatzJahr3, fixkosten: fixkostenOhneAfa * 1.2, variableKosten: kostenplanung.variableKostenSummeJahr3, zinsen: zinsen[2] ?? 0, abschreibungen: afaPlan?.jahre[2], personal: personal[2] }, // 20% increase in fixed costs
+  ];
+
+  // German income taxes (ESt/GewSt/KSt incl. Verlustvortrag) unless a flat rate is forced
+  const steuerplanung = taxRate === undefined
+    ? calculateSteuerplanung(
+        jahresWerte.map(jahr => new Decimal(jahr.umsatz)
+          .minus(jahr.variableKosten)
+          .minus(jahr.fixkosten)
+          .minus(jahr.zinsen)
+          .minus(jahr.abschreibungen ?? 0)
+          .minus(jahr.personal)
+          .toNumber()),
+        steuerProfil
+      )
+    : undefined;
 
-  const jahr3 = calculateSingleYearProfitability(
-    umsatzplanung.umsatzJahr3,
-    kostenplanung.fixkostenSummeJaehrlich * 1.2, // 20% increase in fixed costs
-    kostenplanung.variableKostenSummeJahr3,
-    effectiveRate
-  );
+  // Calculate year-by-year profitability
+  const [jahr1, jahr2, jahr3] = jahresWerte.map((jahr, index) =>
+    calculateSingleYearProfitability(
+      jahr.umsatz,
+      jahr.fixkosten,
+      jahr.variableKosten,
+      jahr.zinsen,
+      steuerplanung?.jahre[index] ?? taxRate ?? 0,
+      jahr.abschreibungen,
+      jahr.personal
+    )
+  ) as [RentabilitaetJahr, RentabilitaetJahr, RentabilitaetJahr];
 
   return {
     jahr1,
@@ -281,36 +314,12 @@ export function compareWithIndustryBenchmarks(
   rentabilitaet: Rentabilitaet,
   industry: string
 ): IndustryBenchmark {
-  // German industry benchmarks (typical margins)
-  const industryBenchmarks = {
-    beratung: {
-      gross: 85, // High gross margin (low material costs)
-      operating: 25,
-      net: 15,
-    },
-    ecommerce: {
-      gross: 45, // Moderate gross margin
-      operating: 12,
-      net: 8,
-    },
-    handwerk: {
-      gross: 55, // Materials + labor
-      operating: 15,
-      net: 10,
-    },
-    restaurant: {
-      gross: 65, // Food cost ~35%
-      operating: 8,
-      net: 4,
-    },
-    default: {
-      gross: 60,
-      operating: 15,
-      net: 8,
-    },
+  const { margen } = getBranchenBenchmark(industry);
+  const benchmark = {
+    gross: margen.rohertrag.wert,
+    operating: margen.betriebsergebnis.wert,
+    net: margen.umsatzrendite.wert,
   };
-
-  const benchmark = industryBenchmarks[industry as keyof typeof industryBenchmarks] || industryBenchmarks.default;
   const metrics = calculateProfitabilityMetrics(rentabilitaet);
 
   const comparison = {
@@ -370,13 +379,14 @@ export function analyzeTaxImplications(rentabilitaet: Rentabilitaet): TaxAnalysi
   const taxOptimizationPotential: string[] = [];
   const taxRiskWarnings: string[] = [];
 
-  // German tax optimization suggestions
-  if (rentabilitaet.jahr1.umsatz < 22000) {
-    taxOptimizationPotential.push('Kleinunternehmerregelung prüfen - keine USt bis €22.000');
-  }
-
-  if (rentabilitaet.jahr1.umsatz > 400000) {
-    taxRiskWarnings.push('USt-Schwellenwert €400.000 - keine Kleinunternehmerregelung mehr möglich');
+  // German tax optimization suggestions (founding year limited to €25.000)
+  const kleinunternehmerJahre = getKleinunternehmerJahre(
+    [rentabilitaet.jahr1, rentabilitaet.jahr2, rentabilitaet.jahr3].map(jahr => jahr.umsatz)
+  );
+  if (kleinunternehmerJahre[0]) {
+    taxOptimizationPotential.push(`Kleinunternehmerregelung prüfen - keine USt bis ${formatEUR(KLEINUNTERNEHMER_GRENZEN.gruendungsjahr)} im Gründungsjahr`);
+  } else {
+    taxRiskWarnings.push(`Umsatz im Gründungsjahr über ${formatEUR(KLEINUNTERNEHMER_GRENZEN.gruendungsjahr)} - keine Kleinunternehmerregelung möglich`);
   }
 
   if (effectiveRate > 35) {
@@ -391,8 +401,27 @@ export function analyzeTaxImplications(rentabilitaet: Rentabilitaet): TaxAnalysi
   }
 
   // VAT considerations
-  if (rentabilitaet.jahr2.umsatz > 22000 && rentabilitaet.jahr1.umsatz < 22000) {
-    taxRiskWarnings.push('USt-Pflicht ab Jahr 2 - Preise entsprechend anpassen');
+  const ersteUStPflicht = kleinunternehmerJahre.indexOf(false);
+  if (ersteUStPflicht > 0) {
+    taxRiskWarnings.push(`USt-Pflicht ab Jahr ${ersteUStPflicht + 1} - Preise entsprechend anpassen`);
+  }
+
+  // Income tax details from the tax engine
+  const steuerJahre = [rentabilitaet.jahr1, rentabilitaet.jahr2, rentabilitaet.jahr3]
+    .map(jahr => jahr.steuerDetails)
+    .filter((details): details is SteuerJahr => details !== undefined);
+
+  const personengesellschaftJahre = steuerJahre.filter(jahr => jahr.koerperschaftsteuer === 0);
+  if (personengesellschaftJahre.some(jahr => jahr.gewerbesteuer > jahr.gewerbesteuerAnrechnung)) {
+    taxRiskWarnings.push('Gewerbesteuer nur teilweise nach §35 EStG anrechenbar - Hebesatz der Gemeinde prüfen');
+  }
+
+  if (personengesellschaftJahre.some(jahr => jahr.gewinn > 100000)) {
+    taxOptimizationPotential.push('Gewinn über €100.000 - Kapitalgesellschaft (Körperschaftsteuer 15 %) prüfen');
+  }
+
+  if (steuerJahre.some(jahr => jahr.steuernGesamt > 0)) {
+    taxRiskWarnings.push('Quartalsweise Steuervorauszahlungen in der Liquiditätsplanung berücksichtigen');
   }
 
   return {
@@ -414,21 +443,29 @@ export function validateProfitabilityForBA(rentabilitaet: Rentabilitaet): {
   blockers: string[];
   warnings: string[];
   recommendations: string[];
+  evidence: ValidationEvidence[];
 } {
   const blockers: string[] = [];
   const warnings: string[] = [];
   const recommendations: string[] = [];
+  const evidence: ValidationEvidence[] = [];
 
   // Critical BA requirements
   if (!rentabilitaet.breakEvenMonat || rentabilitaet.breakEvenMonat > 36) {
     blockers.push('Break-Even nach 36 Monaten - BA wird Plan wahrscheinlich ablehnen');
     recommendations.push('Kostenstruktur überarbeiten oder Umsatzprognosen erhöhen');
+    evidence.push(createFieldPointer('gz-finanzplanung', 'rentabilitaet.breakEvenMonat', {
+      value: rentabilitaet.breakEvenMonat ?? 'kein Break-Even',
+    }));
   }
 
   // Year 3 profitability check
   if (rentabilitaet.jahr3.jahresueberschuss <= 0) {
     warnings.push('Kein Gewinn in Jahr 3 - langfristige Tragfähigkeit fraglich');
     recommendations.push('Geschäftsmodell und Skalierbarkeit überprüfen');
+    evidence.push(createFieldPointer('gz-finanzplanung', 'rentabilitaet.jahr3.jahresueberschuss', {
+      value: rentabilitaet.jahr3.jahresueberschuss,
+    }));
   }
 
   // Margin sustainability
@@ -455,6 +492,7 @@ export function validateProfitabilityForBA(rentabilitaet: Rentabilitaet): {
     blockers,
     warnings,
     recommendations,
+    evidence,
   };
 }
 
@@ -462,19 +500,6 @@ export function validateProfitabilityForBA(rentabilitaet: Rentabilitaet): {
 // Helper Functions
 // ============================================================================
 
-/**
- * Calculate German tax rate based on revenue
- */
-function calculateGermanTaxRate(annualRevenue: number): number {
-  if (annualRevenue <= 22000) {
-    return GERMAN_TAX_RATES.kleinunternehmer;
-  }
-
-  // Simplified calculation for small business
-  const rates = GERMAN_TAX_RATES.gewerbe;
-  return rates.einkommensteuer + rates.gewerbesteuer + rates.kirchensteuer + rates.solidaritaetszuschlag;
-}
-
 /**
  * Format currency in German EUR format
  */
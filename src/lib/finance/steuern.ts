@@ -0,0 +1,349 @@
+/**
+ * Ertragsteuer Calculations (Einkommensteuer, Gewerbesteuer, Körperschaftsteuer)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Replaces the flat tax rate in the Rentabilitätsplanung with the German
+ * tax rules that actually apply to founders.
+ *
+ * Includes:
+ * - Progressive Einkommensteuer (§32a EStG tariff 2025, Grund- and Splittingtarif)
+ * - Solidaritätszuschlag with Freigrenze and Milderungszone, Kirchensteuer
+ * - Gewerbesteuer with €24.500 Freibetrag, municipal Hebesatz and §35 EStG credit
+ * - Körperschaftsteuer for UG / GmbH / AG / eG
+ * - Verlustvortrag across the 3 plan years
+ * - Quarterly Vorauszahlungen for the Liquiditätsplanung
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  SteuerJahr,
+  SteuerProfil,
+} from '@/types/modules/finanzplanung';
+import type { LegalFormType, PartialRechtsformOutput } from '@/types/modules/rechtsform';
+import type { DetailedBusinessTypeId } from '@/lib/business-types';
+import { isFreiberuflerType } from '@/lib/business-types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SteuerProfilOptions {
+  rechtsform?: PartialRechtsformOutput;      // Decision from Modul Rechtsform
+  businessTypeId?: DetailedBusinessTypeId;   // For Freiberufler detection
+  veranlagung?: SteuerProfil['veranlagung'];
+  hebesatz?: number;
+  kirchensteuerSatz?: number;
+}
+
+export interface GewerbesteuerResult {
+  messbetrag: number;
+  gewerbesteuer: number;
+}
+
+export interface Steuerplanung {
+  jahre: SteuerJahr[];
+  steuernGesamt: number;
+  verbleibenderVerlustvortrag: number;
+}
+
+// ============================================================================
+// German Tax Rules (Veranlagungszeitraum 2025)
+// ============================================================================
+
+// §32a EStG tariff zones
+const EST_TARIF = {
+  grundfreibetrag: 12096,
+  zone2Ende: 17443,
+  zone3Ende: 68480,
+  zone4Ende: 277825,
+};
+
+// Solidaritätszuschlag: 5,5 % above Freigrenze, max. 11,9 % of the excess
+const SOLI = {
+  satz: 0.055,
+  milderung: 0.119,
+  freigrenzeEinzel: 19950,
+  freigrenzeZusammen: 39900,
+};
+
+const GEWERBESTEUER = {
+  freibetrag: 24500,           // Only natural persons / Personengesellschaften
+  messzahl: 0.035,
+  anrechnungsfaktor: 4.0,      // §35 EStG
+};
+
+const KOERPERSCHAFTSTEUER_SATZ = 0.15;
+
+const KAPITALGESELLSCHAFTEN: LegalFormType[] = ['ug', 'gmbh', 'ag', 'eg'];
+
+export const DEFAULT_STEUER_PROFIL: SteuerProfil = {
+  rechtsform: 'einzelunternehmen',
+  veranlagung: 'einzel',
+  hebesatz: 400,
+  freiberufler: false,
+  kirchensteuerSatz: 0,
+};
+
+// ============================================================================
+// Core Tax Calculations
+// ============================================================================
+
+/**
+ * Tarifliche Einkommensteuer nach §32a EStG (full euros, rounded down)
+ */
+export function calculateEinkommensteuer(
+  zuVersteuerndesEinkommen: number,
+  veranlagung: SteuerProfil['veranlagung'] = 'einzel'
+): number {
+  if (veranlagung === 'zusammen') {
+    // Splittingtarif: twice the tax on half the income
+    const haelfte = new Decimal(zuVersteuerndesEinkommen).dividedBy(2);
+    return new Decimal(calculateEinkommensteuer(haelfte.toNumber(), 'einzel')).times(2).toNumber();
+  }
+
+  const x = new Decimal(zuVersteuerndesEinkommen).floor();
+  let steuer: Decimal;
+
+  if (x.lte(EST_TARIF.grundfreibetrag)) {
+    steuer = new Decimal(0);
+  } else if (x.lte(EST_TARIF.zone2Ende)) {
+    const y = x.minus(EST_TARIF.grundfreibetrag).dividedBy(10000);
+    steuer = y.times(932.3).plus(1400).times(y);
+  } else if (x.lte(EST_TARIF.zone3Ende)) {
+    const z = x.minus(EST_TARIF.zone2Ende).dividedBy(10000);
+    steuer = z.times(176.64).plus(2397).times(z).plus(1015.13);
+  } else if (x.lte(EST_TARIF.zone4Ende)) {
+    steuer = x.times(0.42).minus(10911.92);
+  } else {
+    steuer = x.times(0.45).minus(19246.67);
+  }
+
+  return steuer.floor().toNumber();
+}
+
+/**
+ * Solidaritätszuschlag on Einkommensteuer (Freigrenze + Milderungszone)
+ */
+export function calculateSolidaritaetszuschlag(
+  einkommensteuer: number,
+  veranlagung: SteuerProfil['veranlagung'] = 'einzel'
+): number {
+  const est = new Decimal(einkommensteuer);
+  const freigrenze = veranlagung === 'zusammen' ? SOLI.freigrenzeZusammen : SOLI.freigrenzeEinzel;
+
+  if (est.lte(freigrenze)) return 0;
+
+  const voll = est.times(SOLI.satz);
+  const gemildert = est.minus(freigrenze).times(SOLI.milderung);
+  return Decimal.min(voll, gemildert).toDecimalPlaces(2, Decimal.ROUND_DOWN).toNumber();
+}
+
+/**
+ * Gewerbesteuer on the Gewerbeertrag (Freibetrag only for personal forms)
+ */
+export function calculateGewerbesteuer(gewerbeertrag: number, profil: SteuerProfil): GewerbesteuerResult {
+  if (!isGewerbesteuerpflichtig(profil)) {
+    return { messbetrag: 0, gewerbesteuer: 0 };
+  }
+
+  // Gewerbeertrag is rounded down to full 100 €
+  const ertrag = new Decimal(Math.max(0, gewerbeertrag)).dividedBy(100).floor().times(100);
+  const freibetrag = isKapitalgesellschaft(profil.rechtsform) ? 0 : GEWERBESTEUER.freibetrag;
+  const bemessung = Decimal.max(0, ertrag.minus(freibetrag));
+
+  const messbetrag = bemessung.times(GEWERBESTEUER.messzahl);
+  const gewerbesteuer = messbetrag.times(profil.hebesatz).dividedBy(100);
+
+  return {
+    messbetrag: messbetrag.toNumber(),
+    gewerbesteuer: gewerbesteuer.toDecimalPlaces(2).toNumber(),
+  };
+}
+
+/**
+ * Calculate all income-related taxes for one year
+ *
+ * For Einzelunternehmen / Personengesellschaften the Gewinn is used as
+ * zu versteuerndes Einkommen (Sonderausgaben etc. are not modelled). For
+ * Kapitalgesellschaften the company pays Körperschaftsteuer + Gewerbesteuer.
+ */
+export function calculateSteuerJahr(gewinn: number, profil: SteuerProfil = DEFAULT_STEUER_PROFIL): SteuerJahr {
+  const gewinnDecimal = new Decimal(gewinn);
+  const steuerbasis = Decimal.max(0, gewinnDecimal);
+  const { messbetrag, gewerbesteuer } = calculateGewerbesteuer(steuerbasis.toNumber(), profil);
+
+  let einkommensteuer = new Decimal(0);
+  let solidaritaetszuschlag = new Decimal(0);
+  let kirchensteuer = new Decimal(0);
+  let gewerbesteuerAnrechnung = new Decimal(0);
+  let koerperschaftsteuer = new Decimal(0);
+
+  if (isKapitalgesellschaft(profil.rechtsform)) {
+    koerperschaftsteuer = steuerbasis.times(KOERPERSCHAFTSTEUER_SATZ).toDecimalPlaces(2);
+    solidaritaetszuschlag = koerperschaftsteuer.times(SOLI.satz).toDecimalPlaces(2);
+  } else {
+    const tariflicheSteuer = new Decimal(calculateEinkommensteuer(steuerbasis.toNumber(), profil.veranlagung));
+
+    // §35 EStG: 4,0 × Messbetrag, limited to the Gewerbesteuer actually paid
+    gewerbesteuerAnrechnung = Decimal.min(
+      new Decimal(messbetrag).times(GEWERBESTEUER.anrechnungsfaktor),
+      gewerbesteuer,
+      tariflicheSteuer
+    );
+    einkommensteuer = tariflicheSteuer.minus(gewerbesteuerAnrechnung);
+    solidaritaetszuschlag = new Decimal(calculateSolidaritaetszuschlag(einkommensteuer.toNumber(), profil.veranlagung));
+
+    // Kirchensteuer is based on the Einkommensteuer before the §35 credit
+    kirchensteuer = tariflicheSteuer.times(profil.kirchensteuerSatz).dividedBy(100).toDecimalPlaces(2);
+  }
+
+  const steuernGesamt = einkommensteuer
+    .plus(solidaritaetszuschlag)
+    .plus(kirchensteuer)
+    .plus(gewerbesteuer)
+    .plus(koerperschaftsteuer);
+
+  const effektiverSteuersatz = gewinnDecimal.gt(0)
+    ? steuernGesamt.dividedBy(gewinnDecimal).times(100)
+    : new Decimal(0);
+
+  return {
+    gewinn: gewinnDecimal.toNumber(),
+    einkommensteuer: einkommensteuer.toNumber(),
+    solidaritaetszuschlag: solidaritaetszuschlag.toNumber(),
+    kirchensteuer: kirchensteuer.toNumber(),
+    gewerbesteuer,
+    gewerbesteuerAnrechnung: gewerbesteuerAnrechnung.toNumber(),
+    koerperschaftsteuer: koerperschaftsteuer.toNumber(),
+    steuernGesamt: steuernGesamt.toNumber(),
+    effektiverSteuersatz: effektiverSteuersatz.toNumber(),
+  };
+}
+
+/**
+ * Calculate taxes for the 3 plan years with Verlustvortrag
+ *
+ * Start-up losses of early years reduce the taxable profit of later years.
+ */
+export function calculateSteuerplanung(
+  gewinne: number[],
+  profil: SteuerProfil = DEFAULT_STEUER_PROFIL
+): Steuerplanung {
+  let verlustvortrag = new Decimal(0);
+  const jahre: SteuerJahr[] = [];
+
+  for (const gewinn of gewinne) {
+    const gewinnDecimal = new Decimal(gewinn);
+
+    if (gewinnDecimal.lt(0)) {
+      verlustvortrag = verlustvortrag.plus(gewinnDecimal.abs());
+      jahre.push({ ...calculateSteuerJahr(0, profil), gewinn: gewinnDecimal.toNumber() });
+      continue;
+    }
+
+    const verrechnung = Decimal.min(verlustvortrag, gewinnDecimal);
+    verlustvortrag = verlustvortrag.minus(verrechnung);
+
+    const steuerJahr = calculateSteuerJahr(gewinnDecimal.minus(verrechnung).toNumber(), profil);
+    jahre.push({
+      ...steuerJahr,
+      gewinn: gewinnDecimal.toNumber(),
+      effektiverSteuersatz: gewinnDecimal.gt(0)
+        ? new Decimal(steuerJahr.steuernGesamt).dividedBy(gewinnDecimal).times(100).toNumber()
+        : 0,
+    });
+  }
+
+  const steuernGesamt = jahre.reduce((sum, jahr) => sum.plus(jahr.steuernGesamt), new Decimal(0));
+
+  return {
+    jahre,
+    steuernGesamt: steuernGesamt.toNumber(),
+    verbleibenderVerlustvortrag: verlustvortrag.toNumber(),
+  };
+}
+
+/**
+ * Spread annual taxes into quarterly Vorauszahlungen (36 months)
+ *
+ * The Finanzamt sets Vorauszahlungen based on the estimated profit and
+ * collects them quarterly - modelled as 1/4 in months 3, 6, 9 and 12 of
+ * each plan year.
+ */
+export function calculateSteuerVorauszahlungen(jahre: Array<Pick<SteuerJahr, 'steuernGesamt'> | undefined>): number[] {
+  const vorauszahlungen: number[] = Array(36).fill(0);
+
+  for (let jahrIndex = 0; jahrIndex < 3; jahrIndex++) {
+    const quartalsbetrag = new Decimal(jahre[jahrIndex]?.steuernGesamt ?? 0).dividedBy(4);
+    for (let quartal = 1; quartal <= 4; quartal++) {
+      vorauszahlungen[jahrIndex * 12 + quartal * 3 - 1] = quartalsbetrag.toNumber();
+    }
+  }
+
+  return vorauszahlungen;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Kapitalgesellschaften pay Körperschaftsteuer instead of Einkommensteuer
+ */
+export function isKapitalgesellschaft(rechtsform: LegalFormType): boolean {
+  return KAPITALGESELLSCHAFTEN.includes(rechtsform);
+}
+
+/**
+ * Freiberufler (§18 EStG) are exempt from Gewerbesteuer unless they
+ * operate as Kapitalgesellschaft
+ */
+function isGewerbesteuerpflichtig(profil: SteuerProfil): boolean {
+  if (isKapitalgesellschaft(profil.rechtsform)) return true;
+  return !profil.freiberufler && profil.rechtsform !== 'freelancer';
+}
+
+/**
+ * Build a tax profile from the Rechtsform decision and business type
+ */
+export function createSteuerProfil(options: SteuerProfilOptions = {}): SteuerProfil {
+  const rechtsform = options.rechtsform?.decision?.chosenForm ?? DEFAULT_STEUER_PROFIL.rechtsform;
+  const freiberufler = rechtsform === 'freelancer' ||
+    (options.businessTypeId ? isFreiberuflerType(options.businessTypeId) : false);
+
+  return {
+    rechtsform,
+    veranlagung: options.veranlagung ?? DEFAULT_STEUER_PROFIL.veranlagung,
+    hebesatz: options.hebesatz ?? DEFAULT_STEUER_PROFIL.hebesatz,
+    freiberufler,
+    kirchensteuerSatz: options.kirchensteuerSatz ?? DEFAULT_STEUER_PROFIL.kirchensteuerSatz,
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  DEFAULT_STEUER_PROFIL,
+  calculateEinkommensteuer,
+  calculateSolidaritaetszuschlag,
+  calculateGewerbesteuer,
+  calculateSteuerJahr,
+  calculateSteuerplanung,
+  calculateSteuerVorauszahlungen,
+  isKapitalgesellschaft,
+  createSteuerProfil,
+};
@@ -0,0 +1,352 @@
+/**
+ * Stundensatz and Zuschlagskalkulation
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Founders of Beratung, Freiberufler and Handwerk businesses routinely
+ * under-price - the minimum rate is calculated backwards from what the
+ * business has to earn.
+ *
+ * Includes:
+ * - Billable hours after holidays, sick days and non-billable time
+ * - Minimum and target hourly / daily rate from Privatentnahme, fixed costs and taxes
+ * - Zuschlagskalkulation for Handwerk (Material + Gemeinkosten + Gewinn)
+ * - Price checks of the inline validator (minimum rate, ceiling, utilization)
+ * - Writing the calculated preis into the Umsatzstrom
+ */
+
+import Decimal from 'decimal.js';
+import type { SteuerProfil, Umsatzplanung } from '@/types/modules/finanzplanung';
+import type { KostenpositionInput } from './kostenplanung';
+import type { BenchmarkSpanne } from './branchenbenchmarks';
+import { calculateKostenplanung } from './kostenplanung';
+import { calculateSteuerJahr, DEFAULT_STEUER_PROFIL } from './steuern';
+import { getBranchenBenchmark } from './branchenbenchmarks';
+import { applyPreis } from './zielwertsuche';
+import { detectHourlyRateMismatch, detectOverutilization } from '@/lib/validation/inline-validator';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+const WOCHEN_PRO_JAHR = 52;
+
+export const STUNDENSATZ_DEFAULTS = {
+  wochenstunden: 40,
+  arbeitstageProWoche: 5,
+  urlaubstage: 30,
+  feiertage: 10,
+  krankheitstage: 10,
+  nichtAbrechenbarProzent: 25,         // Without Branchenbenchmark: Akquise, Verwaltung, Weiterbildung
+  zielaufschlagProzent: 20,            // Gewinn- und Risikozuschlag on the minimum rate
+};
+
+// Typical Handwerk surcharges (ZDH Betriebsvergleich)
+export const ZUSCHLAG_DEFAULTS = {
+  materialGemeinkostenProzent: 10,
+  fertigungsGemeinkostenProzent: 120,
+  verwaltungsVertriebsGemeinkostenProzent: 15,
+  gewinnzuschlagProzent: 10,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StundensatzInput {
+  privatentnahmeMonatlich: number;     // Needed after taxes (Privatentnahme incl. Sozialversicherung)
+  kostenPositionen: KostenpositionInput[]; // Fixed business costs
+  industry?: string;                   // Non-billable share and benchmark from the Branchenbenchmarks
+  steuerProfil?: SteuerProfil;
+  wochenstunden?: number;
+  arbeitstageProWoche?: number;
+  urlaubstage?: number;
+  feiertage?: number;
+  krankheitstage?: number;
+  nichtAbrechenbarProzent?: number;    // % of working time that cannot be billed
+  zielaufschlagProzent?: number;
+}
+
+export interface Stundensatzkalkulation {
+  arbeitstageJahr: number;
+  stundenProTag: number;
+  abrechenbareStundenJahr: number;
+  fixkostenJahr: number;
+  privatentnahmeJahr: number;
+  steuernJahr: number;
+  gewinnVorSteuern: number;
+  mindestumsatzJahr: number;
+  mindestStundensatz: number;
+  zielStundensatz: number;
+  mindestTagessatz: number;
+  zielTagessatz: number;
+  benchmark?: BenchmarkSpanne;
+  warnungen: string[];
+}
+
+export interface ZuschlagskalkulationInput {
+  materialEinzelkosten: number;
+  arbeitsstunden: number;
+  lohnkostenProStunde: number;         // Fertigungslohn per hour
+  materialGemeinkostenProzent?: number;
+  fertigungsGemeinkostenProzent?: number;
+  verwaltungsVertriebsGemeinkostenProzent?: number;
+  gewinnzuschlagProzent?: number;
+}
+
+export interface Zuschlagskalkulation {
+  materialEinzelkosten: number;
+  materialGemeinkosten: number;
+  materialkosten: number;
+  fertigungslohn: number;
+  fertigungsGemeinkosten: number;
+  fertigungskosten: number;
+  herstellkosten: number;
+  verwaltungsVertriebsGemeinkosten: number;
+  selbstkosten: number;
+  gewinn: number;
+  angebotspreisNetto: number;
+  verrechnungssatzProStunde: number;   // Price share per working hour without material
+}
+
+// ============================================================================
+// Stundensatz Calculation
+// ============================================================================
+
+/**
+ * Profit before taxes that leaves the given amount after ESt/GewSt/Soli
+ *
+ * Solved by bisection because the German tariff has no closed inverse.
+ */
+export function calculateGewinnVorSteuern(nettoBedarf: number, profil: SteuerProfil = DEFAULT_STEUER_PROFIL): number {
+  const ziel = new Decimal(nettoBedarf);
+  if (ziel.lte(0)) return 0;
+
+  let untergrenze = ziel;
+  let obergrenze = ziel.times(2).plus(50000);
+
+  while (obergrenze.minus(untergrenze).gt(0.01)) {
+    const mitte = untergrenze.plus(obergrenze).dividedBy(2);
+    const netto = mitte.minus(calculateSteuerJahr(mitte.toNumber(), profil).steuernGesamt);
+    if (netto.gte(ziel)) {
+      obergrenze = mitte;
+    } else {
+      untergrenze = mitte;
+    }
+  }
+
+  return obergrenze.toDecimalPlaces(2, Decimal.ROUND_UP).toNumber();
+}
+
+/**
+ * Minimum and target hourly rate, worked backwards from the money the
+ * business has to earn per year
+ *
+ * Mindestumsatz = Fixkosten + Gewinn vor Steuern (Privatentnahme + Steuern)
+ * Mindeststundensatz = Mindestumsatz / abrechenbare Stunden
+ */
+export function calculateStundensatz(input: StundensatzInput): Stundensatzkalkulation {
+  const benchmark = input.industry ? getBranchenBenchmark(input.industry) : undefined;
+  const auslastung = benchmark?.kennzahlen.auslastung?.wert.typisch;
+
+  const wochenstunden = input.wochenstunden ?? STUNDENSATZ_DEFAULTS.wochenstunden;
+  const arbeitstageProWoche = input.arbeitstageProWoche ?? STUNDENSATZ_DEFAULTS.arbeitstageProWoche;
+  const nichtAbrechenbar = input.nichtAbrechenbarProzent
+    ?? (auslastung !== undefined ? 100 - auslastung : STUNDENSATZ_DEFAULTS.nichtAbrechenbarProzent);
+
+  // Working days after holidays, public holidays and sick days
+  const arbeitstageJahr = Math.max(0, WOCHEN_PRO_JAHR * arbeitstageProWoche
+    - (input.urlaubstage ?? STUNDENSATZ_DEFAULTS.urlaubstage)
+    - (input.feiertage ?? STUNDENSATZ_DEFAULTS.feiertage)
+    - (input.krankheitstage ?? STUNDENSATZ_DEFAULTS.krankheitstage));
+  const stundenProTag = new Decimal(wochenstunden).dividedBy(arbeitstageProWoche);
+  const abrechenbareStunden = stundenProTag
+    .times(arbeitstageJahr)
+    .times(new Decimal(100).minus(nichtAbrechenbar).dividedBy(100));
+
+  // Fixed costs as in the Kostenplanung (variable costs are priced per order)
+  const kostenplanung = calculateKostenplanung({ kostenPositionen: input.kostenPositionen, revenueProjections: [0, 0, 0] });
+  const fixkostenJahr = new Decimal(kostenplanung.fixkostenSummeJaehrlich);
+
+  const privatentnahmeJahr = new Decimal(input.privatentnahmeMonatlich).times(12);
+  const gewinnVorSteuern = new Decimal(calculateGewinnVorSteuern(privatentnahmeJahr.toNumber(), input.steuerProfil));
+  const mindestumsatz = fixkostenJahr.plus(gewinnVorSteuern);
+
+  const mindestStundensatz = abrechenbareStunden.gt(0)
+    ? mindestumsatz.dividedBy(abrechenbareStunden).toDecimalPlaces(2, Decimal.ROUND_UP)
+    : new Decimal(0);
+  const zielStundensatz = mindestStundensatz
+    .times(new Decimal(100).plus(input.zielaufschlagProzent ?? STUNDENSATZ_DEFAULTS.zielaufschlagProzent).dividedBy(100))
+    .toDecimalPlaces(2, Decimal.ROUND_UP);
+
+  const spanne = benchmark?.kennzahlen.stundensatz?.wert;
+  const warnungen: string[] = [];
+
+  if (spanne && mindestStundensatz.gt(spanne.max)) {
+    warnungen.push(
+      `Mindeststundensatz von ${mindestStundensatz.toFixed(2).replace('.', ',')} € liegt über dem Branchenmaximum von ${spanne.max} € - Kosten oder Privatentnahme prüfen`
+    );
+  }
+  if (spanne && zielStundensatz.lt(spanne.min)) {
+    warnungen.push(`Zielstundensatz liegt unter dem Branchenminimum von ${spanne.min} € - am Markt sind höhere Preise üblich`);
+  }
+
+  // Price checks of the inline validator (same thresholds as in the chat)
+  const businessType = getInlineBusinessType(input.industry);
+  const preisPruefung = detectHourlyRateMismatch(zielStundensatz.toNumber(), businessType);
+  if (preisPruefung) warnungen.push(preisPruefung.challenge);
+
+  const auslastungsPruefung = detectOverutilization(
+    zielStundensatz.times(abrechenbareStunden).toNumber(),
+    stundenProTag.times(arbeitstageJahr).toNumber(),
+    zielStundensatz.toNumber(),
+    businessType
+  );
+  if (auslastungsPruefung) warnungen.push(auslastungsPruefung.challenge);
+
+  return {
+    arbeitstageJahr,
+    stundenProTag: stundenProTag.toNumber(),
+    abrechenbareStundenJahr: abrechenbareStunden.toDecimalPlaces(1).toNumber(),
+    fixkostenJahr: fixkostenJahr.toNumber(),
+    privatentnahmeJahr: privatentnahmeJahr.toNumber(),
+    steuernJahr: gewinnVorSteuern.minus(privatentnahmeJahr).toDecimalPlaces(2).toNumber(),
+    gewinnVorSteuern: gewinnVorSteuern.toNumber(),
+    mindestumsatzJahr: mindestumsatz.toDecimalPlaces(2).toNumber(),
+    mindestStundensatz: mindestStundensatz.toNumber(),
+    zielStundensatz: zielStundensatz.toNumber(),
+    mindestTagessatz: mindestStundensatz.times(stundenProTag).toDecimalPlaces(2).toNumber(),
+    zielTagessatz: zielStundensatz.times(stundenProTag).toDecimalPlaces(2).toNumber(),
+    ...(spanne && { benchmark: spanne }),
+    warnungen,
+  };
+}
+
+/**
+ * Business type key of the inline validator thresholds ('beratung' → 'Beratung')
+ */
+function getInlineBusinessType(industry: string | undefined): string {
+  if (!industry) return 'default';
+  return industry.charAt(0).toUpperCase() + industry.slice(1);
+}
+
+// ============================================================================
+// Zuschlagskalkulation (Handwerk)
+// ============================================================================
+
+/**
+ * Offer price of an order from material, labour and surcharges
+ *
+ * Materialkosten + Fertigungskosten = Herstellkosten
+ * Herstellkosten + Verwaltungs-/Vertriebsgemeinkosten = Selbstkosten
+ * Selbstkosten + Gewinnzuschlag = Angebotspreis (netto)
+ */
+export function calculateZuschlagskalkulation(input: ZuschlagskalkulationInput): Zuschlagskalkulation {
+  const prozent = (wert: number) => new Decimal(wert).dividedBy(100);
+
+  const materialEinzelkosten = new Decimal(input.materialEinzelkosten);
+  const materialGemeinkosten = materialEinzelkosten.times(
+    prozent(input.materialGemeinkostenProzent ?? ZUSCHLAG_DEFAULTS.materialGemeinkostenProzent)
+  );
+  const materialkosten = materialEinzelkosten.plus(materialGemeinkosten);
+
+  const fertigungslohn = new Decimal(input.arbeitsstunden).times(input.lohnkostenProStunde);
+  const fertigungsGemeinkosten = fertigungslohn.times(
+    prozent(input.fertigungsGemeinkostenProzent ?? ZUSCHLAG_DEFAULTS.fertigungsGemeinkostenProzent)
+  );
+  const fertigungskosten = fertigungslohn.plus(fertigungsGemeinkosten);
+
+  const herstellkosten = materialkosten.plus(fertigungskosten);
+  const verwaltungsVertriebsGemeinkosten = herstellkosten.times(
+    prozent(input.verwaltungsVertriebsGemeinkostenProzent ?? ZUSCHLAG_DEFAULTS.verwaltungsVertriebsGemeinkostenProzent)
+  );
+  const selbstkosten = herstellkosten.plus(verwaltungsVertriebsGemeinkosten);
+  const gewinn = selbstkosten.times(prozent(input.gewinnzuschlagProzent ?? ZUSCHLAG_DEFAULTS.gewinnzuschlagProzent));
+  const angebotspreisNetto = selbstkosten.plus(gewinn);
+
+  // Share of the price per working hour that is not material
+  const verrechnungssatz = new Decimal(input.arbeitsstunden).gt(0)
+    ? angebotspreisNetto.minus(materialkosten).dividedBy(input.arbeitsstunden)
+    : new Decimal(0);
+
+  const runden = (wert: Decimal) => wert.toDecimalPlaces(2).toNumber();
+
+  return {
+    materialEinzelkosten: runden(materialEinzelkosten),
+    materialGemeinkosten: runden(materialGemeinkosten),
+    materialkosten: runden(materialkosten),
+    fertigungslohn: runden(fertigungslohn),
+    fertigungsGemeinkosten: runden(fertigungsGemeinkosten),
+    fertigungskosten: runden(fertigungskosten),
+    herstellkosten: runden(herstellkosten),
+    verwaltungsVertriebsGemeinkosten: runden(verwaltungsVertriebsGemeinkosten),
+    selbstkosten: runden(selbstkosten),
+    gewinn: runden(gewinn),
+    angebotspreisNetto: runden(angebotspreisNetto),
+    verrechnungssatzProStunde: runden(verrechnungssatz),
+  };
+}
+
+// ============================================================================
+// Umsatzplanung Integration
+// ============================================================================
+
+/**
+ * Write the calculated rate into a revenue stream
+ *
+ * Streams billed per Stunde get the hourly rate, per Tag the daily rate,
+ * all other units need the hours per unit (e.g. per Projekt).
+ */
+export function applyStundensatz(
+  umsatzplanung: Umsatzplanung,
+  stromIndex: number,
+  kalkulation: Stundensatzkalkulation,
+  optionen: { satz?: 'mindest' | 'ziel'; stundenProEinheit?: number } = {}
+): Umsatzplanung {
+  const strom = umsatzplanung.umsatzstroeme[stromIndex];
+  if (!strom) return umsatzplanung;
+
+  const stundensatz = optionen.satz === 'mindest' ? kalkulation.mindestStundensatz : kalkulation.zielStundensatz;
+  const einheit = strom.einheit.toLowerCase();
+
+  let preis: number | undefined;
+  if (einheit.includes('stund') || einheit === 'h') {
+    preis = stundensatz;
+  } else if (einheit.includes('tag')) {
+    preis = new Decimal(stundensatz).times(kalkulation.stundenProTag).toDecimalPlaces(2).toNumber();
+  } else if (optionen.stundenProEinheit) {
+    preis = new Decimal(stundensatz).times(optionen.stundenProEinheit).toDecimalPlaces(2).toNumber();
+  }
+
+  return preis === undefined ? umsatzplanung : applyPreis(umsatzplanung, stromIndex, preis);
+}
+
+/**
+ * Write the offer price of the Zuschlagskalkulation into a revenue stream (per Auftrag)
+ */
+export function applyZuschlagskalkulation(
+  umsatzplanung: Umsatzplanung,
+  stromIndex: number,
+  kalkulation: Zuschlagskalkulation
+): Umsatzplanung {
+  return applyPreis(umsatzplanung, stromIndex, kalkulation.angebotspreisNetto);
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  calculateGewinnVorSteuern,
+  calculateStundensatz,
+  calculateZuschlagskalkulation,
+  applyStundensatz,
+  applyZuschlagskalkulation,
+};
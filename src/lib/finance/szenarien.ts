@@ -0,0 +1,328 @@
+/**
+ * Szenario Manager (Base / Best / Worst Case)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Answers the BA advisor question "what if sales are lower?" for the whole
+ * Finanzplanung instead of break-even only.
+ *
+ * Includes:
+ * - Named scenarios with assumption overrides (revenue, costs, payment terms)
+ * - Recalculation of Umsatz-/Kostenplanung, Rentabilität and Liquidität
+ *   through the existing calculators
+ * - Scenario comparison and risk hints for the BA
+ * - Storage in PartialFinanzplanungOutput.szenarien
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  FinanzplanSzenario,
+  SzenarioAnnahmen,
+  SzenarioTyp,
+  Umsatzplanung,
+  Kostenplanung,
+  Kostenposition,
+  PartialFinanzplanungOutput,
+} from '@/types/modules/finanzplanung';
+import type { LiquiditaetInput } from './liquiditaet';
+import { calculateLiquiditaet, formatEUR, getBranchenPaymentTerms } from './liquiditaet';
+import { calculateRentabilitaet } from './rentabilitaet';
+import { projectGrowthRates } from './umsatzplanung';
+import { FIXKOSTEN_FAKTOR_PRO_JAHR } from './kostenplanung';
+import { getPersonalkostenProJahr } from './personalkosten';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SzenarioDefinition {
+  id: string;
+  name: string;
+  typ: SzenarioTyp;
+  annahmen: Partial<SzenarioAnnahmen>;
+}
+
+export interface SzenarioVergleich {
+  id: string;
+  name: string;
+  typ: SzenarioTyp;
+  umsatzJahr1: number;
+  umsatzJahr3: number;
+  jahresueberschussJahr1: number;
+  jahresueberschussJahr3: number;
+  breakEvenMonat?: number;             // Undefined if not reached within 36 months
+  minimumLiquiditaet: number;
+  minimumMonat: number;
+  hatNegativeLiquiditaet: boolean;
+}
+
+// ============================================================================
+// Standard Scenarios
+// ============================================================================
+
+export const KEINE_ANNAHMEN: SzenarioAnnahmen = {
+  umsatzAenderung: 0,
+  fixkostenAenderung: 0,
+  variableKostenAenderung: 0,
+  zahlungszielAenderung: 0,
+};
+
+/**
+ * Typical BA questions: lower sales, later payments, higher costs
+ */
+export const STANDARD_SZENARIEN: SzenarioDefinition[] = [
+  {
+    id: 'basis',
+    name: 'Basis-Szenario',
+    typ: 'basis',
+    annahmen: {},
+  },
+  {
+    id: 'best',
+    name: 'Best Case (Umsatz +20%)',
+    typ: 'best',
+    annahmen: { umsatzAenderung: 20 },
+  },
+  {
+    id: 'worst',
+    name: 'Worst Case (Umsatz -30%, Zahlungsziel +30 Tage, Kosten +15%)',
+    typ: 'worst',
+    annahmen: { umsatzAenderung: -30, zahlungszielAenderung: 30, fixkostenAenderung: 15, variableKostenAenderung: 15 },
+  },
+];
+
+// ============================================================================
+// Assumption Overrides
+// ============================================================================
+
+/**
+ * Convert a percentage change into a multiplier (-30 → 0.7)
+ */
+function toFaktor(aenderungProzent: number): Decimal {
+  return Decimal.max(0, new Decimal(100).plus(aenderungProzent).dividedBy(100));
+}
+
+/**
+ * Scale all revenue of the plan (prices of the streams and the totals)
+ */
+export function applyUmsatzAenderung(umsatzplanung: Umsatzplanung, aenderungProzent: number): Umsatzplanung {
+  const faktor = toFaktor(aenderungProzent);
+  const scale = (betrag: number) => new Decimal(betrag).times(faktor).toNumber();
+
+  const umsatzJahr1 = umsatzplanung.umsatzJahr1.map(scale);
+  const umsatzJahr1Summe = scale(umsatzplanung.umsatzJahr1Summe);
+  const umsatzJahr2 = scale(umsatzplanung.umsatzJahr2);
+  const umsatzJahr3 = scale(umsatzplanung.umsatzJahr3);
+  const growthRates = projectGrowthRates(umsatzJahr1Summe, umsatzJahr2, umsatzJahr3);
+
+  return {
+    ...umsatzplanung,
+    umsatzstroeme: umsatzplanung.umsatzstroeme.map(strom => ({ ...strom, preis: scale(strom.preis) })),
+    umsatzJahr1,
+    umsatzJahr1Summe,
+    umsatzJahr2,
+    umsatzJahr3,
+    wachstumsrateJahr2: growthRates.jahr1ToJahr2,
+    wachstumsrateJahr3: growthRates.jahr2ToJahr3,
+  };
+}
+
+/**
+ * Scale costs: fixed costs by their own change, variable costs follow the
+ * revenue change and the change of the variable cost ratio
+ */
+export function applyKostenAenderung(
+  kostenplanung: Kostenplanung,
+  annahmen: SzenarioAnnahmen
+): Kostenplanung {
+  const fixFaktor = toFaktor(annahmen.fixkostenAenderung);
+  const variabelFaktor = toFaktor(annahmen.umsatzAenderung).times(toFaktor(annahmen.variableKostenAenderung));
+
+  const scalePosition = (position: Kostenposition, faktor: Decimal): Kostenposition => ({
+    ...position,
+    betragMonatlich: new Decimal(position.betragMonatlich).times(faktor).toNumber(),
+    betragJaehrlich: new Decimal(position.betragJaehrlich).times(faktor).toNumber(),
+  });
+
+  const fixkostenSummeMonatlich = new Decimal(kostenplanung.fixkostenSummeMonatlich).times(fixFaktor);
+  const fixkostenSummeJaehrlich = new Decimal(kostenplanung.fixkostenSummeJaehrlich).times(fixFaktor);
+  const variableKostenSummeJahr1 = new Decimal(kostenplanung.variableKostenSummeJahr1).times(variabelFaktor);
+  const variableKostenSummeJahr2 = new Decimal(kostenplanung.variableKostenSummeJahr2).times(variabelFaktor);
+  const variableKostenSummeJahr3 = new Decimal(kostenplanung.variableKostenSummeJahr3).times(variabelFaktor);
+  // Payroll is a fixed cost and follows the fixed cost change
+  const personalkostenMonatlich = kostenplanung.personalkostenMonatlich?.map(betrag =>
+    new Decimal(betrag).times(fixFaktor).toNumber()
+  );
+  const personalkosten = getPersonalkostenProJahr({ personalkostenMonatlich });
+
+  return {
+    fixkosten: kostenplanung.fixkosten.map(position => scalePosition(position, fixFaktor)),
+    variableKosten: kostenplanung.variableKosten.map(position => ({
+      ...position,
+      ...(position.variablerAnteil !== undefined && {
+        variablerAnteil: Decimal.min(100, new Decimal(position.variablerAnteil)
+          .times(toFaktor(annahmen.variableKostenAenderung))).toNumber(),
+      }),
+    })),
+    ...(kostenplanung.personalplanung && { personalplanung: kostenplanung.personalplanung }),
+    ...(personalkostenMonatlich && { personalkostenMonatlich }),
+    fixkostenSummeMonatlich: fixkostenSummeMonatlich.toNumber(),
+    fixkostenSummeJaehrlich: fixkostenSummeJaehrlich.toNumber(),
+    variableKostenSummeJahr1: variableKostenSummeJahr1.toNumber(),
+    variableKostenSummeJahr2: variableKostenSummeJahr2.toNumber(),
+    variableKostenSummeJahr3: variableKostenSummeJahr3.toNumber(),
+    gesamtkostenJahr1: fixkostenSummeJaehrlich.plus(variableKostenSummeJahr1).plus(personalkosten[0]).toNumber(),
+    gesamtkostenJahr2: fixkostenSummeJaehrlich.times(FIXKOSTEN_FAKTOR_PRO_JAHR[1]).plus(variableKostenSummeJahr2).plus(personalkosten[1]).toNumber(),
+    gesamtkostenJahr3: fixkostenSummeJaehrlich.times(FIXKOSTEN_FAKTOR_PRO_JAHR[2]).plus(variableKostenSummeJahr3).plus(personalkosten[2]).toNumber(),
+  };
+}
+
+/**
+ * Apply all scenario assumptions to the planning input
+ */
+export function applySzenarioAnnahmen(input: LiquiditaetInput, annahmen: SzenarioAnnahmen): LiquiditaetInput {
+  const paymentTerms = input.paymentTerms ?? getBranchenPaymentTerms(input.industry);
+
+  return {
+    ...input,
+    umsatzplanung: applyUmsatzAenderung(input.umsatzplanung, annahmen.umsatzAenderung),
+    kostenplanung: applyKostenAenderung(input.kostenplanung, annahmen),
+    paymentTerms: {
+      ...paymentTerms,
+      customerPaymentDays: Math.max(0, paymentTerms.customerPaymentDays + annahmen.zahlungszielAenderung),
+    },
+  };
+}
+
+// ============================================================================
+// Scenario Calculation
+// ============================================================================
+
+/**
+ * Recalculate the Finanzplanung for one scenario
+ */
+export function calculateSzenario(input: LiquiditaetInput, definition: SzenarioDefinition): FinanzplanSzenario {
+  const annahmen: SzenarioAnnahmen = { ...KEINE_ANNAHMEN, ...definition.annahmen };
+  const szenarioInput = applySzenarioAnnahmen(input, annahmen);
+
+  const rentabilitaet = calculateRentabilitaet({
+    umsatzplanung: szenarioInput.umsatzplanung,
+    kostenplanung: szenarioInput.kostenplanung,
+    finanzierung: szenarioInput.finanzierung,
+    kapitalbedarf: szenarioInput.kapitalbedarf,
+    afa: szenarioInput.afa,
+    steuerProfil: szenarioInput.steuerProfil,
+  });
+  const liquiditaet = calculateLiquiditaet(szenarioInput);
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    typ: definition.typ,
+    annahmen,
+    umsatzplanung: szenarioInput.umsatzplanung,
+    kostenplanung: szenarioInput.kostenplanung,
+    rentabilitaet,
+    liquiditaet,
+  };
+}
+
+/**
+ * Recalculate the Finanzplanung for all scenarios (default: base / best / worst)
+ */
+export function calculateSzenarien(
+  input: LiquiditaetInput,
+  definitionen: SzenarioDefinition[] = STANDARD_SZENARIEN
+): FinanzplanSzenario[] {
+  return definitionen.map(definition => calculateSzenario(input, definition));
+}
+
+/**
+ * Store scenarios in the Finanzplanung output (replaces scenarios with the same id)
+ */
+export function storeSzenarien(
+  finanzplanung: PartialFinanzplanungOutput,
+  szenarien: FinanzplanSzenario[]
+): PartialFinanzplanungOutput {
+  const ids = new Set(szenarien.map(szenario => szenario.id));
+  const bestehend = (finanzplanung.szenarien ?? []).filter(szenario => !ids.has(szenario.id));
+
+  return {
+    ...finanzplanung,
+    szenarien: [...bestehend, ...szenarien],
+  };
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Key figures of each scenario side by side
+ */
+export function compareSzenarien(szenarien: FinanzplanSzenario[]): SzenarioVergleich[] {
+  return szenarien.map(szenario => ({
+    id: szenario.id,
+    name: szenario.name,
+    typ: szenario.typ,
+    umsatzJahr1: szenario.rentabilitaet.jahr1.umsatz,
+    umsatzJahr3: szenario.rentabilitaet.jahr3.umsatz,
+    jahresueberschussJahr1: szenario.rentabilitaet.jahr1.jahresueberschuss,
+    jahresueberschussJahr3: szenario.rentabilitaet.jahr3.jahresueberschuss,
+    breakEvenMonat: szenario.rentabilitaet.breakEvenMonat,
+    minimumLiquiditaet: szenario.liquiditaet.minimumLiquiditaet,
+    minimumMonat: szenario.liquiditaet.minimumMonat,
+    hatNegativeLiquiditaet: szenario.liquiditaet.hatNegativeLiquiditaet,
+  }));
+}
+
+/**
+ * Risk hints for the BA conversation derived from the scenarios
+ */
+export function analyzeSzenarioRisiken(szenarien: FinanzplanSzenario[]): string[] {
+  const hinweise: string[] = [];
+
+  szenarien
+    .filter(szenario => szenario.typ !== 'basis' && szenario.liquiditaet.hatNegativeLiquiditaet)
+    .forEach(szenario => {
+      const luecke = new Decimal(szenario.liquiditaet.minimumLiquiditaet).abs();
+      hinweise.push(
+        `${szenario.name}: Liquiditätslücke von ${formatEUR(luecke)} in Monat ${szenario.liquiditaet.minimumMonat} - Reserve oder Kontokorrentrahmen einplanen`
+      );
+    });
+
+  szenarien
+    .filter(szenario => szenario.typ !== 'basis' && szenario.rentabilitaet.jahr3.jahresueberschuss < 0)
+    .forEach(szenario => {
+      hinweise.push(`${szenario.name}: Auch in Jahr 3 kein Gewinn - Gegenmaßnahmen (Kosten, Preise) vorbereiten`);
+    });
+
+  return hinweise;
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  STANDARD_SZENARIEN,
+  applyUmsatzAenderung,
+  applyKostenAenderung,
+  applySzenarioAnnahmen,
+  calculateSzenario,
+  calculateSzenarien,
+  storeSzenarien,
+  compareSzenarien,
+  analyzeSzenarioRisiken,
+};
@@ -7,6 +7,7 @@
  * Includes:
  * - Multi-stream revenue aggregation
  * - Monthly breakdown for Year 1 cash flow
+ * - 36-month projection (Years 2-3 from annual quantities + seasonality)
  * - Growth rate calculations and validation
  * - Industry benchmarking and realism checks
  * - German business type specific guidance
@@ -16,7 +17,10 @@ import Decimal from 'decimal.js';
 import type {
   Umsatzplanung,
   Umsatzstrom,
+  SeasonalityConfig,
+  UmsatzsteuerSatzType,
 } from '@/types/modules/finanzplanung';
+import { getBranchenBenchmark } from './branchenbenchmarks';
 
 // ============================================================================
 // Configuration
@@ -42,6 +46,7 @@ export interface UmsatzstromInput {
   mengeJahr1: number[]; // 12 months
   mengeJahr2: number;
   mengeJahr3: number;
+  ustSatz?: UmsatzsteuerSatzType;
 }
 
 export interface MonthlyRevenue {
@@ -208,6 +213,62 @@ export function projectGrowthRates(jahr1: number, jahr2: number, jahr3: number):
   };
 }
 
+/**
+ * Distribute an annual revenue total over 12 months using quarterly
+ * seasonality multipliers. Multipliers are normalized so that the
+ * 12 monthly values always add up to the annual total.
+ */
+export function distributeAnnualRevenue(
+  annualRevenue: number,
+  quarters: [number, number, number, number] = [1, 1, 1, 1]
+): number[] {
+  const annual = new Decimal(annualRevenue);
+  const quarterSum = quarters.reduce((sum, q) => sum.plus(new Decimal(q)), new Decimal(0));
+
+  if (quarterSum.lte(0)) {
+    return Array(12).fill(annual.dividedBy(12).toNumber());
+  }
+
+  const months: number[] = [];
+  for (let monat = 0; monat < 12; monat++) {
+    const quarterWeight = new Decimal(quarters[Math.floor(monat / 3)] ?? 0).dividedBy(quarterSum);
+    // Each quarter has 3 months → weight per month = quarter share / 3
+    months.push(annual.times(quarterWeight).dividedBy(3).toNumber());
+  }
+
+  return months;
+}
+
+/**
+ * Project monthly revenue for the full 36-month planning horizon
+ *
+ * - Months 1-12: taken from the monthly Year 1 plan (umsatzJahr1)
+ * - Months 13-36: derived per stream from mengeJahr2/mengeJahr3 × preis,
+ *   distributed over the months with the given seasonality. Without
+ *   streams the annual totals umsatzJahr2/umsatzJahr3 are distributed.
+ */
+export function projectMonthlyRevenue(
+  umsatzplanung: Umsatzplanung,
+  seasonality?: SeasonalityConfig
+): number[] {
+  const quarters = seasonality?.quarters;
+  const jahr1 = Array.from({ length: 12 }, (_, i) => umsatzplanung.umsatzJahr1[i] || 0);
+
+  const hasStreams = umsatzplanung.umsatzstroeme.length > 0;
+  const jahr2Summe = hasStreams
+    ? calculateStreamAnnualRevenue(umsatzplanung.umsatzstroeme, 2)
+    : umsatzplanung.umsatzJahr2;
+  const jahr3Summe = hasStreams
+    ? calculateStreamAnnualRevenue(umsatzplanung.umsatzstroeme, 3)
+    : umsatzplanung.umsatzJahr3;
+
+  return [
+    ...jahr1,
+    ...distributeAnnualRevenue(jahr2Summe, quarters),
+    ...distributeAnnualRevenue(jahr3Summe, quarters),
+  ];
+}
+
 // ============================================================================
 // Validation and Realism Checks
 // ============================================================================
@@ -386,6 +447,7 @@ export function calculateUmsatzplanung(input: {
     mengeJahr1: stream.mengeJahr1,
     mengeJahr2: stream.mengeJahr2,
     mengeJahr3: stream.mengeJahr3,
+    ustSatz: stream.ustSatz,
   }));
 
   return {
@@ -485,40 +547,28 @@ export function testECommerceScenario(): Umsatzplanung {
 // Industry Benchmark Functions
 // ============================================================================
 
+export interface IndustryRevenueBenchmarks {
+  wachstum: { jahr1to2: number; jahr2to3: number }; // % per year
+  saisonalitaet: string;
+  [kennzahl: string]: { min: number; max: number; typical: number } | IndustryRevenueBenchmarks['wachstum'] | string;
+}
+
 /**
- * Get industry-typical revenue patterns
+ * Get industry-typical revenue patterns from the benchmark registry
  */
-export function getIndustryBenchmarks(industry: string) {
-  const benchmarks = {
-    beratung: {
-      stundensatz: { min: 80, max: 200, typical: 120 },
-      auslastung: { min: 60, max: 85, typical: 75 }, // % of working hours
-      wachstum: { jahr1to2: 25, jahr2to3: 15 },
-      saisonalitaet: 'gering',
-    },
-    ecommerce: {
-      durchschnittswert: { min: 25, max: 100, typical: 50 },
-      konversionsrate: { min: 1, max: 5, typical: 2.5 }, // %
-      wachstum: { jahr1to2: 75, jahr2to3: 40 },
-      saisonalitaet: 'hoch (Q4)',
-    },
-    handwerk: {
-      stundensatz: { min: 50, max: 120, typical: 80 },
-      auslastung: { min: 70, max: 90, typical: 80 },
-      wachstum: { jahr1to2: 20, jahr2to3: 15 },
-      saisonalitaet: 'mittel (Wetter)',
-    },
-    restaurant: {
-      umsatzProQm: { min: 3000, max: 8000, typical: 5000 }, // pro Jahr
-      plätze: { min: 20, max: 100, typical: 40 },
-      wachstum: { jahr1to2: 10, jahr2to3: 8 },
-      saisonalitaet: 'mittel (Tourismus)',
-    },
-  };
+export function getIndustryBenchmarks(industry: string): IndustryRevenueBenchmarks {
+  const benchmark = getBranchenBenchmark(industry);
+  const kennzahlen = Object.fromEntries(
+    Object.entries(benchmark.kennzahlen).map(([name, { wert }]) => [
+      name,
+      { min: wert.min, max: wert.max, typical: wert.typisch },
+    ])
+  );
 
-  return benchmarks[industry as keyof typeof benchmarks] || {
-    wachstum: { jahr1to2: 30, jahr2to3: 20 },
-    saisonalitaet: 'unbekannt',
+  return {
+    ...kennzahlen,
+    wachstum: benchmark.wachstum.wert,
+    saisonalitaet: benchmark.saisonalitaet.wert.beschreibung,
   };
 }
 
@@ -581,6 +631,8 @@ export default {
   calculateMonthlyRevenue,
   calculateAnnualRevenue,
   calculateStreamAnnualRevenue,
+  distributeAnnualRevenue,
+  projectMonthlyRevenue,
   projectGrowthRates,
   checkGrowthRateRealism,
   validateRevenueRealism,
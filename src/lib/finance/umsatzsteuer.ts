@@ -0,0 +1,435 @@
+/**
+ * Umsatzsteuer Calculations (USt-Layer für Teil D, E und G)
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * All other finance modules plan NET amounts - this module adds the VAT
+ * layer on top so that the liquidity plan reflects real cash movements.
+ *
+ * Includes:
+ * - USt rates per Umsatzstrom (19 %, 7 %, 0 %, Kleinunternehmer §19 UStG)
+ * - Vorsteuer on Kostenpositionen and Investitionen
+ * - Monthly or quarterly USt-Voranmeldung (payment / refund timing)
+ * - Soll- and Ist-Versteuerung
+ * - Kleinunternehmer threshold check
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  Kapitalbedarf,
+  Kostenplanung,
+  Kostenposition,
+  KostenkategorieType,
+  Umsatzplanung,
+  UmsatzsteuerConfig,
+  UmsatzsteuerSatzType,
+  PaymentTermsConfig,
+  SeasonalityConfig,
+} from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import { calculateStreamAnnualRevenue, projectMonthlyRevenue } from './umsatzplanung';
+import { projectMonthlyCosts } from './kostenplanung';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+// Investments are paid over the first 3 months (same as Liquiditätsplanung)
+const INVESTITIONS_MONATE = 3;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UmsatzsteuerInput {
+  umsatzplanung: Umsatzplanung;
+  kostenplanung: Kostenplanung;
+  kapitalbedarf: Kapitalbedarf;
+  config: UmsatzsteuerConfig;
+  paymentTerms?: PaymentTermsConfig;     // Needed for Ist-Versteuerung
+  seasonality?: SeasonalityConfig;
+}
+
+export interface VorsteuerProjection {
+  // Input VAT paid to suppliers - deductible unless the month falls in a Kleinunternehmer year
+  fixkosten: number[];       // Vorsteuer on fixed costs (by month incurred)
+  variableKosten: number[];  // Vorsteuer on variable costs (by revenue month)
+  investitionen: number[];   // Vorsteuer on investments (months 1-3)
+}
+
+export interface UmsatzsteuerMonat {
+  monat: number;
+  umsatzsteuer: number;      // USt owed for this month (Soll: invoiced, Ist: received)
+  vorsteuer: number;         // Deductible Vorsteuer of this month
+  zahllast: number;          // umsatzsteuer - vorsteuer (negative = Erstattung)
+  zahlungFinanzamt: number;  // Settled in this month: + payment, - refund
+}
+
+export interface UmsatzsteuerPlan {
+  monate: UmsatzsteuerMonat[];
+  umsatzsteuerGesamt: number;
+  vorsteuerGesamt: number;
+  zahllastGesamt: number;
+  warnings: string[];
+}
+
+// ============================================================================
+// German VAT Rules
+// ============================================================================
+
+export const UMSATZSTEUER_SAETZE: Record<UmsatzsteuerSatzType, number> = {
+  regulaer: 0.19,
+  ermaessigt: 0.07,
+  steuerfrei: 0,
+  kleinunternehmer: 0,
+};
+
+// §19 UStG (since 2025): previous year ≤ €25.000, current year ≤ €100.000,
+// in the founding year (no previous year) the revenue itself must stay ≤ €25.000
+export const KLEINUNTERNEHMER_GRENZEN = {
+  vorjahr: 25000,
+  laufendesJahr: 100000,
+  gruendungsjahr: 25000,
+};
+
+// Typical Vorsteuer treatment per cost category (override via vorsteuerSatz)
+const VORSTEUER_NACH_KATEGORIE: Record<KostenkategorieType, UmsatzsteuerSatzType> = {
+  personal: 'steuerfrei',      // Löhne / Gehälter
+  miete: 'regulaer',           // Gewerbemiete (mit Option zur USt)
+  versicherung: 'steuerfrei',  // Versicherungsteuer, keine USt
+  marketing: 'regulaer',
+  material: 'regulaer',
+  abschreibung: 'steuerfrei',  // Vorsteuer already claimed on purchase
+  zinsen: 'steuerfrei',
+  steuern: 'steuerfrei',
+  sonstige: 'regulaer',
+};
+
+// ============================================================================
+// Core VAT Calculations
+// ============================================================================
+
+/**
+ * Get the VAT rate as decimal for a rate type (default: 19 %)
+ */
+export function getUmsatzsteuerSatz(satz: UmsatzsteuerSatzType = 'regulaer'): Decimal {
+  return new Decimal(UMSATZSTEUER_SAETZE[satz]);
+}
+
+/**
+ * Vorsteuer rate of a cost position (explicit rate or category default)
+ */
+export function getVorsteuerSatz(position: Pick<Kostenposition, 'kategorie' | 'vorsteuerSatz'>): Decimal {
+  return getUmsatzsteuerSatz(position.vorsteuerSatz ?? VORSTEUER_NACH_KATEGORIE[position.kategorie]);
+}
+
+/**
+ * Plan years (1-3) taxed as Kleinunternehmer under the chosen config
+ *
+ * The status only lasts as long as the revenue stays within the limits,
+ * afterwards the plan switches to regular USt.
+ */
+export function getKleinunternehmerPlanJahre(umsatzplanung: Umsatzplanung, config: UmsatzsteuerConfig): boolean[] {
+  const jahresUmsaetze = [umsatzplanung.umsatzJahr1Summe, umsatzplanung.umsatzJahr2, umsatzplanung.umsatzJahr3];
+  return config.kleinunternehmer ? getKleinunternehmerJahre(jahresUmsaetze) : jahresUmsaetze.map(() => false);
+}
+
+/**
+ * Project monthly USt on revenue for 36 months (by invoice month)
+ *
+ * Mixed rates are applied as revenue-weighted average per plan year.
+ * Kleinunternehmer charge no USt in the years their status applies.
+ */
+export function projectMonthlyUmsatzsteuer(
+  umsatzplanung: Umsatzplanung,
+  config: UmsatzsteuerConfig,
+  seasonality?: SeasonalityConfig
+): number[] {
+  const monthlyRevenue = projectMonthlyRevenue(umsatzplanung, seasonality);
+  const kleinunternehmerJahre = getKleinunternehmerPlanJahre(umsatzplanung, config);
+
+  const satzProJahr = ([1, 2, 3] as const).map(jahr =>
+    kleinunternehmerJahre[jahr - 1] ? new Decimal(0) : getEffectiveRevenueRate(umsatzplanung, jahr)
+  );
+
+  return monthlyRevenue.map((umsatz, index) =>
+    new Decimal(umsatz).times(satzProJahr[Math.floor(index / 12)] ?? 0).toNumber()
+  );
+}
+
+/**
+ * Project monthly Vorsteuer for 36 months (by invoice month)
+ *
+ * Suppliers charge USt to Kleinunternehmer as well, so the projection is the
+ * same with and without the status - only the deduction differs.
+ */
+export function projectMonthlyVorsteuer(
+  umsatzplanung: Umsatzplanung,
+  kostenplanung: Kostenplanung,
+  kapitalbedarf: Kapitalbedarf,
+  seasonality?: SeasonalityConfig
+): VorsteuerProjection {
+  const monthlyCosts = projectMonthlyCosts(umsatzplanung, kostenplanung, seasonality);
+  const fixSatz = getEffectiveCostRate(kostenplanung.fixkosten, 'betragMonatlich');
+  const variableSatz = getEffectiveCostRate(kostenplanung.variableKosten, 'variablerAnteil');
+
+  // Investments: per item rate, or 19 % on the total if no breakdown exists
+  const investitionsVorsteuer = kapitalbedarf.investitionen.length > 0
+    ? kapitalbedarf.investitionen.reduce(
+        (sum, investition) => sum.plus(new Decimal(investition.betrag).times(getUmsatzsteuerSatz(investition.vorsteuerSatz))),
+        new Decimal(0)
+      )
+    : new Decimal(kapitalbedarf.investitionenSumme).times(getUmsatzsteuerSatz());
+  const investitionsVorsteuerMonatlich = investitionsVorsteuer.dividedBy(INVESTITIONS_MONATE);
+
+  return {
+    fixkosten: monthlyCosts.fixkosten.map(kosten => new Decimal(kosten).times(fixSatz).toNumber()),
+    variableKosten: monthlyCosts.variableKosten.map(kosten => new Decimal(kosten).times(variableSatz).toNumber()),
+    investitionen: Array.from({ length: LIQUIDITAET_PLANUNGSMONATE }, (_, index) =>
+      index < INVESTITIONS_MONATE ? investitionsVorsteuerMonatlich.toNumber() : 0
+    ),
+  };
+}
+
+/**
+ * Calculate the complete USt plan incl. Voranmeldung timing
+ *
+ * The Voranmeldung is due on the 10th of the month after the period, so the
+ * Zahllast of month m (monthly) or of a quarter (quarterly) is settled in the
+ * following month. Settlements beyond month 36 are outside the plan horizon.
+ */
+export function calculateUmsatzsteuerPlan(input: UmsatzsteuerInput): UmsatzsteuerPlan {
+  const { umsatzplanung, kostenplanung, kapitalbedarf, config, paymentTerms, seasonality } = input;
+
+  const umsatzsteuerRechnung = projectMonthlyUmsatzsteuer(umsatzplanung, config, seasonality);
+  const vorsteuer = projectMonthlyVorsteuer(umsatzplanung, kostenplanung, kapitalbedarf, seasonality);
+  const kleinunternehmerJahre = getKleinunternehmerPlanJahre(umsatzplanung, config);
+
+  // Ist-Versteuerung: USt is owed when the customer pays
+  const zahlungsverzug = config.besteuerung === 'ist'
+    ? Math.ceil((paymentTerms?.customerPaymentDays ?? 0) / 30)
+    : 0;
+
+  const zahllasten: Decimal[] = [];
+  const monate: UmsatzsteuerMonat[] = [];
+
+  for (let monat = 1; monat <= LIQUIDITAET_PLANUNGSMONATE; monat++) {
+    const rechnungsMonat = monat - zahlungsverzug;
+    const umsatzsteuer = new Decimal(rechnungsMonat > 0 ? umsatzsteuerRechnung[rechnungsMonat - 1] || 0 : 0);
+    // Kleinunternehmer cannot deduct the Vorsteuer, it stays a cost
+    const vorsteuerMonat = kleinunternehmerJahre[Math.floor((monat - 1) / 12)]
+      ? new Decimal(0)
+      : new Decimal(vorsteuer.fixkosten[monat - 1] || 0)
+        .plus(vorsteuer.variableKosten[monat - 1] || 0)
+        .plus(vorsteuer.investitionen[monat - 1] || 0);
+    const zahllast = umsatzsteuer.minus(vorsteuerMonat);
+    zahllasten.push(zahllast);
+
+    monate.push({
+      monat,
+      umsatzsteuer: umsatzsteuer.toNumber(),
+      vorsteuer: vorsteuerMonat.toNumber(),
+      zahllast: zahllast.toNumber(),
+      zahlungFinanzamt: 0,
+    });
+  }
+
+  // Voranmeldung: settle each period in the following month
+  const periodenLaenge = config.voranmeldung === 'vierteljaehrlich' ? 3 : 1;
+  for (let periodenEnde = periodenLaenge; periodenEnde <= LIQUIDITAET_PLANUNGSMONATE; periodenEnde += periodenLaenge) {
+    const faelligkeit = monate[periodenEnde]; // index periodenEnde = month periodenEnde + 1
+    if (!faelligkeit) continue;
+
+    const periodenZahllast = zahllasten
+      .slice(periodenEnde - periodenLaenge, periodenEnde)
+      .reduce((sum, betrag) => sum.plus(betrag), new Decimal(0));
+    faelligkeit.zahlungFinanzamt = periodenZahllast.toNumber();
+  }
+
+  const umsatzsteuerGesamt = monate.reduce((sum, m) => sum.plus(m.umsatzsteuer), new Decimal(0));
+  const vorsteuerGesamt = monate.reduce((sum, m) => sum.plus(m.vorsteuer), new Decimal(0));
+
+  return {
+    monate,
+    umsatzsteuerGesamt: umsatzsteuerGesamt.toNumber(),
+    vorsteuerGesamt: vorsteuerGesamt.toNumber(),
+    zahllastGesamt: umsatzsteuerGesamt.minus(vorsteuerGesamt).toNumber(),
+    warnings: checkKleinunternehmerStatus(umsatzplanung, config),
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Plan years in which the Kleinunternehmer status is possible (Jahr 1 = Gründungsjahr)
+ */
+export function getKleinunternehmerJahre(jahresUmsaetze: readonly number[]): boolean[] {
+  return jahresUmsaetze.map((umsatz, index) => {
+    if (index === 0) return umsatz <= KLEINUNTERNEHMER_GRENZEN.gruendungsjahr;
+    return (jahresUmsaetze[index - 1] ?? 0) <= KLEINUNTERNEHMER_GRENZEN.vorjahr
+      && umsatz <= KLEINUNTERNEHMER_GRENZEN.laufendesJahr;
+  });
+}
+
+/**
+ * Check whether the chosen Kleinunternehmer status fits the revenue plan
+ */
+export function checkKleinunternehmerStatus(
+  umsatzplanung: Umsatzplanung,
+  config: UmsatzsteuerConfig
+): string[] {
+  const warnings: string[] = [];
+  const jahresUmsaetze = [umsatzplanung.umsatzJahr1Summe, umsatzplanung.umsatzJahr2, umsatzplanung.umsatzJahr3];
+  const kleinunternehmerJahre = getKleinunternehmerJahre(jahresUmsaetze);
+
+  if (!config.kleinunternehmer) {
+    if (kleinunternehmerJahre[0]) {
+      warnings.push(`Kleinunternehmerregelung (§19 UStG) möglich - Umsatz im Gründungsjahr unter ${formatEUR(KLEINUNTERNEHMER_GRENZEN.gruendungsjahr)}`);
+    }
+    return warnings;
+  }
+
+  const ersteUStPflicht = kleinunternehmerJahre.indexOf(false);
+  if (ersteUStPflicht === 0) {
+    warnings.push(`Kleinunternehmerregelung von Beginn an nicht möglich - Umsatz im Gründungsjahr über ${formatEUR(KLEINUNTERNEHMER_GRENZEN.gruendungsjahr)}, Preise mit USt kalkulieren`);
+  } else if (ersteUStPflicht > 0) {
+    const grund = (jahresUmsaetze[ersteUStPflicht] ?? 0) > KLEINUNTERNEHMER_GRENZEN.laufendesJahr
+      ? `Umsatz Jahr ${ersteUStPflicht + 1} über ${formatEUR(KLEINUNTERNEHMER_GRENZEN.laufendesJahr)}`
+      : `Umsatz Jahr ${ersteUStPflicht} über ${formatEUR(KLEINUNTERNEHMER_GRENZEN.vorjahr)}`;
+    warnings.push(`USt-Pflicht ab Jahr ${ersteUStPflicht + 1} - ${grund}, Preise entsprechend kalkulieren`);
+  }
+
+  return warnings;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Revenue-weighted USt rate of all streams for a plan year (default 19 %)
+ */
+function getEffectiveRevenueRate(umsatzplanung: Umsatzplanung, jahr: 1 | 2 | 3): Decimal {
+  const streams = umsatzplanung.umsatzstroeme;
+  if (streams.length === 0) return getUmsatzsteuerSatz();
+
+  let umsatzGesamt = new Decimal(0);
+  let steuerGesamt = new Decimal(0);
+
+  for (const stream of streams) {
+    const umsatz = new Decimal(calculateStreamAnnualRevenue([stream], jahr));
+    umsatzGesamt = umsatzGesamt.plus(umsatz);
+    steuerGesamt = steuerGesamt.plus(umsatz.times(getUmsatzsteuerSatz(stream.ustSatz)));
+  }
+
+  return umsatzGesamt.gt(0) ? steuerGesamt.dividedBy(umsatzGesamt) : getUmsatzsteuerSatz();
+}
+
+/**
+ * Weighted Vorsteuer rate of cost positions (default 19 % without breakdown)
+ */
+function getEffectiveCostRate(
+  positionen: Kostenposition[],
+  gewicht: 'betragMonatlich' | 'variablerAnteil'
+): Decimal {
+  let summe = new Decimal(0);
+  let vorsteuer = new Decimal(0);
+
+  for (const position of positionen) {
+    const betrag = new Decimal(position[gewicht] ?? 0);
+    summe = summe.plus(betrag);
+    vorsteuer = vorsteuer.plus(betrag.times(getVorsteuerSatz(position)));
+  }
+
+  return summe.gt(0) ? vorsteuer.dividedBy(summe) : getUmsatzsteuerSatz();
+}
+
+/**
+ * Format currency for German locale
+ */
+function formatEUR(amount: number): string {
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency: 'EUR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+// ============================================================================
+// Test Scenarios
+// ============================================================================
+
+/**
+ * B2C retail scenario: 19 % USt, large upfront investment, monthly Voranmeldung
+ */
+export function createRetailUmsatzsteuerTest(): UmsatzsteuerInput {
+  return {
+    umsatzplanung: {
+      umsatzstroeme: [],
+      umsatzJahr1: [8000, 9000, 10000, 10000, 11000, 11000, 12000, 12000, 12000, 13000, 14000, 16000],
+      umsatzJahr1Summe: 138000,
+      umsatzJahr2: 160000,
+      umsatzJahr3: 175000,
+      wachstumsrateJahr2: 16,
+      wachstumsrateJahr3: 9,
+      annahmen: ['Einzelhandel mit Ladengeschäft'],
+    },
+    kostenplanung: {
+      fixkosten: [
+        { name: 'Ladenmiete', kategorie: 'miete', fixOderVariabel: 'fix', betragMonatlich: 2000, betragJaehrlich: 24000 },
+        { name: 'Versicherungen', kategorie: 'versicherung', fixOderVariabel: 'fix', betragMonatlich: 300, betragJaehrlich: 3600 },
+      ],
+      variableKosten: [
+        { name: 'Wareneinsatz', kategorie: 'material', fixOderVariabel: 'variabel', betragMonatlich: 0, betragJaehrlich: 0, variablerAnteil: 45 },
+      ],
+      fixkostenSummeMonatlich: 2300,
+      fixkostenSummeJaehrlich: 27600,
+      variableKostenSummeJahr1: 62100,
+      variableKostenSummeJahr2: 72000,
+      variableKostenSummeJahr3: 78750,
+      gesamtkostenJahr1: 89700,
+      gesamtkostenJahr2: 102360,
+      gesamtkostenJahr3: 111870,
+    },
+    kapitalbedarf: {
+      gruendungskosten: { notar: 0, handelsregister: 0, beratung: 1000, marketing: 2000, sonstige: 0, summe: 3000 },
+      investitionen: [
+        { name: 'Ladeneinrichtung', kategorie: 'ausstattung', betrag: 30000 },
+      ],
+      investitionenSumme: 30000,
+      anlaufkosten: { monate: 6, monatlicheKosten: 4000, reserve: 5000, summe: 29000 },
+      gesamtkapitalbedarf: 62000,
+    },
+    config: {
+      kleinunternehmer: false,
+      voranmeldung: 'monatlich',
+      besteuerung: 'soll',
+    },
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  UMSATZSTEUER_SAETZE,
+  KLEINUNTERNEHMER_GRENZEN,
+  getUmsatzsteuerSatz,
+  getVorsteuerSatz,
+  projectMonthlyUmsatzsteuer,
+  projectMonthlyVorsteuer,
+  calculateUmsatzsteuerPlan,
+  checkKleinunternehmerStatus,
+  createRetailUmsatzsteuerTest,
+};
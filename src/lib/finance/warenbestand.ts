@@ -0,0 +1,244 @@
+/**
+ * Warenbestand and Working Capital for Trade and Production Businesses
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * The Kostenplanung only knows the Wareneinsatz of the goods sold - this
+ * module adds the cash tied up in stock before the goods are sold.
+ *
+ * Includes:
+ * - Initial stock purchase and reorder cycle
+ * - Lagerreichweite (days inventory outstanding) as minimum stock
+ * - Supplier prepayment (Vorkasse) vs. Zahlungsziel
+ * - Monthly Warenbestand outflows on top of the Wareneinsatz for the Liquiditätsplanung
+ * - Working capital line (Warenbestand + Forderungen) for the Kapitalbedarf
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  Kapitalbedarf,
+  Kostenplanung,
+  SeasonalityConfig,
+  Umsatzplanung,
+} from '@/types/modules/finanzplanung';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import { projectMonthlyRevenue } from './umsatzplanung';
+import { projectMonthlyCosts } from './kostenplanung';
+import { getBranchenBenchmark } from './branchenbenchmarks';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+const TAGE_PRO_MONAT = 30;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WarenbestandConfig {
+  lagerreichweiteTage: number;          // Minimum stock in days of Wareneinsatz
+  bestellzyklusTage?: number;           // Days between orders (default: 30)
+  anfangsbestand?: number;              // Initial stock bought in month 1 (default: first order)
+  wareneinsatzquote?: number;           // % of revenue (default: material share of the variable costs)
+  lieferantenZahlungszielTage?: number; // Days until suppliers are paid (default: 30)
+  vorkasseProzent?: number;             // % of each order paid in advance (default: 0)
+}
+
+export interface WarenbestandPlan {
+  wareneinsatz: number[];               // Cost of goods sold per month
+  einkauf: number[];                    // Orders per month
+  bestand: number[];                    // Stock at month end
+  zahlungen: number[];                  // Supplier payments per month
+  mehrauszahlungen: number[];           // Payments on top of the Wareneinsatz in the variable costs
+  anfangsbestand: number;               // Purchases in month 1
+  durchschnittsbestand: number;
+  maxKapitalbindung: number;            // Peak cash tied up in stock
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Inventory defaults from the Branchenbenchmarks, undefined for businesses without stock
+ */
+export function getDefaultWarenbestandConfig(industry: string): WarenbestandConfig | undefined {
+  const benchmark = getBranchenBenchmark(industry);
+  const lagerreichweite = benchmark.kennzahlen.lagerreichweite;
+  if (!lagerreichweite) return undefined;
+
+  return {
+    lagerreichweiteTage: lagerreichweite.wert.typisch,
+    bestellzyklusTage: TAGE_PRO_MONAT,
+    lieferantenZahlungszielTage: benchmark.zahlungsziele.wert.lieferantenTage,
+    vorkasseProzent: 0,
+  };
+}
+
+/**
+ * Share of the variable costs that is Wareneinsatz (kategorie 'material')
+ */
+function getMaterialAnteil(kostenplanung: Kostenplanung): Decimal {
+  const gesamt = kostenplanung.variableKosten.reduce((sum, kosten) => sum.plus(kosten.betragJaehrlich), new Decimal(0));
+  if (gesamt.lte(0)) return new Decimal(1);
+
+  return kostenplanung.variableKosten
+    .filter(kosten => kosten.kategorie === 'material')
+    .reduce((sum, kosten) => sum.plus(kosten.betragJaehrlich), new Decimal(0))
+    .dividedBy(gesamt);
+}
+
+// ============================================================================
+// Inventory Calculation
+// ============================================================================
+
+/**
+ * Monthly stock, orders and supplier payments for the plan months
+ *
+ * Orders are placed every bestellzyklus and cover the Wareneinsatz until the
+ * next order plus the minimum stock. Only payments exceeding the Wareneinsatz
+ * already paid via the variable costs are returned as mehrauszahlungen.
+ */
+export function calculateWarenbestandPlan(
+  umsatzplanung: Umsatzplanung,
+  kostenplanung: Kostenplanung,
+  config: WarenbestandConfig,
+  options: { seasonality?: SeasonalityConfig; variableCostPaymentDelay?: number } = {}
+): WarenbestandPlan {
+  const monthlyRevenue = projectMonthlyRevenue(umsatzplanung, options.seasonality);
+  const monthlyCosts = projectMonthlyCosts(umsatzplanung, kostenplanung, options.seasonality);
+  const materialAnteil = getMaterialAnteil(kostenplanung);
+
+  const wareneinsatz = Array.from({ length: LIQUIDITAET_PLANUNGSMONATE }, (_, index) =>
+    config.wareneinsatzquote !== undefined
+      ? new Decimal(monthlyRevenue[index] || 0).times(config.wareneinsatzquote).dividedBy(100)
+      : new Decimal(monthlyCosts.variableKosten[index] || 0).times(materialAnteil)
+  );
+
+  // Minimum stock at month end covers the Wareneinsatz of the following days
+  const mindestbestand = (monat: number) => {
+    const naechsterMonat = wareneinsatz[Math.min(monat + 1, LIQUIDITAET_PLANUNGSMONATE - 1)] ?? new Decimal(0);
+    return naechsterMonat.dividedBy(TAGE_PRO_MONAT).times(config.lagerreichweiteTage);
+  };
+
+  const zyklusMonate = Math.max(1, Math.round((config.bestellzyklusTage ?? TAGE_PRO_MONAT) / TAGE_PRO_MONAT));
+  const einkauf: Decimal[] = [];
+  const bestand: Decimal[] = [];
+  let aktuellerBestand = new Decimal(0);
+
+  for (let monat = 0; monat < LIQUIDITAET_PLANUNGSMONATE; monat++) {
+    const bedarf = wareneinsatz[monat] ?? new Decimal(0);
+    let erstausstattung = new Decimal(0);
+    let bestellung = new Decimal(0);
+
+    // Initial stock bought before opening
+    if (monat === 0 && config.anfangsbestand !== undefined) {
+      erstausstattung = new Decimal(config.anfangsbestand);
+      aktuellerBestand = erstausstattung;
+    }
+
+    if (monat % zyklusMonate === 0) {
+      const zyklusEnde = Math.min(monat + zyklusMonate, LIQUIDITAET_PLANUNGSMONATE) - 1;
+      const zyklusBedarf = wareneinsatz
+        .slice(monat, zyklusEnde + 1)
+        .reduce((sum, wert) => sum.plus(wert), new Decimal(0));
+      bestellung = Decimal.max(0, zyklusBedarf.plus(mindestbestand(zyklusEnde)).minus(aktuellerBestand));
+    }
+
+    // Reorder if demand exceeds the stock within the cycle
+    bestellung = Decimal.max(bestellung, bedarf.minus(aktuellerBestand));
+
+    aktuellerBestand = aktuellerBestand.plus(bestellung).minus(bedarf);
+    einkauf.push(erstausstattung.plus(bestellung));
+    bestand.push(aktuellerBestand);
+  }
+
+  // Supplier payments: Vorkasse at order, the rest after the Zahlungsziel
+  const vorkasse = new Decimal(config.vorkasseProzent ?? 0).dividedBy(100);
+  const zielMonate = Math.ceil((config.lieferantenZahlungszielTage ?? TAGE_PRO_MONAT) / TAGE_PRO_MONAT);
+  const variableDelayMonths = Math.ceil((options.variableCostPaymentDelay ?? TAGE_PRO_MONAT) / TAGE_PRO_MONAT);
+
+  const zahlungen = einkauf.map((bestellung, monat) => {
+    const faellig = monat >= zielMonate ? einkauf[monat - zielMonate] ?? new Decimal(0) : new Decimal(0);
+    return bestellung.times(vorkasse).plus(faellig.times(new Decimal(1).minus(vorkasse)));
+  });
+
+  // Wareneinsatz is already paid via the variable costs
+  let kumuliert = new Decimal(0);
+  let maxKapitalbindung = new Decimal(0);
+  const mehrauszahlungen = zahlungen.map((zahlung, monat) => {
+    const bereitsGezahlt = monat >= variableDelayMonths
+      ? wareneinsatz[monat - variableDelayMonths] ?? new Decimal(0)
+      : new Decimal(0);
+    const mehrauszahlung = zahlung.minus(bereitsGezahlt);
+
+    kumuliert = kumuliert.plus(mehrauszahlung);
+    maxKapitalbindung = Decimal.max(maxKapitalbindung, kumuliert);
+    return mehrauszahlung.toNumber();
+  });
+
+  const durchschnittsbestand = bestand
+    .reduce((sum, wert) => sum.plus(wert), new Decimal(0))
+    .dividedBy(LIQUIDITAET_PLANUNGSMONATE);
+
+  return {
+    wareneinsatz: wareneinsatz.map(wert => wert.toNumber()),
+    einkauf: einkauf.map(wert => wert.toNumber()),
+    bestand: bestand.map(wert => wert.toNumber()),
+    zahlungen: zahlungen.map(wert => wert.toNumber()),
+    mehrauszahlungen,
+    anfangsbestand: (einkauf[0] ?? new Decimal(0)).toNumber(),
+    durchschnittsbestand: durchschnittsbestand.toNumber(),
+    maxKapitalbindung: maxKapitalbindung.toDecimalPlaces(2).toNumber(),
+  };
+}
+
+// ============================================================================
+// Working Capital
+// ============================================================================
+
+/**
+ * Average receivables from the customer Zahlungsziel (Umsatz Jahr 1 / 360 × Tage)
+ */
+export function calculateForderungsbestand(umsatzplanung: Umsatzplanung, customerPaymentDays: number): number {
+  return new Decimal(umsatzplanung.umsatzJahr1Summe)
+    .dividedBy(360)
+    .times(customerPaymentDays)
+    .toDecimalPlaces(2)
+    .toNumber();
+}
+
+/**
+ * Working capital line for the Kapitalbedarf
+ */
+export function calculateBetriebsmittel(
+  warenbestand: Pick<WarenbestandPlan, 'maxKapitalbindung'> | undefined,
+  forderungen: number = 0
+): NonNullable<Kapitalbedarf['betriebsmittel']> {
+  const lager = new Decimal(warenbestand?.maxKapitalbindung ?? 0);
+
+  return {
+    warenbestand: lager.toNumber(),
+    forderungen,
+    summe: lager.plus(forderungen).toNumber(),
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  getDefaultWarenbestandConfig,
+  calculateWarenbestandPlan,
+  calculateForderungsbestand,
+  calculateBetriebsmittel,
+};
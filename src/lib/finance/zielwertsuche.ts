@@ -0,0 +1,394 @@
+/**
+ * Zielwertsuche (Goal Seek) across the Finanzplanung
+ *
+ * CRITICAL: All calculations use decimal.js to avoid floating-point errors.
+ * Generalises calculateRevenueForTargetBreakEven: instead of one closed
+ * formula, any plan parameter is solved by bisection against the complete
+ * Liquiditäts- and Rentabilitätsplanung.
+ *
+ * Includes:
+ * - Generic goal seek (largest / smallest value that fulfils a condition)
+ * - Affordable monthly Privatentnahme (liquidity never negative)
+ * - Minimum price per unit of a revenue stream (liquidity never negative)
+ * - Customers per month for Selbstragfähigkeit in month 6
+ * - Additional Fremdkapital that closes the Finanzierungslücke
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  Finanzierungsquelle,
+  Kostenplanung,
+  Liquiditaet,
+  Rentabilitaet,
+  Umsatzplanung,
+} from '@/types/modules/finanzplanung';
+import { checkMonth6SelfSufficiency, extractFinancialData } from '@/lib/validation/checks/financial';
+import type { LiquiditaetInput } from './liquiditaet';
+import { calculateLiquiditaet } from './liquiditaet';
+import { calculateRentabilitaet } from './rentabilitaet';
+import { calculateDebtServiceSchedule, calculateFinanzierung } from './finanzierung';
+import { projectMonthlyRevenue, projectGrowthRates } from './umsatzplanung';
+import { FIXKOSTEN_FAKTOR_PRO_JAHR, projectMonthlyCosts } from './kostenplanung';
+import { getPersonalkostenProJahr } from './personalkosten';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set global decimal.js configuration for financial precision
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+const MAX_ITERATIONEN = 60;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ZielwertPlan {
+  input: LiquiditaetInput;
+  liquiditaet: Liquiditaet;
+  rentabilitaet: Rentabilitaet;
+}
+
+export interface Zielwertsuche {
+  anwenden: (input: LiquiditaetInput, wert: number) => LiquiditaetInput;
+  bedingung: (plan: ZielwertPlan) => boolean;
+  richtung: 'maximum' | 'minimum';     // Largest / smallest value that fulfils the condition
+  untergrenze: number;
+  obergrenze: number;
+  genauigkeit?: number;                // Step of the result (default: 1)
+}
+
+export interface ZielwertErgebnis {
+  wert: number;                        // Solved value (or the best bound if not reached)
+  erreicht: boolean;                   // False if no value within the bounds fulfils the condition
+  iterationen: number;
+  plan: ZielwertPlan;                  // Resulting plan for the solved value
+}
+
+export interface ZielwertOptionen {
+  untergrenze?: number;
+  obergrenze?: number;
+  genauigkeit?: number;
+}
+
+// ============================================================================
+// Generic Goal Seek
+// ============================================================================
+
+/**
+ * Recalculate Liquidität and Rentabilität for an input
+ */
+export function calculateZielwertPlan(input: LiquiditaetInput): ZielwertPlan {
+  return {
+    input,
+    liquiditaet: calculateLiquiditaet(input),
+    rentabilitaet: calculateRentabilitaet(input),
+  };
+}
+
+/**
+ * Solve a plan parameter by bisection
+ *
+ * The condition must be monotone in the value: for 'maximum' it holds up to
+ * the solution (e.g. Privatentnahme), for 'minimum' it holds from the
+ * solution on (e.g. price, customers, loan amount).
+ */
+export function goalSeek(input: LiquiditaetInput, suche: Zielwertsuche): ZielwertErgebnis {
+  const { anwenden, bedingung, richtung, genauigkeit = 1 } = suche;
+  const evaluate = (wert: Decimal) => calculateZielwertPlan(anwenden(input, wert.toNumber()));
+  const snap = (wert: Decimal) => (richtung === 'maximum'
+    ? wert.dividedBy(genauigkeit).floor()
+    : wert.dividedBy(genauigkeit).ceil()
+  ).times(genauigkeit);
+
+  // Erfüllt = bound where the condition is expected to hold
+  let erfuellt = new Decimal(richtung === 'maximum' ? suche.untergrenze : suche.obergrenze);
+  let verletzt = new Decimal(richtung === 'maximum' ? suche.obergrenze : suche.untergrenze);
+
+  const erfuelltPlan = evaluate(erfuellt);
+  if (!bedingung(erfuelltPlan)) {
+    return { wert: erfuellt.toNumber(), erreicht: false, iterationen: 1, plan: erfuelltPlan };
+  }
+
+  const verletztPlan = evaluate(verletzt);
+  if (bedingung(verletztPlan)) {
+    return { wert: verletzt.toNumber(), erreicht: true, iterationen: 2, plan: verletztPlan };
+  }
+
+  let iterationen = 2;
+  while (erfuellt.minus(verletzt).abs().gt(genauigkeit) && iterationen < MAX_ITERATIONEN) {
+    const mitte = erfuellt.plus(verletzt).dividedBy(2);
+    if (bedingung(evaluate(mitte))) {
+      erfuellt = mitte;
+    } else {
+      verletzt = mitte;
+    }
+    iterationen++;
+  }
+
+  const wert = snap(erfuellt);
+  return { wert: wert.toNumber(), erreicht: true, iterationen, plan: evaluate(wert) };
+}
+
+// ============================================================================
+// Plan Adjustments
+// ============================================================================
+
+function sumMengen(mengen: number[]): number {
+  return mengen.reduce((sum, menge) => sum.plus(menge), new Decimal(0)).toNumber();
+}
+
+/**
+ * Set the price of one revenue stream, the revenue totals follow
+ *
+ * Variable costs stay unchanged in euros - a higher price does not raise
+ * material or transaction costs.
+ */
+export function applyPreis(umsatzplanung: Umsatzplanung, stromIndex: number, preis: number): Umsatzplanung {
+  const strom = umsatzplanung.umsatzstroeme[stromIndex];
+  if (!strom) return umsatzplanung;
+
+  const differenz = new Decimal(preis).minus(strom.preis);
+  const umsatzJahr1 = umsatzplanung.umsatzJahr1.map((umsatz, monat) =>
+    Decimal.max(0, differenz.times(strom.mengeJahr1[monat] ?? 0).plus(umsatz)).toNumber()
+  );
+  const umsatzJahr1Summe = Decimal.max(0, differenz.times(sumMengen(strom.mengeJahr1)).plus(umsatzplanung.umsatzJahr1Summe)).toNumber();
+  const umsatzJahr2 = Decimal.max(0, differenz.times(strom.mengeJahr2).plus(umsatzplanung.umsatzJahr2)).toNumber();
+  const umsatzJahr3 = Decimal.max(0, differenz.times(strom.mengeJahr3).plus(umsatzplanung.umsatzJahr3)).toNumber();
+  const growthRates = projectGrowthRates(umsatzJahr1Summe, umsatzJahr2, umsatzJahr3);
+
+  return {
+    ...umsatzplanung,
+    umsatzstroeme: umsatzplanung.umsatzstroeme.map((s, index) => (index === stromIndex ? { ...s, preis } : s)),
+    umsatzJahr1,
+    umsatzJahr1Summe,
+    umsatzJahr2,
+    umsatzJahr3,
+    wachstumsrateJahr2: growthRates.jahr1ToJahr2,
+    wachstumsrateJahr3: growthRates.jahr2ToJahr3,
+  };
+}
+
+/**
+ * Scale the quantities of one revenue stream so that month 6 sells the
+ * given number of units (customers), keeping the ramp-up shape
+ *
+ * Variable costs follow the revenue at the unchanged cost ratio per year.
+ */
+export function applyKundenMonat6(
+  umsatzplanung: Umsatzplanung,
+  kostenplanung: Kostenplanung,
+  stromIndex: number,
+  kunden: number
+): { umsatzplanung: Umsatzplanung; kostenplanung: Kostenplanung } {
+  const strom = umsatzplanung.umsatzstroeme[stromIndex];
+  const mengeMonat6 = strom?.mengeJahr1[5] ?? 0;
+  if (!strom || mengeMonat6 <= 0) return { umsatzplanung, kostenplanung };
+
+  const faktor = new Decimal(kunden).dividedBy(mengeMonat6);
+  const zusatz = (menge: number) => faktor.minus(1).times(menge).times(strom.preis);
+
+  const umsatzJahr1 = umsatzplanung.umsatzJahr1.map((umsatz, monat) =>
+    Decimal.max(0, zusatz(strom.mengeJahr1[monat] ?? 0).plus(umsatz)).toNumber()
+  );
+  const umsatzJahr1Summe = Decimal.max(0, zusatz(sumMengen(strom.mengeJahr1)).plus(umsatzplanung.umsatzJahr1Summe)).toNumber();
+  const umsatzJahr2 = Decimal.max(0, zusatz(strom.mengeJahr2).plus(umsatzplanung.umsatzJahr2)).toNumber();
+  const umsatzJahr3 = Decimal.max(0, zusatz(strom.mengeJahr3).plus(umsatzplanung.umsatzJahr3)).toNumber();
+  const growthRates = projectGrowthRates(umsatzJahr1Summe, umsatzJahr2, umsatzJahr3);
+
+  const quote = (variableKosten: number, neu: number, alt: number) =>
+    alt > 0 ? new Decimal(variableKosten).times(neu).dividedBy(alt) : new Decimal(variableKosten);
+  const variableKostenSummeJahr1 = quote(kostenplanung.variableKostenSummeJahr1, umsatzJahr1Summe, umsatzplanung.umsatzJahr1Summe);
+  const variableKostenSummeJahr2 = quote(kostenplanung.variableKostenSummeJahr2, umsatzJahr2, umsatzplanung.umsatzJahr2);
+  const variableKostenSummeJahr3 = quote(kostenplanung.variableKostenSummeJahr3, umsatzJahr3, umsatzplanung.umsatzJahr3);
+  const personalkosten = getPersonalkostenProJahr(kostenplanung);
+
+  return {
+    umsatzplanung: {
+      ...umsatzplanung,
+      umsatzstroeme: umsatzplanung.umsatzstroeme.map((s, index) => (index === stromIndex
+        ? {
+          ...s,
+          mengeJahr1: s.mengeJahr1.map(menge => faktor.times(menge).toNumber()),
+          mengeJahr2: faktor.times(s.mengeJahr2).toNumber(),
+          mengeJahr3: faktor.times(s.mengeJahr3).toNumber(),
+        }
+        : s)),
+      umsatzJahr1,
+      umsatzJahr1Summe,
+      umsatzJahr2,
+      umsatzJahr3,
+      wachstumsrateJahr2: growthRates.jahr1ToJahr2,
+      wachstumsrateJahr3: growthRates.jahr2ToJahr3,
+    },
+    kostenplanung: {
+      ...kostenplanung,
+      variableKostenSummeJahr1: variableKostenSummeJahr1.toNumber(),
+      variableKostenSummeJahr2: variableKostenSummeJahr2.toNumber(),
+      variableKostenSummeJahr3: variableKostenSummeJahr3.toNumber(),
+      gesamtkostenJahr1: variableKostenSummeJahr1.plus(kostenplanung.fixkostenSummeJaehrlich).plus(personalkosten[0]).toNumber(),
+      gesamtkostenJahr2: variableKostenSummeJahr2.plus(new Decimal(kostenplanung.fixkostenSummeJaehrlich).times(FIXKOSTEN_FAKTOR_PRO_JAHR[1])).plus(personalkosten[1]).toNumber(),
+      gesamtkostenJahr3: variableKostenSummeJahr3.plus(new Decimal(kostenplanung.fixkostenSummeJaehrlich).times(FIXKOSTEN_FAKTOR_PRO_JAHR[2])).plus(personalkosten[2]).toNumber(),
+    },
+  };
+}
+
+/**
+ * Operating result of month 6 (revenue - fixed, variable and personnel costs - interest)
+ */
+export function calculateMonat6Ergebnis(input: LiquiditaetInput): number {
+  const umsatz = projectMonthlyRevenue(input.umsatzplanung, input.seasonality);
+  const kosten = projectMonthlyCosts(input.umsatzplanung, input.kostenplanung, input.seasonality);
+  const zinsen = calculateDebtServiceSchedule(input.finanzierung, 6).interest;
+
+  return new Decimal(umsatz[5] || 0)
+    .minus(kosten.fixkosten[5] || 0)
+    .minus(kosten.variableKosten[5] || 0)
+    .minus(kosten.personalkosten[5] || 0)
+    .minus(zinsen[5] || 0)
+    .toNumber();
+}
+
+/**
+ * Month 6 self-sufficiency as checked for the BA
+ */
+function isSelbsttragend(plan: ZielwertPlan): boolean {
+  const { input, liquiditaet, rentabilitaet } = plan;
+  const financialData = extractFinancialData({
+    umsatzplanung: input.umsatzplanung,
+    kostenplanung: input.kostenplanung,
+    privatentnahme: input.privatentnahme,
+    rentabilitaet,
+    liquiditaet,
+  });
+
+  return checkMonth6SelfSufficiency({
+    ...financialData,
+    month6Profit: calculateMonat6Ergebnis(input),
+  }) === null;
+}
+
+// ============================================================================
+// Standard Questions
+// ============================================================================
+
+/**
+ * What monthly Privatentnahme is affordable without negative liquidity?
+ */
+export function solvePrivatentnahme(input: LiquiditaetInput, optionen: ZielwertOptionen = {}): ZielwertErgebnis {
+  return goalSeek(input, {
+    anwenden: (basis, wert) => ({
+      ...basis,
+      privatentnahme: {
+        ...basis.privatentnahme,
+        monatlichePrivatentnahme: wert,
+        jaehrlichePrivatentnahme: new Decimal(wert).times(12).toNumber(),
+      },
+    }),
+    bedingung: plan => !plan.liquiditaet.hatNegativeLiquiditaet,
+    richtung: 'maximum',
+    untergrenze: optionen.untergrenze ?? 0,
+    obergrenze: optionen.obergrenze ?? Math.max(input.umsatzplanung.umsatzJahr3 / 12, input.privatentnahme.monatlichePrivatentnahme),
+    genauigkeit: optionen.genauigkeit ?? 10,
+  });
+}
+
+/**
+ * What minimum price per unit keeps liquidity ≥ €0 in all 36 months?
+ */
+export function solveMindestpreis(
+  input: LiquiditaetInput,
+  stromIndex: number = 0,
+  optionen: ZielwertOptionen = {}
+): ZielwertErgebnis {
+  const preis = input.umsatzplanung.umsatzstroeme[stromIndex]?.preis ?? 0;
+
+  return goalSeek(input, {
+    anwenden: (basis, wert) => ({ ...basis, umsatzplanung: applyPreis(basis.umsatzplanung, stromIndex, wert) }),
+    bedingung: plan => !plan.liquiditaet.hatNegativeLiquiditaet,
+    richtung: 'minimum',
+    untergrenze: optionen.untergrenze ?? 0,
+    obergrenze: optionen.obergrenze ?? Math.max(preis * 10, 1000),
+    genauigkeit: optionen.genauigkeit ?? 0.5,
+  });
+}
+
+/**
+ * How many customers (units) in month 6 are needed to be self-sufficient?
+ */
+export function solveKundenFuerSelbsttragfaehigkeit(
+  input: LiquiditaetInput,
+  stromIndex: number = 0,
+  optionen: ZielwertOptionen = {}
+): ZielwertErgebnis {
+  const menge = input.umsatzplanung.umsatzstroeme[stromIndex]?.mengeJahr1[5] ?? 0;
+
+  return goalSeek(input, {
+    anwenden: (basis, wert) => ({
+      ...basis,
+      ...applyKundenMonat6(basis.umsatzplanung, basis.kostenplanung, stromIndex, wert),
+    }),
+    bedingung: isSelbsttragend,
+    richtung: 'minimum',
+    untergrenze: optionen.untergrenze ?? 0,
+    obergrenze: optionen.obergrenze ?? Math.max(menge * 10, 100),
+    genauigkeit: optionen.genauigkeit ?? 1,
+  });
+}
+
+/**
+ * How much additional Fremdkapital closes the Finanzierungslücke and keeps
+ * liquidity ≥ €0 (including the resulting interest and Tilgung)?
+ */
+export function solveZusaetzlichesFremdkapital(
+  input: LiquiditaetInput,
+  kredit: Partial<Finanzierungsquelle> = {},
+  optionen: ZielwertOptionen = {}
+): ZielwertErgebnis {
+  const zusatzkredit = (betrag: number): Finanzierungsquelle => ({
+    typ: 'bankkredit',
+    bezeichnung: 'Zusätzlicher Bankkredit',
+    zinssatz: 4.5,
+    laufzeit: 60,
+    status: 'geplant',
+    ...kredit,
+    betrag,
+  });
+
+  return goalSeek(input, {
+    anwenden: (basis, wert) => (wert <= 0 ? basis : {
+      ...basis,
+      finanzierung: calculateFinanzierung(
+        [...basis.finanzierung.quellen, zusatzkredit(wert)],
+        basis.kapitalbedarf.gesamtkapitalbedarf
+      ),
+    }),
+    bedingung: plan => plan.input.finanzierung.finanzierungsluecke <= 0 && !plan.liquiditaet.hatNegativeLiquiditaet,
+    richtung: 'minimum',
+    untergrenze: optionen.untergrenze ?? 0,
+    obergrenze: optionen.obergrenze ?? Math.max(input.kapitalbedarf.gesamtkapitalbedarf * 2, 100000),
+    genauigkeit: optionen.genauigkeit ?? 100,
+  });
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export default {
+  calculateZielwertPlan,
+  goalSeek,
+  applyPreis,
+  applyKundenMonat6,
+  calculateMonat6Ergebnis,
+  solvePrivatentnahme,
+  solveMindestpreis,
+  solveKundenFuerSelbsttragfaehigkeit,
+  solveZusaetzlichesFremdkapital,
+};
@@ -56,6 +56,7 @@ export {
   isSavingAtom,
   lastSavedAtom,
   saveErrorAtom,
+  fieldFocusAtom,
 
   // Streaming atoms
   streamingModuleDataAtom,
@@ -67,6 +68,7 @@ export {
   markModuleCompleteAtom,
   startModuleAtom,
   updateModuleDataAtom,
+  jumpToFieldAtom,
   resetWorkshopAtom,
 
   // Factory functions
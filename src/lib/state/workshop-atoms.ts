@@ -10,8 +10,9 @@
 import { atom } from 'jotai';
 import { atomFamily, atomWithStorage } from 'jotai/utils';
 import type { Database } from '@/types/supabase';
-import type { ModuleId } from '@/types/modules';
+import { isModuleId, type ModuleId } from '@/types/modules';
 import type { RedFlag } from '@/lib/services/red-flag-detector';
+import type { ValidationEvidence } from '@/lib/validation/types';
 
 // ============================================================================
 // Types
@@ -240,6 +241,11 @@ export const lastSavedAtom = atom<Date | null>(null);
  */
 export const saveErrorAtom = atom<string | null>(null);
 
+/**
+ * Field highlighted in the preview after "Beheben" on a validation issue
+ */
+export const fieldFocusAtom = atom<ValidationEvidence | null>(null);
+
 // ============================================================================
 // Streaming Module Data (Real-time updates from chat)
 // ============================================================================
@@ -361,6 +367,28 @@ export const updateModuleDataAtom = atom(
   }
 );
 
+/**
+ * Jump to the module, phase and field a validation issue points at
+ */
+export const jumpToFieldAtom = atom(
+  null,
+  (_get, set, { workshopId, pointer }: { workshopId: string; pointer: ValidationEvidence }) => {
+    // Pointers to modules that are not part of the workshop cannot be opened
+    if (!isModuleId(pointer.module)) {
+      return;
+    }
+    set(currentModuleAtom, pointer.module);
+
+    const phase = pointer.phase;
+    if (phase) {
+      set(currentPhaseAtom, phase);
+      set(streamingDataFamily(workshopId), (prev) => ({ ...prev, currentPhase: phase }));
+    }
+
+    set(fieldFocusAtom, pointer);
+  }
+);
+
 /**
  * Reset workshop state (for starting over)
  */
@@ -381,6 +409,7 @@ export const resetWorkshopAtom = atom(null, (_get, set) => {
   });
   set(streamingModuleDataAtom, null);
   set(currentPhaseAtom, 'warmup');
+  set(fieldFocusAtom, null);
 });
 
 // ============================================================================
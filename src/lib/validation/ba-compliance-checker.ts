@@ -7,27 +7,30 @@
  * Based on analysis of real BA-approved business plan template.
  *
  * VALIDATION RULES:
- * 4 CRITICAL BLOCKERS (export blocked if any fail):
+ * 5 CRITICAL BLOCKERS (export blocked if any fail):
  * - Month 6 Self-Sufficiency (#1 rejection reason)
  * - Liquidity Never Negative (automatic rejection)
  * - Required Sections Complete (all 9 modules)
  * - Financial Tables Complete (full 36-month data)
+ * - Capacity Feasible (billable hours <= available working time)
  *
- * 3 WARNINGS (show but allow export):
+ * 4 WARNINGS (show but allow export):
  * - Break-Even Reasonable (<= 18 months)
  * - Sources Documented (>= 5 citations)
  * - GZ Funding Included (proper financial planning)
+ * - Document Structure (title page, contents, summary)
+ *
+ * The rules are registered in ./rule-registry; advisors and workshops can
+ * switch individual rules on or off (workshop settings take precedence).
  */
 
 import type {
   ValidationResult,
-  ValidationIssue,
-  ValidationSummary
+  ValidationRuleConfig,
 } from './types';
 import type { WorkshopSession } from '@/types/workshop-session';
-import type { PartialFinanzplanungOutput } from '@/types/modules/finanzplanung';
-import { validateFinancialCompliance } from './checks/financial';
-import { validateStructureCompliance } from './checks/structure';
+import { calculateRuleSummary, getRuleIssues, resolveRuleConfig, runValidationRules } from './rule-engine';
+import { createRuleContext, getValidationRules } from './rule-registry';
 
 // ============================================================================
 // Configuration
@@ -36,17 +39,9 @@ import { validateStructureCompliance } from './checks/structure';
 // Performance constraint: All validations must complete in <500ms
 const VALIDATION_TIMEOUT_MS = 500;
 
-// Compliance scoring weights (based on BA rejection rates)
-const VALIDATION_WEIGHTS = {
-  'month-6-self-sufficiency': 35,    // 35% rejection rate
-  'liquidity-non-negative': 25,      // 25% rejection rate
-  'required-sections-complete': 20,  // 20% rejection rate
-  'financial-tables-complete': 15,   // 15% rejection rate
-  'break-even-reasonable': 5,        // 5% soft rejection rate
-  'sources-documented': 8,           // 8% credibility impact
-  'gz-funding-included': 3,          // 3% minor flag
-  'document-structure': 1,           // 1% professional impression
-} as const;
+export interface BAValidationOptions {
+  advisorRules?: ValidationRuleConfig; // Advisor defaults, overridden by workshop.validationRules
+}
 
 // ============================================================================
 // Core Validation Function
@@ -59,7 +54,8 @@ const VALIDATION_WEIGHTS = {
  * and warning checks, then determines if export should be blocked.
  */
 export async function validateBACompliance(
-  workshopSession: WorkshopSession
+  workshopSession: WorkshopSession,
+  options: BAValidationOptions = {}
 ): Promise<ValidationResult> {
 
   const startTime = Date.now();
@@ -79,7 +75,7 @@ export async function validateBACompliance(
     );
 
     // Run all validations with timeout protection
-    const validationPromise = runAllValidations(workshopSession);
+    const validationPromise = runAllValidations(workshopSession, options);
 
     const result = await Promise.race([validationPromise, timeoutPromise]);
 
@@ -135,6 +131,7 @@ KRITISCHE PUNKTE:
 • Liquidität niemals negativ in 36 Monaten
 • Alle 9 Module vollständig ausgefüllt
 • Finanzplanung komplett (4 Tabellen)
+• Geplante Stunden mit verfügbarer Arbeitszeit erreichbar
 
 VERBESSERUNGEN:
 • Break-Even spätestens Monat 18
@@ -145,7 +142,7 @@ Sie können exportieren, sollten aber manuell prüfen.`,
         suggestedFix: 'Prüfen Sie kritische BA-Kriterien manuell',
       }],
       summary: {
-        totalChecks: 7,
+        totalChecks: getValidationRules().length,
         passedChecks: 0,
         failedBlockers: 0,
         totalWarnings: 1,
@@ -160,27 +157,26 @@ Sie können exportieren, sollten aber manuell prüfen.`,
  * Run all validation checks (internal function)
  */
 async function runAllValidations(
-  workshopSession: WorkshopSession
+  workshopSession: WorkshopSession,
+  options: BAValidationOptions = {}
 ): Promise<ValidationResult> {
 
-  // Extract financial data for validation
-  const finanzplanung = workshopSession.modules?.['gz-finanzplanung']?.data as PartialFinanzplanungOutput;
+  // Extract module data once for all rules
+  const context = createRuleContext(workshopSession);
 
-  // Run financial validations (4 critical + 2 warning checks)
-  const financialIssues = validateFinancialCompliance(finanzplanung);
+  // Workshop settings override the advisor's rule selection
+  const config = resolveRuleConfig(options.advisorRules, workshopSession.validationRules);
 
-  // Run structure validations (1 critical + 2 warning checks)
-  const structureIssues = validateStructureCompliance(workshopSession);
-
-  // Combine all issues
-  const allIssues = [...financialIssues, ...structureIssues];
+  // Run registered rules (financial, capacity, structure)
+  const results = runValidationRules(getValidationRules(), context, config);
+  const allIssues = getRuleIssues(results);
 
   // Separate blockers from warnings
   const blockers = allIssues.filter(issue => issue.severity === 'BLOCKER');
   const warnings = allIssues.filter(issue => issue.severity === 'WARNING');
 
-  // Calculate summary metrics
-  const summary = calculateValidationSummary(allIssues);
+  // Calculate summary metrics from rule weights
+  const summary = calculateRuleSummary(results);
 
   // Export is blocked if any critical issues exist
   const passed = blockers.length === 0;
@@ -196,41 +192,6 @@ async function runAllValidations(
   };
 }
 
-/**
- * Calculate validation summary and compliance score
- */
-function calculateValidationSummary(allIssues: ValidationIssue[]): ValidationSummary {
-  const totalChecks = Object.keys(VALIDATION_WEIGHTS).length;
-  const failedBlockers = allIssues.filter(i => i.severity === 'BLOCKER').length;
-  const totalWarnings = allIssues.filter(i => i.severity === 'WARNING').length;
-  const passedChecks = totalChecks - allIssues.length;
-
-  // Calculate weighted compliance score (0-100)
-  let totalWeight = 0;
-  let achievedWeight = 0;
-
-  Object.entries(VALIDATION_WEIGHTS).forEach(([ruleId, weight]) => {
-    totalWeight += weight;
-
-    // Check if this rule passed (no issue with this ID)
-    const hasIssue = allIssues.some(issue => issue.id === ruleId);
-    if (!hasIssue) {
-      achievedWeight += weight;
-    }
-  });
-
-  const overallScore = Math.round((achievedWeight / totalWeight) * 100);
-
-  return {
-    totalChecks,
-    passedChecks,
-    failedBlockers,
-    totalWarnings,
-    canExport: failedBlockers === 0,
-    overallScore,
-  };
-}
-
 // ============================================================================
 // Export Summary Functions
 // ============================================================================
@@ -350,7 +311,7 @@ export function getValidationSummary(result: ValidationResult): {
  */
 export async function validateBAComplianceDebug(
   workshopSession: WorkshopSession,
-  options: { verbose?: boolean; skipTimeout?: boolean } = {}
+  options: BAValidationOptions & { verbose?: boolean; skipTimeout?: boolean } = {}
 ): Promise<ValidationResult & { debugInfo: any }> {
 
   const startTime = Date.now();
@@ -366,18 +327,23 @@ export async function validateBAComplianceDebug(
   let result: ValidationResult;
 
   if (options.skipTimeout) {
-    result = await runAllValidations(workshopSession);
+    result = await runAllValidations(workshopSession, options);
   } else {
-    result = await validateBACompliance(workshopSession);
+    result = await validateBACompliance(workshopSession, options);
   }
 
   const duration = Date.now() - startTime;
 
+  const context = createRuleContext(workshopSession);
+  const config = resolveRuleConfig(options.advisorRules, workshopSession.validationRules);
+  const ruleResults = runValidationRules(getValidationRules(), context, config);
+
   const debugInfo = {
     duration,
     financialDataPresent: Boolean(workshopSession.modules?.['gz-finanzplanung']?.data),
     moduleCount: Object.keys(workshopSession.modules || {}).length,
-    validationRulesRun: Object.keys(VALIDATION_WEIGHTS),
+    validationRulesRun: ruleResults.filter(r => !r.skipped).map(r => r.rule.id),
+    validationRulesSkipped: ruleResults.filter(r => r.skipped).map(r => ({ id: r.rule.id, reason: r.skipped })),
     timestamp: new Date().toISOString(),
   };
 
@@ -0,0 +1,294 @@
+/**
+ * Capacity BA Compliance Checks (GZ-803)
+ *
+ * Deterministic check whether the planned revenue can be delivered with the
+ * available working time. Unlike detectOverutilization in the inline
+ * validator, this reads the stored module data instead of chat input.
+ *
+ * CRITICAL BLOCKERS:
+ * 1. Capacity Feasible - billable hours per month <= available working hours
+ *
+ * Sources:
+ * - Umsatzplanung: units per month × hours per einheit (Stunde, Tag, Projekt)
+ * - Unternehmen: founders' working hours and planned employees per year
+ * - Intake: founder's hours per week (fallback without team hours)
+ */
+
+import Decimal from 'decimal.js';
+import type {
+  ValidationIssue,
+  ValidationRuleDefinition,
+  RuleContext,
+  CapacityValidationData,
+} from '../types';
+import { BA_VALIDATION_RULES } from '../types';
+import { getRuleIssues, runValidationRule } from '../rule-engine';
+import type { PartialFinanzplanungOutput } from '@/types/modules/finanzplanung';
+import type { PartialUnternehmenOutput } from '@/types/modules/unternehmen';
+import type { PartialIntakeOutput } from '@/types/modules/intake';
+import { LIQUIDITAET_PLANUNGSMONATE } from '@/types/modules/finanzplanung';
+import { getBranchenBenchmark } from '@/lib/finance/branchenbenchmarks';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Set decimal.js precision for financial calculations (inherited from existing config)
+Decimal.set({
+  precision: 28,
+  rounding: Decimal.ROUND_HALF_UP,
+  toExpNeg: -28,
+  toExpPos: 28,
+});
+
+const WOCHEN_PRO_MONAT = new Decimal(52).dividedBy(12);
+const STUNDEN_PRO_TAG = 8;
+
+// Planned employees count as full-time capacity
+const VOLLZEIT_STUNDEN_PRO_WOCHE = 40;
+
+// Hourly rate to convert project prices into hours (same estimate as the cross-module check)
+const DEFAULT_STUNDENSATZ = 80;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Format hours in German standard: "1.234 Stunden"
+ */
+function formatHours(hours: number | Decimal): string {
+  const value = typeof hours === 'number' ? hours : hours.toNumber();
+  return `${new Intl.NumberFormat('de-DE', { maximumFractionDigits: 0 }).format(value)} Stunden`;
+}
+
+/**
+ * Billable hours per unit of a revenue stream, 0 for units without working time
+ *
+ * Projects are converted with the Stundensatz from the Branchenbenchmarks.
+ */
+export function getStundenProEinheit(
+  stream: { einheit?: string; preis?: number },
+  stundensatz: number = DEFAULT_STUNDENSATZ
+): number {
+  const einheit = (stream.einheit || '').toLowerCase();
+
+  if (einheit.includes('stund') || einheit === 'h') return 1;
+  if (einheit.includes('tag')) return STUNDEN_PRO_TAG;
+  if ((einheit.includes('projekt') || einheit.includes('auftrag')) && stundensatz > 0) {
+    return new Decimal(stream.preis || 0).dividedBy(stundensatz).toNumber();
+  }
+
+  return 0;
+}
+
+/**
+ * Weekly working hours of the founding team from the Unternehmen module
+ */
+function getGruenderStunden(unternehmen: PartialUnternehmenOutput | undefined): number | undefined {
+  const stunden = (unternehmen?.gruendungsteam?.founders || [])
+    .reduce((sum, founder) => sum + (founder?.workingHours || 0), 0);
+  return stunden > 0 ? stunden : undefined;
+}
+
+/**
+ * Weekly hours of the employees planned in the Unternehmen module for a plan month (1-36)
+ */
+function getMitarbeiterStunden(unternehmen: PartialUnternehmenOutput | undefined, monat: number): number {
+  const plannedEmployees = unternehmen?.organisation?.plannedEmployees;
+  const anzahl = monat <= 12
+    ? plannedEmployees?.year1
+    : monat <= 24 ? plannedEmployees?.year2 : plannedEmployees?.year3;
+  return (anzahl || 0) * VOLLZEIT_STUNDEN_PRO_WOCHE;
+}
+
+/**
+ * Extract capacity validation data from Finanzplanung, Unternehmen and Intake
+ */
+export function extractCapacityData(
+  finanzplanung: PartialFinanzplanungOutput | undefined,
+  unternehmen?: PartialUnternehmenOutput,
+  intake?: PartialIntakeOutput,
+  industry?: string
+): CapacityValidationData {
+  const empty: CapacityValidationData = {
+    requiredHours: [],
+    availableHours: [],
+    utilization: [],
+    hasCapacityData: false,
+  };
+
+  const streams = finanzplanung?.umsatzplanung?.umsatzstroeme || [];
+  const weeklyHours = getGruenderStunden(unternehmen) ?? intake?.resources?.time?.hoursPerWeek;
+
+  if (!weeklyHours || streams.length === 0) {
+    return empty;
+  }
+
+  const stundensatz = (industry && getBranchenBenchmark(industry).kennzahlen.stundensatz?.wert.typisch) || DEFAULT_STUNDENSATZ;
+  const timedStreams = streams
+    .map(stream => ({ stream, stunden: getStundenProEinheit(stream, stundensatz) }))
+    .filter(({ stunden }) => stunden > 0);
+
+  if (timedStreams.length === 0) {
+    return empty;
+  }
+
+  const requiredHours: number[] = [];
+  const availableHours: number[] = [];
+  const utilization: number[] = [];
+
+  for (let monat = 1; monat <= LIQUIDITAET_PLANUNGSMONATE; monat++) {
+    // Year 1 month by month, Years 2-3 evenly from the annual quantities
+    const required = timedStreams.reduce((sum, { stream, stunden }) => {
+      const menge = monat <= 12
+        ? stream.mengeJahr1?.[monat - 1] || 0
+        : new Decimal((monat <= 24 ? stream.mengeJahr2 : stream.mengeJahr3) || 0).dividedBy(12).toNumber();
+      return sum.plus(new Decimal(menge).times(stunden));
+    }, new Decimal(0));
+
+    const available = new Decimal(weeklyHours)
+      .plus(getMitarbeiterStunden(unternehmen, monat))
+      .times(WOCHEN_PRO_MONAT);
+
+    requiredHours.push(required.toDecimalPlaces(1).toNumber());
+    availableHours.push(available.toDecimalPlaces(1).toNumber());
+    utilization.push(available.gt(0) ? required.dividedBy(available).times(100).toDecimalPlaces(1).toNumber() : 0);
+  }
+
+  return {
+    requiredHours,
+    availableHours,
+    utilization,
+    hasCapacityData: true,
+  };
+}
+
+// ============================================================================
+// Capacity Validation Checks
+// ============================================================================
+
+/**
+ * CRITICAL CHECK: Capacity Feasible
+ *
+ * A plan that needs more billable hours than the founder or team has
+ * available cannot be delivered - the revenue is not tragfähig.
+ */
+export function checkCapacityFeasible(
+  capacityData: CapacityValidationData
+): ValidationIssue | null {
+
+  if (!capacityData.hasCapacityData) {
+    return null; // Nothing to check without working hours or time-based revenue
+  }
+
+  const overloadedMonths = capacityData.utilization
+    .map((utilization, index) => ({
+      month: index + 1,
+      utilization,
+      required: capacityData.requiredHours[index] ?? 0,
+      available: capacityData.availableHours[index] ?? 0,
+    }))
+    .filter(month => month.utilization > 100);
+
+  const firstOverloaded = overloadedMonths[0];
+  if (!firstOverloaded) {
+    return null; // Check passed
+  }
+
+  const worstMonth = overloadedMonths.reduce((worst, current) =>
+    current.utilization > worst.utilization ? current : worst
+  );
+  const missingHours = new Decimal(worstMonth.required).minus(worstMonth.available);
+
+  let message = `❌ KRITISCHER FEHLER: Umsatzplanung übersteigt die verfügbare Arbeitszeit!
+
+Monat ${firstOverloaded.month}: ${formatHours(firstOverloaded.required)} benötigt, ${formatHours(firstOverloaded.available)} verfügbar
+
+Ihr Plan erfordert mehr abrechenbare Stunden, als physisch verfügbar sind.
+Die BA wird die Umsatzplanung als nicht tragfähig bewerten.
+
+BETROFFENE MONATE:\n`;
+
+  // Show up to 5 overloaded months
+  overloadedMonths.slice(0, 5).forEach(m => {
+    message += `Monat ${m.month}: ${m.utilization.toFixed(1).replace('.', ',')}% Auslastung\n`;
+  });
+
+  if (overloadedMonths.length > 5) {
+    message += `... und ${overloadedMonths.length - 5} weitere Monate\n`;
+  }
+
+  message += `\nHÖCHSTE AUSLASTUNG: Monat ${worstMonth.month} mit ${worstMonth.utilization.toFixed(1).replace('.', ',')}%
+
+LÖSUNGEN:
+1. Mengen in der Umsatzplanung reduzieren
+2. Preise erhöhen (gleicher Umsatz mit weniger Stunden)
+3. Personal einplanen und Kapazität in der Organisation erhöhen
+4. Wochenarbeitszeit im Intake prüfen
+
+Export ist BLOCKIERT bis die Stunden in allen Monaten verfügbar sind.`;
+
+  return {
+    id: 'capacity-feasible',
+    severity: 'BLOCKER',
+    category: 'financial',
+    title: 'Kapazität reicht nicht für Umsatzplanung',
+    message,
+    affectedSection: 'gz-finanzplanung',
+    suggestedFix: `Reduzieren Sie den Stundenbedarf in Monat ${worstMonth.month} um ${formatHours(missingHours)} oder erhöhen Sie die Kapazität`,
+    documentationLink: '/docs/ba-requirements#capacity-feasible',
+    detectedValues: {
+      overloadedMonthsCount: overloadedMonths.length,
+      firstOverloadedMonth: firstOverloaded.month,
+      worstMonth: worstMonth.month,
+      worstUtilization: worstMonth.utilization,
+      requiredHours: worstMonth.required,
+      availableHours: worstMonth.available,
+    }
+  };
+}
+
+// ============================================================================
+// Rule Definitions
+// ============================================================================
+
+type CapacityRuleContext = Pick<RuleContext, 'capacityData'>;
+
+export const CAPACITY_VALIDATION_RULES: ValidationRuleDefinition<CapacityRuleContext>[] = [
+  {
+    ...BA_VALIDATION_RULES['capacity-feasible'],
+    weight: 10,
+    fixHint: 'Reduzieren Sie die geplanten Mengen oder erhöhen Sie die Kapazität',
+    check: ({ capacityData }) => checkCapacityFeasible(capacityData),
+    evidence: ({ capacityData }) => capacityData.utilization
+      .map((utilization, index) => ({
+        module: 'gz-finanzplanung',
+        field: 'umsatzplanung.umsatzstroeme',
+        month: index + 1,
+        value: utilization,
+      }))
+      .filter(evidence => evidence.value > 100),
+  },
+];
+
+// ============================================================================
+// Orchestration Function
+// ============================================================================
+
+/**
+ * Run all capacity validation checks
+ */
+export function validateCapacityCompliance(
+  finanzplanung: PartialFinanzplanungOutput | undefined,
+  unternehmen?: PartialUnternehmenOutput,
+  intake?: PartialIntakeOutput,
+  industry?: string
+): ValidationIssue[] {
+
+  const context: CapacityRuleContext = {
+    capacityData: extractCapacityData(finanzplanung, unternehmen, intake, industry),
+  };
+
+  return getRuleIssues(CAPACITY_VALIDATION_RULES.map(rule => runValidationRule(rule, context)));
+}
@@ -13,8 +13,13 @@
 
 import type {
   ValidationIssue,
+  ValidationEvidence,
+  ValidationRuleDefinition,
+  RuleContext,
   StructureValidationData,
 } from '../types';
+import { BA_VALIDATION_RULES } from '../types';
+import { getRuleIssues, runValidationRule } from '../rule-engine';
 import type { WorkshopSession } from '@/types/workshop-session';
 
 // ============================================================================
@@ -381,6 +386,52 @@ NICHT BLOCKIEREND - reine Empfehlung für besseren Eindruck.`,
   };
 }
 
+// ============================================================================
+// Rule Definitions
+// ============================================================================
+
+type StructureRuleContext = Pick<RuleContext, 'structureData'>;
+
+export const STRUCTURE_VALIDATION_RULES: ValidationRuleDefinition<StructureRuleContext>[] = [
+  {
+    ...BA_VALIDATION_RULES['required-sections-complete'],
+    weight: 20,
+    fixHint: 'Vervollständigen Sie alle Pflichtmodule',
+    check: ({ structureData }) => checkRequiredSectionsComplete(structureData),
+    evidence: ({ structureData }, issue): ValidationEvidence[] => [
+      ...(issue.detectedValues?.missingModules ?? []).map((moduleId: string) => ({
+        module: moduleId,
+        field: 'status',
+        value: 'unvollständig',
+      })),
+      ...(issue.detectedValues?.tooShortModules ?? []).map((moduleId: string) => ({
+        module: moduleId,
+        field: 'data',
+        value: structureData.moduleWordCounts[moduleId] ?? 0,
+      })),
+    ],
+  },
+  {
+    ...BA_VALIDATION_RULES['sources-documented'],
+    weight: 8,
+    fixHint: 'Belegen Sie Marktdaten und Annahmen mit Quellen',
+    check: ({ structureData }) => checkSourcesDocumented(structureData),
+    // Sources belong to the market analysis first
+    evidence: ({ structureData }) => [
+      { module: 'gz-markt-wettbewerb', field: 'marktanalyse', value: structureData.citationCount },
+    ],
+  },
+  {
+    ...BA_VALIDATION_RULES['document-structure'],
+    weight: 1,
+    fixHint: 'Fügen Sie Titelseite, Inhaltsverzeichnis und Executive Summary hinzu',
+    check: ({ structureData }) => checkDocumentStructure(structureData),
+    evidence: (_context, issue) => [
+      { module: 'gz-zusammenfassung', field: 'executiveSummary', value: (issue.detectedValues?.missingElements ?? []).join(', ') },
+    ],
+  },
+];
+
 // ============================================================================
 // Orchestration Function
 // ============================================================================
@@ -392,19 +443,7 @@ export function validateStructureCompliance(
   workshopSession: WorkshopSession | undefined
 ): ValidationIssue[] {
 
-  const structureData = extractStructureData(workshopSession);
-  const issues: ValidationIssue[] = [];
+  const context: StructureRuleContext = { structureData: extractStructureData(workshopSession) };
 
-  // CRITICAL CHECK (blocker)
-  const sectionsIssue = checkRequiredSectionsComplete(structureData);
-  if (sectionsIssue) issues.push(sectionsIssue);
-
-  // WARNING CHECKS
-  const sourcesIssue = checkSourcesDocumented(structureData);
-  if (sourcesIssue) issues.push(sourcesIssue);
-
-  const structureIssue = checkDocumentStructure(structureData);
-  if (structureIssue) issues.push(structureIssue);
-
-  return issues;
-}
\ No newline at end of file
+  return getRuleIssues(STRUCTURE_VALIDATION_RULES.map(rule => runValidationRule(rule, context)));
+}
@@ -5,22 +5,31 @@
  * inconsistencies that could undermine business plan credibility.
  *
  * Key checks:
- * - Target audience alignment between Geschäftsidee and Marketing
- * - Price consistency between solution concepts and financial planning
- * - Personnel capacity vs revenue targets alignment
+ * - Prices named in the USP (Geschäftsmodell) vs financial planning
+ * - Team capacity (Unternehmen) vs revenue targets alignment
  * - Timeline alignment between Meilensteine and Finanzplanung
- * - Cost completeness between Organisation and Kapitalbedarf
+ * - Planned employees and outsourcing (Unternehmen) covered by the Kostenplanung
+ * - Declared facts shared by the modules (see ./fact-graph and
+ *   ./fact-registry): prices, target audience, team size, launch date,
+ *   Rechtsform, marketing budget, key figures, milestone costs
  *
  * Integration: Called after significant module updates and before export
  */
 
 import Decimal from 'decimal.js';
 import type { WorkshopSession } from '@/types/workshop-session';
-import type { PartialGeschaeftsideeOutput } from '@/types/modules/geschaeftsidee';
-import type { PartialMarketingOutput } from '@/types/modules/marketing';
+import type { PartialGeschaeftsmodellOutput } from '@/types/modules/geschaeftsmodell';
 import type { PartialFinanzplanungOutput } from '@/types/modules/finanzplanung';
-import type { PartialOrganisationOutput } from '@/types/modules/organisation';
+import type { PartialUnternehmenOutput } from '@/types/modules/unternehmen';
 import type { PartialMeilensteineOutput } from '@/types/modules/meilensteine';
+import type { ValidationEvidence } from './types';
+import { createFieldPointer } from './field-pointer';
+import {
+  detectFactInconsistencies,
+  extractTargetAudienceKeywords,
+  calculateKeywordSimilarity,
+} from './fact-graph';
+import { getFacts, getFactRelations } from './fact-registry';
 
 // ============================================================================
 // Types and Interfaces
@@ -28,13 +37,14 @@ import type { PartialMeilensteineOutput } from '@/types/modules/meilensteine';
 
 export interface Inconsistency {
   id: string;
-  type: 'target_audience' | 'pricing' | 'capacity' | 'timeline' | 'costs';
+  type: 'target_audience' | 'pricing' | 'capacity' | 'timeline' | 'costs' | 'team' | 'legal_form' | 'key_figures';
   severity: 'critical' | 'high' | 'medium' | 'low';
   modules: string[];                    // Which modules are involved
   description: string;                  // What the inconsistency is
   impact: string;                       // Why this matters for BA compliance
   detectedValues: Record<string, any>;  // The conflicting values
   suggestions: string[];                // How to resolve it
+  evidence?: ValidationEvidence[];      // Conflicting fields ("jump to fix" targets)
 }
 
 export interface ConsistencyCheckResult {
@@ -61,21 +71,10 @@ const TOLERANCE_THRESHOLDS = {
   priceVariation: 0.2,          // ±20% price variation acceptable
   capacityUtilization: 0.85,    // 85% max utilization realistic
   timelineSlack: 30,            // 30 days timeline tolerance
-  costCompleteness: 0.8,        // 80% cost coverage expected
 };
 
-// Critical keywords for target audience matching
-const TARGET_AUDIENCE_KEYWORDS = {
-  // Demographic markers
-  age: ['jung', 'alt', 'teen', 'senior', 'erwachsen', 'kindern'],
-  income: ['gutverdiener', 'einkommensstark', 'budget', 'premium', 'luxus'],
-  profession: ['unternehmer', 'manager', 'entwickler', 'berater', 'student'],
-  business: ['startup', 'mittelstand', 'konzern', 'kleinbetrieb', 'freiberufler'],
-  // Geographic markers
-  location: ['lokal', 'regional', 'deutschland', 'europa', 'international', 'berlin', 'münchen'],
-  // Behavioral markers
-  behavior: ['digital', 'traditional', 'innovativ', 'konservativ', 'early adopter'],
-};
+// Planned employees count as full-time capacity
+const VOLLZEIT_STUNDEN_PRO_WOCHE = 40;
 
 // ============================================================================
 // Main Functions
@@ -88,25 +87,19 @@ export function detectInconsistencies(workshopState: WorkshopSession): Inconsist
   const inconsistencies: Inconsistency[] = [];
 
   // Extract module data
-  const geschaeftsidee = workshopState.modules['gz-geschaeftsidee']?.data as PartialGeschaeftsideeOutput;
-  const marketing = workshopState.modules['gz-marketing']?.data as PartialMarketingOutput;
+  const geschaeftsmodell = workshopState.modules['gz-geschaeftsmodell']?.data as PartialGeschaeftsmodellOutput;
   const finanzplanung = workshopState.modules['gz-finanzplanung']?.data as PartialFinanzplanungOutput;
-  const organisation = workshopState.modules['gz-organisation']?.data as PartialOrganisationOutput;
+  const unternehmen = workshopState.modules['gz-unternehmen']?.data as PartialUnternehmenOutput;
   const meilensteine = workshopState.modules['gz-meilensteine']?.data as PartialMeilensteineOutput;
 
   // Only run checks where we have sufficient data
-  if (geschaeftsidee && marketing) {
-    const audienceInconsistencies = checkTargetAudienceAlignment(geschaeftsidee, marketing);
-    inconsistencies.push(...audienceInconsistencies);
-  }
-
-  if (geschaeftsidee && finanzplanung) {
-    const pricingInconsistencies = checkPricingConsistency(geschaeftsidee, finanzplanung);
+  if (geschaeftsmodell && finanzplanung) {
+    const pricingInconsistencies = checkPricingConsistency(geschaeftsmodell, finanzplanung);
     inconsistencies.push(...pricingInconsistencies);
   }
 
-  if (organisation && finanzplanung) {
-    const capacityInconsistencies = checkPersonnelCapacityAlignment(organisation, finanzplanung);
+  if (unternehmen && finanzplanung) {
+    const capacityInconsistencies = checkPersonnelCapacityAlignment(unternehmen, finanzplanung);
     inconsistencies.push(...capacityInconsistencies);
   }
 
@@ -115,11 +108,14 @@ export function detectInconsistencies(workshopState: WorkshopSession): Inconsist
     inconsistencies.push(...timelineInconsistencies);
   }
 
-  if (organisation && finanzplanung) {
-    const costInconsistencies = checkOrganisationCostsCompleteness(organisation, finanzplanung);
+  if (unternehmen && finanzplanung) {
+    const costInconsistencies = checkOrganisationCostsCompleteness(unternehmen, finanzplanung);
     inconsistencies.push(...costInconsistencies);
   }
 
+  // Declared facts shared between modules (incl. target audience)
+  inconsistencies.push(...detectFactInconsistencies(workshopState, getFacts(), getFactRelations()));
+
   return inconsistencies.sort((a, b) => {
     const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
     return severityOrder[a.severity] - severityOrder[b.severity];
@@ -136,6 +132,9 @@ export function getCorrectionPrompt(inconsistency: Inconsistency): string {
     capacity: `Es gibt einen Widerspruch zwischen deinen Kapazitäten und Umsatzzielen. ${inconsistency.description} Wie können wir das realistisch auflösen?`,
     timeline: `Die Zeitpläne zwischen Meilensteinen und Finanzplanung passen nicht zusammen. ${inconsistency.description} Welcher Zeitplan ist realistischer?`,
     costs: `In der Kostenplanung fehlen Posten, die du in der Organisation erwähnt hast. ${inconsistency.description} Sollten wir diese Kosten ergänzen?`,
+    team: `Die Teamgröße ist in Unternehmen und Personalplanung unterschiedlich. ${inconsistency.description} Mit wie vielen Mitarbeitenden planst du wirklich?`,
+    legal_form: `Du hast in den Modulen unterschiedliche Rechtsformen angegeben. ${inconsistency.description} Für welche Rechtsform hast du dich entschieden?`,
+    key_figures: `Die Kennzahlen in der Zusammenfassung stimmen nicht mit der Finanzplanung überein. ${inconsistency.description} Sollen wir die Zusammenfassung aktualisieren?`,
   };
 
   const basePrompt = basePrompts[inconsistency.type];
@@ -180,64 +179,16 @@ export function assessOverallConsistency(inconsistencies: Inconsistency[]): Cons
 // ============================================================================
 
 /**
- * Check 1: Target audience alignment between Geschäftsidee and Marketing
- */
-function checkTargetAudienceAlignment(
-  geschaeftsidee: PartialGeschaeftsideeOutput,
-  marketing: PartialMarketingOutput
-): Inconsistency[] {
-  const inconsistencies: Inconsistency[] = [];
-
-  const ideaTargetAudience = geschaeftsidee.targetAudience?.primaryGroup;
-  const marketingTargetAudience = marketing.strategie?.targetAudienceReach;
-
-  if (!ideaTargetAudience || !marketingTargetAudience) {
-    return inconsistencies; // Can't check if data missing
-  }
-
-  // Extract keywords from both descriptions
-  const ideaKeywords = extractTargetAudienceKeywords(ideaTargetAudience);
-  const marketingKeywords = extractTargetAudienceKeywords(marketingTargetAudience);
-
-  // Calculate similarity score
-  const similarity = calculateKeywordSimilarity(ideaKeywords, marketingKeywords);
-
-  // Flag if similarity is too low (less than 50% overlap)
-  if (similarity < 0.5) {
-    inconsistencies.push({
-      id: 'target_audience_mismatch',
-      type: 'target_audience',
-      severity: 'high',
-      modules: ['gz-geschaeftsidee', 'gz-marketing'],
-      description: `Zielgruppe in Geschäftsidee ("${ideaTargetAudience}") unterscheidet sich deutlich von Marketing-Zielgruppe ("${marketingTargetAudience}").`,
-      impact: 'Inkonsistente Zielgruppenansprache schwächt die Glaubwürdigkeit des Businessplans und verwirrt potentielle Investoren.',
-      detectedValues: {
-        geschaeftsidee_target: ideaTargetAudience,
-        marketing_target: marketingTargetAudience,
-        similarity_score: similarity,
-      },
-      suggestions: [
-        'Angleichung der Zielgruppenbeschreibung in beiden Modulen',
-        'Verfeinerung der Marketing-Strategie basierend auf der ursprünglichen Geschäftsidee',
-        'Überprüfung, ob sich die Zielgruppe während der Ausarbeitung entwickelt hat',
-      ],
-    });
-  }
-
-  return inconsistencies;
-}
-
-/**
- * Check 2: Price consistency between Geschäftsidee and Finanzplanung
+ * Check 1: Prices named in the Geschäftsmodell USP vs Finanzplanung
  */
 function checkPricingConsistency(
-  geschaeftsidee: PartialGeschaeftsideeOutput,
+  geschaeftsmodell: PartialGeschaeftsmodellOutput,
   finanzplanung: PartialFinanzplanungOutput
 ): Inconsistency[] {
   const inconsistencies: Inconsistency[] = [];
 
-  // Extract pricing hints from Geschäftsidee USP
-  const uspText = geschaeftsidee.usp?.proposition;
+  // Extract pricing hints from the USP statement
+  const uspText = geschaeftsmodell.usp?.statement;
   const revenueStreams = finanzplanung.umsatzplanung?.umsatzstroeme;
 
   if (!uspText || !revenueStreams || revenueStreams.length === 0) {
@@ -258,6 +209,7 @@ function checkPricingConsistency(
     // Check for major discrepancies
     for (const mention of pricingMentions) {
       const matchingStream = findMatchingRevenueStream(mention, actualPrices);
+      const streamIndex = matchingStream ? actualPrices.indexOf(matchingStream) : -1;
 
       if (matchingStream) {
         const priceDecimal = new Decimal(matchingStream.price);
@@ -270,7 +222,7 @@ function checkPricingConsistency(
             id: `pricing_mismatch_${matchingStream.service}`,
             type: 'pricing',
             severity: 'medium',
-            modules: ['gz-geschaeftsidee', 'gz-finanzplanung'],
+            modules: ['gz-geschaeftsmodell', 'gz-finanzplanung'],
             description: `Preis für "${matchingStream.service}" in USP (${formatEUR(mention.value)}) weicht stark von Finanzplanung (${formatEUR(matchingStream.price)}) ab.`,
             impact: 'Preisinkonsistenzen können Zweifel an der Sorgfalt der Planung aufkommen lassen.',
             detectedValues: {
@@ -278,6 +230,10 @@ function checkPricingConsistency(
               financial_price: matchingStream.price,
               difference_percent: Math.round(percentageDiff.toNumber() * 100),
             },
+            evidence: [
+              createFieldPointer('gz-geschaeftsmodell', 'usp.statement', { value: mention.value }),
+              createFieldPointer('gz-finanzplanung', `umsatzplanung.umsatzstroeme[${streamIndex}].preis`, { value: matchingStream.price }),
+            ],
             suggestions: [
               'Aktualisierung der USP-Beschreibung basierend auf finaler Preisgestaltung',
               'Überprüfung der Kalkulation in der Finanzplanung',
@@ -293,24 +249,22 @@ function checkPricingConsistency(
 }
 
 /**
- * Check 3: Personnel capacity vs revenue targets alignment
+ * Check 2: Team capacity (founders and planned employees) vs revenue targets
  */
 function checkPersonnelCapacityAlignment(
-  organisation: PartialOrganisationOutput,
+  unternehmen: PartialUnternehmenOutput,
   finanzplanung: PartialFinanzplanungOutput
 ): Inconsistency[] {
   const inconsistencies: Inconsistency[] = [];
 
-  const teamMembers = organisation.teamStruktur?.teamMembers;
-  const capacity = organisation.kapazitaeten?.currentCapacity;
   const revenueTargets = finanzplanung.umsatzplanung;
 
-  if (!teamMembers || !capacity || !revenueTargets) {
+  if (!unternehmen.gruendungsteam?.founders || !revenueTargets) {
     return inconsistencies;
   }
 
-  // Calculate total team capacity
-  const totalWeeklyHours = calculateTeamCapacity(teamMembers, capacity);
+  // Calculate total team capacity in the first year
+  const totalWeeklyHours = calculateTeamCapacity(unternehmen);
   const totalAnnualHours = totalWeeklyHours * 52;
 
   // Calculate required hours for revenue targets
@@ -327,7 +281,7 @@ function checkPersonnelCapacityAlignment(
         id: 'capacity_overload',
         type: 'capacity',
         severity,
-        modules: ['gz-organisation', 'gz-finanzplanung'],
+        modules: ['gz-unternehmen', 'gz-finanzplanung'],
         description: `Umsatzziele erfordern ${Math.round(utilizationRate * 100)}% Kapazitätsauslastung des Teams (${Math.round(requiredHours)} von ${Math.round(totalAnnualHours)} Stunden/Jahr).`,
         impact: utilizationRate > 1.0
           ? 'Mathematisch unmöglich - mehr Stunden erforderlich als verfügbar.'
@@ -338,6 +292,10 @@ function checkPersonnelCapacityAlignment(
           utilization_percent: Math.round(utilizationRate * 100),
           max_sustainable_percent: Math.round(TOLERANCE_THRESHOLDS.capacityUtilization * 100),
         },
+        evidence: [
+          createFieldPointer('gz-unternehmen', 'gruendungsteam.founders', { value: Math.round(totalAnnualHours) }),
+          createFieldPointer('gz-finanzplanung', 'umsatzplanung.umsatzstroeme', { value: Math.round(requiredHours) }),
+        ],
         suggestions: [
           'Reduzierung der Umsatzziele auf realistisches Niveau',
           'Erweiterung des Teams um zusätzliche Kapazitäten',
@@ -352,7 +310,7 @@ function checkPersonnelCapacityAlignment(
 }
 
 /**
- * Check 4: Timeline alignment between Meilensteine and Finanzplanung
+ * Check 3: Timeline alignment between Meilensteine and Finanzplanung
  */
 function checkTimelineAlignment(
   meilensteine: PartialMeilensteineOutput,
@@ -388,6 +346,10 @@ function checkTimelineAlignment(
           break_even_month: breakEvenMonth,
           gap_days: Math.round(timeGapDays - breakEvenGapDays),
         },
+        evidence: [
+          createFieldPointer('gz-meilensteine', 'gruendung.firstCustomerTarget', { value: firstCustomerDate }),
+          createFieldPointer('gz-finanzplanung', 'rentabilitaet.breakEvenMonat', { month: breakEvenMonth, value: breakEvenMonth }),
+        ],
         suggestions: [
           'Beschleunigung der Kundenakquise vor dem Launch',
           'Anpassung der Break-Even-Kalkulation an realistische Kundengewinnungszeit',
@@ -401,81 +363,59 @@ function checkTimelineAlignment(
 }
 
 /**
- * Check 5: Organisation costs coverage in Kapitalbedarf
+ * Check 4: Planned employees and outsourcing covered by the Kostenplanung
  */
 function checkOrganisationCostsCompleteness(
-  organisation: PartialOrganisationOutput,
+  unternehmen: PartialUnternehmenOutput,
   finanzplanung: PartialFinanzplanungOutput
 ): Inconsistency[] {
   const inconsistencies: Inconsistency[] = [];
 
-  const teamMembers = organisation.teamStruktur?.teamMembers;
-  const outsourcingDecisions = organisation.outsourcing;
-  const kapitalbedarf = finanzplanung.kapitalbedarf;
+  const organisation = unternehmen.organisation;
   const kostenplanung = finanzplanung.kostenplanung;
 
-  if (!teamMembers || !kapitalbedarf || !kostenplanung) {
+  if (!organisation || !kostenplanung) {
     return inconsistencies;
   }
 
   const missingCosts: string[] = [];
-
-  // Check if team member salaries are reflected in costs
-  const teamWithSalaries = teamMembers.filter(member =>
-    member.salary && member.salary > 0 && member.role !== 'founder'
-  );
-
-  if (teamWithSalaries.length > 0) {
-    const totalMonthlySalaries = teamWithSalaries.reduce((sum, member) =>
-      sum + (member.salary || 0), 0
-    );
-
-    // Check if personnel costs in Kostenplanung cover this
-    const personnelCosts = kostenplanung.fixkosten?.filter(cost =>
-      cost.kategorie === 'personal'
-    ) || [];
-
-    const totalPersonnelCosts = personnelCosts.reduce((sum, cost) =>
-      sum + cost.betragMonatlich, 0
+  const evidence: ValidationEvidence[] = [];
+
+  // Employees planned for year 1 need personnel costs
+  const plannedEmployees = organisation.plannedEmployees?.year1 ?? 0;
+  const personnelCosts = (kostenplanung.fixkosten || []).filter(cost => cost.kategorie === 'personal');
+  const hasPersonalplanung = (kostenplanung.personalplanung || []).length > 0;
+
+  if (plannedEmployees > 0 && personnelCosts.length === 0 && !hasPersonalplanung) {
+    missingCosts.push(`Personalkosten fehlen: ${plannedEmployees} Mitarbeitende im ersten Jahr geplant, aber keine Personalkosten in der Finanzplanung`);
+    evidence.push(
+      createFieldPointer('gz-unternehmen', 'organisation.plannedEmployees.year1', { value: plannedEmployees }),
+      createFieldPointer('gz-finanzplanung', 'kostenplanung.fixkosten', { value: 0 })
     );
-
-    const costDecimal = new Decimal(totalPersonnelCosts);
-    const salaryDecimal = new Decimal(totalMonthlySalaries);
-    const coverage = totalPersonnelCosts > 0 ? costDecimal.dividedBy(salaryDecimal) : new Decimal(0);
-
-    if (coverage.toNumber() < TOLERANCE_THRESHOLDS.costCompleteness) {
-      missingCosts.push(`Personalkosten unterrepräsentiert: Geplant ${formatEUR(totalPersonnelCosts)}/Monat, aber ${formatEUR(totalMonthlySalaries)}/Monat in Organisation definiert`);
-    }
   }
 
-  // Check outsourcing decisions vs costs
-  const outsourcedActivities = outsourcingDecisions?.filter(decision =>
-    decision.decision === 'outsource' && decision.estimatedCost && decision.estimatedCost > 0
-  ) || [];
+  // Outsourced activities need a cost item for the external provider
+  const outsourcedActivities = (organisation.outsourcingPlanned || []).filter(
+    (activity): activity is string => Boolean(activity?.trim())
+  );
 
   if (outsourcedActivities.length > 0) {
-    const totalOutsourcingCosts = outsourcedActivities.reduce((sum, activity) =>
-      sum + (activity.estimatedCost || 0), 0
-    );
-
-    // Check if this is reflected in variable or fixed costs
-    const allCosts = [
+    const costNames = [
       ...(kostenplanung.fixkosten || []),
-      ...(kostenplanung.variableKosten || [])
-    ];
-
-    const outsourcingCostItems = allCosts.filter(cost =>
-      cost.name.toLowerCase().includes('outsourcing') ||
-      cost.name.toLowerCase().includes('extern') ||
-      cost.name.toLowerCase().includes('dienstleister')
-    );
+      ...(kostenplanung.variableKosten || []),
+    ].map(cost => (cost.name || '').toLowerCase());
 
-    const totalOutsourcingInPlan = outsourcingCostItems.reduce((sum, cost) =>
-      sum + cost.betragMonatlich, 0
+    const hasOutsourcingCosts = costNames.some(name =>
+      ['outsourcing', 'extern', 'dienstleister'].some(keyword => name.includes(keyword)) ||
+      outsourcedActivities.some(activity => name.includes(activity.toLowerCase()))
     );
 
-    if (totalOutsourcingInPlan < totalOutsourcingCosts * 0.8) {
-      missingCosts.push(`Outsourcing-Kosten fehlen: ${formatEUR(totalOutsourcingCosts)}/Monat geplant, aber nur ${formatEUR(totalOutsourcingInPlan)}/Monat budgetiert`);
+    if (!hasOutsourcingCosts) {
+      missingCosts.push(`Outsourcing-Kosten fehlen: ${outsourcedActivities.join(', ')} ausgelagert, aber keine Kosten für externe Dienstleister budgetiert`);
+      evidence.push(
+        createFieldPointer('gz-unternehmen', 'organisation.outsourcingPlanned', { value: outsourcedActivities.join(', ') }),
+        createFieldPointer('gz-finanzplanung', 'kostenplanung.variableKosten')
+      );
     }
   }
 
@@ -484,12 +424,13 @@ function checkOrganisationCostsCompleteness(
       id: 'missing_organisation_costs',
       type: 'costs',
       severity: 'high',
-      modules: ['gz-organisation', 'gz-finanzplanung'],
+      modules: ['gz-unternehmen', 'gz-finanzplanung'],
       description: `Kosten aus der Organisationsplanung sind nicht vollständig in der Finanzplanung erfasst.`,
       impact: 'Unvollständige Kostenerfassung führt zu unrealistischen Gewinnprognosen und Liquiditätsproblemen.',
       detectedValues: {
         missing_cost_details: missingCosts,
       },
+      evidence,
       suggestions: [
         'Ergänzung der fehlenden Kostenpositionen in der Finanzplanung',
         'Überprüfung aller Organisationskosten auf Vollständigkeit',
@@ -505,40 +446,6 @@ function checkOrganisationCostsCompleteness(
 // Helper Functions
 // ============================================================================
 
-/**
- * Extract target audience keywords for similarity matching
- */
-function extractTargetAudienceKeywords(text: string): string[] {
-  const lowerText = text.toLowerCase();
-  const keywords: string[] = [];
-
-  // Check each category for keyword matches
-  Object.values(TARGET_AUDIENCE_KEYWORDS).forEach(categoryKeywords => {
-    categoryKeywords.forEach(keyword => {
-      if (lowerText.includes(keyword)) {
-        keywords.push(keyword);
-      }
-    });
-  });
-
-  return [...new Set(keywords)]; // Remove duplicates
-}
-
-/**
- * Calculate similarity between two keyword arrays
- */
-function calculateKeywordSimilarity(keywords1: string[], keywords2: string[]): number {
-  if (keywords1.length === 0 && keywords2.length === 0) return 1.0;
-  if (keywords1.length === 0 || keywords2.length === 0) return 0.0;
-
-  const set1 = new Set(keywords1);
-  const set2 = new Set(keywords2);
-  const intersection = new Set([...set1].filter(x => set2.has(x)));
-  const union = new Set([...set1, ...set2]);
-
-  return intersection.size / union.size;
-}
-
 /**
  * Extract pricing mentions from USP text
  */
@@ -591,32 +498,14 @@ function findMatchingRevenueStream(
 }
 
 /**
- * Calculate total team capacity in hours per week
+ * Calculate total team capacity in hours per week (first year)
  */
-function calculateTeamCapacity(
-  teamMembers: Array<{ workingTime?: string; role?: string }>,
-  capacity: { hoursPerWeek?: number }
-): number {
-  // Default hours per working time model
-  const workingTimeHours: Record<string, number> = {
-    'fulltime': 40,
-    'parttime_30': 30,
-    'parttime_20': 20,
-    'parttime_10': 10,
-    'project_based': 20, // Assume average
-    'on_demand': 15,     // Assume average
-  };
-
-  let totalHours = capacity.hoursPerWeek || 0;
+function calculateTeamCapacity(unternehmen: PartialUnternehmenOutput): number {
+  const founderHours = (unternehmen.gruendungsteam?.founders || [])
+    .reduce((sum, founder) => sum + (founder?.workingHours || 0), 0);
+  const employeeHours = (unternehmen.organisation?.plannedEmployees?.year1 || 0) * VOLLZEIT_STUNDEN_PRO_WOCHE;
 
-  // Add team member hours
-  teamMembers.forEach(member => {
-    if (member.workingTime && member.role !== 'founder') {
-      totalHours += workingTimeHours[member.workingTime] || 20;
-    }
-  });
-
-  return totalHours;
+  return founderHours + employeeHours;
 }
 
 /**
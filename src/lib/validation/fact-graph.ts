@@ -0,0 +1,361 @@
+/**
+ * Fact Graph for Cross-Module Consistency (GZ-802)
+ *
+ * Every fact the founder enters in more than one module (prices, target
+ * audience, team size, launch date, Rechtsform, budgets, key figures) becomes
+ * a node per module. Nodes of the same fact are compared with the fact's
+ * comparison rule, and declared relations compare different facts (e.g.
+ * milestone costs must fit into the Kapitalbedarf). The facts themselves are
+ * declared in ./fact-registry, so a new check needs no comparison code.
+ *
+ * Includes:
+ * - Fact graph extraction from canonical module data
+ * - Comparison by kind (amount, count, category, date, text)
+ * - Relations between different facts
+ * - Target audience keyword similarity
+ */
+
+import Decimal from 'decimal.js';
+import type { WorkshopSession } from '@/types/workshop-session';
+import type { ModuleDataMap, ModuleId } from '@/types/modules';
+import type { Inconsistency } from './cross-module-validator';
+import { createFieldPointer } from './field-pointer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FactKind = 'amount' | 'count' | 'category' | 'date' | 'text';
+
+export type FactValue = number | string;
+
+/**
+ * One value of a fact as found in a module
+ */
+export interface FactEntry {
+  field: string;                        // JSON path in module data
+  value: FactValue;
+  key?: string;                         // Qualifier within the fact, e.g. product name or 'Jahr 1'
+}
+
+/**
+ * Where a fact is entered: module, label and how to read it
+ */
+export interface FactSourceDefinition<M extends ModuleId = ModuleId> {
+  id: string;                           // Unique source ID, e.g. 'marketing.preise'
+  module: M;
+  label: string;                        // Shown in descriptions, e.g. 'Marketing'
+  extract(data: ModuleDataMap[M]): FactEntry[];
+}
+
+/**
+ * A fact that appears in several modules
+ *
+ * The first source is where the fact is defined; values from every other
+ * source are compared against it.
+ */
+export interface FactDefinition {
+  id: string;                           // e.g. 'price'
+  label: string;                        // e.g. 'Preis'
+  kind: FactKind;
+  type: Inconsistency['type'];
+  severity: Inconsistency['severity'];
+  tolerance?: number;                   // amount: relative, count: absolute, date: days, text: min. similarity
+  impact: string;
+  suggestions: string[];
+  sources: FactSourceDefinition[];
+}
+
+/**
+ * Relation between two different facts: left must not exceed right
+ */
+export interface FactRelationDefinition {
+  id: string;
+  label: string;                        // e.g. 'Meilensteinkosten und Kapitalbedarf'
+  left: string;                         // Fact ID
+  right: string;                        // Fact ID
+  tolerance?: number;                   // Relative headroom above right
+  type: Inconsistency['type'];
+  severity: Inconsistency['severity'];
+  impact: string;
+  suggestions: string[];
+}
+
+export interface FactNode extends FactEntry {
+  fact: string;
+  source: string;
+  module: ModuleId;
+  label: string;
+}
+
+// Fact ID → nodes in source order
+export type FactGraph = Map<string, FactNode[]>;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_TOLERANCES: Record<FactKind, number> = {
+  amount: 0.1,      // ±10% deviation
+  count: 0,         // Exact match
+  category: 0,      // Exact match
+  date: 30,         // 30 days
+  text: 0.5,        // 50% keyword overlap
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Critical keywords for target audience matching
+const TARGET_AUDIENCE_KEYWORDS = {
+  // Demographic markers
+  age: ['jung', 'alt', 'teen', 'senior', 'erwachsen', 'kindern'],
+  income: ['gutverdiener', 'einkommensstark', 'budget', 'premium', 'luxus'],
+  profession: ['unternehmer', 'manager', 'entwickler', 'berater', 'student'],
+  business: ['startup', 'mittelstand', 'konzern', 'kleinbetrieb', 'freiberufler'],
+  // Geographic markers
+  location: ['lokal', 'regional', 'deutschland', 'europa', 'international', 'berlin', 'münchen'],
+  // Behavioral markers
+  behavior: ['digital', 'traditional', 'innovativ', 'konservativ', 'early adopter'],
+};
+
+// ============================================================================
+// Graph Construction
+// ============================================================================
+
+/**
+ * Read every declared fact from the workshop's module data
+ */
+export function buildFactGraph(
+  workshopSession: WorkshopSession,
+  facts: FactDefinition[]
+): FactGraph {
+  const graph: FactGraph = new Map();
+
+  facts.forEach(fact => {
+    const nodes = fact.sources.flatMap(source => {
+      const data = workshopSession.modules?.[source.module]?.data;
+      if (!data) {
+        return [];
+      }
+      return source.extract(data).map(entry => ({
+        ...entry,
+        fact: fact.id,
+        source: source.id,
+        module: source.module,
+        label: source.label,
+      }));
+    });
+    graph.set(fact.id, nodes);
+  });
+
+  return graph;
+}
+
+// ============================================================================
+// Consistency Checks
+// ============================================================================
+
+/**
+ * Compare all facts and relations of the graph
+ */
+export function detectFactInconsistencies(
+  workshopSession: WorkshopSession,
+  facts: FactDefinition[],
+  relations: FactRelationDefinition[] = []
+): Inconsistency[] {
+  const graph = buildFactGraph(workshopSession, facts);
+
+  const factInconsistencies = facts.flatMap(fact =>
+    groupByKey(graph.get(fact.id) ?? []).flatMap(([reference, ...others]) =>
+      others
+        .filter(node => node.source !== reference.source && !isConsistent(fact, reference, node))
+        .map(node => createFactInconsistency(fact, reference, node))
+    )
+  );
+
+  const relationInconsistencies = relations.flatMap(relation => {
+    const leftFact = facts.find(fact => fact.id === relation.left);
+    const [right] = graph.get(relation.right) ?? [];
+    if (!leftFact || !right) {
+      return [];
+    }
+    return (graph.get(relation.left) ?? [])
+      .filter(left => exceeds(left.value, right.value, relation.tolerance ?? 0))
+      .map(left => createRelationInconsistency(relation, leftFact.kind, left, right));
+  });
+
+  return [...factInconsistencies, ...relationInconsistencies];
+}
+
+/**
+ * Check whether two values of a fact agree within its tolerance
+ */
+export function isConsistent(fact: FactDefinition, a: FactNode, b: FactNode): boolean {
+  const tolerance = fact.tolerance ?? DEFAULT_TOLERANCES[fact.kind];
+
+  switch (fact.kind) {
+    case 'amount': {
+      if (typeof a.value !== 'number' || typeof b.value !== 'number') return true;
+      const larger = Decimal.max(Math.abs(a.value), Math.abs(b.value));
+      if (larger.isZero()) return true;
+      return new Decimal(a.value).minus(b.value).abs().dividedBy(larger).lessThanOrEqualTo(tolerance);
+    }
+    case 'count':
+      if (typeof a.value !== 'number' || typeof b.value !== 'number') return true;
+      return Math.abs(a.value - b.value) <= tolerance;
+    case 'category':
+      return normalize(String(a.value)) === normalize(String(b.value));
+    case 'date': {
+      const dateA = new Date(a.value).getTime();
+      const dateB = new Date(b.value).getTime();
+      if (Number.isNaN(dateA) || Number.isNaN(dateB)) return true;
+      return Math.abs(dateA - dateB) / MS_PER_DAY <= tolerance;
+    }
+    case 'text': {
+      const keywordsA = extractTargetAudienceKeywords(String(a.value));
+      const keywordsB = extractTargetAudienceKeywords(String(b.value));
+      // Without keywords on both sides there is nothing to compare
+      if (keywordsA.length === 0 || keywordsB.length === 0) return true;
+      return calculateKeywordSimilarity(keywordsA, keywordsB) >= tolerance;
+    }
+  }
+}
+
+// ============================================================================
+// Target Audience Keywords
+// ============================================================================
+
+/**
+ * Extract target audience keywords for similarity matching
+ */
+export function extractTargetAudienceKeywords(text: string): string[] {
+  const lowerText = text.toLowerCase();
+  const keywords: string[] = [];
+
+  // Check each category for keyword matches
+  Object.values(TARGET_AUDIENCE_KEYWORDS).forEach(categoryKeywords => {
+    categoryKeywords.forEach(keyword => {
+      if (lowerText.includes(keyword)) {
+        keywords.push(keyword);
+      }
+    });
+  });
+
+  return [...new Set(keywords)]; // Remove duplicates
+}
+
+/**
+ * Calculate similarity between two keyword arrays
+ */
+export function calculateKeywordSimilarity(keywords1: string[], keywords2: string[]): number {
+  if (keywords1.length === 0 && keywords2.length === 0) return 1.0;
+  if (keywords1.length === 0 || keywords2.length === 0) return 0.0;
+
+  const set1 = new Set(keywords1);
+  const set2 = new Set(keywords2);
+  const intersection = new Set([...set1].filter(x => set2.has(x)));
+  const union = new Set([...set1, ...set2]);
+
+  return intersection.size / union.size;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Group nodes by qualifier, keeping source order within each group
+ */
+function groupByKey(nodes: FactNode[]): Array<[FactNode, ...FactNode[]]> {
+  const groups = new Map<string, [FactNode, ...FactNode[]]>();
+  nodes.forEach(node => {
+    const key = normalize(node.key ?? '');
+    const group = groups.get(key);
+    if (group) {
+      group.push(node);
+    } else {
+      groups.set(key, [node]);
+    }
+  });
+  return [...groups.values()];
+}
+
+function exceeds(left: FactValue, right: FactValue, tolerance: number): boolean {
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    return false;
+  }
+  return new Decimal(left).greaterThan(new Decimal(right).times(1 + tolerance));
+}
+
+function createFactInconsistency(fact: FactDefinition, reference: FactNode, node: FactNode): Inconsistency {
+  const qualifier = reference.key ? ` (${reference.key})` : '';
+
+  return {
+    id: `fact_${fact.id}_${node.source}${reference.key ? `_${slugify(reference.key)}` : ''}`,
+    type: fact.type,
+    severity: fact.severity,
+    modules: [...new Set([reference.module, node.module])],
+    description: `${fact.label}${qualifier}: ${node.label} (${formatFactValue(fact.kind, node.value)}) ` +
+      `weicht von ${reference.label} (${formatFactValue(fact.kind, reference.value)}) ab.`,
+    impact: fact.impact,
+    detectedValues: {
+      [reference.source]: reference.value,
+      [node.source]: node.value,
+      ...(reference.key && { key: reference.key }),
+    },
+    suggestions: fact.suggestions,
+    evidence: [
+      createFieldPointer(reference.module, reference.field, { value: reference.value }),
+      createFieldPointer(node.module, node.field, { value: node.value }),
+    ],
+  };
+}
+
+function createRelationInconsistency(
+  relation: FactRelationDefinition,
+  kind: FactKind,
+  left: FactNode,
+  right: FactNode
+): Inconsistency {
+  return {
+    id: `relation_${relation.id}`,
+    type: relation.type,
+    severity: relation.severity,
+    modules: [...new Set([left.module, right.module])],
+    description: `${relation.label}: ${left.label} (${formatFactValue(kind, left.value)}) ` +
+      `übersteigt ${right.label} (${formatFactValue(kind, right.value)}).`,
+    impact: relation.impact,
+    detectedValues: {
+      [left.source]: left.value,
+      [right.source]: right.value,
+    },
+    suggestions: relation.suggestions,
+    evidence: [
+      createFieldPointer(left.module, left.field, { value: left.value }),
+      createFieldPointer(right.module, right.field, { value: right.value }),
+    ],
+  };
+}
+
+function formatFactValue(kind: FactKind, value: FactValue): string {
+  if (kind === 'amount' && typeof value === 'number') {
+    return new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(value);
+  }
+  if (kind === 'date') {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return String(value);
+    return new Intl.DateTimeFormat('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' }).format(date);
+  }
+  if (kind === 'text') {
+    return `„${value}"`;
+  }
+  return String(value);
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function slugify(value: string): string {
+  return normalize(value).replace(/[^a-z0-9äöüß]+/g, '_');
+}
@@ -0,0 +1,368 @@
+/**
+ * Cross-Module Fact Registry (GZ-802)
+ *
+ * Declares which facts appear in more than one module and where to read
+ * them. The consistency check compares whatever is registered here, so a
+ * new check only needs a fact definition and one registerFact call.
+ */
+
+import type { FactDefinition, FactEntry, FactRelationDefinition, FactSourceDefinition } from './fact-graph';
+import type { ModuleId } from '@/types/modules';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const facts = new Map<string, FactDefinition>();
+const relations = new Map<string, FactRelationDefinition>();
+
+/**
+ * Register a fact (fact IDs must be unique)
+ */
+export function registerFact(fact: FactDefinition): void {
+  if (facts.has(fact.id)) {
+    throw new Error(`Fact "${fact.id}" is already registered`);
+  }
+  facts.set(fact.id, fact);
+}
+
+/**
+ * Remove a registered fact
+ */
+export function unregisterFact(factId: string): boolean {
+  return facts.delete(factId);
+}
+
+/**
+ * Get all registered facts in registration order
+ */
+export function getFacts(): FactDefinition[] {
+  return [...facts.values()];
+}
+
+/**
+ * Register a relation between two facts (relation IDs must be unique)
+ */
+export function registerFactRelation(relation: FactRelationDefinition): void {
+  if (relations.has(relation.id)) {
+    throw new Error(`Fact relation "${relation.id}" is already registered`);
+  }
+  relations.set(relation.id, relation);
+}
+
+/**
+ * Remove a registered fact relation
+ */
+export function unregisterFactRelation(relationId: string): boolean {
+  return relations.delete(relationId);
+}
+
+/**
+ * Get all registered fact relations in registration order
+ */
+export function getFactRelations(): FactRelationDefinition[] {
+  return [...relations.values()];
+}
+
+// ============================================================================
+// Built-in Facts
+// ============================================================================
+
+const PLAN_YEARS = [1, 2, 3] as const;
+
+const PRICE_FACT: FactDefinition = {
+  id: 'price',
+  label: 'Preis',
+  kind: 'amount',
+  type: 'pricing',
+  severity: 'high',
+  tolerance: 0.2,
+  impact: 'Abweichende Preise machen die Umsatzplanung unglaubwürdig',
+  suggestions: [
+    'Preis im Marketing an die Umsatzplanung angleichen',
+    'Umsatzplanung mit dem kommunizierten Preis neu berechnen',
+  ],
+  sources: [
+    source('gz-finanzplanung', 'finanzplanung.umsatzstroeme', 'Finanzplanung', data =>
+      (data.umsatzplanung?.umsatzstroeme ?? []).flatMap((stream, index) =>
+        stream?.name && typeof stream.preis === 'number'
+          ? [{ field: `umsatzplanung.umsatzstroeme[${index}].preis`, value: stream.preis, key: stream.name }]
+          : []
+      )
+    ),
+    source('gz-marketing', 'marketing.preisgestaltung', 'Marketing', data =>
+      (data.preisgestaltung?.pricePoints ?? []).flatMap((pricePoint, index) =>
+        pricePoint?.productService && typeof pricePoint.price === 'number'
+          ? [{ field: `preisgestaltung.pricePoints[${index}].price`, value: pricePoint.price, key: pricePoint.productService }]
+          : []
+      )
+    ),
+  ],
+};
+
+const TARGET_AUDIENCE_FACT: FactDefinition = {
+  id: 'target_audience',
+  label: 'Zielgruppe',
+  kind: 'text',
+  type: 'target_audience',
+  severity: 'high',
+  impact: 'Unterschiedliche Zielgruppen schwächen die Glaubwürdigkeit des Businessplans',
+  suggestions: [
+    'Zielgruppe im Geschäftsmodell als Referenz verwenden',
+    'Alle Module auf dieselbe Zielgruppe ausrichten',
+  ],
+  sources: [
+    source('gz-geschaeftsmodell', 'geschaeftsmodell.persona', 'Geschäftsmodell', data => {
+      const persona = data.targetAudience?.primaryPersona;
+      const description = [
+        persona?.name,
+        persona?.demographics?.occupation,
+        persona?.demographics?.location,
+        persona?.firmographics?.industry,
+        persona?.firmographics?.companySize,
+      ].filter(Boolean).join(', ');
+      return text('targetAudience.primaryPersona', description);
+    }),
+    source('gz-intake', 'intake.zielgruppe', 'Intake', data =>
+      text('businessIdea.targetAudience', data.businessIdea?.targetAudience)
+    ),
+    source('gz-markt-wettbewerb', 'markt.zielmarkt', 'Markt & Wettbewerb', data =>
+      text('zielmarkt.primarySegment', data.zielmarkt?.primarySegment)
+    ),
+    source('gz-marketing', 'marketing.strategie', 'Marketing', data =>
+      text('strategie.targetAudienceReach', data.strategie?.targetAudienceReach)
+    ),
+    source('gz-zusammenfassung', 'zusammenfassung.zielgruppe', 'Zusammenfassung', data =>
+      text('executiveSummary.geschaeftsidee.zielgruppe', data.executiveSummary?.geschaeftsidee?.zielgruppe)
+    ),
+  ],
+};
+
+const TEAM_SIZE_FACT: FactDefinition = {
+  id: 'team_size',
+  label: 'Mitarbeiterzahl',
+  kind: 'count',
+  type: 'team',
+  severity: 'medium',
+  impact: 'Personalkosten in der Finanzplanung passen nicht zur geplanten Organisation',
+  suggestions: [
+    'Stellen in der Personalplanung ergänzen oder streichen',
+    'Geplante Mitarbeiterzahl in der Organisation anpassen',
+  ],
+  sources: [
+    source('gz-unternehmen', 'unternehmen.mitarbeiter', 'Unternehmen', data => {
+      const plannedEmployees = data.organisation?.plannedEmployees;
+      return PLAN_YEARS.flatMap(year => {
+        const count = plannedEmployees?.[`year${year}`];
+        return typeof count === 'number'
+          ? [{ field: `organisation.plannedEmployees.year${year}`, value: count, key: `Jahr ${year}` }]
+          : [];
+      });
+    }),
+    source('gz-finanzplanung', 'finanzplanung.personal', 'Personalplanung', data => {
+      const personalplanung = data.kostenplanung?.personalplanung;
+      if (!personalplanung) {
+        return [];
+      }
+      // Positions active in the last month of each plan year
+      return PLAN_YEARS.map(year => {
+        const month = year * 12;
+        const count = personalplanung.filter(stelle =>
+          (stelle?.startMonat ?? Infinity) <= month && (stelle?.endMonat ?? 36) >= month
+        ).length;
+        return { field: 'kostenplanung.personalplanung', value: count, key: `Jahr ${year}` };
+      });
+    }),
+  ],
+};
+
+const LAUNCH_DATE_FACT: FactDefinition = {
+  id: 'launch_date',
+  label: 'Gründungstermin',
+  kind: 'date',
+  type: 'timeline',
+  severity: 'medium',
+  impact: 'Der Zeitplan der Meilensteine muss zum geplanten Start passen',
+  suggestions: [
+    'Gründungstermin in den Meilensteinen aktualisieren',
+    'Geplanten Starttermin im Intake korrigieren',
+  ],
+  sources: [
+    source('gz-meilensteine', 'meilensteine.launch', 'Meilensteine', data =>
+      text('vorbereitung.launchDate', data.vorbereitung?.launchDate)
+    ),
+    source('gz-intake', 'intake.start', 'Intake', data =>
+      text('resources.time.plannedStartDate', data.resources?.time?.plannedStartDate)
+    ),
+  ],
+};
+
+const RECHTSFORM_FACT: FactDefinition = {
+  id: 'rechtsform',
+  label: 'Rechtsform',
+  kind: 'category',
+  type: 'legal_form',
+  severity: 'high',
+  impact: 'Die Steuerberechnung der Finanzplanung gilt nur für die dort hinterlegte Rechtsform',
+  suggestions: [
+    'Steuerprofil der Finanzplanung auf die gewählte Rechtsform umstellen',
+    'Rechtsform im Modul Unternehmen überprüfen',
+  ],
+  sources: [
+    source('gz-unternehmen', 'unternehmen.rechtsform', 'Unternehmen', data =>
+      text('rechtsform.form', data.rechtsform?.form)
+    ),
+    source('gz-finanzplanung', 'finanzplanung.steuerprofil', 'Finanzplanung', data => {
+      // steuerProfil is only part of the enhanced Finanzplanung output
+      const steuerProfil = (data as { steuerProfil?: { rechtsform?: string } }).steuerProfil;
+      return text('steuerProfil.rechtsform', steuerProfil?.rechtsform);
+    }),
+  ],
+};
+
+const MARKETING_BUDGET_FACT: FactDefinition = {
+  id: 'marketing_budget',
+  label: 'Marketingbudget (monatlich)',
+  kind: 'amount',
+  type: 'costs',
+  severity: 'medium',
+  impact: 'Marketingausgaben fehlen in der Kostenplanung oder sind falsch angesetzt',
+  suggestions: [
+    'Marketingbudget als Fixkosten in der Finanzplanung erfassen',
+    'Kanalbudgets an das Gesamtbudget anpassen',
+  ],
+  sources: [
+    source('gz-marketing', 'marketing.budget', 'Marketing-Gesamtbudget', data =>
+      amount('kanaele.totalMarketingBudget', data.kanaele?.totalMarketingBudget)
+    ),
+    source('gz-marketing', 'marketing.kanalbudgets', 'Summe der Kanalbudgets', data => {
+      const budgets = (data.kanaele?.channels ?? []).map(channel => channel?.budget);
+      return budgets.some(budget => typeof budget === 'number')
+        ? [{ field: 'kanaele.channels', value: sum(budgets) }]
+        : [];
+    }),
+    source('gz-finanzplanung', 'finanzplanung.marketingkosten', 'Marketingkosten der Finanzplanung', data => {
+      const fixkosten = data.kostenplanung?.fixkosten ?? [];
+      if (fixkosten.length === 0) {
+        return [];
+      }
+      const marketing = fixkosten.filter(kosten => kosten?.kategorie === 'marketing');
+      return [{ field: 'kostenplanung.fixkosten', value: sum(marketing.map(kosten => kosten?.betragMonatlich)) }];
+    }),
+  ],
+};
+
+const MILESTONE_COSTS_FACT: FactDefinition = {
+  id: 'milestone_costs',
+  label: 'Kosten bis zum Start',
+  kind: 'amount',
+  type: 'costs',
+  severity: 'high',
+  impact: 'Kosten bis zum Start müssen im Kapitalbedarf enthalten sein',
+  suggestions: ['Kapitalbedarf um die Meilensteinkosten erhöhen'],
+  sources: [
+    source('gz-meilensteine', 'meilensteine.kosten', 'Meilensteinkosten', data => {
+      const costs = [...(data.vorbereitung?.milestones ?? []), ...(data.gruendung?.milestones ?? [])]
+        .map(milestone => milestone?.estimatedCost);
+      return costs.some(cost => typeof cost === 'number')
+        ? [{ field: 'vorbereitung.milestones', value: sum(costs) }]
+        : [];
+    }),
+  ],
+};
+
+// Finanzplanung is the reference; the Zusammenfassung only repeats its figures
+const KEY_FIGURE_FACTS: FactDefinition[] = [
+  keyFigure('kapitalbedarf', 'Kapitalbedarf', 'amount',
+    data => amount('kapitalbedarf.gesamtkapitalbedarf', data.kapitalbedarf?.gesamtkapitalbedarf),
+    data => amount('executiveSummary.finanzen.kapitalbedarf', data.executiveSummary?.finanzen?.kapitalbedarf)
+  ),
+  keyFigure('umsatz_jahr1', 'Umsatz Jahr 1', 'amount',
+    data => amount('umsatzplanung.umsatzJahr1Summe', data.umsatzplanung?.umsatzJahr1Summe),
+    data => amount('executiveSummary.finanzen.umsatzJahr1', data.executiveSummary?.finanzen?.umsatzJahr1)
+  ),
+  keyFigure('umsatz_jahr3', 'Umsatz Jahr 3', 'amount',
+    data => amount('umsatzplanung.umsatzJahr3', data.umsatzplanung?.umsatzJahr3),
+    data => amount('executiveSummary.finanzen.umsatzJahr3', data.executiveSummary?.finanzen?.umsatzJahr3)
+  ),
+  keyFigure('gewinn_jahr3', 'Gewinn Jahr 3', 'amount',
+    data => amount('rentabilitaet.jahr3.jahresueberschuss', data.rentabilitaet?.jahr3?.jahresueberschuss),
+    data => amount('executiveSummary.finanzen.gewinnJahr3', data.executiveSummary?.finanzen?.gewinnJahr3)
+  ),
+  keyFigure('break_even', 'Break-Even-Monat', 'count',
+    data => amount('rentabilitaet.breakEvenMonat', data.rentabilitaet?.breakEvenMonat),
+    data => amount('executiveSummary.finanzen.breakEvenMonat', data.executiveSummary?.finanzen?.breakEvenMonat)
+  ),
+];
+
+[
+  PRICE_FACT,
+  TARGET_AUDIENCE_FACT,
+  TEAM_SIZE_FACT,
+  LAUNCH_DATE_FACT,
+  RECHTSFORM_FACT,
+  MARKETING_BUDGET_FACT,
+  MILESTONE_COSTS_FACT,
+  ...KEY_FIGURE_FACTS,
+].forEach(registerFact);
+
+registerFactRelation({
+  id: 'milestone_costs_kapitalbedarf',
+  label: 'Meilensteinkosten und Kapitalbedarf',
+  left: 'milestone_costs',
+  right: 'kapitalbedarf',
+  type: 'costs',
+  severity: 'high',
+  impact: 'Kosten bis zum Start müssen im Kapitalbedarf enthalten sein',
+  suggestions: [
+    'Kapitalbedarf um die Meilensteinkosten erhöhen',
+    'Meilensteinkosten überprüfen',
+  ],
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function source<M extends ModuleId>(
+  module: M,
+  id: string,
+  label: string,
+  extract: FactSourceDefinition<M>['extract']
+): FactSourceDefinition<M> {
+  return { id, module, label, extract };
+}
+
+function keyFigure(
+  id: string,
+  label: string,
+  kind: FactDefinition['kind'],
+  finanzplanung: FactSourceDefinition<'gz-finanzplanung'>['extract'],
+  zusammenfassung: FactSourceDefinition<'gz-zusammenfassung'>['extract']
+): FactDefinition {
+  return {
+    id,
+    label,
+    kind,
+    type: 'key_figures',
+    severity: 'medium',
+    impact: 'Die Zusammenfassung muss dieselben Zahlen wie die Finanzplanung nennen',
+    suggestions: ['Zusammenfassung nach der letzten Änderung der Finanzplanung neu erstellen'],
+    sources: [
+      source('gz-finanzplanung', `finanzplanung.${id}`, 'Finanzplanung', finanzplanung),
+      source('gz-zusammenfassung', `zusammenfassung.${id}`, 'Zusammenfassung', zusammenfassung),
+    ],
+  };
+}
+
+function text(field: string, value: string | undefined): FactEntry[] {
+  return value?.trim() ? [{ field, value }] : [];
+}
+
+function amount(field: string, value: number | undefined): FactEntry[] {
+  return typeof value === 'number' ? [{ field, value }] : [];
+}
+
+function sum(values: Array<number | undefined>): number {
+  return values.reduce<number>((total, value) => total + (value ?? 0), 0);
+}
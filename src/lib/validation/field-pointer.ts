@@ -0,0 +1,143 @@
+/**
+ * Field Pointers for Validation Issues (GZ-803)
+ *
+ * Resolves where an issue can be fixed: module, workshop phase, JSON path in
+ * the module data and planning month. The export dialog uses these pointers
+ * for "Beheben", which opens the module phase and highlights the field in
+ * the preview.
+ */
+
+import type { ValidationEvidence, ValidationIssue } from './types';
+import { isModuleId, type ModuleId } from '@/types/modules';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Data section (first path segment) → workshop phase that collects it
+export const MODULE_PHASES: Record<ModuleId, Record<string, string>> = {
+  'gz-intake': {
+    businessIdea: 'warmup',
+    founder: 'founder_profile',
+    personality: 'personality',
+    resources: 'resources',
+    businessType: 'business_type',
+    validation: 'validation',
+  },
+  'gz-geschaeftsmodell': {
+    offering: 'angebot',
+    targetAudience: 'zielgruppe',
+    valueProposition: 'wertversprechen',
+    usp: 'usp',
+  },
+  'gz-unternehmen': {
+    rechtsform: 'rechtsform',
+    gruendungsteam: 'gruendungsteam',
+    standort: 'standort',
+    organisation: 'organisation',
+  },
+  'gz-markt-wettbewerb': {
+    marktanalyse: 'marktanalyse',
+    zielmarkt: 'zielmarkt',
+    wettbewerbsanalyse: 'wettbewerber',
+    positionierung: 'positionierung',
+  },
+  'gz-marketing': {
+    strategie: 'strategie',
+    kanaele: 'kanaele',
+    preisgestaltung: 'preisgestaltung',
+    vertrieb: 'vertrieb',
+  },
+  'gz-finanzplanung': {
+    kapitalbedarf: 'kapitalbedarf',
+    finanzierung: 'finanzierung',
+    privatentnahme: 'privatentnahme',
+    umsatzplanung: 'umsatzplanung',
+    kostenplanung: 'kostenplanung',
+    rentabilitaet: 'rentabilitaet',
+    liquiditaet: 'liquiditaet',
+  },
+  'gz-swot': {
+    staerken: 'staerken',
+    schwaechen: 'schwaechen',
+    chancen: 'chancen',
+    risiken: 'risiken',
+    strategien: 'strategien',
+    balanceAssessment: 'intro',
+    consistencyCheck: 'validierung',
+  },
+  'gz-meilensteine': {
+    vorbereitung: 'vorbereitung',
+    gruendung: 'gruendung',
+    jahr1: 'jahr1',
+    jahr2_3: 'jahr2_3',
+  },
+  'gz-kpi': {
+    financial: 'financial',
+    customer: 'customer',
+    operational: 'operational',
+    dashboard: 'dashboard',
+  },
+  'gz-zusammenfassung': {
+    workshopJourney: 'review',
+    executiveSummary: 'summary',
+  },
+};
+
+// ============================================================================
+// Pointer Functions
+// ============================================================================
+
+/**
+ * Split a JSON path like 'liquiditaet.monate[4].endbestand' into its segments
+ */
+export function parseFieldPath(field: string): Array<string | number> {
+  return field
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(segment => segment.length > 0)
+    .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * Workshop phase that collects the data section of a field
+ */
+export function resolveFieldPhase(module: string, field: string): string | undefined {
+  const [section] = parseFieldPath(field);
+  return typeof section === 'string' && isModuleId(module) ? MODULE_PHASES[module][section] : undefined;
+}
+
+/**
+ * Create a pointer to a module field, with the phase resolved from the path
+ */
+export function createFieldPointer(
+  module: string,
+  field: string,
+  details: Pick<ValidationEvidence, 'month' | 'value'> = {}
+): ValidationEvidence {
+  return withFieldPhase({ module, field, ...details });
+}
+
+/**
+ * Add the phase to a pointer that does not name one yet
+ */
+export function withFieldPhase(evidence: ValidationEvidence): ValidationEvidence {
+  if (evidence.phase) {
+    return evidence;
+  }
+  const phase = resolveFieldPhase(evidence.module, evidence.field);
+  return phase ? { ...evidence, phase } : evidence;
+}
+
+/**
+ * Primary "jump to fix" target of an issue
+ *
+ * Falls back to the affected module when the issue names no field.
+ */
+export function getIssuePointer(issue: ValidationIssue): ValidationEvidence | undefined {
+  const [first] = issue.evidence ?? [];
+  if (first) {
+    return first;
+  }
+  return issue.affectedSection ? { module: issue.affectedSection, field: '' } : undefined;
+}
@@ -13,7 +13,10 @@
 
 import { validateBACompliance, generateValidationReport } from './ba-compliance-checker';
 import type { ValidationResult, ValidationIssue } from './types';
+import { createValidationSnapshot, saveValidationSnapshot } from './validation-history';
+import type { ValidationRunTrigger } from './validation-history';
 import type { WorkshopSession } from '@/types/workshop-session';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 // ============================================================================
 // Export Validation Types
@@ -228,25 +231,33 @@ function getStatusMessage(
 // ============================================================================
 
 /**
- * Record export validation attempt for auditing
+ * Record export validation run in the workshop's validation history
+ *
+ * Storing is best effort: a failed write is logged and never blocks the export.
  */
-export function recordExportValidation(
+export async function recordExportValidation(
+  supabase: SupabaseClient,
   workshopId: string,
-  result: ExportValidationResult
-): ExportReadinessCheck {
+  result: ExportValidationResult,
+  trigger: ValidationRunTrigger = 'export'
+): Promise<ExportReadinessCheck> {
   const record: ExportReadinessCheck = {
     timestamp: new Date().toISOString(),
     workshopId,
     result,
   };
 
-  // Log for auditing (in production, this might go to a database)
-  console.log('[Export-Audit] Validation recorded', {
-    workshopId,
-    canExport: result.canExport,
-    status: result.summary.status,
-    timestamp: record.timestamp,
-  });
+  try {
+    await saveValidationSnapshot(
+      supabase,
+      createValidationSnapshot(workshopId, result, trigger, record.timestamp)
+    );
+  } catch (error) {
+    console.error('[Export-Audit] Validation could not be recorded', {
+      workshopId,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
 
   return record;
 }
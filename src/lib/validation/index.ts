@@ -12,12 +12,21 @@ export * from './inline-validator';
 
 // Cross-module consistency checker (GZ-802)
 export * from './cross-module-validator';
+export * from './fact-graph';
+export * from './fact-registry';
 
 // BA compliance validation system (GZ-803)
 export * from './ba-compliance-checker';
 export * from './final-validator';
+export * from './validation-history';
+export * from './tragfaehigkeit-precheck';
 export * from './types';
 
 // Individual validation check modules
 export * from './checks/financial';
+export * from './checks/capacity';
 export * from './checks/structure';
+
+// BA validation rule engine and registry
+export * from './rule-engine';
+export * from './rule-registry';
@@ -498,6 +498,42 @@ export function detectOverutilization(
   return null;
 }
 
+/**
+ * Detect hourly rates below the calculated minimum or above the realistic ceiling
+ */
+export function detectHourlyRateMismatch(
+  hourlyRate: number,
+  businessType: string = 'default',
+  minimumRate?: number
+): InlineValidationPrompt | null {
+  if (!hourlyRate) return null;
+
+  const thresholds = BUSINESS_TYPE_THRESHOLDS[businessType] || BUSINESS_TYPE_THRESHOLDS.default;
+  const maxHourlyRate = thresholds?.maxHourlyRate || 200;
+
+  if (minimumRate && new Decimal(hourlyRate).lt(minimumRate)) {
+    return {
+      type: 'financial',
+      challenge: `Mit ${formatEUR(hourlyRate)}/Stunde liegst du unter deinem kalkulierten Mindeststundensatz von ${formatEUR(minimumRate)}. Wovon würdest du dann Urlaub, Krankheit, Steuern und deine Privatentnahme bezahlen? Was hält dich davon ab, mehr zu verlangen?`,
+      priority: 'high',
+      reason: `Hourly rate ${formatEUR(hourlyRate)} below calculated minimum of ${formatEUR(minimumRate)}`,
+      context: {} as ValidationContext,
+    };
+  }
+
+  if (hourlyRate > maxHourlyRate) {
+    return {
+      type: 'financial',
+      challenge: `${formatEUR(hourlyRate)}/Stunde liegt über dem, was für ${businessType} meist durchsetzbar ist (bis ca. ${formatEUR(maxHourlyRate)}). Welche Kunden zahlen diesen Satz, und womit begründest du ihn?`,
+      priority: 'medium',
+      reason: `Hourly rate ${formatEUR(hourlyRate)} exceeds realistic maximum of ${formatEUR(maxHourlyRate)} for ${businessType}`,
+      context: {} as ValidationContext,
+    };
+  }
+
+  return null;
+}
+
 /**
  * Detect missing essential costs
  */
@@ -756,6 +792,7 @@ export default {
   detectHockeyStickGrowth,
   detectSinglePersonOverload,
   detectOverutilization,
+  detectHourlyRateMismatch,
   detectMissingEssentials,
   detectUnrealisticLowCosts,
   detectScalingIgnorance,
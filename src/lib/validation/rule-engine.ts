@@ -0,0 +1,184 @@
+/**
+ * BA Validation Rule Engine (GZ-803)
+ *
+ * Runs declarative validation rules: each rule carries its own metadata,
+ * applicability (business type / Rechtsform), check, evidence and fix hint.
+ * The rules themselves live next to their checks in ./checks/*, the registry
+ * of all active rules in ./rule-registry.
+ *
+ * Includes:
+ * - Single rule execution with evidence and fix hint
+ * - Applicability by business type and Rechtsform
+ * - Per-workshop and per-advisor enablement
+ * - Weighted compliance score from rule weights
+ */
+
+import type {
+  RuleContext,
+  RuleResult,
+  ValidationIssue,
+  ValidationRuleConfig,
+  ValidationRuleDefinition,
+  ValidationSummary,
+} from './types';
+import { withFieldPhase } from './field-pointer';
+
+// ============================================================================
+// Rule Execution
+// ============================================================================
+
+/**
+ * Run a single rule and attach its evidence (with phase) and fix hint to the issue
+ */
+export function runValidationRule<TContext>(
+  rule: ValidationRuleDefinition<TContext>,
+  context: TContext
+): RuleResult {
+  const issue = rule.check(context);
+
+  if (!issue) {
+    return { passed: true, rule };
+  }
+
+  const evidence = (rule.evidence?.(context, issue) ?? []).map(withFieldPhase);
+
+  return {
+    passed: false,
+    rule,
+    issue: {
+      ...issue,
+      suggestedFix: issue.suggestedFix ?? rule.fixHint,
+      ...(evidence.length > 0 && { evidence }),
+    },
+  };
+}
+
+/**
+ * Run all enabled and applicable rules against the context
+ *
+ * Skipped rules are returned as passed with the reason, so callers can
+ * show which checks were not run for this workshop.
+ */
+export function runValidationRules(
+  rules: ValidationRuleDefinition[],
+  context: RuleContext,
+  config: ValidationRuleConfig = {}
+): RuleResult[] {
+  return rules.map(rule => {
+    if (!isRuleEnabled(rule, config)) {
+      return { passed: true, rule, skipped: 'disabled' };
+    }
+    if (!isRuleApplicable(rule, context)) {
+      return { passed: true, rule, skipped: 'not_applicable' };
+    }
+    return runValidationRule(rule, context);
+  });
+}
+
+/**
+ * Issues of all failed rules, in rule order
+ */
+export function getRuleIssues(results: RuleResult[]): ValidationIssue[] {
+  return results.flatMap(result => (result.issue ? [result.issue] : []));
+}
+
+// ============================================================================
+// Applicability and Configuration
+// ============================================================================
+
+/**
+ * Check whether a rule applies to the workshop's business type and Rechtsform
+ *
+ * A restricted rule does not apply while the restricting value is unknown.
+ */
+export function isRuleApplicable(
+  rule: ValidationRuleDefinition,
+  context: Pick<RuleContext, 'businessType' | 'rechtsform'>
+): boolean {
+  const { businessTypes, rechtsformen } = rule.appliesTo ?? {};
+
+  if (businessTypes && (!context.businessType || !businessTypes.includes(context.businessType))) {
+    return false;
+  }
+  if (rechtsformen && (!context.rechtsform || !rechtsformen.includes(context.rechtsform))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether a rule is enabled by the resolved configuration
+ */
+export function isRuleEnabled(
+  rule: ValidationRuleDefinition,
+  config: ValidationRuleConfig
+): boolean {
+  if (config.disabledRules?.includes(rule.id)) {
+    return false;
+  }
+  if (config.enabledRules?.includes(rule.id)) {
+    return true;
+  }
+  return rule.enabledByDefault !== false;
+}
+
+/**
+ * Merge rule configurations in order of precedence (e.g. advisor, then workshop)
+ *
+ * A later configuration overrides an earlier one for the same rule.
+ */
+export function resolveRuleConfig(
+  ...configs: Array<ValidationRuleConfig | undefined>
+): ValidationRuleConfig {
+  const enabled = new Set<string>();
+  const disabled = new Set<string>();
+
+  configs.forEach(config => {
+    config?.enabledRules?.forEach(ruleId => {
+      enabled.add(ruleId);
+      disabled.delete(ruleId);
+    });
+    config?.disabledRules?.forEach(ruleId => {
+      disabled.add(ruleId);
+      enabled.delete(ruleId);
+    });
+  });
+
+  return {
+    enabledRules: [...enabled],
+    disabledRules: [...disabled],
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Calculate validation summary and weighted compliance score (0-100)
+ *
+ * Skipped rules count neither as checks nor towards the score.
+ */
+export function calculateRuleSummary(results: RuleResult[]): ValidationSummary {
+  const executed = results.filter(result => !result.skipped);
+  const issues = getRuleIssues(executed);
+  const failedBlockers = issues.filter(issue => issue.severity === 'BLOCKER').length;
+
+  const totalWeight = executed.reduce((sum, result) => sum + getRuleWeight(result), 0);
+  const achievedWeight = executed
+    .filter(result => result.passed)
+    .reduce((sum, result) => sum + getRuleWeight(result), 0);
+
+  return {
+    totalChecks: executed.length,
+    passedChecks: executed.length - issues.length,
+    failedBlockers,
+    totalWarnings: issues.filter(issue => issue.severity === 'WARNING').length,
+    canExport: failedBlockers === 0,
+    overallScore: totalWeight > 0 ? Math.round((achievedWeight / totalWeight) * 100) : 100,
+  };
+}
+
+function getRuleWeight(result: RuleResult): number {
+  return result.rule.weight ?? result.rule.rejectionRate ?? 0;
+}
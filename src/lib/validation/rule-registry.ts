@@ -0,0 +1,86 @@
+/**
+ * BA Validation Rule Registry (GZ-803)
+ *
+ * Single place where every BA compliance rule is registered. The compliance
+ * checker runs whatever is registered here, so a new rule only needs a
+ * definition (see ./checks/*) and one registerValidationRule call.
+ */
+
+import type {
+  RuleContext,
+  ValidationRuleDefinition,
+} from './types';
+import type { WorkshopSession } from '@/types/workshop-session';
+import type { PartialFinanzplanungOutput } from '@/types/modules/finanzplanung';
+import type { PartialIntakeOutput } from '@/types/modules/intake';
+import type { PartialUnternehmenOutput } from '@/types/modules/unternehmen';
+import { FINANCIAL_VALIDATION_RULES, extractFinancialData } from './checks/financial';
+import { CAPACITY_VALIDATION_RULES, extractCapacityData } from './checks/capacity';
+import { STRUCTURE_VALIDATION_RULES, extractStructureData } from './checks/structure';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const registry = new Map<string, ValidationRuleDefinition>();
+
+/**
+ * Register a validation rule (rule IDs must be unique)
+ */
+export function registerValidationRule(rule: ValidationRuleDefinition): void {
+  if (registry.has(rule.id)) {
+    throw new Error(`Validation rule "${rule.id}" is already registered`);
+  }
+  registry.set(rule.id, rule);
+}
+
+/**
+ * Remove a registered validation rule
+ */
+export function unregisterValidationRule(ruleId: string): boolean {
+  return registry.delete(ruleId);
+}
+
+/**
+ * Get all registered rules in registration order
+ */
+export function getValidationRules(): ValidationRuleDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Get a registered rule by ID
+ */
+export function getValidationRule(ruleId: string): ValidationRuleDefinition | undefined {
+  return registry.get(ruleId);
+}
+
+// Built-in BA rules, in report order
+[
+  ...FINANCIAL_VALIDATION_RULES,
+  ...CAPACITY_VALIDATION_RULES,
+  ...STRUCTURE_VALIDATION_RULES,
+].forEach(registerValidationRule);
+
+// ============================================================================
+// Rule Context
+// ============================================================================
+
+/**
+ * Extract the rule context from a workshop session once per validation run
+ */
+export function createRuleContext(workshopSession: WorkshopSession): RuleContext {
+  const finanzplanung = workshopSession.modules?.['gz-finanzplanung']?.data as PartialFinanzplanungOutput | undefined;
+  const intake = workshopSession.modules?.['gz-intake']?.data as PartialIntakeOutput | undefined;
+  const unternehmen = workshopSession.modules?.['gz-unternehmen']?.data as PartialUnternehmenOutput | undefined;
+
+  return {
+    workshopSession,
+    finanzplanung,
+    businessType: workshopSession.businessType,
+    rechtsform: unternehmen?.rechtsform?.form,
+    financialData: extractFinancialData(finanzplanung),
+    capacityData: extractCapacityData(finanzplanung, unternehmen, intake),
+    structureData: extractStructureData(workshopSession),
+  };
+}
@@ -0,0 +1,477 @@
+/**
+ * Tragfähigkeits-Vorprüfung (GZ-803)
+ *
+ * Pre-checks the business plan against the criteria a fachkundige Stelle
+ * (IHK, HWK, Steuerberater) reviews before issuing the
+ * Tragfähigkeitsbescheinigung for the Gründungszuschuss (§ 93 Abs. 2 SGB III).
+ * The BA compliance rules check the plan itself; this report answers the
+ * questions of the Stellungnahme and quotes the module data behind each answer.
+ *
+ * Includes:
+ * - Six criteria with pass/fail and findings
+ * - Quoted evidence with pointers back into the modules
+ * - Cover letter to the fachkundige Stelle
+ */
+
+import Decimal from 'decimal.js';
+import type { ValidationEvidence } from './types';
+import { createFieldPointer } from './field-pointer';
+import type { WorkshopSession } from '@/types/workshop-session';
+import type { PartialIntakeOutput } from '@/types/modules/intake';
+import type { PartialMarktWettbewerbOutput } from '@/types/modules/markt-wettbewerb';
+import type { PartialFinanzplanungOutput } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TragfaehigkeitCriterionId =
+  | 'gruenderqualifikation'
+  | 'marktchancen'
+  | 'finanzierung_gesichert'
+  | 'rentabilitaet'
+  | 'liquiditaet'
+  | 'lebensunterhalt_gesichert';
+
+/**
+ * Module value quoted as evidence, with the pointer to where it is entered
+ */
+export interface TragfaehigkeitQuote extends ValidationEvidence {
+  label: string;
+  quote: string;
+}
+
+export interface TragfaehigkeitCriterion {
+  id: TragfaehigkeitCriterionId;
+  title: string;
+  question: string;     // Question of the Stellungnahme
+  passed: boolean;
+  findings: string[];   // Why the criterion passed or failed
+  evidence: TragfaehigkeitQuote[];
+}
+
+export interface TragfaehigkeitReport {
+  workshopId: string;
+  businessName: string;
+  founderName?: string;
+  generatedAt: string;  // ISO timestamp
+  passed: boolean;
+  passedCriteria: number;
+  criteria: TragfaehigkeitCriterion[];
+  coverLetter: string[]; // Paragraphs
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Years of industry experience that count as fachliche Eignung on their own
+const MIN_BRANCHENERFAHRUNG_JAHRE = 3;
+
+// The BA expects at least three named competitors
+const MIN_WETTBEWERBER = 3;
+
+const CRITERIA_TEXT: Record<TragfaehigkeitCriterionId, Pick<TragfaehigkeitCriterion, 'title' | 'question'>> = {
+  gruenderqualifikation: {
+    title: 'Gründerqualifikation',
+    question: 'Verfügt die Gründerperson über die fachliche und kaufmännische Eignung?',
+  },
+  marktchancen: {
+    title: 'Marktchancen',
+    question: 'Sind Zielmarkt, Wettbewerb und Positionierung nachvollziehbar dargestellt?',
+  },
+  finanzierung_gesichert: {
+    title: 'Finanzierung gesichert',
+    question: 'Ist der Kapitalbedarf durch gesicherte Mittel gedeckt?',
+  },
+  rentabilitaet: {
+    title: 'Rentabilität',
+    question: 'Erwirtschaftet das Unternehmen innerhalb von drei Jahren einen Gewinn?',
+  },
+  liquiditaet: {
+    title: 'Liquidität',
+    question: 'Bleibt das Unternehmen im Planungszeitraum jederzeit zahlungsfähig?',
+  },
+  lebensunterhalt_gesichert: {
+    title: 'Lebensunterhalt gesichert',
+    question: 'Trägt die Selbstständigkeit nach Auslaufen des Gründungszuschusses den Lebensunterhalt?',
+  },
+};
+
+const ANLAGEN = [
+  'Businessplan mit Gründerprofil und Geschäftsidee',
+  'Kapitalbedarfs- und Finanzierungsplan',
+  'Rentabilitätsvorschau (3 Jahre)',
+  'Liquiditätsplan (36 Monate)',
+  'Tabellarischer Lebenslauf',
+];
+
+// ============================================================================
+// Main Report Function
+// ============================================================================
+
+/**
+ * Generate the Tragfähigkeit pre-check report for a workshop
+ */
+export function generateTragfaehigkeitReport(
+  workshopSession: WorkshopSession,
+  generatedAt: Date = new Date()
+): TragfaehigkeitReport {
+  const intake = workshopSession.modules?.['gz-intake']?.data as PartialIntakeOutput | undefined;
+  const markt = workshopSession.modules?.['gz-markt-wettbewerb']?.data as PartialMarktWettbewerbOutput | undefined;
+  const finanzplanung = workshopSession.modules?.['gz-finanzplanung']?.data as PartialFinanzplanungOutput | undefined;
+
+  const criteria = [
+    checkGruenderqualifikation(intake),
+    checkMarktchancen(markt),
+    checkFinanzierungGesichert(finanzplanung),
+    checkRentabilitaet(finanzplanung),
+    checkLiquiditaet(finanzplanung),
+    checkLebensunterhalt(finanzplanung),
+  ];
+
+  const businessName = workshopSession.businessName || 'Gründungsvorhaben';
+  const founderName = intake?.founder?.name;
+
+  return {
+    workshopId: workshopSession.id,
+    businessName,
+    founderName,
+    generatedAt: generatedAt.toISOString(),
+    passed: criteria.every(criterion => criterion.passed),
+    passedCriteria: criteria.filter(criterion => criterion.passed).length,
+    criteria,
+    coverLetter: createCoverLetter(businessName, founderName),
+  };
+}
+
+// ============================================================================
+// Criteria
+// ============================================================================
+
+/**
+ * Gründerqualifikation: education plus industry experience, certifications or founding experience
+ */
+export function checkGruenderqualifikation(intake?: PartialIntakeOutput): TragfaehigkeitCriterion {
+  const experience = intake?.founder?.experience;
+  const qualifications = intake?.founder?.qualifications;
+  const evidence: TragfaehigkeitQuote[] = [];
+  const findings: string[] = [];
+
+  const education = qualifications?.education?.trim();
+  const years = experience?.yearsInIndustry ?? 0;
+  const certifications = qualifications?.certifications ?? [];
+  const roles = experience?.relevantRoles ?? [];
+
+  if (education) {
+    evidence.push(quote('gz-intake', 'founder.qualifications.education', 'Ausbildung', education));
+  } else {
+    findings.push('Keine Berufsausbildung oder kein Studium angegeben.');
+  }
+  if (experience?.yearsInIndustry !== undefined) {
+    evidence.push(quote('gz-intake', 'founder.experience.yearsInIndustry', 'Branchenerfahrung', `${years} Jahre`, years));
+  }
+  if (roles.length > 0) {
+    evidence.push(quote('gz-intake', 'founder.experience.relevantRoles', 'Relevante Positionen', roles.join(', ')));
+  }
+  if (certifications.length > 0) {
+    evidence.push(quote('gz-intake', 'founder.qualifications.certifications', 'Zertifikate', certifications.join(', ')));
+  }
+
+  const fachlich = years >= MIN_BRANCHENERFAHRUNG_JAHRE || certifications.length > 0 || experience?.previousFounder === true;
+  if (!fachlich) {
+    findings.push(
+      `Weniger als ${MIN_BRANCHENERFAHRUNG_JAHRE} Jahre Branchenerfahrung und keine Zertifikate oder Gründungserfahrung nachgewiesen.`
+    );
+  }
+
+  const passed = Boolean(education) && fachlich;
+  if (passed) {
+    findings.push('Fachliche Eignung durch Ausbildung und Berufserfahrung belegt.');
+  }
+
+  return createCriterion('gruenderqualifikation', passed, findings, evidence);
+}
+
+/**
+ * Marktchancen: quantified market, at least three competitors and a clear positioning
+ */
+export function checkMarktchancen(markt?: PartialMarktWettbewerbOutput): TragfaehigkeitCriterion {
+  const evidence: TragfaehigkeitQuote[] = [];
+  const findings: string[] = [];
+
+  const som = markt?.marktanalyse?.som?.value;
+  const competitors = markt?.wettbewerbsanalyse?.competitors ?? [];
+  const positionStatement = markt?.positionierung?.positionStatement?.trim();
+
+  if (markt?.marktanalyse?.marketDescription) {
+    evidence.push(quote('gz-markt-wettbewerb', 'marktanalyse.marketDescription', 'Markt', markt.marktanalyse.marketDescription));
+  }
+  if (som !== undefined && som > 0) {
+    evidence.push(quote('gz-markt-wettbewerb', 'marktanalyse.som.value', 'Erreichbares Marktvolumen (SOM)', formatCurrency(som), som));
+  } else {
+    findings.push('Erreichbares Marktvolumen (SOM) ist nicht beziffert.');
+  }
+
+  evidence.push(quote(
+    'gz-markt-wettbewerb',
+    'wettbewerbsanalyse.competitors',
+    'Wettbewerber',
+    competitors.length > 0 ? competitors.map(competitor => competitor?.name).filter(Boolean).join(', ') : 'keine',
+    competitors.length
+  ));
+  if (competitors.length < MIN_WETTBEWERBER) {
+    findings.push(`Nur ${competitors.length} von mindestens ${MIN_WETTBEWERBER} Wettbewerbern analysiert.`);
+  }
+
+  if (positionStatement) {
+    evidence.push(quote('gz-markt-wettbewerb', 'positionierung.positionStatement', 'Positionierung', positionStatement));
+  } else {
+    findings.push('Positionierung gegenüber dem Wettbewerb fehlt.');
+  }
+
+  const passed = findings.length === 0;
+  if (passed) {
+    findings.push('Markt beziffert, Wettbewerb analysiert und Positionierung beschrieben.');
+  }
+
+  return createCriterion('marktchancen', passed, findings, evidence);
+}
+
+/**
+ * Finanzierung gesichert: secured sources ('gesichert') cover the Kapitalbedarf
+ *
+ * The Gründungszuschuss is left out: it is only applied for at this point and
+ * pays the living costs, not the Kapitalbedarf.
+ */
+export function checkFinanzierungGesichert(finanzplanung?: PartialFinanzplanungOutput): TragfaehigkeitCriterion {
+  const evidence: TragfaehigkeitQuote[] = [];
+  const findings: string[] = [];
+
+  const kapitalbedarf = finanzplanung?.kapitalbedarf?.gesamtkapitalbedarf;
+  const quellen = finanzplanung?.finanzierung?.quellen ?? [];
+  const kapitalquellen = quellen.filter(quelle => quelle?.typ !== 'gruendungszuschuss');
+  const gesichert = kapitalquellen
+    .filter(quelle => quelle?.status === 'gesichert')
+    .reduce((sum, quelle) => sum.plus(quelle?.betrag ?? 0), new Decimal(0));
+  const offen = kapitalquellen.filter(quelle => quelle?.status !== 'gesichert');
+
+  if (kapitalbedarf === undefined) {
+    findings.push('Kapitalbedarf ist nicht ermittelt.');
+  } else {
+    evidence.push(quote('gz-finanzplanung', 'kapitalbedarf.gesamtkapitalbedarf', 'Kapitalbedarf', formatCurrency(kapitalbedarf), kapitalbedarf));
+  }
+
+  quellen.forEach((quelle, index) => {
+    if (quelle?.typ === 'gruendungszuschuss') return;
+    evidence.push(quote(
+      'gz-finanzplanung',
+      `finanzierung.quellen[${index}].betrag`,
+      quelle?.bezeichnung || 'Finanzierungsquelle',
+      `${formatCurrency(quelle?.betrag ?? 0)} (${quelle?.status ?? 'ohne Status'})`,
+      quelle?.betrag
+    ));
+  });
+
+  if (kapitalbedarf !== undefined && gesichert.lessThan(kapitalbedarf)) {
+    findings.push(
+      `Gesicherte Mittel (${formatCurrency(gesichert)}) decken den Kapitalbedarf (${formatCurrency(kapitalbedarf)}) nicht.`
+    );
+  }
+  if (offen.length > 0) {
+    findings.push(`Noch nicht gesichert: ${offen.map(quelle => quelle?.bezeichnung || quelle?.typ).join(', ')}.`);
+  }
+
+  const passed = kapitalbedarf !== undefined && gesichert.greaterThanOrEqualTo(kapitalbedarf);
+  if (passed) {
+    findings.push(`Kapitalbedarf durch gesicherte Mittel von ${formatCurrency(gesichert)} gedeckt.`);
+  }
+
+  return createCriterion('finanzierung_gesichert', passed, findings, evidence);
+}
+
+/**
+ * Rentabilität: profit in year 3 and a break-even within the planning horizon
+ */
+export function checkRentabilitaet(finanzplanung?: PartialFinanzplanungOutput): TragfaehigkeitCriterion {
+  const rentabilitaet = finanzplanung?.rentabilitaet;
+  const evidence: TragfaehigkeitQuote[] = [];
+  const findings: string[] = [];
+
+  const jahresueberschuss = ([1, 2, 3] as const).map(jahr => {
+    const value = rentabilitaet?.[`jahr${jahr}`]?.jahresueberschuss;
+    if (value !== undefined) {
+      evidence.push(quote('gz-finanzplanung', `rentabilitaet.jahr${jahr}.jahresueberschuss`, `Jahresüberschuss Jahr ${jahr}`, formatCurrency(value), value));
+    }
+    return value;
+  });
+  const jahr3 = jahresueberschuss[2];
+  const breakEvenMonat = rentabilitaet?.breakEvenMonat;
+
+  if (breakEvenMonat !== undefined) {
+    evidence.push(quote('gz-finanzplanung', 'rentabilitaet.breakEvenMonat', 'Break-Even', `Monat ${breakEvenMonat}`, breakEvenMonat));
+  } else {
+    findings.push('Break-Even wird im Planungszeitraum nicht erreicht.');
+  }
+
+  if (jahr3 === undefined) {
+    findings.push('Rentabilitätsvorschau für Jahr 3 fehlt.');
+  } else if (jahr3 <= 0) {
+    findings.push(`Kein Gewinn in Jahr 3 (${formatCurrency(jahr3)}).`);
+  }
+
+  const passed = jahr3 !== undefined && jahr3 > 0 && breakEvenMonat !== undefined;
+  if (passed) {
+    findings.push(`Gewinn ab Monat ${breakEvenMonat}, Jahresüberschuss Jahr 3: ${formatCurrency(jahr3)}.`);
+  }
+
+  return createCriterion('rentabilitaet', passed, findings, evidence);
+}
+
+/**
+ * Liquidität: no negative month in the liquidity plan
+ */
+export function checkLiquiditaet(finanzplanung?: PartialFinanzplanungOutput): TragfaehigkeitCriterion {
+  const liquiditaet = finanzplanung?.liquiditaet;
+  const evidence: TragfaehigkeitQuote[] = [];
+  const findings: string[] = [];
+  const monate = liquiditaet?.monate ?? [];
+
+  const negativeMonate = monate.flatMap((monat, index) =>
+    monat?.endbestand !== undefined && monat.endbestand < 0 ? [{ index, endbestand: monat.endbestand }] : []
+  );
+
+  if (monate.length === 0) {
+    findings.push('Liquiditätsplan fehlt.');
+  }
+  if (liquiditaet?.minimumLiquiditaet !== undefined) {
+    evidence.push(quote(
+      'gz-finanzplanung',
+      'liquiditaet.minimumLiquiditaet',
+      'Niedrigster Kontostand',
+      `${formatCurrency(liquiditaet.minimumLiquiditaet)} in Monat ${liquiditaet.minimumMonat ?? '?'}`,
+      liquiditaet.minimumLiquiditaet,
+      liquiditaet.minimumMonat
+    ));
+  }
+  negativeMonate.forEach(({ index, endbestand }) => {
+    evidence.push(quote(
+      'gz-finanzplanung',
+      `liquiditaet.monate[${index}].endbestand`,
+      `Kontostand Monat ${index + 1}`,
+      formatCurrency(endbestand),
+      endbestand,
+      index + 1
+    ));
+  });
+  if (negativeMonate.length > 0) {
+    findings.push(`Negativer Kontostand in ${negativeMonate.length} Monat(en).`);
+  }
+
+  const passed = monate.length > 0 && negativeMonate.length === 0 && liquiditaet?.hatNegativeLiquiditaet !== true;
+  if (passed) {
+    findings.push(`Liquidität über ${monate.length} Monate durchgehend positiv.`);
+  }
+
+  return createCriterion('liquiditaet', passed, findings, evidence);
+}
+
+/**
+ * Lebensunterhalt gesichert: the year-2 profit (after the Gründungszuschuss) covers the Privatentnahme
+ */
+export function checkLebensunterhalt(finanzplanung?: PartialFinanzplanungOutput): TragfaehigkeitCriterion {
+  const privatentnahme = finanzplanung?.privatentnahme;
+  const evidence: TragfaehigkeitQuote[] = [];
+  const findings: string[] = [];
+
+  const monatlich = privatentnahme?.monatlichePrivatentnahme;
+  const jaehrlich = privatentnahme?.jaehrlichePrivatentnahme ?? (monatlich !== undefined ? monatlich * 12 : undefined);
+  const jahr2 = finanzplanung?.rentabilitaet?.jahr2?.jahresueberschuss;
+
+  if (monatlich === undefined || monatlich <= 0) {
+    findings.push('Privatentnahme für den Lebensunterhalt ist nicht geplant.');
+  } else {
+    evidence.push(quote('gz-finanzplanung', 'privatentnahme.monatlichePrivatentnahme', 'Privatentnahme pro Monat', formatCurrency(monatlich), monatlich));
+  }
+  if (jahr2 !== undefined) {
+    evidence.push(quote('gz-finanzplanung', 'rentabilitaet.jahr2.jahresueberschuss', 'Jahresüberschuss Jahr 2', formatCurrency(jahr2), jahr2));
+  } else {
+    findings.push('Rentabilitätsvorschau für Jahr 2 fehlt.');
+  }
+
+  if (jaehrlich !== undefined && jahr2 !== undefined && jahr2 < jaehrlich) {
+    findings.push(
+      `Jahresüberschuss Jahr 2 (${formatCurrency(jahr2)}) deckt die Privatentnahme (${formatCurrency(jaehrlich)}/Jahr) nicht.`
+    );
+  }
+
+  const passed = monatlich !== undefined && monatlich > 0 && jaehrlich !== undefined && jahr2 !== undefined && jahr2 >= jaehrlich;
+  if (passed) {
+    findings.push('Lebensunterhalt ist nach Auslaufen des Gründungszuschusses aus dem Gewinn gedeckt.');
+  }
+
+  return createCriterion('lebensunterhalt_gesichert', passed, findings, evidence);
+}
+
+// ============================================================================
+// Cover Letter
+// ============================================================================
+
+function createCoverLetter(businessName: string, founderName?: string): string[] {
+  return [
+    'Sehr geehrte Damen und Herren,',
+    `im Rahmen meines Antrags auf Gründungszuschuss nach § 93 SGB III bitte ich Sie um eine ` +
+      `Stellungnahme zur Tragfähigkeit meiner Existenzgründung „${businessName}".`,
+    'Beigefügt erhalten Sie folgende Unterlagen:',
+    ...ANLAGEN.map(anlage => `• ${anlage}`),
+    'Die anschließende Checkliste fasst die Prüfkriterien der fachkundigen Stelle mit den ' +
+      'jeweiligen Angaben aus meinem Businessplan zusammen. Für Rückfragen stehe ich Ihnen gern zur Verfügung.',
+    'Mit freundlichen Grüßen',
+    founderName || '',
+  ].filter(paragraph => paragraph.length > 0);
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function createCriterion(
+  id: TragfaehigkeitCriterionId,
+  passed: boolean,
+  findings: string[],
+  evidence: TragfaehigkeitQuote[]
+): TragfaehigkeitCriterion {
+  return { id, ...CRITERIA_TEXT[id], passed, findings, evidence };
+}
+
+function quote(
+  module: string,
+  field: string,
+  label: string,
+  text: string,
+  value?: number,
+  month?: number
+): TragfaehigkeitQuote {
+  return {
+    ...createFieldPointer(module, field, {
+      ...(value !== undefined && { value }),
+      ...(month !== undefined && { month }),
+    }),
+    label,
+    quote: text,
+  };
+}
+
+/**
+ * Format currency in German standard: 1.234,56 €
+ */
+function formatCurrency(amount: number | Decimal): string {
+  const value = typeof amount === 'number' ? new Decimal(amount) : amount;
+
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency: 'EUR',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value.toNumber());
+}
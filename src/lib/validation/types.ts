@@ -7,6 +7,10 @@
  * Based on analysis of real BA-approved business plan template.
  */
 
+import type { BusinessType, WorkshopSession } from '@/types/workshop-session';
+import type { LegalForm } from '@/types/modules/unternehmen';
+import type { PartialFinanzplanungOutput } from '@/types/modules/finanzplanung';
+
 // ============================================================================
 // Core Validation Types
 // ============================================================================
@@ -21,6 +25,20 @@ export interface ValidationIssue {
   suggestedFix?: string;             // How to resolve it
   documentationLink?: string;        // Link to help docs
   detectedValues?: Record<string, any>; // The problematic values
+  evidence?: ValidationEvidence[];   // Module fields that triggered the issue
+}
+
+/**
+ * Module field that triggered a validation issue
+ *
+ * Doubles as the "jump to fix" pointer (see field-pointer.ts).
+ */
+export interface ValidationEvidence {
+  module: string;                    // Module ID, e.g. 'gz-finanzplanung'
+  phase?: string;                    // Workshop phase that collects the field
+  field: string;                     // Path in module data, e.g. 'liquiditaet.monate[4].endbestand'
+  month?: number;                    // Planning month (1-36) if month-specific
+  value?: number | string | boolean; // Value found in that field
 }
 
 export interface ValidationResult {
@@ -69,6 +87,15 @@ export interface FinancialValidationData {
 
   // GZ funding check
   gzFundingMonths: number[];         // Months where GZ is shown in plan
+  gzFundingAmounts?: number[];       // GZ amount per month (if broken down in plan)
+}
+
+export interface CapacityValidationData {
+  // Billable hours from Umsatzplanung vs. available working time (36 months)
+  requiredHours: number[];           // Hours needed for the planned units per month
+  availableHours: number[];          // Working hours of founder/team per month
+  utilization: number[];             // Required / available in %
+  hasCapacityData: boolean;          // False without working hours or time-based revenue
 }
 
 export interface StructureValidationData {
@@ -100,6 +127,7 @@ export interface ValidationRule {
   // BA compliance rationale
   baRationale: string;               // Why this matters for BA approval
   rejectionRate?: number;            // % of applications that fail here
+  weight?: number;                   // Compliance score weight (defaults to rejectionRate)
 
   // Validation thresholds
   thresholds?: {
@@ -114,7 +142,7 @@ export interface ValidationRule {
 // Predefined Validation Rules (Based on Template Analysis)
 // ============================================================================
 
-export const BA_VALIDATION_RULES: Record<string, ValidationRule> = {
+export const BA_VALIDATION_RULES = {
   'month-6-self-sufficiency': {
     id: 'month-6-self-sufficiency',
     name: 'Selbstragfähigkeit Monat 6',
@@ -206,6 +234,29 @@ export const BA_VALIDATION_RULES: Record<string, ValidationRule> = {
     }
   },
 
+  'capacity-feasible': {
+    id: 'capacity-feasible',
+    name: 'Umsatz mit verfügbaren Stunden erreichbar',
+    severity: 'BLOCKER',
+    category: 'financial',
+    description: 'Abrechenbare Stunden der Umsatzplanung dürfen die verfügbare Arbeitszeit in keinem Monat übersteigen',
+    baRationale: 'Ein Umsatz, der mehr Stunden erfordert als physisch verfügbar sind, ist nicht tragfähig',
+    thresholds: {
+      maxValue: 100, // % utilization of available working hours
+      comparison: 'lte',
+    }
+  },
+
+  'document-structure': {
+    id: 'document-structure',
+    name: 'Professionelle Dokumentstruktur',
+    severity: 'WARNING',
+    category: 'structure',
+    description: 'Titelseite, Inhaltsverzeichnis und Executive Summary sollten vorhanden sein',
+    baRationale: 'Vollständige Dokumentelemente verbessern den professionellen Eindruck bei der BA',
+    rejectionRate: 1,
+  },
+
   'gz-funding-included': {
     id: 'gz-funding-included',
     name: 'Gründungszuschuss in Finanzplanung',
@@ -219,22 +270,56 @@ export const BA_VALIDATION_RULES: Record<string, ValidationRule> = {
       comparison: 'gte',
     }
   },
-};
+} satisfies Record<string, ValidationRule>;
 
 // ============================================================================
 // Helper Types for Rule Processing
 // ============================================================================
 
+/**
+ * Everything a rule check can look at, extracted once per validation run
+ */
 export interface RuleContext {
-  workshopData: any;                 // Full workshop state
+  workshopSession?: WorkshopSession;
+  finanzplanung?: PartialFinanzplanungOutput;
+  businessType?: BusinessType;
+  rechtsform?: LegalForm;
   financialData: FinancialValidationData;
+  capacityData: CapacityValidationData;
   structureData: StructureValidationData;
 }
 
+/**
+ * Registered validation rule: metadata plus applicability, check and evidence
+ *
+ * Checks that only need part of the context declare a narrower TContext, so
+ * they can also run outside a full workshop validation.
+ */
+export interface ValidationRuleDefinition<TContext = RuleContext> extends ValidationRule {
+  weight: number;                    // Share of the compliance score
+  fixHint: string;                   // Default fix if the issue has no suggestedFix
+  enabledByDefault?: boolean;        // Opt-in rules set this to false
+  appliesTo?: {
+    businessTypes?: BusinessType[];
+    rechtsformen?: LegalForm[];
+  };
+  check: (context: TContext) => ValidationIssue | null;
+  evidence?: (context: TContext, issue: ValidationIssue) => ValidationEvidence[];
+}
+
+/**
+ * Rule selection for a workshop or an advisor (explicit lists win over defaults)
+ */
+export interface ValidationRuleConfig {
+  enabledRules?: string[];
+  disabledRules?: string[];
+}
+
 export interface RuleResult {
   passed: boolean;
   rule: ValidationRule;
   issue?: ValidationIssue;           // Only present if failed
+  skipped?: 'disabled' | 'not_applicable';
   metadata?: Record<string, any>;    // Additional context
 }
 
@@ -0,0 +1,233 @@
+/**
+ * Validation History and Regression Diff (GZ-803)
+ *
+ * Every export attempt is stored as a snapshot in module_progress (one row
+ * per run; readiness checks are compared, not stored). The snapshots give a
+ * score timeline per workshop and a diff that shows the founder which
+ * blockers were fixed and which new warnings appeared since the last run or
+ * the last export - so coaches can see whether a plan got better after a
+ * session.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExportValidationResult } from './final-validator';
+import type { ValidationIssue } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What triggered the run: a blocked export attempt or a generated document
+ */
+export type ValidationRunTrigger = 'check' | 'export';
+
+/**
+ * Issue as stored in the history (without the long messages)
+ */
+export interface ValidationIssueSnapshot {
+  id: string;
+  severity: ValidationIssue['severity'];
+  category: ValidationIssue['category'];
+  title: string;
+  affectedSection?: string;
+}
+
+export interface ValidationSnapshot {
+  workshopId: string;
+  timestamp: string;
+  trigger: ValidationRunTrigger;
+  canExport: boolean;
+  status: ExportValidationResult['summary']['status'];
+  complianceScore: number;
+  blockers: ValidationIssueSnapshot[];
+  warnings: ValidationIssueSnapshot[];
+}
+
+export interface ValidationScorePoint {
+  timestamp: string;
+  trigger: ValidationRunTrigger;
+  complianceScore: number;
+  status: ValidationSnapshot['status'];
+  blockers: number;
+  warnings: number;
+}
+
+export interface ValidationDiff {
+  from: string;                               // Timestamp of the earlier run
+  to: string;                                 // Timestamp of the later run
+  scoreDelta: number;
+  trend: 'improved' | 'regressed' | 'unchanged';
+  fixedBlockers: ValidationIssueSnapshot[];
+  newBlockers: ValidationIssueSnapshot[];
+  remainingBlockers: ValidationIssueSnapshot[];
+  resolvedWarnings: ValidationIssueSnapshot[];
+  newWarnings: ValidationIssueSnapshot[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// module_progress.module_name of the history rows
+export const VALIDATION_HISTORY_MODULE = 'validation-run';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+// ============================================================================
+// Snapshots and Diff
+// ============================================================================
+
+/**
+ * Create a history snapshot from an export validation result
+ */
+export function createValidationSnapshot(
+  workshopId: string,
+  result: ExportValidationResult,
+  trigger: ValidationRunTrigger,
+  timestamp: string = new Date().toISOString()
+): ValidationSnapshot {
+  return {
+    workshopId,
+    timestamp,
+    trigger,
+    canExport: result.canExport,
+    status: result.summary.status,
+    complianceScore: result.summary.complianceScore,
+    blockers: result.blockers.map(toIssueSnapshot),
+    warnings: result.warnings.map(toIssueSnapshot),
+  };
+}
+
+/**
+ * Compare two runs by issue ID
+ */
+export function diffValidationRuns(
+  previous: ValidationSnapshot,
+  current: ValidationSnapshot
+): ValidationDiff {
+  const fixedBlockers = withoutIssues(previous.blockers, current.blockers);
+  const newBlockers = withoutIssues(current.blockers, previous.blockers);
+  const scoreDelta = current.complianceScore - previous.complianceScore;
+
+  let trend: ValidationDiff['trend'] = 'unchanged';
+  if (newBlockers.length > 0 || scoreDelta < 0) {
+    trend = 'regressed';
+  } else if (fixedBlockers.length > 0 || scoreDelta > 0) {
+    trend = 'improved';
+  }
+
+  return {
+    from: previous.timestamp,
+    to: current.timestamp,
+    scoreDelta,
+    trend,
+    fixedBlockers,
+    newBlockers,
+    remainingBlockers: withoutIssues(current.blockers, newBlockers),
+    resolvedWarnings: withoutIssues(previous.warnings, current.warnings),
+    newWarnings: withoutIssues(current.warnings, previous.warnings),
+  };
+}
+
+/**
+ * Score per run in chronological order
+ */
+export function buildScoreTimeline(history: ValidationSnapshot[]): ValidationScorePoint[] {
+  return sortChronologically(history).map(snapshot => ({
+    timestamp: snapshot.timestamp,
+    trigger: snapshot.trigger,
+    complianceScore: snapshot.complianceScore,
+    status: snapshot.status,
+    blockers: snapshot.blockers.length,
+    warnings: snapshot.warnings.length,
+  }));
+}
+
+/**
+ * Find the latest run before a point in time, optionally of one trigger
+ */
+export function findPreviousRun(
+  history: ValidationSnapshot[],
+  before: string,
+  trigger?: ValidationRunTrigger
+): ValidationSnapshot | undefined {
+  return sortChronologically(history)
+    .filter(snapshot => snapshot.timestamp < before && (!trigger || snapshot.trigger === trigger))
+    .pop();
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Store a validation run in module_progress
+ */
+export async function saveValidationSnapshot(
+  supabase: SupabaseClient,
+  snapshot: ValidationSnapshot
+): Promise<void> {
+  const { error } = await supabase
+    .from('module_progress')
+    .insert({
+      workshop_id: snapshot.workshopId,
+      module_name: VALIDATION_HISTORY_MODULE,
+      data: snapshot,
+      validated: snapshot.canExport,
+      created_at: snapshot.timestamp,
+    });
+
+  if (error) {
+    throw new Error(`Validation run could not be stored: ${error.message}`);
+  }
+}
+
+/**
+ * Load the most recent validation runs of a workshop, oldest first
+ */
+export async function loadValidationHistory(
+  supabase: SupabaseClient,
+  workshopId: string,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<ValidationSnapshot[]> {
+  const { data, error } = await supabase
+    .from('module_progress')
+    .select('data')
+    .eq('workshop_id', workshopId)
+    .eq('module_name', VALIDATION_HISTORY_MODULE)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Validation history could not be loaded: ${error.message}`);
+  }
+
+  return sortChronologically((data ?? []).map(row => row.data as ValidationSnapshot));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function toIssueSnapshot(issue: ValidationIssue): ValidationIssueSnapshot {
+  return {
+    id: issue.id,
+    severity: issue.severity,
+    category: issue.category,
+    title: issue.title,
+    ...(issue.affectedSection && { affectedSection: issue.affectedSection }),
+  };
+}
+
+function withoutIssues(
+  issues: ValidationIssueSnapshot[],
+  excluded: ValidationIssueSnapshot[]
+): ValidationIssueSnapshot[] {
+  const excludedIds = new Set(excluded.map(issue => issue.id));
+  return issues.filter(issue => !excludedIds.has(issue.id));
+}
+
+function sortChronologically(history: ValidationSnapshot[]): ValidationSnapshot[] {
+  return [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
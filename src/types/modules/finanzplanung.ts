@@ -15,6 +15,7 @@
  */
 
 import { z } from 'zod';
+import { LegalFormType } from './rechtsform';
 
 // ============================================================================
 // Enums
@@ -46,6 +47,13 @@ export const FinanzierungsquelleType = z.enum([
 
 export type FinanzierungsquelleType = z.infer<typeof FinanzierungsquelleType>;
 
+export const TilgungsartType = z.enum([
+  'annuitaet',         // Constant monthly rate (interest + principal)
+  'raten',             // Constant principal, declining interest (Ratentilgung)
+]);
+
+export type TilgungsartType = z.infer<typeof TilgungsartType>;
+
 export const KostenkategorieType = z.enum([
   'personal',          // Personnel costs
   'miete',             // Rent
@@ -60,15 +68,36 @@ export const KostenkategorieType = z.enum([
 
 export type KostenkategorieType = z.infer<typeof KostenkategorieType>;
 
+export const UmsatzsteuerSatzType = z.enum([
+  'regulaer',          // 19 %
+  'ermaessigt',        // 7 %
+  'steuerfrei',        // 0 % (e.g. §4 UStG, Versicherungen, Personal)
+  'kleinunternehmer',  // §19 UStG - no USt charged, no Vorsteuer
+]);
+
+export type UmsatzsteuerSatzType = z.infer<typeof UmsatzsteuerSatzType>;
+
 // ============================================================================
 // A: Kapitalbedarf (Capital Requirements)
 // ============================================================================
 
+export const AfaMethodeType = z.enum([
+  'linear',            // §7 Abs. 1 EStG
+  'degressiv',         // §7 Abs. 2 EStG (only within the statutory periods)
+  'gwg',               // §6 Abs. 2 EStG - immediate write-off up to €800 net
+  'sammelposten',      // §6 Abs. 2a EStG - pool €250-1.000 net over 5 years
+]);
+
+export type AfaMethodeType = z.infer<typeof AfaMethodeType>;
+
 export const InvestitionSchema = z.object({
   name: z.string(),
   kategorie: z.enum(['anlagen', 'ausstattung', 'fahrzeuge', 'it', 'sonstiges']),
   betrag: z.number().min(0),              // EUR - USE decimal.js for calculations!
-  nutzungsdauer: z.number().optional(),   // Years for depreciation
+  nutzungsdauer: z.number().optional(),   // Years for depreciation (default: AfA-Tabelle by kategorie)
+  anschaffungsmonat: z.number().min(1).max(36).optional(), // Plan month of acquisition (default: 1)
+  afaMethode: z.enum(['linear', 'degressiv']).optional(),  // Default: linear (GWG/Sammelposten derived from betrag)
+  vorsteuerSatz: UmsatzsteuerSatzType.optional(), // Default: regulaer
 });
 
 export type Investition = z.infer<typeof InvestitionSchema>;
@@ -90,6 +119,11 @@ export const KapitalbedarfSchema = z.object({
     reserve: z.number().min(0),           // Buffer/safety margin
     summe: z.number().min(0),             // Calculated total
   }),
+  betriebsmittel: z.object({             // Working capital (trade and production)
+    warenbestand: z.number().min(0),      // Peak cash tied up in stock
+    forderungen: z.number().min(0),       // Receivables from customer Zahlungsziel
+    summe: z.number().min(0),             // Calculated total
+  }).optional(),
   gesamtkapitalbedarf: z.number().min(0), // Grand total
 });
 
@@ -105,7 +139,9 @@ export const FinanzierungsquelleSchema = z.object({
   betrag: z.number().min(0),
   zinssatz: z.number().min(0).max(100).optional(),  // % per year
   laufzeit: z.number().optional(),                   // Months
-  tilgungsfrei: z.number().optional(),               // Grace months
+  tilgungsfrei: z.number().optional(),               // Grace months (interest only)
+  tilgungsart: TilgungsartType.optional(),           // Default: annuitaet
+  auszahlungsmonat: z.number().min(1).optional(),    // Disbursement plan month (default: 1)
   sicherheiten: z.string().optional(),
   status: z.enum(['gesichert', 'beantragt', 'geplant']),
 });
@@ -134,6 +170,7 @@ export const PrivatentnahmeSchema = z.object({
   kommunikation: z.number().min(0),
   sonstigeAusgaben: z.number().min(0),
   sparrate: z.number().min(0).default(0),
+  sozialversicherung: z.number().min(0).optional(), // Founder KV/PV/RV/ALV (gruender-sozialversicherung)
   monatlichePrivatentnahme: z.number().min(0),      // Calculated total
   jaehrlichePrivatentnahme: z.number().min(0),      // × 12
 });
@@ -152,6 +189,7 @@ export const UmsatzstromSchema = z.object({
   mengeJahr1: z.array(z.number().min(0)).length(12),  // Monthly Year 1
   mengeJahr2: z.number().min(0),          // Total Year 2
   mengeJahr3: z.number().min(0),          // Total Year 3
+  ustSatz: UmsatzsteuerSatzType.optional(), // Default: regulaer
 });
 
 export type Umsatzstrom = z.infer<typeof UmsatzstromSchema>;
@@ -180,13 +218,35 @@ export const KostenpositionSchema = z.object({
   betragMonatlich: z.number().min(0),
   betragJaehrlich: z.number().min(0),     // Calculated or input
   variablerAnteil: z.number().min(0).max(100).optional(), // % of revenue
+  vorsteuerSatz: UmsatzsteuerSatzType.optional(), // Default derived from kategorie
 });
 
 export type Kostenposition = z.infer<typeof KostenpositionSchema>;
 
+export const BeschaeftigungsartType = z.enum([
+  'minijob',           // Geringfügige Beschäftigung (Pauschalabgaben)
+  'midijob',           // Übergangsbereich (reduzierte Arbeitnehmerbeiträge)
+  'teilzeit',          // Sozialversicherungspflichtig
+  'vollzeit',          // Sozialversicherungspflichtig
+]);
+
+export type BeschaeftigungsartType = z.infer<typeof BeschaeftigungsartType>;
+
+export const PersonalstelleSchema = z.object({
+  rolle: z.string(),                      // e.g. "Vertriebsassistenz"
+  beschaeftigungsart: BeschaeftigungsartType,
+  bruttoMonatlich: z.number().min(0),     // Gross salary per month
+  startMonat: z.number().min(1).max(36),  // Plan month of hire
+  endMonat: z.number().min(1).max(36).optional(),
+});
+
+export type Personalstelle = z.infer<typeof PersonalstelleSchema>;
+
 export const KostenplanungSchema = z.object({
   fixkosten: z.array(KostenpositionSchema),
   variableKosten: z.array(KostenpositionSchema),
+  personalplanung: z.array(PersonalstelleSchema).optional(),        // Planned hires
+  personalkostenMonatlich: z.array(z.number().min(0)).length(36).optional(), // Employer cost per month (not in fixkosten)
   fixkostenSummeMonatlich: z.number().min(0),
   fixkostenSummeJaehrlich: z.number().min(0),
   variableKostenSummeJahr1: z.number().min(0),
@@ -203,6 +263,21 @@ export type Kostenplanung = z.infer<typeof KostenplanungSchema>;
 // F: Rentabilität (Profitability)
 // ============================================================================
 
+// Per-year tax lines (Einkommensteuer / Gewerbesteuer / Körperschaftsteuer)
+export const SteuerJahrSchema = z.object({
+  gewinn: z.number(),                     // Ergebnis vor Steuern
+  einkommensteuer: z.number().min(0),     // After §35 EStG credit
+  solidaritaetszuschlag: z.number().min(0),
+  kirchensteuer: z.number().min(0),
+  gewerbesteuer: z.number().min(0),
+  gewerbesteuerAnrechnung: z.number().min(0), // §35 EStG
+  koerperschaftsteuer: z.number().min(0),
+  steuernGesamt: z.number().min(0),
+  effektiverSteuersatz: z.number(),       // % of Gewinn
+});
+
+export type SteuerJahr = z.infer<typeof SteuerJahrSchema>;
+
 export const RentabilitaetJahrSchema = z.object({
   umsatz: z.number(),
   materialaufwand: z.number().min(0),
@@ -216,6 +291,7 @@ export const RentabilitaetJahrSchema = z.object({
   jahresueberschuss: z.number(),          // Net profit
   rohertragsmarge: z.number(),            // %
   umsatzrendite: z.number(),              // % (net profit / revenue)
+  steuerDetails: SteuerJahrSchema.optional(),
 });
 
 export type RentabilitaetJahr = z.infer<typeof RentabilitaetJahrSchema>;
@@ -234,16 +310,28 @@ export type Rentabilitaet = z.infer<typeof RentabilitaetSchema>;
 // G: Liquidität (Liquidity)
 // ============================================================================
 
+// Planning horizon: 3 years month by month (Jahr 1-3)
+export const LIQUIDITAET_PLANUNGSMONATE = 36;
+
+// Plans saved before the 36-month horizon only cover Jahr 1
+export const LIQUIDITAET_PLANUNGSMONATE_ALT = 12;
+
 export const LiquiditaetMonatSchema = z.object({
-  monat: z.number().min(1).max(12),
+  monat: z.number().min(1).max(LIQUIDITAET_PLANUNGSMONATE),
   anfangsbestand: z.number(),
   einzahlungenUmsatz: z.number().min(0),
   einzahlungenSonstige: z.number().min(0),
+  einzahlungenGruendungszuschuss: z.number().min(0).optional(),  // Monthly GZ (part of einzahlungenSonstige)
   einzahlungenGesamt: z.number(),
   auszahlungenBetrieb: z.number().min(0),
   auszahlungenInvestitionen: z.number().min(0),
-  auszahlungenTilgung: z.number().min(0),
+  auszahlungenTilgung: z.number().min(0),                  // Loan principal repayments
+  auszahlungenZinsen: z.number().min(0).optional(),        // Loan interest
   auszahlungenPrivat: z.number().min(0),
+  einzahlungenUmsatzsteuer: z.number().min(0).optional(),  // USt from customers + Vorsteuer refunds
+  auszahlungenUmsatzsteuer: z.number().min(0).optional(),  // Vorsteuer to suppliers + USt-Zahllast
+  auszahlungenSteuern: z.number().min(0).optional(),       // ESt/GewSt/KSt-Vorauszahlungen
+  auszahlungenWarenbestand: z.number().optional(),         // Stock purchases beyond Wareneinsatz (negative when stock is reduced)
   auszahlungenGesamt: z.number(),
   endbestand: z.number(),                 // CRITICAL: Must never be negative
 });
@@ -251,9 +339,13 @@ export const LiquiditaetMonatSchema = z.object({
 export type LiquiditaetMonat = z.infer<typeof LiquiditaetMonatSchema>;
 
 export const LiquiditaetSchema = z.object({
-  monate: z.array(LiquiditaetMonatSchema).length(12),
-  minimumLiquiditaet: z.number(),         // Lowest point in the year
-  minimumMonat: z.number().min(1).max(12),
+  // 12-month plans are kept as saved; validateLiquidityForBA asks for the full horizon
+  monate: z.array(LiquiditaetMonatSchema).refine(
+    monate => monate.length === LIQUIDITAET_PLANUNGSMONATE || monate.length === LIQUIDITAET_PLANUNGSMONATE_ALT,
+    { message: `Liquiditätsplan muss ${LIQUIDITAET_PLANUNGSMONATE} (oder ${LIQUIDITAET_PLANUNGSMONATE_ALT}) Monate umfassen` }
+  ),
+  minimumLiquiditaet: z.number(),         // Lowest point in 36 months
+  minimumMonat: z.number().min(1).max(LIQUIDITAET_PLANUNGSMONATE),
   durchschnittLiquiditaet: z.number(),
   liquiditaetsReserve: z.number(),        // Safety buffer
   hatNegativeLiquiditaet: z.boolean(),    // BLOCKER if true
@@ -261,6 +353,56 @@ export const LiquiditaetSchema = z.object({
 
 export type Liquiditaet = z.infer<typeof LiquiditaetSchema>;
 
+// ============================================================================
+// Szenarien (Base / Best / Worst Case)
+// ============================================================================
+
+export const SzenarioTyp = z.enum([
+  'basis',             // Base case (plan as entered)
+  'best',              // Best case
+  'worst',             // Worst case
+  'individuell',       // Custom what-if
+]);
+
+export type SzenarioTyp = z.infer<typeof SzenarioTyp>;
+
+// Assumption overrides relative to the base plan
+export const SzenarioAnnahmenSchema = z.object({
+  umsatzAenderung: z.number().min(-100).default(0),          // % on all revenue
+  fixkostenAenderung: z.number().min(-100).default(0),       // % on fixed costs
+  variableKostenAenderung: z.number().min(-100).default(0),  // % on variable cost ratio
+  zahlungszielAenderung: z.number().default(0),              // Additional customer payment days
+});
+
+export type SzenarioAnnahmen = z.infer<typeof SzenarioAnnahmenSchema>;
+
+export const FinanzplanSzenarioSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  typ: SzenarioTyp,
+  annahmen: SzenarioAnnahmenSchema,
+  umsatzplanung: UmsatzplanungSchema,     // Recomputed with overrides
+  kostenplanung: KostenplanungSchema,
+  rentabilitaet: RentabilitaetSchema,
+  liquiditaet: LiquiditaetSchema,
+});
+
+export type FinanzplanSzenario = z.infer<typeof FinanzplanSzenarioSchema>;
+
+// ============================================================================
+// Ist-Daten (Plan vs. Actual after the launch)
+// ============================================================================
+
+export const IstMonatSchema = z.object({
+  monat: z.number().min(1).max(LIQUIDITAET_PLANUNGSMONATE),
+  umsatz: z.number().min(0),              // Net revenue booked in the month
+  kosten: z.number().min(0),              // Operating costs incl. payroll (without Privatentnahme)
+  kontostand: z.number(),                 // Business account balance at month end
+  notiz: z.string().optional(),
+});
+
+export type IstMonat = z.infer<typeof IstMonatSchema>;
+
 // ============================================================================
 // Validation
 // ============================================================================
@@ -330,6 +472,8 @@ export const PartialFinanzplanungOutputSchema = z.object({
   liquiditaet: LiquiditaetSchema.deepPartial().optional(),
   validation: FinanzplanungValidationSchema.partial().optional(),
   metadata: FinanzplanungMetadataSchema.partial().optional(),
+  szenarien: z.array(FinanzplanSzenarioSchema).optional(),
+  istDaten: z.array(IstMonatSchema).optional(),
 });
 
 export type PartialFinanzplanungOutput = z.infer<typeof PartialFinanzplanungOutputSchema>;
@@ -350,7 +494,8 @@ export function isFinanzplanungComplete(data: PartialFinanzplanungOutput): boole
     data.umsatzplanung?.umsatzJahr1Summe &&
     data.kostenplanung?.gesamtkostenJahr1 &&
     data.rentabilitaet?.jahr1 &&
-    data.liquiditaet?.monate?.length === 12
+    (data.liquiditaet?.monate?.length === LIQUIDITAET_PLANUNGSMONATE ||
+      data.liquiditaet?.monate?.length === LIQUIDITAET_PLANUNGSMONATE_ALT)
   );
 }
 
@@ -451,6 +596,7 @@ export const LiquidityValidationSchema = z.object({
   hasTightCashFlow: z.boolean(),                  // WARNING
   hasHighVolatility: z.boolean(),                 // WARNING
   hasSeasonalRisks: z.boolean(),                  // WARNING
+  hasSimulationRisk: z.boolean().optional(),      // WARNING (Monte-Carlo)
   actionItems: z.array(z.string()),
   contingencyPlans: z.array(z.string()),
 });
@@ -476,10 +622,24 @@ export const EnhancedRentabilitaetSchema = RentabilitaetSchema.extend({
 
 export type EnhancedRentabilitaet = z.infer<typeof EnhancedRentabilitaetSchema>;
 
+// Monte-Carlo Liquidity Simulation Result
+export const LiquiditaetSimulationSchema = z.object({
+  iterationen: z.number().int().min(1),
+  seed: z.number(),
+  wahrscheinlichkeitNegativ: z.number().min(0).max(1),  // Share of runs with any negative month
+  p5: z.array(z.number()).length(LIQUIDITAET_PLANUNGSMONATE),   // Ending cash per month
+  p50: z.array(z.number()).length(LIQUIDITAET_PLANUNGSMONATE),
+  p95: z.array(z.number()).length(LIQUIDITAET_PLANUNGSMONATE),
+  reserveFuer95Prozent: z.number().min(0),             // Extra reserve for 95 % survival
+});
+
+export type LiquiditaetSimulation = z.infer<typeof LiquiditaetSimulationSchema>;
+
 // Enhanced Liquidität with Risk Analysis
 export const EnhancedLiquiditaetSchema = LiquiditaetSchema.extend({
   riskAnalysis: LiquidityRiskAnalysisSchema.optional(),
   validation: LiquidityValidationSchema.optional(),
+  simulation: LiquiditaetSimulationSchema.optional(),
 });
 
 export type EnhancedLiquiditaet = z.infer<typeof EnhancedLiquiditaetSchema>;
@@ -501,12 +661,43 @@ export const SeasonalityConfigSchema = z.object({
 
 export type SeasonalityConfig = z.infer<typeof SeasonalityConfigSchema>;
 
+// Umsatzsteuer (VAT) Configuration
+export const UmsatzsteuerConfigSchema = z.object({
+  kleinunternehmer: z.boolean().default(false),                         // §19 UStG
+  voranmeldung: z.enum(['monatlich', 'vierteljaehrlich']).default('monatlich'),
+  besteuerung: z.enum(['soll', 'ist']).default('soll'),                 // Soll- vs. Ist-Versteuerung
+});
+
+export type UmsatzsteuerConfig = z.infer<typeof UmsatzsteuerConfigSchema>;
+
+// Income / trade tax profile of the founder
+export const SteuerProfilSchema = z.object({
+  rechtsform: LegalFormType.default('einzelunternehmen'),
+  veranlagung: z.enum(['einzel', 'zusammen']).default('einzel'),  // Splittingtarif if married
+  hebesatz: z.number().min(200).max(900).default(400),              // Gewerbesteuer-Hebesatz %
+  freiberufler: z.boolean().default(false),                         // No Gewerbesteuer
+  kirchensteuerSatz: z.number().min(0).max(9).default(0),           // 8 % (BY/BW) or 9 %
+});
+
+export type SteuerProfil = z.infer<typeof SteuerProfilSchema>;
+
+// Gründungszuschuss (§93 SGB III): Phase 1 = ALG I + 300 € (6 months), Phase 2 = 300 € (9 months)
+export const GruendungszuschussConfigSchema = z.object({
+  alg1Monatlich: z.number().min(0),                                 // Last monthly ALG I
+  phase2Beantragt: z.boolean().default(true),                       // Optional Phase 2
+});
+
+export type GruendungszuschussConfig = z.infer<typeof GruendungszuschussConfigSchema>;
+
 // Complete Enhanced Output Schema
 export const EnhancedFinanzplanungOutputSchema = FinanzplanungOutputSchema.extend({
   rentabilitaet: EnhancedRentabilitaetSchema,
   liquiditaet: EnhancedLiquiditaetSchema,
   paymentTerms: PaymentTermsConfigSchema.optional(),
   seasonality: SeasonalityConfigSchema.optional(),
+  umsatzsteuer: UmsatzsteuerConfigSchema.optional(),
+  steuerProfil: SteuerProfilSchema.optional(),
+  gruendungszuschuss: GruendungszuschussConfigSchema.optional(),
 });
 
 export type EnhancedFinanzplanungOutput = z.infer<typeof EnhancedFinanzplanungOutputSchema>;
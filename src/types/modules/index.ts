@@ -199,6 +199,13 @@ export const MODULE_INFO: ModuleInfo[] = [
   },
 ];
 
+/**
+ * Check whether a string is one of the module IDs
+ */
+export function isModuleId(value: string): value is ModuleId {
+  return MODULE_INFO.some((m) => m.id === value);
+}
+
 /**
  * Get module info by ID
  */
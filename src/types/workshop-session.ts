@@ -91,6 +91,12 @@ export const WorkshopSessionSchema = z.object({
   // Module progress tracking
   modules: z.record(z.string(), ModuleProgressSchema),
 
+  // BA validation rules switched on/off for this workshop
+  validationRules: z.object({
+    enabledRules: z.array(z.string()).optional(),
+    disabledRules: z.array(z.string()).optional(),
+  }).optional(),
+
   // Timestamps
   createdAt: z.string(),
   updatedAt: z.string(),
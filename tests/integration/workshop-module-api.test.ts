@@ -0,0 +1,129 @@
+/**
+ * Integration Tests for the Module Save API
+ *
+ * Finanzplanung saves recompute the derived totals with the planning
+ * settings stored in the module (Steuerprofil, USt, GZ, payment terms,
+ * seasonality) and keep those settings in the saved data.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/workshop/[id]/module/route';
+import { recomputeFinanzplanung } from '@/lib/finance/neuberechnung';
+
+const { workshopData, updates } = vi.hoisted(() => ({
+  workshopData: { current: {} as Record<string, unknown> },
+  updates: [] as Record<string, unknown>[],
+}));
+
+// Mock external dependencies
+vi.mock('@/root-lib/supabase/server', () => ({
+  createClient: vi.fn(() => ({
+    auth: {
+      getUser: vi.fn(() => Promise.resolve({
+        data: { user: { id: 'test-user-123' } },
+        error: null
+      }))
+    },
+    from: vi.fn(() => ({
+      select: vi.fn(() => ({
+        eq: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            single: vi.fn(() => Promise.resolve({ data: { data: workshopData.current }, error: null }))
+          }))
+        }))
+      })),
+      update: vi.fn((update: Record<string, unknown>) => {
+        updates.push(update);
+        return {
+          eq: vi.fn(() => ({
+            eq: vi.fn(() => ({
+              select: vi.fn(() => ({
+                single: vi.fn(() => Promise.resolve({ data: { id: 'test-workshop', ...update }, error: null }))
+              }))
+            }))
+          }))
+        };
+      })
+    }))
+  }))
+}));
+
+vi.mock('@/lib/finance/neuberechnung', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/finance/neuberechnung')>();
+  return { ...actual, recomputeFinanzplanung: vi.fn(actual.recomputeFinanzplanung) };
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const EINSTELLUNGEN = {
+  steuerProfil: { rechtsform: 'einzelunternehmen', veranlagung: 'einzel', hebesatz: 490, freiberufler: true, kirchensteuerSatz: 0 },
+  umsatzsteuer: { kleinunternehmer: true, voranmeldung: 'vierteljaehrlich', besteuerung: 'ist' },
+  gruendungszuschuss: { alg1Monatlich: 1500, phase2Beantragt: false },
+  paymentTerms: { customerPaymentDays: 14, supplierPaymentDays: 30, variableCostPaymentDelay: 30 },
+  seasonality: { quarters: [0.8, 1, 1.2, 1], description: 'Sommergeschäft' },
+};
+
+function createRequest(body: Record<string, unknown>): NextRequest {
+  return new NextRequest('http://localhost:3000/api/workshop/test-workshop/module', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+async function saveFinanzplanung(moduleData: Record<string, unknown>) {
+  return POST(createRequest({ module_name: 'gz-finanzplanung', module_data: moduleData }), {
+    params: Promise.resolve({ id: 'test-workshop' }),
+  });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('POST /api/workshop/[id]/module - Finanzplanung', () => {
+  beforeEach(() => {
+    updates.length = 0;
+    vi.mocked(recomputeFinanzplanung).mockClear();
+    workshopData.current = {
+      'gz-intake': { businessType: { category: 'consulting' }, resources: { time: { plannedStartDate: '2026-03-01' } } },
+      'gz-finanzplanung': { ...EINSTELLUNGEN },
+    };
+  });
+
+  it('should recompute with the stored planning settings', async () => {
+    const response = await saveFinanzplanung({ privatentnahme: { lebenshaltungskosten: 1800 } });
+
+    expect(response.status).toBe(200);
+    expect(recomputeFinanzplanung).toHaveBeenCalledWith(
+      expect.objectContaining({ privatentnahme: { lebenshaltungskosten: 1800 } }),
+      expect.objectContaining({ ...EINSTELLUNGEN, industry: 'beratung', afa: { planStart: { jahr: 2026, monat: 3 } } })
+    );
+  });
+
+  it('should keep the planning settings in the saved module data', async () => {
+    await saveFinanzplanung({ privatentnahme: { lebenshaltungskosten: 1800 } });
+
+    const gespeichert = (updates[0]?.data as Record<string, Record<string, unknown>>)['gz-finanzplanung'];
+    expect(gespeichert).toMatchObject(EINSTELLUNGEN);
+  });
+
+  it('should use settings saved with the same request', async () => {
+    await saveFinanzplanung({ umsatzsteuer: { kleinunternehmer: false, voranmeldung: 'monatlich', besteuerung: 'soll' } });
+
+    expect(vi.mocked(recomputeFinanzplanung).mock.calls[0]?.[1]).toMatchObject({
+      umsatzsteuer: { kleinunternehmer: false, voranmeldung: 'monatlich', besteuerung: 'soll' },
+      steuerProfil: EINSTELLUNGEN.steuerProfil,
+    });
+  });
+
+  it('should leave out invalid settings', async () => {
+    workshopData.current['gz-finanzplanung'] = { ...EINSTELLUNGEN, paymentTerms: { customerPaymentDays: -10 } };
+
+    await saveFinanzplanung({});
+
+    expect(vi.mocked(recomputeFinanzplanung).mock.calls[0]?.[1]?.paymentTerms).toBeUndefined();
+  });
+});
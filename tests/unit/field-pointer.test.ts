@@ -0,0 +1,130 @@
+/**
+ * Field Pointer Tests (GZ-803)
+ *
+ * Pointers from validation issues to module, workshop phase and field:
+ * - JSON path parsing
+ * - Phase resolution per module data section
+ * - Primary "jump to fix" target of an issue
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MODULE_PHASES,
+  createFieldPointer,
+  getIssuePointer,
+  parseFieldPath,
+  resolveFieldPhase,
+  withFieldPhase,
+} from '@/lib/validation/field-pointer';
+import type { ValidationIssue } from '@/lib/validation/types';
+import { MODULE_INFO } from '@/types/modules';
+
+// ============================================================================
+// Test Data Setup
+// ============================================================================
+
+function createIssue(overrides: Partial<ValidationIssue> = {}): ValidationIssue {
+  return {
+    id: 'liquidity-non-negative',
+    severity: 'BLOCKER',
+    category: 'financial',
+    title: 'Liquidität negativ',
+    message: 'Der Kontostand ist in Monat 7 negativ.',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Path and Phase Tests
+// ============================================================================
+
+describe('parseFieldPath', () => {
+  it('should split dotted paths with array indices', () => {
+    expect(parseFieldPath('liquiditaet.monate[4].endbestand')).toEqual(['liquiditaet', 'monate', 4, 'endbestand']);
+    expect(parseFieldPath('umsatzplanung.umsatzstroeme.0.preis')).toEqual(['umsatzplanung', 'umsatzstroeme', 0, 'preis']);
+  });
+
+  it('should return no segments for an empty path', () => {
+    expect(parseFieldPath('')).toEqual([]);
+  });
+});
+
+describe('MODULE_PHASES', () => {
+  it('should map the data sections of every workshop module to a phase', () => {
+    MODULE_INFO.forEach(({ id }) => {
+      expect(Object.keys(MODULE_PHASES[id]).length, id).toBeGreaterThan(0);
+    });
+  });
+
+  it('should only map workshop modules', () => {
+    const moduleIds = MODULE_INFO.map(({ id }) => id);
+
+    expect(Object.keys(MODULE_PHASES).sort()).toEqual([...moduleIds].sort());
+  });
+
+  it('should resolve the phase from the first path segment', () => {
+    expect(resolveFieldPhase('gz-finanzplanung', 'liquiditaet.monate[6].endbestand')).toBe('liquiditaet');
+    expect(resolveFieldPhase('gz-unternehmen', 'organisation.plannedEmployees.year1')).toBe('organisation');
+    expect(resolveFieldPhase('gz-markt-wettbewerb', 'wettbewerbsanalyse.direkteKonkurrenten')).toBe('wettbewerber');
+  });
+
+  it('should not resolve unknown sections or modules', () => {
+    expect(resolveFieldPhase('gz-finanzplanung', 'unbekannt.feld')).toBeUndefined();
+    expect(resolveFieldPhase('gz-unbekannt', 'liquiditaet')).toBeUndefined();
+    expect(resolveFieldPhase('gz-finanzplanung', '')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Pointer Tests
+// ============================================================================
+
+describe('createFieldPointer', () => {
+  it('should add the phase, month and value to the pointer', () => {
+    expect(createFieldPointer('gz-finanzplanung', 'liquiditaet.monate[6].endbestand', { month: 7, value: -800 })).toEqual({
+      module: 'gz-finanzplanung',
+      field: 'liquiditaet.monate[6].endbestand',
+      phase: 'liquiditaet',
+      month: 7,
+      value: -800,
+    });
+  });
+
+  it('should leave the phase out when the section has none', () => {
+    expect(createFieldPointer('gz-finanzplanung', 'metadata.completedAt')).toEqual({
+      module: 'gz-finanzplanung',
+      field: 'metadata.completedAt',
+    });
+  });
+
+  it('should keep a phase that is already set', () => {
+    const evidence = { module: 'gz-finanzplanung', field: 'liquiditaet.monate', phase: 'rentabilitaet' };
+
+    expect(withFieldPhase(evidence)).toBe(evidence);
+  });
+});
+
+describe('getIssuePointer', () => {
+  it('should point at the first evidence of the issue', () => {
+    const issue = createIssue({
+      affectedSection: 'gz-finanzplanung',
+      evidence: [
+        createFieldPointer('gz-finanzplanung', 'liquiditaet.monate[6].endbestand', { month: 7 }),
+        createFieldPointer('gz-finanzplanung', 'liquiditaet.monate[7].endbestand', { month: 8 }),
+      ],
+    });
+
+    expect(getIssuePointer(issue)).toMatchObject({ field: 'liquiditaet.monate[6].endbestand', month: 7 });
+  });
+
+  it('should fall back to the affected module without evidence', () => {
+    expect(getIssuePointer(createIssue({ affectedSection: 'gz-finanzplanung' }))).toEqual({
+      module: 'gz-finanzplanung',
+      field: '',
+    });
+  });
+
+  it('should return undefined without evidence and affected module', () => {
+    expect(getIssuePointer(createIssue())).toBeUndefined();
+  });
+});
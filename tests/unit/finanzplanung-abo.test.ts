@@ -0,0 +1,125 @@
+/**
+ * Finanzplanung Abo-Umsatz Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Cohort build-up with monthly churn
+ * - Annual prepayment, discount and upgrades
+ * - Umsatzstrom for the Umsatzplanung (mengeJahr1, Jahr 2/3 totals)
+ * - CAC/LTV handover to the CustomerKPIs
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  calculateAboKohorten,
+  validateAboModell,
+  createAboCustomerKPIs,
+} from '@/lib/finance/abo-umsatz';
+import type { AboModellInput } from '@/lib/finance/abo-umsatz';
+
+import { calculateStreamAnnualRevenue } from '@/lib/finance/umsatzplanung';
+import { CustomerKPIsSchema } from '@/types/modules/kpi';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+const SAAS: AboModellInput = {
+  name: 'Pro-Tarif',
+  preisMonatlich: 50,
+  neukunden: [10],
+  churnRateMonatlich: 5,
+  cac: 300,
+};
+
+// ============================================================================
+// Cohorts
+// ============================================================================
+
+describe('Abo Cohorts', () => {
+  it('should build the subscriber base from cohorts with monthly churn', () => {
+    const plan = calculateAboKohorten(SAAS);
+
+    expect(plan.monate.slice(0, 3).map(monat => monat.kunden)).toEqual([10, 19.5, 28.53]);
+    expect(plan.monate[2]?.kuendigungen).toBe(0.98);
+    expect(plan.monate[2]?.mrr).toBe(1426.25);
+    expect(plan.jahre[0].neukunden).toBe(120);
+    expect(plan.jahre[0].churnEffektiv).toBe(5);
+    expect(plan.jahre[0].arr).toBeCloseTo(plan.jahre[0].mrrEnde * 12, 1);
+  });
+
+  it('should collect annual prepayments up front and churn them at renewal', () => {
+    const plan = calculateAboKohorten({
+      ...SAAS,
+      neukunden: [10, 10, 0],
+      jahresaboAnteil: 50,
+      jahresaboRabatt: 20,
+      upgradeRateMonatlich: 10,
+      upgradeAufpreisMonatlich: 20,
+    });
+
+    // 5 × €50 monthly + 5 × €40 annual, prepaid 12 × €40
+    expect(plan.monate[0]?.mrr).toBe(450);
+    expect(plan.monate[0]?.einzahlungen).toBe(2650);
+
+    // Upgrades of the first cohort: 9,75 active × 10% × €20
+    expect(plan.monate[1]?.mrr).toBe(907);
+
+    // Annual subscribers stay until the renewal in month 13
+    expect(plan.monate[11]?.kundenJahresabo).toBe(10);
+    expect(plan.monate[12]?.kundenJahresabo).toBeLessThan(10);
+    expect(plan.monate[2]?.einzahlungen).toBeLessThan(plan.monate[2]?.mrr ?? 0);
+  });
+});
+
+// ============================================================================
+// Integration
+// ============================================================================
+
+describe('Abo Integration', () => {
+  it('should produce an Umsatzstrom matching the MRR', () => {
+    const plan = calculateAboKohorten(SAAS);
+
+    expect(plan.umsatzstrom.typ).toBe('abo');
+    expect(plan.umsatzstrom.mengeJahr1.slice(0, 3)).toEqual([10, 19.5, 28.53]);
+    expect(calculateStreamAnnualRevenue([plan.umsatzstrom], 2)).toBeCloseTo(plan.jahre[1].umsatz, 0);
+    expect(calculateStreamAnnualRevenue([plan.umsatzstrom], 3)).toBeCloseTo(plan.jahre[2].umsatz, 0);
+  });
+
+  it('should derive LTV and CAC ratios and hand them to the CustomerKPIs', () => {
+    const plan = calculateAboKohorten(SAAS);
+
+    // €50 ARPU × 80% Bruttomarge / 5% churn
+    expect(plan.jahre[0].ltv).toBe(800);
+    expect(plan.ltvCacRatio).toBe(2.67);
+    expect(plan.cacAmortisationMonate).toBe(7.5);
+
+    const kpis = createAboCustomerKPIs(plan);
+    expect(CustomerKPIsSchema.safeParse(kpis).success).toBe(true);
+    expect(kpis.kundenakquisitionskosten.targets.targetJahr1).toBe(300);
+    expect(kpis.kundenwert?.targets.minimumAcceptable).toBe(900);
+
+    const validation = validateAboModell(plan, SAAS);
+    expect(validation.isRealistic).toBe(false);
+    expect(validation.warnings[0]).toContain('LTV/CAC');
+  });
+
+  it('should warn about churn below the Branchenbenchmark', () => {
+    const input = { ...SAAS, churnRateMonatlich: 0.5, cac: 100 };
+    const validation = validateAboModell(calculateAboKohorten(input), input);
+
+    expect(validation.warnings).toHaveLength(1);
+    expect(validation.warnings[0]).toContain('Kündigungsquote');
+  });
+});
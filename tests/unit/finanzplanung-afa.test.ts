@@ -0,0 +1,186 @@
+/**
+ * Finanzplanung AfA Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - AfA-Tabelle default useful lives and pro-rata temporis
+ * - GWG immediate write-off and Sammelposten
+ * - Degressive AfA within the statutory periods
+ * - Abschreibungen in all three Rentabilität years
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  calculateAfaPosition,
+  calculateAfaPlan,
+  getPlanStart,
+  getAfaMethode,
+} from '@/lib/finance/abschreibung';
+
+import { calculateRentabilitaet } from '@/lib/finance/rentabilitaet';
+import { createHealthyLiquidityTest } from '@/lib/finance/liquiditaet';
+import type { Investition } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+const PLAN_START_2026 = { planStart: { jahr: 2026, monat: 1 } };
+
+// ============================================================================
+// Method Selection
+// ============================================================================
+
+describe('AfA Methode', () => {
+  it('should apply GWG and Sammelposten thresholds', () => {
+    const investition = (betrag: number): Investition => ({ name: 'Test', kategorie: 'ausstattung', betrag });
+
+    expect(getAfaMethode(investition(200))).toBe('gwg');
+    expect(getAfaMethode(investition(800))).toBe('gwg');
+    expect(getAfaMethode(investition(900))).toBe('linear');
+    expect(getAfaMethode(investition(200), true)).toBe('gwg');
+    expect(getAfaMethode(investition(600), true)).toBe('sammelposten');
+    expect(getAfaMethode(investition(1000), true)).toBe('sammelposten');
+    expect(getAfaMethode(investition(1200), true)).toBe('linear');
+  });
+});
+
+// ============================================================================
+// AfA Calculation
+// ============================================================================
+
+describe('AfA Berechnung', () => {
+  it('should use the AfA-Tabelle default life with pro-rata temporis', () => {
+    // PKW: 6 years, acquired in month 4 → 9/12 in year 1
+    const position = calculateAfaPosition(
+      { name: 'Firmenwagen', kategorie: 'fahrzeuge', betrag: 24000, anschaffungsmonat: 4 },
+      PLAN_START_2026
+    );
+
+    expect(position.nutzungsdauer).toBe(6);
+    expect(position.jahre).toEqual([3000, 4000, 4000]);
+    expect(position.restbuchwert).toBe(13000);
+  });
+
+  it('should start depreciation in the plan year of acquisition', () => {
+    const position = calculateAfaPosition(
+      { name: 'Maschine', kategorie: 'anlagen', betrag: 12000, nutzungsdauer: 10, anschaffungsmonat: 19 },
+      PLAN_START_2026
+    );
+
+    expect(position.jahre).toEqual([0, 600, 1200]);
+  });
+
+  it('should write off GWG immediately and spread Sammelposten over 5 years', () => {
+    const gwg = calculateAfaPosition({ name: 'Bürostuhl', kategorie: 'ausstattung', betrag: 650, anschaffungsmonat: 10 }, PLAN_START_2026);
+    const pool = calculateAfaPosition(
+      { name: 'Bürostuhl', kategorie: 'ausstattung', betrag: 650, anschaffungsmonat: 10 },
+      { ...PLAN_START_2026, sammelposten: true }
+    );
+
+    expect(gwg.jahre).toEqual([650, 0, 0]);
+    expect(pool.jahre).toEqual([130, 130, 130]);
+    expect(pool.restbuchwert).toBe(260);
+  });
+
+  it('should apply degressive AfA only within the statutory period', () => {
+    const maschine: Investition = {
+      name: 'CNC-Fräse',
+      kategorie: 'anlagen',
+      betrag: 50000,
+      nutzungsdauer: 10,
+      afaMethode: 'degressiv',
+    };
+
+    // 2026: 30% (max. 3 × 10% linear)
+    const degressiv = calculateAfaPosition(maschine, PLAN_START_2026);
+    expect(degressiv.methode).toBe('degressiv');
+    expect(degressiv.jahre).toEqual([15000, 10500, 7350]);
+
+    // 2023: no degressive AfA allowed
+    const plan = calculateAfaPlan([maschine], { planStart: { jahr: 2023, monat: 1 } });
+    expect(plan.positionen[0]?.methode).toBe('linear');
+    expect(plan.jahre).toEqual([5000, 5000, 5000]);
+    expect(plan.hinweise).toHaveLength(1);
+  });
+
+  it('should not depend on the current date without a plan start', () => {
+    const maschine: Investition = {
+      name: 'CNC-Fräse',
+      kategorie: 'anlagen',
+      betrag: 50000,
+      nutzungsdauer: 10,
+      afaMethode: 'degressiv',
+    };
+
+    const plan = calculateAfaPlan([maschine]);
+    expect(plan.positionen[0]?.methode).toBe('linear');
+    expect(plan.jahre).toEqual([5000, 5000, 5000]);
+    expect(plan.hinweise).toEqual(['CNC-Fräse: Degressive AfA ohne geplanten Starttermin nicht prüfbar - lineare AfA angesetzt']);
+  });
+
+  it('should read the plan start from the planned start date', () => {
+    expect(getPlanStart('2026-03-01')).toEqual({ jahr: 2026, monat: 3 });
+    expect(getPlanStart('2026-13-01')).toBeUndefined();
+    expect(getPlanStart('März 2026')).toBeUndefined();
+    expect(getPlanStart()).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Rentabilität Integration
+// ============================================================================
+
+describe('AfA in Rentabilität', () => {
+  it('should feed abschreibungen in all three years', () => {
+    const input = createHealthyLiquidityTest();
+    const investitionen: Investition[] = [
+      { name: 'Laptop', kategorie: 'it', betrag: 2000 },
+      { name: 'Büroausstattung', kategorie: 'ausstattung', betrag: 6500 },
+      { name: 'Drucker', kategorie: 'it', betrag: 400 },
+    ];
+
+    const ohneAfa = calculateRentabilitaet({ ...input, kapitalbedarf: undefined, taxRate: 0 });
+    const mitAfa = calculateRentabilitaet({ ...input, kapitalbedarf: { investitionen }, afa: PLAN_START_2026, taxRate: 0 });
+
+    // Laptop 2.000 + Drucker 400 (GWG) + Ausstattung 6.500 / 13
+    expect(mitAfa.jahr1.abschreibungen).toBe(2900);
+    expect(mitAfa.jahr2.abschreibungen).toBe(500);
+    expect(mitAfa.jahr3.abschreibungen).toBe(500);
+
+    // Fixed costs are no longer reduced by the flat 5% depreciation estimate
+    expect(mitAfa.jahr1.ergebnisVorSteuern).toBeCloseTo(ohneAfa.jahr1.ergebnisVorSteuern - 2900, 2);
+    expect(mitAfa.jahr3.ergebnisVorSteuern).toBeCloseTo(ohneAfa.jahr3.ergebnisVorSteuern - 500, 2);
+  });
+
+  it('should replace depreciation entered as fixed cost position', () => {
+    const input = createHealthyLiquidityTest();
+    const kostenplanung = {
+      ...input.kostenplanung,
+      fixkosten: [{
+        name: 'Abschreibung',
+        kategorie: 'abschreibung' as const,
+        fixOderVariabel: 'fix' as const,
+        betragMonatlich: 100,
+        betragJaehrlich: 1200,
+      }],
+    };
+
+    const result = calculateRentabilitaet({ ...input, kostenplanung, kapitalbedarf: { investitionen: [] }, taxRate: 0 });
+    const ohneAfa = calculateRentabilitaet({ ...input, kapitalbedarf: undefined, taxRate: 0 });
+
+    expect(result.jahr1.abschreibungen).toBe(0);
+    expect(result.jahr1.ergebnisVorSteuern).toBeCloseTo(ohneAfa.jahr1.ergebnisVorSteuern + 1200, 2);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Finanzplanung Bank Import Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - CAMT.053, MT940 and CSV parsing (Sparkasse, DKB, ING)
+ * - Categorization into Privatentnahme categories and Kostenkategorien
+ * - Monthly averages proposed for the Privatentnahme and the Kostenplanung
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  detectBankFormat,
+  parseBankumsaetze,
+  categorizeBankumsatz,
+  createBankImportVorschlag,
+  applyPrivatentnahmeVorschlag,
+  createKostenpositionenVorschlag,
+} from '@/lib/finance/bank-import';
+import type { BankUmsatz } from '@/lib/finance/bank-import';
+
+import { calculateKostenplanung } from '@/lib/finance/kostenplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt><Stmt>
+    <Ntry>
+      <Amt Ccy="EUR">850.00</Amt>
+      <CdtDbtInd>DBIT</CdtDbtInd>
+      <BookgDt><Dt>2024-01-02</Dt></BookgDt>
+      <NtryDtls><TxDtls>
+        <RltdPties><Cdtr><Pty><Nm>Hausverwaltung M&amp;S</Nm></Pty></Cdtr></RltdPties>
+        <RmtInf><Ustrd>Miete Januar</Ustrd></RmtInf>
+      </TxDtls></NtryDtls>
+    </Ntry>
+    <Ntry>
+      <Amt Ccy="EUR">2400.00</Amt>
+      <CdtDbtInd>CRDT</CdtDbtInd>
+      <BookgDt><Dt>2024-01-30</Dt></BookgDt>
+      <NtryDtls><TxDtls>
+        <RltdPties><Dbtr><Pty><Nm>Arbeitgeber GmbH</Nm></Pty></Dbtr></RltdPties>
+        <RmtInf><Ustrd>Gehalt 01/2024</Ustrd></RmtInf>
+      </TxDtls></NtryDtls>
+    </Ntry>
+  </Stmt></BkToCstmrStmt>
+</Document>`;
+
+const MT940 = [
+  ':20:STARTUMS',
+  ':25:10020030/1234567890',
+  ':28C:00001/001',
+  ':60F:C240131EUR5000,00',
+  ':61:2402010201DR65,40NDDTNONREF',
+  ':86:105?00LASTSCHRIFT?20Rechnung 4711?21Mobilfunk Februar?32Telekom Deutschla',
+  'nd GmbH',
+  ':61:2402050205CR1200,00NTRFNONREF',
+  ':86:166?00GUTSCHRIFT?20Honorar Projekt A?32Kunde AG',
+  ':62F:C240205EUR6134,60',
+].join('\n');
+
+const SPARKASSE_CSV = [
+  '"Auftragskonto";"Buchungstag";"Valutadatum";"Buchungstext";"Verwendungszweck";"Beguenstigter/Zahlungspflichtiger";"Kontonummer/IBAN";"BIC (SWIFT-Code)";"Betrag";"Waehrung";"Info"',
+  '"DE001";"03.01.24";"03.01.24";"KARTENZAHLUNG";"REWE Markt Berlin";"REWE";"";"";"-54,30";"EUR";"Umsatz gebucht"',
+  '"DE001";"15.03.24";"15.03.24";"LASTSCHRIFT";"Beitrag 2024";"HUK-COBURG";"";"";"-1.234,56";"EUR";"Umsatz gebucht"',
+].join('\n');
+
+const DKB_CSV = [
+  '"Girokonto";"DE02120300000000202051"',
+  '"Kontostand vom 31.01.2024:";"1.000,00 €"',
+  '',
+  '"Buchungsdatum";"Wertstellung";"Status";"Zahlungspflichtige*r";"Zahlungsempfänger*in";"Verwendungszweck";"Umsatztyp";"IBAN";"Betrag (€)"',
+  '"10.01.24";"10.01.24";"Gebucht";"Max Muster";"Deutsche Bahn";"Ticket 123";"Ausgang";"DE00";"-89,90"',
+  '"12.01.24";"12.01.24";"Gebucht";"Kunde AG";"Max Muster";"Rechnung 1";"Eingang";"DE00";"500,00"',
+].join('\n');
+
+const ING_CSV = [
+  'Umsatzanzeige;Datei erstellt am: 01.02.2024',
+  'IBAN;DE12 5001 0517 0000 0000 00',
+  '',
+  'Buchung;Valuta;Auftraggeber/Empfänger;Buchungstext;Verwendungszweck;Saldo;Währung;Betrag;Währung',
+  '05.01.2024;05.01.2024;Aral Station;Lastschrift;Tanken;1.000,00;EUR;-70,00;EUR',
+].join('\n');
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('Bank Import Parsing', () => {
+  it('should parse CAMT.053 entries with counterparty and Verwendungszweck', () => {
+    expect(detectBankFormat(CAMT053)).toBe('camt053');
+    expect(parseBankumsaetze(CAMT053)).toEqual([
+      { datum: '2024-01-02', betrag: -850, gegenpartei: 'Hausverwaltung M&S', verwendungszweck: 'Miete Januar' },
+      { datum: '2024-01-30', betrag: 2400, gegenpartei: 'Arbeitgeber GmbH', verwendungszweck: 'Gehalt 01/2024' },
+    ]);
+  });
+
+  it('should parse MT940 bookings with structured :86: subfields', () => {
+    expect(detectBankFormat(MT940)).toBe('mt940');
+    expect(parseBankumsaetze(MT940)).toEqual([
+      { datum: '2024-02-01', betrag: -65.4, gegenpartei: 'Telekom Deutschland GmbH', verwendungszweck: 'Rechnung 4711Mobilfunk Februar' },
+      { datum: '2024-02-05', betrag: 1200, gegenpartei: 'Kunde AG', verwendungszweck: 'Honorar Projekt A' },
+    ]);
+  });
+
+  it('should parse the Sparkasse, DKB and ING CSV layouts', () => {
+    const sparkasse = parseBankumsaetze(SPARKASSE_CSV);
+    expect(sparkasse).toHaveLength(2);
+    expect(sparkasse[1]).toEqual({
+      datum: '2024-03-15',
+      betrag: -1234.56,
+      gegenpartei: 'HUK-COBURG',
+      verwendungszweck: 'LASTSCHRIFT Beitrag 2024',
+    });
+
+    // DKB: payee for debits, payer for credits
+    const dkb = parseBankumsaetze(DKB_CSV);
+    expect(dkb.map(umsatz => [umsatz.betrag, umsatz.gegenpartei])).toEqual([[-89.9, 'Deutsche Bahn'], [500, 'Kunde AG']]);
+
+    const ing = parseBankumsaetze(ING_CSV);
+    expect(ing).toEqual([{ datum: '2024-01-05', betrag: -70, gegenpartei: 'Aral Station', verwendungszweck: 'Lastschrift Tanken' }]);
+  });
+
+  it('should read amounts with a dot as thousands separator in euros', () => {
+    const csv = [
+      'Buchungstag;Verwendungszweck;Betrag',
+      '02.01.24;Miete Januar;-1.234',
+      '15.01.24;Honorar;12.500',
+      '20.01.24;Brötchen;-3.5',
+    ].join('\n');
+
+    expect(parseBankumsaetze(csv).map(umsatz => umsatz.betrag)).toEqual([-1234, 12500, -3.5]);
+  });
+
+  it('should skip rows with an unparsable amount instead of failing the import', () => {
+    const csv = [
+      'Buchungstag;Verwendungszweck;Betrag',
+      '02.01.24;Vorgemerkt;n/a',
+      '03.01.24;Ohne Betrag;',
+      '04.01.24;REWE Markt;-54,30',
+    ].join('\n');
+
+    expect(() => parseBankumsaetze(csv)).not.toThrow();
+    expect(parseBankumsaetze(csv)).toEqual([
+      { datum: '2024-01-04', betrag: -54.3, gegenpartei: '', verwendungszweck: 'REWE Markt' },
+    ]);
+  });
+});
+
+// ============================================================================
+// Categorization and Proposal
+// ============================================================================
+
+describe('Bank Import Proposal', () => {
+  it('should categorize bookings by counterparty and Verwendungszweck', () => {
+    const umsatz = (gegenpartei: string, verwendungszweck = ''): BankUmsatz =>
+      ({ datum: '2024-01-01', betrag: -10, gegenpartei, verwendungszweck });
+
+    expect(categorizeBankumsatz(umsatz('REWE')).kategorie).toBe('lebensmittel');
+    expect(categorizeBankumsatz(umsatz('Allianz', 'Hausratversicherung')).kategorie).toBe('versicherungen');
+    expect(categorizeBankumsatz(umsatz('Max Muster', 'Umbuchung Tagesgeld')).bereich).toBe('intern');
+    expect(categorizeBankumsatz(umsatz('Unbekannt')).bereich).toBe('unbekannt');
+    expect(categorizeBankumsatz(umsatz('Google Ireland', 'Google Ads'), 'geschaeftlich').kategorie).toBe('marketing');
+    expect(categorizeBankumsatz({ ...umsatz('Kunde AG'), betrag: 100 }).bereich).toBe('einnahme');
+  });
+
+  it('should propose monthly Privatentnahme averages for confirmation', () => {
+    const umsaetze: BankUmsatz[] = [1, 2, 3].flatMap(monat => [
+      { datum: `2024-0${monat}-01`, betrag: -800, gegenpartei: 'Hausverwaltung', verwendungszweck: 'Miete' },
+      { datum: `2024-0${monat}-10`, betrag: -150, gegenpartei: 'EDEKA', verwendungszweck: '' },
+      { datum: `2024-0${monat}-20`, betrag: -150, gegenpartei: 'Lidl', verwendungszweck: '' },
+    ]);
+    umsaetze.push({ datum: '2024-02-15', betrag: -90, gegenpartei: 'Flohmarkt', verwendungszweck: '' });
+
+    const vorschlag = createBankImportVorschlag(umsaetze);
+
+    expect(vorschlag.monate).toBe(3);
+    expect(vorschlag.privatentnahme.miete).toBe(800);
+    expect(vorschlag.privatentnahme.lebensmittel).toBe(300);
+    expect(vorschlag.privatentnahme.sonstigeAusgaben).toBe(30);
+    expect(vorschlag.nichtZugeordnet).toHaveLength(1);
+    expect(vorschlag.hinweise[0]).toContain('nicht zugeordnet');
+
+    // Founder corrects the food budget before the values are stored
+    const privatentnahme = applyPrivatentnahmeVorschlag(vorschlag, { lebensmittel: 350 }, 250);
+    expect(privatentnahme.monatlichePrivatentnahme).toBe(1430);
+    expect(privatentnahme.jaehrlichePrivatentnahme).toBe(17160);
+  });
+
+  it('should propose Kostenpositionen from a business account', () => {
+    const umsaetze: BankUmsatz[] = [
+      { datum: '2024-01-05', betrag: 4000, gegenpartei: 'Kunde AG', verwendungszweck: 'Rechnung 1' },
+      { datum: '2024-01-10', betrag: -600, gegenpartei: 'Coworking Space', verwendungszweck: 'Büro Januar' },
+      { datum: '2024-01-20', betrag: -800, gegenpartei: 'Metro', verwendungszweck: 'Wareneinkauf' },
+    ];
+
+    const vorschlag = createBankImportVorschlag(umsaetze, 'geschaeftlich');
+    expect(vorschlag.kosten).toEqual({ miete: 600, material: 800 });
+    expect(vorschlag.einnahmenMonatlich).toBe(4000);
+    expect(vorschlag.hinweise[0]).toContain('Nur 1 Monat');
+
+    const kostenplanung = calculateKostenplanung({
+      kostenPositionen: createKostenpositionenVorschlag(vorschlag),
+      revenueProjections: [48000, 60000, 72000],
+    });
+    expect(kostenplanung.fixkostenSummeMonatlich).toBe(600);
+    expect(kostenplanung.variableKostenSummeJahr1).toBe(9600);
+  });
+});
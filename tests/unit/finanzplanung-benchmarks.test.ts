@@ -0,0 +1,139 @@
+/**
+ * Finanzplanung Branchenbenchmarks Unit Tests
+ *
+ * CRITICAL: Tests verify that all calculators read the same registry
+ * - One entry per DetailedBusinessTypeId with source and validity year
+ * - Legacy keys resolved to the registry ids
+ * - Break-even, cost, margin, seasonality and payment term lookups
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  BRANCHEN_BENCHMARKS,
+  DEFAULT_BENCHMARK,
+  resolveBranche,
+  getBranchenBenchmark,
+  findVeralteteBenchmarks,
+} from '@/lib/finance/branchenbenchmarks';
+
+import { getAllBusinessTypeIds } from '@/lib/business-types';
+import { BusinessCategory } from '@/types/modules/intake';
+import { getIndustryBenchmarks } from '@/lib/finance/umsatzplanung';
+import { checkCostBenchmarks, getIndustryCostGuidance, validateCostCompleteness } from '@/lib/finance/kostenplanung';
+import { calculateBreakEven, validateBreakEvenRealism } from '@/lib/finance/break-even';
+import { applySeasonalAdjustments, calculateMonthlyCashFlow, createHealthyLiquidityTest, getBranchenPaymentTerms } from '@/lib/finance/liquiditaet';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+describe('Benchmark Registry', () => {
+  it('should contain one entry per business type', () => {
+    const ids = getAllBusinessTypeIds();
+
+    expect(Object.keys(BRANCHEN_BENCHMARKS).sort()).toEqual([...ids].sort());
+    ids.forEach(id => {
+      const benchmark = BRANCHEN_BENCHMARKS[id];
+      expect(benchmark.id).toBe(id);
+      expect(benchmark.margen.rohertrag.quelle).toBeTruthy();
+      expect(benchmark.margen.rohertrag.gueltigJahr).toBeGreaterThan(2000);
+      expect(benchmark.saisonalitaet.wert.quartale).toHaveLength(4);
+    });
+  });
+
+  it('should resolve legacy keys and fall back to the default', () => {
+    expect(resolveBranche('ecommerce')).toBe('e-commerce');
+    expect(resolveBranche('IT-Dienstleistung')).toBe('it-dienstleistung');
+    expect(resolveBranche('services')).toBe('beratung');
+    expect(resolveBranche('unbekannt')).toBeUndefined();
+    expect(getBranchenBenchmark('unbekannt')).toBe(DEFAULT_BENCHMARK);
+    expect(getBranchenBenchmark('ecommerce')).toBe(BRANCHEN_BENCHMARKS['e-commerce']);
+  });
+
+  it('should resolve every intake business category', () => {
+    BusinessCategory.options.forEach(category => {
+      expect(resolveBranche(category), category).toBeDefined();
+    });
+    expect(resolveBranche('consulting')).toBe('beratung');
+    expect(resolveBranche('local_retail')).toBe('einzelhandel');
+    expect(getBranchenBenchmark('local_service')).not.toBe(DEFAULT_BENCHMARK);
+  });
+
+  it('should list values older than the review period', () => {
+    expect(findVeralteteBenchmarks(2025)).toHaveLength(0);
+
+    const veraltet = findVeralteteBenchmarks(2027, 4);
+    expect(veraltet.length).toBeGreaterThan(0);
+    expect(veraltet.every(eintrag => eintrag.gueltigJahr === 2022)).toBe(true);
+    expect(veraltet.map(eintrag => eintrag.pfad)).toContain('margen.rohertrag');
+  });
+});
+
+// ============================================================================
+// Calculator Integration
+// ============================================================================
+
+describe('Benchmarks in Calculators', () => {
+  it('should use the same keys in break-even and cost validation', () => {
+    const breakEven = calculateBreakEven({ fixkostenMonatlich: 6000, variableKostenProzent: 70 });
+    const legacy = validateBreakEvenRealism(breakEven, 'ecommerce');
+    const registry = validateBreakEvenRealism(breakEven, 'e-commerce');
+
+    expect(registry.warnings).toEqual(legacy.warnings.map(warning => warning.replace('ecommerce', 'e-commerce')));
+    expect(registry.industryGuidance).toContain('Für e-commerce: Deckungsbeitrag von 40% anstreben');
+
+    const guidance = getIndustryCostGuidance('it-dienstleistung');
+    expect(guidance.personalkosten).toContain('30-50%');
+    expect(guidance.tipps).toEqual(BRANCHEN_BENCHMARKS['it-dienstleistung'].tipps);
+
+    const costs = checkCostBenchmarks(
+      [{ name: 'Hosting', kategorie: 'sonstige', fixOderVariabel: 'fix', betragJaehrlich: 20000 }],
+      100000,
+      'saas'
+    );
+    expect(costs.abweichungen[0]?.benchmark).toBe(10);
+    expect(costs.warnings).toHaveLength(1);
+
+    const completeness = validateCostCompleteness([], 'restaurant');
+    expect(completeness.missingCategories).toEqual(['personal', 'versicherung', 'steuern', 'miete', 'material']);
+  });
+
+  it('should expose Stundensätze and seasonality for all business types', () => {
+    expect(getIndustryBenchmarks('freiberufler')).toMatchObject({
+      stundensatz: { min: 60, max: 130, typical: 85 },
+      saisonalitaet: 'gering',
+    });
+
+    const foodtruck = applySeasonalAdjustments(Array(12).fill(1000), 'foodtruck');
+    expect(foodtruck[0]).toBe(600);
+    expect(foodtruck[6]).toBe(1400);
+  });
+
+  it('should derive payment terms from the industry', () => {
+    expect(getBranchenPaymentTerms('restaurant').customerPaymentDays).toBe(0);
+    expect(getBranchenPaymentTerms().customerPaymentDays).toBe(45);
+
+    const input = createHealthyLiquidityTest();
+    const b2b = calculateMonthlyCashFlow(input, 2);
+    const gastro = calculateMonthlyCashFlow({ ...input, industry: 'restaurant' }, 2);
+
+    expect(b2b.revenueInflow).toBe(0);
+    expect(gastro.revenueInflow).toBe(input.umsatzplanung.umsatzJahr1[1]);
+  });
+});
@@ -50,6 +50,7 @@ import {
 import {
   calculateLiquiditaet,
   calculateMonthlyCashFlow,
+  projectLiquiditaet,
   analyzeLiquidityRisks,
   validateLiquidityForBA,
   applySeasonalAdjustments,
@@ -58,6 +59,11 @@ import {
   createHealthyLiquidityTest,
 } from '@/lib/finance/liquiditaet';
 
+import {
+  projectMonthlyRevenue,
+  distributeAnnualRevenue,
+} from '@/lib/finance/umsatzplanung';
+
 // Import prompt modules for CBC testing
 import {
   detectProfitabilityAnxiety,
@@ -79,6 +85,10 @@ import type {
   Kostenplanung,
   RentabilitaetInput,
 } from '@/types/modules/finanzplanung';
+import {
+  LiquiditaetSchema,
+  isFinanzplanungComplete,
+} from '@/types/modules/finanzplanung';
 import type { BreakEvenInput } from '@/lib/finance/break-even';
 import type { LiquiditaetInput } from '@/lib/finance/liquiditaet';
 
@@ -311,8 +321,8 @@ describe('Rentabilität Calculations', () => {
 
       const taxAnalysis = analyzeTaxImplications(result);
 
-      // German effective tax rate should be 25-35%
-      expect(taxAnalysis.effectiveRate).toBeGreaterThan(20);
+      // Progressive German income tax for a small consulting business
+      expect(taxAnalysis.effectiveRate).toBeGreaterThan(10);
       expect(taxAnalysis.effectiveRate).toBeLessThan(40);
       expect(taxAnalysis.taxOptimizationPotential).toContain('Kleinunternehmerregelung prüfen');
     });
@@ -399,11 +409,11 @@ describe('Liquidität Calculations', () => {
       const scenario = createHealthyLiquidityTest();
       const result = calculateLiquiditaet(scenario);
 
-      // Verify structure
-      expect(result.monate).toHaveLength(12);
+      // Verify structure (36-month horizon)
+      expect(result.monate).toHaveLength(36);
       expect(result.minimumLiquiditaet).toBeDefined();
       expect(result.minimumMonat).toBeGreaterThan(0);
-      expect(result.minimumMonat).toBeLessThanOrEqual(12);
+      expect(result.minimumMonat).toBeLessThanOrEqual(36);
       expect(result.hatNegativeLiquiditaet).toBe(false);
 
       // Verify monthly calculations
@@ -437,6 +447,14 @@ describe('Liquidität Calculations', () => {
       const validation = validateLiquidityForBA(result, analyzeLiquidityRisks(result, problematicScenario));
       expect(validation.hasNegativeLiquidity).toBe(true);
       expect(validation.actionItems).toContain('Finanzierung erhöhen oder Kosten senken');
+      expect(validation.evidence.length).toBeGreaterThan(0);
+      validation.evidence
+        .filter(pointer => pointer.month !== undefined && pointer.field.startsWith('liquiditaet.monate'))
+        .forEach(pointer => {
+          expect(pointer.phase).toBe('liquiditaet');
+          expect(pointer.field).toBe(`liquiditaet.monate[${pointer.month! - 1}].endbestand`);
+          expect(pointer.value).toBeLessThan(0);
+        });
     });
 
     it('should handle payment timing delays correctly', () => {
@@ -451,6 +469,99 @@ describe('Liquidität Calculations', () => {
     });
   });
 
+  describe('36-Month Horizon', () => {
+    it('should derive Year 2-3 months from annual totals', () => {
+      const scenario = createHealthyLiquidityTest();
+      const monthlyRevenue = projectMonthlyRevenue(scenario.umsatzplanung);
+
+      expect(monthlyRevenue).toHaveLength(36);
+      expect(monthlyRevenue.slice(0, 12)).toEqual(scenario.umsatzplanung.umsatzJahr1);
+
+      const jahr2 = monthlyRevenue.slice(12, 24).reduce((sum, value) => sum + value, 0);
+      const jahr3 = monthlyRevenue.slice(24, 36).reduce((sum, value) => sum + value, 0);
+      expect(jahr2).toBeCloseTo(scenario.umsatzplanung.umsatzJahr2, 2);
+      expect(jahr3).toBeCloseTo(scenario.umsatzplanung.umsatzJahr3, 2);
+    });
+
+    it('should distribute annual revenue by seasonality', () => {
+      const monthly = distributeAnnualRevenue(120000, [1.2, 1.0, 0.8, 1.0]);
+
+      expect(monthly).toHaveLength(12);
+      expect(monthly[0]).toBeCloseTo(12000, 2);  // Q1: 120000 × 1.2/4 / 3
+      expect(monthly[6]).toBeCloseTo(8000, 2);   // Q3: 120000 × 0.8/4 / 3
+      expect(monthly.reduce((sum, value) => sum + value, 0)).toBeCloseTo(120000, 2);
+    });
+
+    it('should grow fixed costs in Years 2-3', () => {
+      const scenario = createHealthyLiquidityTest();
+      const fixkosten = scenario.kostenplanung.fixkostenSummeMonatlich;
+
+      // Month 14 falls into Year 2, month 26 into Year 3
+      const month14 = calculateMonthlyCashFlow(scenario, 14);
+      const month26 = calculateMonthlyCashFlow(scenario, 26);
+
+      expect(month14.operatingOutflows).toBeGreaterThanOrEqual(fixkosten * 1.1);
+      expect(month26.operatingOutflows).toBeGreaterThanOrEqual(fixkosten * 1.2);
+    });
+
+    it('should flag liquidity gaps after Year 1', () => {
+      const scenario = createHealthyLiquidityTest();
+      const input: LiquiditaetInput = {
+        ...scenario,
+        umsatzplanung: { ...scenario.umsatzplanung, umsatzJahr2: 0, umsatzJahr3: 0 },
+        kostenplanung: { ...scenario.kostenplanung, variableKostenSummeJahr2: 0, variableKostenSummeJahr3: 0 },
+      };
+
+      const result = calculateLiquiditaet(input);
+      const firstNegative = result.monate.find(m => m.endbestand < 0);
+
+      expect(result.hatNegativeLiquiditaet).toBe(true);
+      expect(firstNegative?.monat).toBeGreaterThan(12);
+
+      const validation = validateLiquidityForBA(result, analyzeLiquidityRisks(result, input));
+      expect(validation.hasNegativeLiquidity).toBe(true);
+      expect(validation.actionItems.some(item => item.includes(`ab Monat ${firstNegative?.monat}`))).toBe(true);
+    });
+
+    it('should give the same months with shared projections', () => {
+      const scenario = createHealthyLiquidityTest();
+      const projektionen = projectLiquiditaet(scenario);
+
+      [1, 14, 36].forEach(month => {
+        expect(calculateMonthlyCashFlow(scenario, month, projektionen)).toEqual(calculateMonthlyCashFlow(scenario, month));
+      });
+    });
+
+    it('should keep 12-month plans saved before the 36-month horizon and ask for the rest', () => {
+      const scenario = createHealthyLiquidityTest();
+      const jahr1 = calculateLiquiditaet(scenario);
+      const gespeichert = { ...jahr1, monate: jahr1.monate.slice(0, 12) };
+
+      const geladen = LiquiditaetSchema.parse(gespeichert);
+
+      expect(geladen.monate).toEqual(gespeichert.monate);
+      expect(LiquiditaetSchema.safeParse({ ...jahr1, monate: jahr1.monate.slice(0, 20) }).success).toBe(false);
+
+      const validation = validateLiquidityForBA(geladen, analyzeLiquidityRisks(geladen, scenario));
+      expect(validation.actionItems).toContain('Liquiditätsplan auf 36 Monate erweitern (aktuell 12)');
+    });
+
+    it('should count a 12-month plan as complete', () => {
+      const scenario = createHealthyLiquidityTest();
+      const liquiditaet = calculateLiquiditaet(scenario);
+
+      expect(isFinanzplanungComplete({
+        kapitalbedarf: scenario.kapitalbedarf,
+        finanzierung: scenario.finanzierung,
+        privatentnahme: scenario.privatentnahme,
+        umsatzplanung: scenario.umsatzplanung,
+        kostenplanung: scenario.kostenplanung,
+        rentabilitaet: { jahr1: { jahresueberschuss: 1 } },
+        liquiditaet: { ...liquiditaet, monate: liquiditaet.monate.slice(0, 12) },
+      })).toBe(true);
+    });
+  });
+
   describe('German Payment Terms Integration', () => {
     it('should apply German B2B payment delays', () => {
       const scenario = createHealthyLiquidityTest();
@@ -651,7 +762,7 @@ describe('F-G Integration with D-E Data', () => {
 
     const liquidityResult = calculateLiquiditaet(liquidityInput);
 
-    expect(liquidityResult.monate).toHaveLength(12);
+    expect(liquidityResult.monate).toHaveLength(36);
     expect(liquidityResult.hatNegativeLiquiditaet).toBe(false); // Should be healthy scenario
 
     // First month should have startup financing
@@ -746,9 +857,13 @@ describe('German Market Compliance', () => {
       const result = calculateRentabilitaet(scenario);
       const taxAnalysis = analyzeTaxImplications(result);
 
-      // Should be in German small business tax range
-      expect(taxAnalysis.effectiveRate).toBeGreaterThan(25);
-      expect(taxAnalysis.effectiveRate).toBeLessThan(35);
+      // Progressive Einkommensteuer: well below the 42 % top rate for small profits
+      expect(taxAnalysis.effectiveRate).toBeGreaterThan(10);
+      expect(taxAnalysis.effectiveRate).toBeLessThan(30);
+
+      // Higher profit in Year 3 → higher effective rate
+      expect(result.jahr3.steuerDetails?.effektiverSteuersatz)
+        .toBeGreaterThan(result.jahr1.steuerDetails?.effektiverSteuersatz ?? 0);
     });
 
     it('should provide German tax optimization advice', () => {
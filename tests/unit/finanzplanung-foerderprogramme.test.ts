@@ -0,0 +1,172 @@
+/**
+ * Finanzplanung Förderprogramme Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Eligibility rules against Intake, Standort and Kapitalbedarf
+ * - Pre-filled Finanzierungsquellen within the programme limits
+ * - Versioned catalogue with sources
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  FOERDERPROGRAMME,
+  createFoerderFinanzierungsquellen,
+  createFoerderProfil,
+  erkenneBundesland,
+  findVeralteteFoerderprogramme,
+  findeFoerderprogramme,
+} from '@/lib/finance/foerderprogramme';
+import type { FoerderProfil } from '@/lib/finance/foerderprogramme';
+import { FinanzierungsquelleSchema } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+const MEISTER_NRW: FoerderProfil = {
+  gesamtkapitalbedarf: 80000,
+  finanzierungsbedarf: 60000,
+  bundesland: 'NW',
+  erwerbsstatus: 'employed',
+  alg1Anspruch: false,
+  meisterbrief: true,
+  haupterwerb: true,
+  branche: 'handwerk',
+};
+
+// ============================================================================
+// Profile
+// ============================================================================
+
+describe('Förderprofil', () => {
+  it('should detect the Bundesland from the Standort text', () => {
+    expect(erkenneBundesland('Köln, NRW')).toBe('NW');
+    expect(erkenneBundesland('Halle (Saale), Sachsen-Anhalt')).toBe('ST');
+    expect(erkenneBundesland('Leipzig')).toBe('SN');
+    expect(erkenneBundesland('Homeoffice')).toBeUndefined();
+  });
+
+  it('should build the profile from Intake, Standort and Finanzplanung', () => {
+    const profil = createFoerderProfil({
+      intake: {
+        founder: {
+          currentStatus: 'unemployed',
+          qualifications: { education: 'Tischlermeisterin', certifications: [], specialSkills: [] },
+        },
+        resources: { financial: { availableCapital: 15000 }, time: { isFullTime: true } },
+      },
+      unternehmen: { standort: { address: 'Stuttgart' } },
+      finanzplanung: { kapitalbedarf: { gesamtkapitalbedarf: 48200 } },
+    });
+
+    expect(profil).toEqual({
+      gesamtkapitalbedarf: 48200,
+      finanzierungsbedarf: 33200,
+      bundesland: 'BW',
+      erwerbsstatus: 'unemployed',
+      alg1Anspruch: undefined,
+      meisterbrief: true,
+      haupterwerb: true,
+      branche: undefined,
+    });
+  });
+});
+
+// ============================================================================
+// Eligibility
+// ============================================================================
+
+describe('Förderprogramme Eligibility', () => {
+  it('should rank eligible grants and loans for a Meister in NRW', () => {
+    const vorschlaege = findeFoerderprogramme(MEISTER_NRW);
+    const eignung = Object.fromEntries(vorschlaege.map(vorschlag => [vorschlag.programm.id, vorschlag.eignung]));
+
+    expect(eignung).toEqual({
+      'meistergruendungspraemie-nrw': 'geeignet',
+      'kfw-startgeld': 'geeignet',
+      'mikrokredit': 'geeignet',
+      'nrw-bank-guw': 'geeignet',
+      'l-bank-startfinanzierung': 'ungeeignet',
+      'ibb-berlin-start': 'ungeeignet',
+      'einstiegsgeld': 'ungeeignet',
+    });
+    expect(vorschlaege[0]?.programm.id).toBe('meistergruendungspraemie-nrw');
+    expect(vorschlaege[1]?.programm.id).toBe('nrw-bank-guw');
+  });
+
+  it('should reject StartGeld above 125.000 € and mark missing data for review', () => {
+    const vorschlaege = findeFoerderprogramme({ finanzierungsbedarf: 100000, gesamtkapitalbedarf: 150000 });
+    const startgeld = vorschlaege.find(vorschlag => vorschlag.programm.id === 'kfw-startgeld');
+    const einstiegsgeld = vorschlaege.find(vorschlag => vorschlag.programm.id === 'einstiegsgeld');
+
+    expect(startgeld?.eignung).toBe('ungeeignet');
+    expect(startgeld?.pruefungen[0]?.ergebnis).toBe('nicht_erfuellt');
+    expect(einstiegsgeld?.eignung).toBe('pruefen');
+    // Handwerk programmes are hidden without Handwerk or Meisterbrief
+    expect(vorschlaege.some(vorschlag => vorschlag.programm.id === 'meistergruendungspraemie-nrw')).toBe(false);
+  });
+
+  it('should offer Einstiegsgeld only without ALG I', () => {
+    const buergergeld = findeFoerderprogramme({ finanzierungsbedarf: 0, erwerbsstatus: 'unemployed', alg1Anspruch: false });
+    const alg1 = findeFoerderprogramme({ finanzierungsbedarf: 0, erwerbsstatus: 'unemployed', alg1Anspruch: true });
+
+    const einstiegsgeld = buergergeld.find(vorschlag => vorschlag.programm.id === 'einstiegsgeld');
+    expect(einstiegsgeld?.eignung).toBe('geeignet');
+    // 50 % of €563 Regelbedarf for 12 months
+    expect(einstiegsgeld?.finanzierungsquelle.betrag).toBe(3378);
+    expect(alg1.find(vorschlag => vorschlag.programm.id === 'einstiegsgeld')?.eignung).toBe('ungeeignet');
+  });
+});
+
+// ============================================================================
+// Finanzierungsquellen
+// ============================================================================
+
+describe('Förderprogramme Finanzierungsquellen', () => {
+  it('should pre-fill valid sources with one loan sized to the Finanzierungsbedarf', () => {
+    const quellen = createFoerderFinanzierungsquellen(findeFoerderprogramme(MEISTER_NRW));
+
+    expect(quellen.map(quelle => quelle.bezeichnung)).toEqual([
+      'Meistergründungsprämie NRW (Land NRW über die Handwerkskammer)',
+      'NRW.BANK.Gründungs- und Wachstumsfinanzierung (NRW.BANK über die Hausbank)',
+    ]);
+    expect(quellen[1]).toMatchObject({
+      typ: 'foerderkredit',
+      betrag: 60000,
+      zinssatz: 5.5,
+      laufzeit: 120,
+      tilgungsfrei: 24,
+      tilgungsart: 'raten',
+      status: 'geplant',
+    });
+    quellen.forEach(quelle => expect(FinanzierungsquelleSchema.safeParse(quelle).success).toBe(true));
+
+    // Mikrokredit is capped at 25.000 €
+    const mikrokredit = findeFoerderprogramme(MEISTER_NRW).find(vorschlag => vorschlag.programm.id === 'mikrokredit');
+    expect(mikrokredit?.finanzierungsquelle.betrag).toBe(25000);
+  });
+
+  it('should carry a source and validity year for every programme', () => {
+    FOERDERPROGRAMME.forEach(programm => {
+      expect(programm.quelle.quelle.length).toBeGreaterThan(0);
+      expect(programm.quelle.gueltigJahr).toBeGreaterThanOrEqual(2024);
+    });
+
+    expect(findVeralteteFoerderprogramme(2026)).toEqual([
+      { id: 'mikrokredit', quelle: 'Mikrofinanzinstitute Deutschland (DMI), Konditionen Mikrokredit', gueltigJahr: 2024 },
+      { id: 'meistergruendungspraemie-nrw', quelle: 'MWIKE NRW Richtlinie Meistergründungsprämie', gueltigJahr: 2024 },
+    ]);
+  });
+});
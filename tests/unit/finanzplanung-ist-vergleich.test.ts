@@ -0,0 +1,166 @@
+/**
+ * Finanzplanung Plan vs. Ist Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Variance of Umsatz, Kosten and Kontostand against the plan
+ * - Storage of monthly actuals
+ * - Rolling forecast from actuals and trend
+ * - Gründungszuschuss Phase 2 readiness report
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  storeIstDaten,
+  calculateIstVergleich,
+  calculateRollingForecast,
+  createPhase2Bericht,
+} from '@/lib/finance/ist-vergleich';
+
+import { calculateLiquiditaet, createHealthyLiquidityTest } from '@/lib/finance/liquiditaet';
+import type { IstMonat } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+/**
+ * First six months at 80% of the planned revenue with planned costs
+ * (€3.500 Fixkosten + 33% variable Kosten) and €1.000 less cash per month
+ */
+function createIstUnterPlan(): IstMonat[] {
+  const input = createHealthyLiquidityTest();
+  const liquiditaet = calculateLiquiditaet(input);
+
+  return input.umsatzplanung.umsatzJahr1.slice(0, 6).map((umsatz, index) => ({
+    monat: index + 1,
+    umsatz: umsatz * 0.8,
+    kosten: new Decimal(umsatz).times(35000).dividedBy(106000).plus(3500).toDecimalPlaces(2).toNumber(),
+    kontostand: Math.round((liquiditaet.monate[index]?.endbestand ?? 0) - 1000 * (index + 1)),
+  }));
+}
+
+// ============================================================================
+// Variance Analysis
+// ============================================================================
+
+describe('Ist-Vergleich', () => {
+  it('should compare actuals with Umsatz-, Kostenplanung and Liquidität', () => {
+    const vergleich = calculateIstVergleich(createHealthyLiquidityTest(), [
+      { monat: 3, umsatz: 4000, kosten: 5481.13, kontostand: -500 },
+      { monat: 1, umsatz: 3600, kosten: 4820.75, kontostand: 46000 },
+      { monat: 2, umsatz: 5000, kosten: 6000, kontostand: 36000 },
+    ]);
+
+    expect(vergleich.monate.map(monat => monat.monat)).toEqual([1, 2, 3]);
+    expect(vergleich.monate[0]).toMatchObject({
+      umsatzSoll: 4000,
+      umsatzAbweichung: -400,
+      umsatzAbweichungProzent: -10,
+      kostenSoll: 4820.75,
+      kontostandSoll: 46833.33,
+      kontostandAbweichung: -833.33,
+      status: 'abweichend',
+    });
+
+    // €3.500 Fixkosten + €5.000 × 35.000 / 106.000
+    expect(vergleich.monate[1]?.kostenSoll).toBe(5150.94);
+    expect(vergleich.monate[1]?.kostenAbweichungProzent).toBe(16.5);
+    expect(vergleich.monate[1]?.status).toBe('abweichend');
+    expect(vergleich.monate[2]?.status).toBe('kritisch');
+
+    expect(vergleich.umsatzErreichungProzent).toBe(84);
+    expect(vergleich.status).toBe('kritisch');
+    expect(vergleich.hinweise).toHaveLength(1);
+    expect(vergleich.hinweise[0]).toContain('Monat 3');
+  });
+
+  it('should replace months already entered when storing actuals', () => {
+    const gespeichert = storeIstDaten({}, [
+      { monat: 2, umsatz: 5000, kosten: 5000, kontostand: 30000 },
+      { monat: 1, umsatz: 4000, kosten: 4500, kontostand: 40000 },
+    ]);
+    const korrigiert = storeIstDaten(gespeichert, [{ monat: 2, umsatz: 5200, kosten: 5000, kontostand: 30200 }]);
+
+    expect(korrigiert.istDaten?.map(monat => monat.monat)).toEqual([1, 2]);
+    expect(korrigiert.istDaten?.[1]?.umsatz).toBe(5200);
+  });
+});
+
+// ============================================================================
+// Rolling Forecast
+// ============================================================================
+
+describe('Rolling Forecast', () => {
+  it('should use the actuals and continue with the trend of the last months', () => {
+    const ist = createIstUnterPlan();
+    const forecast = calculateRollingForecast(createHealthyLiquidityTest(), ist);
+
+    expect(forecast.istMonate).toBe(6);
+    expect(forecast.annahmen.umsatzAenderung).toBe(-20);
+    expect(forecast.umsatzplanung.umsatzJahr1).toEqual([3200, 4000, 4800, 5600, 6400, 7200, 8000, 8400, 8800, 9200, 9600, 10000]);
+    expect(forecast.umsatzplanung.umsatzJahr2).toBe(108000);
+    expect(forecast.rentabilitaet.jahr1.umsatz).toBe(85200);
+
+    // Planned costs at lower revenue: the fixed part is higher than planned
+    expect(forecast.annahmen.fixkostenAenderung).toBeGreaterThan(0);
+  });
+
+  it('should continue the Liquidität from the last actual Kontostand', () => {
+    const input = createHealthyLiquidityTest();
+    const ist = createIstUnterPlan();
+    const weniger = ist.map(monat => (monat.monat === 6 ? { ...monat, kontostand: monat.kontostand - 5000 } : monat));
+
+    const forecast = calculateRollingForecast(input, ist);
+    const forecastWeniger = calculateRollingForecast(input, weniger);
+
+    expect(forecast.kontostand).toHaveLength(36);
+    expect(forecast.kontostand.slice(0, 6)).toEqual(ist.map(monat => monat.kontostand));
+    expect(forecastWeniger.kontostand[6]).toBeCloseTo((forecast.kontostand[6] ?? 0) - 5000, 2);
+    expect(forecastWeniger.minimumLiquiditaet).toBeCloseTo(forecast.minimumLiquiditaet - 5000, 2);
+  });
+});
+
+// ============================================================================
+// Phase 2 Report
+// ============================================================================
+
+describe('Phase 2 Bericht', () => {
+  it('should be ready when the business runs close to the plan', () => {
+    const bericht = createPhase2Bericht(createHealthyLiquidityTest(), createIstUnterPlan());
+
+    expect(bericht.bereit).toBe(true);
+    expect(bericht.kriterien.every(kriterium => kriterium.erfuellt)).toBe(true);
+    expect(bericht.kriterien.find(kriterium => kriterium.id === 'umsatz-erreichung')?.detail).toContain('80,0%');
+
+    // Result of ~€260 per month does not cover the €2.000 Privatentnahme yet
+    expect(bericht.empfehlungen).toHaveLength(1);
+    expect(bericht.empfehlungen[0]).toContain('Privatentnahme');
+  });
+
+  it('should list the open criteria when the business falls behind', () => {
+    const bericht = createPhase2Bericht(createHealthyLiquidityTest(), [
+      { monat: 1, umsatz: 2000, kosten: 5000, kontostand: 40000 },
+      { monat: 2, umsatz: 2500, kosten: 5000, kontostand: 30000 },
+      { monat: 3, umsatz: 3000, kosten: 5000, kontostand: -2000 },
+    ]);
+
+    const offen = bericht.kriterien.filter(kriterium => !kriterium.erfuellt).map(kriterium => kriterium.id);
+
+    expect(bericht.bereit).toBe(false);
+    expect(offen).toEqual(['ist-monate', 'umsatz-erreichung', 'kontostand', 'ergebnis-trend', 'forecast-liquiditaet']);
+    expect(bericht.zusammenfassung).toContain('0 von 5');
+    expect(bericht.empfehlungen.length).toBeGreaterThanOrEqual(4);
+  });
+});
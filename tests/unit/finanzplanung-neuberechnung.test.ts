@@ -0,0 +1,179 @@
+/**
+ * Finanzplanung Neuberechnung Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Derived totals recomputed in dependency order (A → G)
+ * - Field-level deviations between stored and recomputed values
+ * - Pauschalwerte without line items kept as inputs
+ * - Skipped sections with missing inputs
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import { recomputeFinanzplanung } from '@/lib/finance/neuberechnung';
+import { createHealthyLiquidityTest } from '@/lib/finance/liquiditaet';
+import type { PartialFinanzplanungOutput } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+function createFinanzplanung(): PartialFinanzplanungOutput {
+  const { kapitalbedarf, finanzierung, privatentnahme, umsatzplanung, kostenplanung } = createHealthyLiquidityTest();
+  return { kapitalbedarf, finanzierung, privatentnahme, umsatzplanung, kostenplanung };
+}
+
+function createFinanzplanungMitUmsatzstrom(): PartialFinanzplanungOutput {
+  return {
+    ...createFinanzplanung(),
+    umsatzplanung: {
+      umsatzstroeme: [{
+        name: 'Beratung',
+        typ: 'dienstleistung',
+        einheit: 'Stunde',
+        preis: 100,
+        mengeJahr1: Array(12).fill(80),
+        mengeJahr2: 1200,
+        mengeJahr3: 1500,
+        ustSatz: 'regulaer',
+      }],
+      annahmen: ['80 Stunden pro Monat'],
+    },
+  };
+}
+
+// ============================================================================
+// Input Sections (A-E)
+// ============================================================================
+
+describe('Neuberechnung Input Sections', () => {
+  it('should report stored totals that diverge from their inputs', () => {
+    const ergebnis = recomputeFinanzplanung(createFinanzplanung());
+
+    // Fixture months sum up to 106.500 instead of the stored 106.000
+    expect(ergebnis.abweichungen.map(abweichung => abweichung.pfad)).toEqual([
+      'umsatzplanung.umsatzJahr1Summe',
+      'umsatzplanung.wachstumsrateJahr2',
+      'umsatzplanung.wachstumsrateJahr3',
+    ]);
+    expect(ergebnis.abweichungen[0]).toEqual({
+      teil: 'umsatzplanung',
+      pfad: 'umsatzplanung.umsatzJahr1Summe',
+      gespeichert: 106000,
+      berechnet: 106500,
+    });
+    expect(ergebnis.konsistent).toBe(false);
+
+    // Totals without line items are kept as Pauschalwerte
+    expect(ergebnis.finanzplanung.kapitalbedarf?.investitionenSumme).toBe(8000);
+    expect(ergebnis.finanzplanung.finanzierung?.gesamtfinanzierung).toBe(55000);
+    expect(ergebnis.finanzplanung.kostenplanung?.gesamtkostenJahr2).toBe(91200);
+  });
+
+  it('should cascade a changed input through Kapitalbedarf and Finanzierung', () => {
+    const finanzplanung = createFinanzplanung();
+    finanzplanung.kapitalbedarf = { ...finanzplanung.kapitalbedarf, anlaufkosten: { monate: 6, monatlicheKosten: 5000, reserve: 10000, summe: 37000 } };
+
+    const ergebnis = recomputeFinanzplanung(finanzplanung);
+
+    // 6 × €5.000 + €10.000 reserve
+    expect(ergebnis.finanzplanung.kapitalbedarf?.anlaufkosten?.summe).toBe(40000);
+    expect(ergebnis.finanzplanung.kapitalbedarf?.gesamtkapitalbedarf).toBe(51200);
+    expect(ergebnis.finanzplanung.finanzierung?.finanzierungsluecke).toBe(-3800);
+    expect(ergebnis.abweichungen.filter(abweichung => abweichung.teil !== 'umsatzplanung').map(abweichung => abweichung.pfad)).toEqual([
+      'kapitalbedarf.anlaufkosten.summe',
+      'kapitalbedarf.gesamtkapitalbedarf',
+      'finanzierung.finanzierungsluecke',
+    ]);
+  });
+
+  it('should recompute totals from line items, variable shares and the Personalplanung', () => {
+    const finanzplanung = createFinanzplanungMitUmsatzstrom();
+    finanzplanung.kostenplanung = {
+      fixkosten: [{ name: 'Büro', kategorie: 'miete', fixOderVariabel: 'fix', betragMonatlich: 800 }],
+      variableKosten: [{ name: 'Provision', kategorie: 'sonstige', fixOderVariabel: 'variabel', variablerAnteil: 10 }],
+      personalplanung: [{ rolle: 'Assistenz', beschaeftigungsart: 'minijob', bruttoMonatlich: 556, startMonat: 13 }],
+      fixkostenSummeMonatlich: 700,
+    };
+
+    const ergebnis = recomputeFinanzplanung(finanzplanung);
+    const kosten = ergebnis.finanzplanung.kostenplanung;
+
+    expect(ergebnis.finanzplanung.umsatzplanung?.umsatzJahr1Summe).toBe(96000);
+    expect(ergebnis.finanzplanung.umsatzplanung?.umsatzstroeme?.[0]?.ustSatz).toBe('regulaer');
+    expect(kosten?.fixkostenSummeJaehrlich).toBe(9600);
+    expect(kosten?.fixkosten?.[0]?.betragJaehrlich).toBe(9600);
+    expect(kosten?.variableKostenSummeJahr1).toBe(9600);
+    expect(kosten?.variableKostenSummeJahr2).toBe(12000);
+    // No payroll in Year 1, Minijob from month 13
+    expect(kosten?.gesamtkostenJahr1).toBe(19200);
+    expect(kosten?.personalkostenMonatlich?.[12]).toBeGreaterThan(556);
+    expect(kosten?.gesamtkostenJahr2).toBeGreaterThan(new Decimal(9600).times(1.1).plus(12000).toNumber());
+    expect(ergebnis.abweichungen).toContainEqual({
+      teil: 'kostenplanung',
+      pfad: 'kostenplanung.fixkostenSummeMonatlich',
+      gespeichert: 700,
+      berechnet: 800,
+    });
+  });
+});
+
+// ============================================================================
+// Rentabilität and Liquidität (F-G)
+// ============================================================================
+
+describe('Neuberechnung Pipeline', () => {
+  it('should recompute Rentabilität and Liquidität from the corrected plan', () => {
+    const finanzplanung = createFinanzplanungMitUmsatzstrom();
+    finanzplanung.liquiditaet = { minimumLiquiditaet: 5000 };
+
+    const ergebnis = recomputeFinanzplanung(finanzplanung);
+    const liquiditaet = ergebnis.finanzplanung.liquiditaet;
+    const endbestaende = (liquiditaet?.monate ?? []).map(monat => monat.endbestand ?? 0);
+
+    expect(ergebnis.neuberechnet).toEqual([
+      'kapitalbedarf', 'finanzierung', 'privatentnahme', 'umsatzplanung', 'kostenplanung', 'rentabilitaet', 'liquiditaet',
+    ]);
+    expect(ergebnis.uebersprungen).toEqual([]);
+    expect(ergebnis.finanzplanung.rentabilitaet?.jahr1?.umsatz).toBe(96000);
+    expect(endbestaende).toHaveLength(36);
+    expect(liquiditaet?.minimumLiquiditaet).toBe(Math.min(...endbestaende));
+    expect(ergebnis.abweichungen).toContainEqual(expect.objectContaining({
+      pfad: 'liquiditaet.minimumLiquiditaet',
+      gespeichert: 5000,
+    }));
+  });
+
+  it('should be consistent after a recomputation', () => {
+    const einmal = recomputeFinanzplanung(createFinanzplanungMitUmsatzstrom());
+    const zweimal = recomputeFinanzplanung(einmal.finanzplanung);
+
+    expect(zweimal.abweichungen).toEqual([]);
+    expect(zweimal.konsistent).toBe(true);
+  });
+
+  it('should skip sections with missing inputs and keep their stored data', () => {
+    const finanzplanung = createFinanzplanungMitUmsatzstrom();
+    finanzplanung.privatentnahme = { miete: 800, monatlichePrivatentnahme: 2000 };
+    finanzplanung.liquiditaet = { minimumLiquiditaet: 5000 };
+
+    const ergebnis = recomputeFinanzplanung(finanzplanung);
+
+    expect(ergebnis.uebersprungen.map(eintrag => eintrag.teil)).toEqual(['privatentnahme', 'rentabilitaet', 'liquiditaet']);
+    expect(ergebnis.uebersprungen[0]?.grund).toContain('lebensmittel');
+    expect(ergebnis.uebersprungen[1]?.grund).toContain('Privatentnahme');
+    expect(ergebnis.finanzplanung.privatentnahme).toEqual(finanzplanung.privatentnahme);
+    expect(ergebnis.finanzplanung.liquiditaet).toEqual({ minimumLiquiditaet: 5000 });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Finanzplanung Personalkosten Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Employer shares up to the Beitragsbemessungsgrenzen
+ * - Minijob flat rates and Midijob Übergangsbereich
+ * - Personnel cost timeline in Kostenplanung, Rentabilität and Liquidität
+ * - Consistency with the Organisation team
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  calculateArbeitgeberkosten,
+  calculatePersonalkostenPlan,
+  applyPersonalplanung,
+  createPersonalplanungFromTeam,
+  validatePersonalstelle,
+  checkPersonalplanungConsistency,
+} from '@/lib/finance/personalkosten';
+
+import { calculateLiquiditaet, createHealthyLiquidityTest } from '@/lib/finance/liquiditaet';
+import { calculateRentabilitaet } from '@/lib/finance/rentabilitaet';
+import type { Personalstelle } from '@/types/modules/finanzplanung';
+import type { TeamMember } from '@/types/modules/organisation';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+const ASSISTENZ: Personalstelle = {
+  rolle: 'Assistenz',
+  beschaeftigungsart: 'vollzeit',
+  bruttoMonatlich: 4000,
+  startMonat: 7,
+};
+
+function teamMember(overrides: Partial<TeamMember>): TeamMember {
+  return {
+    name: 'Mitarbeiter',
+    role: 'employee_fulltime',
+    description: 'Unterstützung im Tagesgeschäft',
+    skills: [],
+    skillLevel: 'intermediate',
+    workingTime: 'fulltime',
+    isHired: false,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Employer Cost
+// ============================================================================
+
+describe('Arbeitgeberkosten', () => {
+  it('should add employer shares and levies for a full-time employee', () => {
+    const kosten = calculateArbeitgeberkosten('vollzeit', 4000);
+
+    // KV/PV 21,1% / 2 + RV/AV 21,2% / 2
+    expect(kosten.sozialversicherung).toBe(846);
+    // U1 1,6% + U2 0,44% + Insolvenzgeld 0,15% + BG 1,0%
+    expect(kosten.umlagen).toBe(127.6);
+    expect(kosten.gesamt).toBe(4973.6);
+  });
+
+  it('should cap contributions at the Beitragsbemessungsgrenzen', () => {
+    const kosten = calculateArbeitgeberkosten('vollzeit', 7000);
+
+    // KV/PV on €5.812,50, RV/AV on full €7.000
+    expect(kosten.sozialversicherung).toBe(1355.22);
+  });
+
+  it('should apply Minijob flat rates', () => {
+    const kosten = calculateArbeitgeberkosten('minijob', 500);
+
+    expect(kosten.sozialversicherung).toBe(140);
+    expect(kosten.pauschsteuer).toBe(10);
+    expect(kosten.umlagen).toBe(12.35);
+    expect(kosten.gesamt).toBe(662.35);
+  });
+
+  it('should apply the Midijob Übergangsbereich', () => {
+    const untereGrenze = calculateArbeitgeberkosten('midijob', 603.01);
+    const obereGrenze = calculateArbeitgeberkosten('midijob', 2000);
+    const teilzeit = calculateArbeitgeberkosten('teilzeit', 1500);
+
+    // 28% at the Minijob limit, regular half share at €2.000
+    expect(untereGrenze.sozialversicherung).toBeCloseTo(603 * 0.28, 0);
+    expect(obereGrenze.sozialversicherung).toBe(423);
+    expect(teilzeit.sozialversicherung).toBe(calculateArbeitgeberkosten('midijob', 1500).sozialversicherung);
+  });
+});
+
+// ============================================================================
+// Personnel Plan
+// ============================================================================
+
+describe('Personalplanung', () => {
+  it('should build the monthly timeline from the start month', () => {
+    const plan = calculatePersonalkostenPlan([ASSISTENZ, { ...ASSISTENZ, rolle: 'Aushilfe', beschaeftigungsart: 'minijob', bruttoMonatlich: 500, startMonat: 13, endMonat: 24 }]);
+
+    expect(plan.monate[5]).toBe(0);
+    expect(plan.monate[6]).toBe(4973.6);
+    expect(plan.monate[12]).toBe(5635.95);
+    expect(plan.monate[24]).toBe(4973.6);
+    expect(plan.jahre[0]).toBeCloseTo(6 * 4973.6, 2);
+  });
+
+  it('should push payroll into Kostenplanung, Rentabilität and Liquidität', () => {
+    const input = createHealthyLiquidityTest();
+    const kostenplanung = applyPersonalplanung(input.kostenplanung, [ASSISTENZ]);
+
+    expect(kostenplanung.personalkostenMonatlich).toHaveLength(36);
+    expect(kostenplanung.gesamtkostenJahr1).toBeCloseTo(
+      input.kostenplanung.fixkostenSummeJaehrlich + input.kostenplanung.variableKostenSummeJahr1 + 6 * 4973.6,
+      2
+    );
+
+    const ohne = calculateRentabilitaet({ ...input, taxRate: 0 });
+    const mit = calculateRentabilitaet({ ...input, kostenplanung, taxRate: 0 });
+    expect(mit.jahr1.personalkosten).toBeCloseTo(ohne.jahr1.personalkosten + 6 * 4973.6, 2);
+    expect(mit.jahr2.ergebnisVorSteuern).toBeCloseTo(ohne.jahr2.ergebnisVorSteuern - 12 * 4973.6, 2);
+
+    const liquiditaetOhne = calculateLiquiditaet(input);
+    const liquiditaetMit = calculateLiquiditaet({ ...input, kostenplanung });
+    expect(liquiditaetMit.monate[5]?.auszahlungenBetrieb).toBe(liquiditaetOhne.monate[5]?.auszahlungenBetrieb);
+    expect(liquiditaetMit.monate[6]?.auszahlungenBetrieb).toBeCloseTo((liquiditaetOhne.monate[6]?.auszahlungenBetrieb ?? 0) + 4973.6, 2);
+  });
+});
+
+// ============================================================================
+// Organisation Integration and Validation
+// ============================================================================
+
+describe('Personalplanung aus Organisation', () => {
+  it('should derive positions from employees only', () => {
+    const team = [
+      teamMember({ name: 'Gründerin', role: 'founder', salary: 3000 }),
+      teamMember({ name: 'Vertrieb', salary: 3500, startDate: 'ab Monat 9' }),
+      teamMember({ name: 'Aushilfe', role: 'employee_parttime', workingTime: 'parttime_10', salary: 550, isHired: true }),
+      teamMember({ name: 'Designer', role: 'freelancer', salary: 1500 }),
+    ];
+
+    const stellen = createPersonalplanungFromTeam(team);
+
+    expect(stellen).toEqual([
+      { rolle: 'Vertrieb', beschaeftigungsart: 'vollzeit', bruttoMonatlich: 3500, startMonat: 9 },
+      { rolle: 'Aushilfe', beschaeftigungsart: 'minijob', bruttoMonatlich: 550, startMonat: 1 },
+    ]);
+
+    const warnings = checkPersonalplanungConsistency(team, { personalplanung: [{ ...stellen[0]!, bruttoMonatlich: 3000 }] });
+    expect(warnings).toHaveLength(2);
+  });
+
+  it('should read plan months and calendar dates relative to the plan start', () => {
+    const team = [
+      teamMember({ name: 'Vertrieb', salary: 3500, startDate: 'Monat 4' }),
+      teamMember({ name: 'Entwicklung', salary: 4000, startDate: '2027-02-01' }),
+      teamMember({ name: 'Buchhaltung', salary: 3000, startDate: '01.10.2026' }),
+      teamMember({ name: 'Support', salary: 2800, startDate: 'nach der ersten Finanzierungsrunde 2026' }),
+    ];
+    const planStart = { jahr: 2026, monat: 3 };
+
+    expect(createPersonalplanungFromTeam(team, planStart).map(stelle => stelle.startMonat)).toEqual([4, 12, 8, 1]);
+    // Dates need a plan start, free text is not guessed from its digits
+    expect(createPersonalplanungFromTeam(team).map(stelle => stelle.startMonat)).toEqual([4, 1, 1, 1]);
+
+    const warnings = checkPersonalplanungConsistency(team, { personalplanung: createPersonalplanungFromTeam(team, planStart) }, planStart);
+    expect(warnings).toEqual(['Support: Starttermin "nach der ersten Finanzierungsrunde 2026" ist keinem Planmonat zuzuordnen - Personalkosten ab Monat 1 angesetzt']);
+  });
+
+  it('should validate Minijob limit and Mindestlohn', () => {
+    expect(validatePersonalstelle({ ...ASSISTENZ, beschaeftigungsart: 'minijob', bruttoMonatlich: 700 }).isValid).toBe(false);
+    expect(validatePersonalstelle({ ...ASSISTENZ, bruttoMonatlich: 2000 }).errors[0]).toContain('Mindestlohn');
+    expect(validatePersonalstelle(ASSISTENZ).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Finanzplanung Monte-Carlo Simulation Unit Tests
+ *
+ * CRITICAL: Tests verify reproducible decimal.js calculations
+ * - Same seed yields identical results
+ * - P5/P50/P95 cash curves and probability of negative liquidity
+ * - Reserve for 95% survival and BA validation warning
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  createRandom,
+  sampleVerteilung,
+  simulateLiquiditaet,
+} from '@/lib/finance/liquiditaet-simulation';
+
+import {
+  calculateLiquiditaet,
+  analyzeLiquidityRisks,
+  validateLiquidityForBA,
+  createHealthyLiquidityTest,
+  createNegativeLiquidityTest,
+} from '@/lib/finance/liquiditaet';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+const KEINE_STREUUNG = {
+  umsatzFaktor: { typ: 'gleich', minimum: 1, maximum: 1 },
+  zahlungsverzugTage: { typ: 'gleich', minimum: 0, maximum: 0 },
+  kostenFaktor: { typ: 'gleich', minimum: 1, maximum: 1 },
+} as const;
+
+// ============================================================================
+// Random Numbers
+// ============================================================================
+
+describe('Zufallszahlen', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const c = createRandom(8);
+
+    const folgeA = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(folgeA);
+    expect(Array.from({ length: 5 }, () => c())).not.toEqual(folgeA);
+    expect(folgeA.every(wert => wert >= 0 && wert < 1)).toBe(true);
+  });
+
+  it('should keep triangular samples within their bounds', () => {
+    const random = createRandom(3);
+    const werte = Array.from({ length: 500 }, () =>
+      sampleVerteilung({ typ: 'dreieck', minimum: 0.9, modus: 1, maximum: 1.3 }, random)
+    );
+
+    expect(Math.min(...werte)).toBeGreaterThanOrEqual(0.9);
+    expect(Math.max(...werte)).toBeLessThanOrEqual(1.3);
+  });
+});
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+describe('Liquiditäts-Simulation', () => {
+  it('should be deterministic under a seed', () => {
+    const input = createHealthyLiquidityTest();
+    const a = simulateLiquiditaet(input, { iterationen: 100, seed: 42 });
+    const b = simulateLiquiditaet(input, { iterationen: 100, seed: 42 });
+    const c = simulateLiquiditaet(input, { iterationen: 100, seed: 43 });
+
+    expect(b).toEqual(a);
+    expect(c.p50).not.toEqual(a.p50);
+  });
+
+  it('should reject simulations without iterations', () => {
+    const input = createHealthyLiquidityTest();
+
+    expect(() => simulateLiquiditaet(input, { iterationen: 0 })).toThrow('Iterations must be a positive integer');
+    expect(() => simulateLiquiditaet(input, { iterationen: -5 })).toThrow('Iterations must be a positive integer');
+    expect(() => simulateLiquiditaet(input, { iterationen: 2.5 })).toThrow('Iterations must be a positive integer');
+  });
+
+  it('should order the percentile curves', () => {
+    const result = simulateLiquiditaet(createHealthyLiquidityTest(), { iterationen: 200 });
+
+    expect(result.p5).toHaveLength(36);
+    result.p5.forEach((p5, index) => {
+      expect(p5).toBeLessThanOrEqual(result.p50[index] ?? 0);
+      expect(result.p50[index]).toBeLessThanOrEqual(result.p95[index] ?? 0);
+    });
+  });
+
+  it('should reproduce the deterministic plan without variance', () => {
+    const input = createHealthyLiquidityTest();
+    const plan = calculateLiquiditaet(input);
+    const result = simulateLiquiditaet(input, { ...KEINE_STREUUNG, iterationen: 10 });
+
+    plan.monate.forEach((monat, index) => {
+      expect(result.p50[index]).toBeCloseTo(monat.endbestand, 2);
+      expect(result.p5[index]).toBeCloseTo(monat.endbestand, 2);
+    });
+    expect(result.wahrscheinlichkeitNegativ).toBe(0);
+    expect(result.reserveFuer95Prozent).toBe(0);
+  });
+
+  it('should report the reserve needed when runs go negative', () => {
+    const result = simulateLiquiditaet(createHealthyLiquidityTest(), {
+      iterationen: 200,
+      umsatzFaktor: { typ: 'normal', mittelwert: 0.6, standardabweichung: 0.4 },
+      kostenFaktor: { typ: 'dreieck', minimum: 1, modus: 1.2, maximum: 1.5 },
+    });
+
+    expect(result.wahrscheinlichkeitNegativ).toBeGreaterThan(0);
+    expect(result.reserveFuer95Prozent).toBeGreaterThan(0);
+  });
+});
+
+// ============================================================================
+// BA Validation
+// ============================================================================
+
+describe('Simulation in BA-Validierung', () => {
+  it('should flag a simulation risk with reserve action item', () => {
+    const input = createNegativeLiquidityTest();
+    const liquiditaet = calculateLiquiditaet(input);
+    const analysis = analyzeLiquidityRisks(liquiditaet, input);
+    const simulation = simulateLiquiditaet(input, { iterationen: 100 });
+
+    const withSimulation = validateLiquidityForBA(liquiditaet, analysis, simulation);
+    const withoutSimulation = validateLiquidityForBA(liquiditaet, analysis);
+
+    expect(simulation.wahrscheinlichkeitNegativ).toBeGreaterThan(0.05);
+    expect(withSimulation.hasSimulationRisk).toBe(true);
+    expect(withSimulation.actionItems.some(item => item.startsWith('Zusätzliche Reserve von'))).toBe(true);
+    expect(withoutSimulation.hasSimulationRisk).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Finanzplanung Gründer-Sozialversicherung Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Freiwillige KV/PV between Mindestbemessungsgrundlage and BBG
+ * - Arbeitslosenversicherung auf Antrag and Rentenversicherungspflicht
+ * - Minimum contribution in Privatentnahme and its validation
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  calculateGruenderSozialversicherung,
+  calculateSozialversicherungJahr,
+  getRentenversicherungspflicht,
+} from '@/lib/finance/gruender-sozialversicherung';
+
+import { calculateRentabilitaet, createServiceProfitabilityTest } from '@/lib/finance/rentabilitaet';
+import { calculatePrivatentnahme, validatePrivatentnahme } from '@/lib/finance/privatentnahme';
+import type { Rentabilitaet } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+const GRUENDERIN = { alter: 30 };
+
+const LEBENSHALTUNG = {
+  miete: 800,
+  lebensmittel: 400,
+  versicherungen: 150,
+  mobilitaet: 200,
+  kommunikation: 80,
+  sonstigeAusgaben: 350,
+};
+
+/**
+ * Rentabilität with the given profit (ergebnisVorSteuern) per year
+ */
+function withGewinn(gewinne: [number, number, number]): Rentabilitaet {
+  const rentabilitaet = calculateRentabilitaet(createServiceProfitabilityTest());
+  return {
+    ...rentabilitaet,
+    jahr1: { ...rentabilitaet.jahr1, ergebnisVorSteuern: gewinne[0] },
+    jahr2: { ...rentabilitaet.jahr2, ergebnisVorSteuern: gewinne[1] },
+    jahr3: { ...rentabilitaet.jahr3, ergebnisVorSteuern: gewinne[2] },
+  };
+}
+
+// ============================================================================
+// Kranken- und Pflegeversicherung
+// ============================================================================
+
+describe('Freiwillige Kranken- und Pflegeversicherung', () => {
+  it('should charge the minimum contribution without profit', () => {
+    const jahr = calculateSozialversicherungJahr(1, -12000, GRUENDERIN);
+
+    // 17,5% KV and 4,2% PV (kinderlos) on €1.318,33
+    expect(jahr.bemessungsgrundlage).toBe(1318.33);
+    expect(jahr.krankenversicherung).toBe(230.71);
+    expect(jahr.pflegeversicherung).toBe(55.37);
+    expect(jahr.gesamtMonatlich).toBe(286.08);
+  });
+
+  it('should follow the profit up to the Beitragsbemessungsgrenze', () => {
+    expect(calculateSozialversicherungJahr(2, 36000, GRUENDERIN).gesamtMonatlich).toBe(651);
+
+    const hoch = calculateSozialversicherungJahr(3, 120000, GRUENDERIN);
+    expect(hoch.bemessungsgrundlage).toBe(5812.5);
+    expect(hoch.krankenversicherung).toBe(1017.19);
+  });
+
+  it('should apply reduced KV and no Kinderlosenzuschlag under 23', () => {
+    const jahr = calculateSozialversicherungJahr(1, 36000, { alter: 22, krankengeld: false });
+
+    expect(jahr.krankenversicherung).toBe(507);
+    expect(jahr.pflegeversicherung).toBe(108);
+  });
+});
+
+// ============================================================================
+// Arbeitslosen- und Rentenversicherung
+// ============================================================================
+
+describe('Arbeitslosen- und Rentenversicherung', () => {
+  it('should charge ALV on half the Bezugsgröße in the first two years', () => {
+    const plan = calculateGruenderSozialversicherung(withGewinn([0, 24000, 48000]), { ...GRUENDERIN, arbeitslosenversicherung: true });
+
+    expect(plan.jahre.map(jahr => jahr.arbeitslosenversicherung)).toEqual([51.42, 51.42, 102.83]);
+    expect(plan.annahmen.some(annahme => annahme.includes('Arbeitslosenversicherung auf Antrag'))).toBe(true);
+  });
+
+  it('should derive mandatory RV from the business type and age', () => {
+    expect(getRentenversicherungspflicht({ businessTypeId: 'handwerk', alter: 40 }).pflichtig).toBe(true);
+    expect(getRentenversicherungspflicht({ businessTypeId: 'freiberufler', alter: 40 }).hinweis).toContain('Lehrer');
+    expect(getRentenversicherungspflicht({ businessTypeId: 'freiberufler', alter: 40, rentenversicherungspflichtig: true }).pflichtig).toBe(true);
+    expect(getRentenversicherungspflicht({ businessTypeId: 'handwerk', alter: 67 }).pflichtig).toBe(false);
+
+    const plan = calculateGruenderSozialversicherung(withGewinn([0, 0, 0]), { businessTypeId: 'handwerk', alter: 40 });
+    expect(plan.jahre[0]?.rentenversicherung).toBe(367.82);
+    expect(plan.mindestbeitragMonatlich).toBe(653.9);
+  });
+});
+
+// ============================================================================
+// Privatentnahme Integration
+// ============================================================================
+
+describe('Sozialversicherung in Privatentnahme', () => {
+  it('should add the minimum contribution to the withdrawal', () => {
+    const plan = calculateGruenderSozialversicherung(withGewinn([0, 36000, 48000]), GRUENDERIN);
+    const privatentnahme = calculatePrivatentnahme({ ...LEBENSHALTUNG, sozialversicherung: plan.mindestbeitragMonatlich });
+
+    expect(privatentnahme.sozialversicherung).toBe(286.08);
+    expect(privatentnahme.monatlichePrivatentnahme).toBe(2266.08);
+    expect(validatePrivatentnahme(privatentnahme, undefined, undefined, plan).warnings).toHaveLength(0);
+  });
+
+  it('should warn when the plan misses the minimum contribution', () => {
+    const plan = calculateGruenderSozialversicherung(withGewinn([0, 36000, 48000]), GRUENDERIN);
+    const result = validatePrivatentnahme(calculatePrivatentnahme(LEBENSHALTUNG), undefined, undefined, plan);
+
+    expect(result.isRealistic).toBe(false);
+    expect(result.warnings[0]).toContain('Mindestbeitrag');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Finanzplanung Ertragsteuer Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - §32a EStG tariff (Grund- and Splittingtarif)
+ * - Solidaritätszuschlag Freigrenze / Milderungszone
+ * - Gewerbesteuer Freibetrag, Hebesatz and §35 EStG credit
+ * - Körperschaftsteuer for Kapitalgesellschaften
+ * - Integration with Rentabilität and Liquidität
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  DEFAULT_STEUER_PROFIL,
+  calculateEinkommensteuer,
+  calculateSolidaritaetszuschlag,
+  calculateGewerbesteuer,
+  calculateSteuerJahr,
+  calculateSteuerplanung,
+  calculateSteuerVorauszahlungen,
+  createSteuerProfil,
+} from '@/lib/finance/steuern';
+
+import {
+  calculateRentabilitaet,
+  createServiceProfitabilityTest,
+} from '@/lib/finance/rentabilitaet';
+
+import {
+  calculateLiquiditaet,
+  createHealthyLiquidityTest,
+} from '@/lib/finance/liquiditaet';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+// ============================================================================
+// Einkommensteuer
+// ============================================================================
+
+describe('Einkommensteuer (§32a EStG)', () => {
+  it('should apply the tariff zones', () => {
+    expect(calculateEinkommensteuer(12096)).toBe(0);       // Grundfreibetrag
+    expect(calculateEinkommensteuer(20000)).toBe(1639);
+    expect(calculateEinkommensteuer(100000)).toBe(31088);  // 42 % zone
+    expect(calculateEinkommensteuer(300000)).toBe(115753); // 45 % zone
+  });
+
+  it('should apply the Splittingtarif for joint assessment', () => {
+    expect(calculateEinkommensteuer(100000, 'zusammen')).toBe(calculateEinkommensteuer(50000) * 2);
+    expect(calculateEinkommensteuer(24000, 'zusammen')).toBe(0);
+  });
+
+  it('should only charge Solidaritätszuschlag above the Freigrenze', () => {
+    expect(calculateSolidaritaetszuschlag(19950)).toBe(0);
+    expect(calculateSolidaritaetszuschlag(31088)).toBeCloseTo(1325.42, 2); // Milderungszone
+    expect(calculateSolidaritaetszuschlag(100000)).toBe(5500);              // Full 5,5 %
+    expect(calculateSolidaritaetszuschlag(31088, 'zusammen')).toBe(0);
+  });
+});
+
+// ============================================================================
+// Gewerbesteuer
+// ============================================================================
+
+describe('Gewerbesteuer', () => {
+  it('should apply Freibetrag, Messzahl and Hebesatz', () => {
+    const result = calculateGewerbesteuer(60049, DEFAULT_STEUER_PROFIL);
+
+    // (60.000 - 24.500) × 3,5 % = 1.242,50 € Messbetrag × 400 %
+    expect(result.messbetrag).toBe(1242.5);
+    expect(result.gewerbesteuer).toBe(4970);
+  });
+
+  it('should not charge Gewerbesteuer for Freiberufler', () => {
+    const profil = { ...DEFAULT_STEUER_PROFIL, freiberufler: true };
+    expect(calculateGewerbesteuer(80000, profil).gewerbesteuer).toBe(0);
+  });
+
+  it('should fully credit Gewerbesteuer at Hebesatz 400 % (§35 EStG)', () => {
+    const jahr = calculateSteuerJahr(60000);
+
+    expect(jahr.gewerbesteuer).toBe(4970);
+    expect(jahr.gewerbesteuerAnrechnung).toBe(4970);
+    expect(jahr.einkommensteuer).toBe(calculateEinkommensteuer(60000) - 4970);
+  });
+
+  it('should only partially credit Gewerbesteuer above Hebesatz 400 %', () => {
+    const jahr = calculateSteuerJahr(60000, { ...DEFAULT_STEUER_PROFIL, hebesatz: 490 });
+
+    expect(jahr.gewerbesteuer).toBeCloseTo(6088.25, 2);
+    expect(jahr.gewerbesteuerAnrechnung).toBe(4970);
+  });
+});
+
+// ============================================================================
+// Rechtsformen
+// ============================================================================
+
+describe('Steuer nach Rechtsform', () => {
+  it('should tax Kapitalgesellschaften with Körperschaftsteuer', () => {
+    const jahr = calculateSteuerJahr(60000, { ...DEFAULT_STEUER_PROFIL, rechtsform: 'gmbh' });
+
+    expect(jahr.einkommensteuer).toBe(0);
+    expect(jahr.koerperschaftsteuer).toBe(9000);
+    expect(jahr.solidaritaetszuschlag).toBe(495);
+    expect(jahr.gewerbesteuer).toBe(8400); // No Freibetrag
+    expect(jahr.steuernGesamt).toBe(17895);
+  });
+
+  it('should build the profile from the Rechtsform decision', () => {
+    const profil = createSteuerProfil({
+      rechtsform: { decision: { chosenForm: 'freelancer' } },
+      hebesatz: 470,
+    });
+
+    expect(profil.rechtsform).toBe('freelancer');
+    expect(profil.freiberufler).toBe(true);
+    expect(profil.hebesatz).toBe(470);
+
+    expect(createSteuerProfil({ businessTypeId: 'freiberufler' }).freiberufler).toBe(true);
+    expect(createSteuerProfil().rechtsform).toBe('einzelunternehmen');
+  });
+
+  it('should add Kirchensteuer on the Einkommensteuer', () => {
+    const jahr = calculateSteuerJahr(50000, { ...DEFAULT_STEUER_PROFIL, kirchensteuerSatz: 9 });
+    expect(jahr.kirchensteuer).toBeCloseTo(calculateEinkommensteuer(50000) * 0.09, 2);
+  });
+});
+
+// ============================================================================
+// Steuerplanung
+// ============================================================================
+
+describe('Steuerplanung', () => {
+  it('should carry start-up losses forward', () => {
+    const planung = calculateSteuerplanung([-20000, 50000, 80000]);
+
+    expect(planung.jahre[0]?.steuernGesamt).toBe(0);
+    expect(planung.jahre[1]?.steuernGesamt).toBe(calculateSteuerJahr(30000).steuernGesamt);
+    expect(planung.jahre[1]?.gewinn).toBe(50000);
+    expect(planung.verbleibenderVerlustvortrag).toBe(0);
+  });
+
+  it('should spread taxes into quarterly Vorauszahlungen', () => {
+    const vorauszahlungen = calculateSteuerVorauszahlungen([
+      { steuernGesamt: 4000 },
+      { steuernGesamt: 8000 },
+      { steuernGesamt: 0 },
+    ]);
+
+    expect(vorauszahlungen).toHaveLength(36);
+    expect(vorauszahlungen[2]).toBe(1000);
+    expect(vorauszahlungen[3]).toBe(0);
+    expect(vorauszahlungen[23]).toBe(2000);
+    expect(vorauszahlungen.reduce((sum, betrag) => sum + betrag, 0)).toBe(12000);
+  });
+
+  it('should feed per-year tax lines into Rentabilität', () => {
+    const result = calculateRentabilitaet(createServiceProfitabilityTest());
+
+    expect(result.jahr1.steuerDetails).toBeDefined();
+    expect(result.jahr1.steuern).toBe(result.jahr1.steuerDetails?.steuernGesamt);
+    expect(result.jahr1.steuerDetails?.gewinn).toBe(result.jahr1.ergebnisVorSteuern);
+  });
+
+  it('should keep the flat tax rate as explicit override', () => {
+    const result = calculateRentabilitaet({ ...createServiceProfitabilityTest(), taxRate: 0.3 });
+
+    expect(result.jahr1.steuerDetails).toBeUndefined();
+    expect(result.jahr1.steuern).toBeCloseTo(result.jahr1.ergebnisVorSteuern * 0.3, 2);
+  });
+
+  it('should book Vorauszahlungen in the Liquiditätsplanung', () => {
+    const scenario = createHealthyLiquidityTest();
+    const result = calculateLiquiditaet({ ...scenario, steuerProfil: DEFAULT_STEUER_PROFIL });
+    const rentabilitaet = calculateRentabilitaet({ ...scenario, steuerProfil: DEFAULT_STEUER_PROFIL });
+
+    const steuernJahr3 = result.monate.slice(24, 36).reduce((sum, m) => sum + (m.auszahlungenSteuern ?? 0), 0);
+
+    expect(result.monate[0]?.auszahlungenSteuern).toBe(0);
+    expect(steuernJahr3).toBeCloseTo(rentabilitaet.jahr3.steuern, 2);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Finanzplanung Stundensatz Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Profit before taxes for a given Privatentnahme
+ * - Minimum and target hourly / daily rate
+ * - Zuschlagskalkulation for Handwerk
+ * - Writing the calculated preis into the Umsatzplanung
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  calculateGewinnVorSteuern,
+  calculateStundensatz,
+  calculateZuschlagskalkulation,
+  applyStundensatz,
+  applyZuschlagskalkulation,
+} from '@/lib/finance/stundensatz';
+import type { StundensatzInput } from '@/lib/finance/stundensatz';
+
+import { calculateSteuerJahr } from '@/lib/finance/steuern';
+import type { Umsatzplanung } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+// €2.500 Privatentnahme, €800 fixed costs per month
+const FREIBERUFLER: StundensatzInput = {
+  privatentnahmeMonatlich: 2500,
+  kostenPositionen: [
+    { name: 'Büro', kategorie: 'miete', fixOderVariabel: 'fix', betragMonatlich: 500 },
+    { name: 'Berufshaftpflicht', kategorie: 'versicherung', fixOderVariabel: 'fix', betragMonatlich: 300 },
+  ],
+  industry: 'freiberufler',
+};
+
+function createUmsatzplanung(einheit: string, preis: number): Umsatzplanung {
+  const mengeJahr1 = Array(12).fill(10);
+  return {
+    umsatzstroeme: [{ name: 'Leistung', typ: 'dienstleistung', einheit, preis, mengeJahr1, mengeJahr2: 120, mengeJahr3: 120 }],
+    umsatzJahr1: mengeJahr1.map(menge => menge * preis),
+    umsatzJahr1Summe: 120 * preis,
+    umsatzJahr2: 120 * preis,
+    umsatzJahr3: 120 * preis,
+    wachstumsrateJahr2: 0,
+    wachstumsrateJahr3: 0,
+    annahmen: [],
+  };
+}
+
+// ============================================================================
+// Stundensatz
+// ============================================================================
+
+describe('Stundensatz Calculation', () => {
+  it('should find the profit before taxes that leaves the Privatentnahme', () => {
+    const gewinn = calculateGewinnVorSteuern(30000);
+    const netto = gewinn - calculateSteuerJahr(gewinn).steuernGesamt;
+
+    expect(gewinn).toBe(36102.01);
+    expect(netto).toBeGreaterThanOrEqual(30000);
+    expect(netto).toBeLessThan(30000.02);
+    expect(calculateGewinnVorSteuern(0)).toBe(0);
+  });
+
+  it('should work backwards from Privatentnahme, fixed costs and billable hours', () => {
+    const kalkulation = calculateStundensatz(FREIBERUFLER);
+
+    // 260 days - 30 Urlaub - 10 Feiertage - 10 Krankheit = 210 days × 8h × 70% Auslastung
+    expect(kalkulation.arbeitstageJahr).toBe(210);
+    expect(kalkulation.abrechenbareStundenJahr).toBe(1176);
+    expect(kalkulation.fixkostenJahr).toBe(9600);
+    expect(kalkulation.steuernJahr).toBe(6102.01);
+    expect(kalkulation.mindestumsatzJahr).toBe(45702.01);
+
+    expect(kalkulation.mindestStundensatz).toBe(38.87);
+    expect(kalkulation.zielStundensatz).toBe(46.65);
+    expect(kalkulation.mindestTagessatz).toBe(310.96);
+    expect(kalkulation.benchmark?.min).toBe(60);
+    expect(kalkulation.warnungen[0]).toContain('Branchenminimum');
+  });
+
+  it('should raise the rate for more non-billable time and fewer working days', () => {
+    const basis = calculateStundensatz({ ...FREIBERUFLER, industry: undefined });
+    const weniger = calculateStundensatz({ ...FREIBERUFLER, industry: undefined, nichtAbrechenbarProzent: 40, krankheitstage: 20 });
+
+    // Without Branchenbenchmark 25% of the time is not billable
+    expect(basis.abrechenbareStundenJahr).toBe(1260);
+    expect(weniger.abrechenbareStundenJahr).toBe(960);
+    expect(weniger.mindestStundensatz).toBeGreaterThan(basis.mindestStundensatz);
+    expect(basis.benchmark).toBeUndefined();
+  });
+
+  it('should apply the price checks of the inline validator', () => {
+    const kalkulation = calculateStundensatz({ ...FREIBERUFLER, privatentnahmeMonatlich: 12000, nichtAbrechenbarProzent: 10 });
+
+    expect(kalkulation.warnungen.some(warnung => warnung.includes('Branchenmaximum'))).toBe(true);
+    // Freiberufler ceiling (€150) and utilization limit (70%) from the inline validator
+    expect(kalkulation.warnungen.some(warnung => warnung.includes('meist durchsetzbar'))).toBe(true);
+    expect(kalkulation.warnungen.some(warnung => warnung.includes('90,0% Auslastung'))).toBe(true);
+  });
+});
+
+// ============================================================================
+// Zuschlagskalkulation and Umsatzplanung
+// ============================================================================
+
+describe('Zuschlagskalkulation', () => {
+  it('should add Gemeinkosten and Gewinn to material and labour', () => {
+    const kalkulation = calculateZuschlagskalkulation({ materialEinzelkosten: 1000, arbeitsstunden: 10, lohnkostenProStunde: 25 });
+
+    expect(kalkulation.materialkosten).toBe(1100);
+    expect(kalkulation.fertigungskosten).toBe(550);
+    expect(kalkulation.herstellkosten).toBe(1650);
+    expect(kalkulation.selbstkosten).toBe(1897.5);
+    expect(kalkulation.angebotspreisNetto).toBe(2087.25);
+    expect(kalkulation.verrechnungssatzProStunde).toBe(98.73);
+  });
+
+  it('should write the calculated preis into the Umsatzstrom', () => {
+    const kalkulation = calculateStundensatz(FREIBERUFLER);
+
+    const stunde = applyStundensatz(createUmsatzplanung('Stunde', 30), 0, kalkulation);
+    expect(stunde.umsatzstroeme[0]?.preis).toBe(46.65);
+    expect(stunde.umsatzJahr1Summe).toBe(5598);
+
+    const tag = applyStundensatz(createUmsatzplanung('Tag', 200), 0, kalkulation, { satz: 'mindest' });
+    expect(tag.umsatzstroeme[0]?.preis).toBe(310.96);
+
+    const projekt = createUmsatzplanung('Projekt', 1000);
+    expect(applyStundensatz(projekt, 0, kalkulation)).toBe(projekt);
+    expect(applyStundensatz(projekt, 0, kalkulation, { stundenProEinheit: 20 }).umsatzstroeme[0]?.preis).toBe(933);
+
+    const auftrag = applyZuschlagskalkulation(
+      createUmsatzplanung('Auftrag', 1500),
+      0,
+      calculateZuschlagskalkulation({ materialEinzelkosten: 1000, arbeitsstunden: 10, lohnkostenProStunde: 25 })
+    );
+    expect(auftrag.umsatzstroeme[0]?.preis).toBe(2087.25);
+    expect(auftrag.umsatzJahr2).toBe(250470);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Finanzplanung Szenario Manager Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Assumption overrides for revenue, costs and payment terms
+ * - Recalculation of Rentabilität and Liquidität per scenario
+ * - Scenario storage in PartialFinanzplanungOutput
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  STANDARD_SZENARIEN,
+  applyUmsatzAenderung,
+  applyKostenAenderung,
+  applySzenarioAnnahmen,
+  calculateSzenario,
+  calculateSzenarien,
+  storeSzenarien,
+  compareSzenarien,
+  analyzeSzenarioRisiken,
+  KEINE_ANNAHMEN,
+} from '@/lib/finance/szenarien';
+
+import {
+  calculateLiquiditaet,
+  createHealthyLiquidityTest,
+} from '@/lib/finance/liquiditaet';
+
+import { calculateRentabilitaet } from '@/lib/finance/rentabilitaet';
+import { testSoftwareConsultingScenario } from '@/lib/finance/umsatzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+// ============================================================================
+// Assumption Overrides
+// ============================================================================
+
+describe('Szenario Annahmen', () => {
+  it('should scale revenue totals and stream prices', () => {
+    const base = testSoftwareConsultingScenario();
+    const result = applyUmsatzAenderung(base, -30);
+
+    expect(result.umsatzJahr1Summe).toBeCloseTo(base.umsatzJahr1Summe * 0.7, 2);
+    expect(result.umsatzJahr3).toBeCloseTo(base.umsatzJahr3 * 0.7, 2);
+    expect(result.umsatzstroeme[0]?.preis).toBeCloseTo((base.umsatzstroeme[0]?.preis ?? 0) * 0.7, 2);
+    expect(result.wachstumsrateJahr2).toBeCloseTo(base.wachstumsrateJahr2, 6);
+  });
+
+  it('should let variable costs follow revenue and fixed costs follow their own change', () => {
+    const { kostenplanung } = createHealthyLiquidityTest();
+    const result = applyKostenAenderung(kostenplanung, {
+      ...KEINE_ANNAHMEN,
+      umsatzAenderung: -30,
+      fixkostenAenderung: 15,
+    });
+
+    expect(result.fixkostenSummeMonatlich).toBeCloseTo(kostenplanung.fixkostenSummeMonatlich * 1.15, 2);
+    expect(result.variableKostenSummeJahr1).toBeCloseTo(kostenplanung.variableKostenSummeJahr1 * 0.7, 2);
+    expect(result.gesamtkostenJahr2).toBeCloseTo(
+      result.fixkostenSummeJaehrlich * 1.1 + result.variableKostenSummeJahr2,
+      2
+    );
+  });
+
+  it('should extend the customer payment term', () => {
+    const input = applySzenarioAnnahmen(createHealthyLiquidityTest(), { ...KEINE_ANNAHMEN, zahlungszielAenderung: 30 });
+    expect(input.paymentTerms?.customerPaymentDays).toBe(75);
+  });
+});
+
+// ============================================================================
+// Scenario Calculation
+// ============================================================================
+
+describe('Szenario Berechnung', () => {
+  it('should reproduce the base plan in the base scenario', () => {
+    const input = createHealthyLiquidityTest();
+    const basis = calculateSzenario(input, { id: 'basis', name: 'Basis', typ: 'basis', annahmen: {} });
+
+    expect(basis.liquiditaet).toEqual(calculateLiquiditaet(input));
+    expect(basis.rentabilitaet).toEqual(calculateRentabilitaet(input));
+  });
+
+  it('should recalculate base, best and worst case', () => {
+    const szenarien = calculateSzenarien(createHealthyLiquidityTest());
+    const [basis, best, worst] = szenarien;
+
+    expect(szenarien.map(szenario => szenario.id)).toEqual(STANDARD_SZENARIEN.map(definition => definition.id));
+    expect(best!.rentabilitaet.jahr1.jahresueberschuss).toBeGreaterThan(basis!.rentabilitaet.jahr1.jahresueberschuss);
+    expect(worst!.rentabilitaet.jahr1.jahresueberschuss).toBeLessThan(basis!.rentabilitaet.jahr1.jahresueberschuss);
+    expect(worst!.liquiditaet.minimumLiquiditaet).toBeLessThan(basis!.liquiditaet.minimumLiquiditaet);
+    expect(worst!.annahmen.zahlungszielAenderung).toBe(30);
+    // "Kosten +15%" covers fixed and variable costs
+    expect(worst!.annahmen).toMatchObject({ fixkostenAenderung: 15, variableKostenAenderung: 15 });
+  });
+
+  it('should compare scenarios and flag worst-case liquidity gaps', () => {
+    const input = createHealthyLiquidityTest();
+    const szenarien = calculateSzenarien(input, [
+      { id: 'basis', name: 'Basis', typ: 'basis', annahmen: {} },
+      { id: 'einbruch', name: 'Umsatzeinbruch', typ: 'worst', annahmen: { umsatzAenderung: -80 } },
+    ]);
+
+    const vergleich = compareSzenarien(szenarien);
+    expect(vergleich[1]?.hatNegativeLiquiditaet).toBe(true);
+    expect(vergleich[1]?.umsatzJahr1).toBeCloseTo(input.umsatzplanung.umsatzJahr1Summe * 0.2, 2);
+
+    const risiken = analyzeSzenarioRisiken(szenarien);
+    expect(risiken.some(hinweis => hinweis.startsWith('Umsatzeinbruch: Liquiditätslücke'))).toBe(true);
+  });
+
+  it('should store scenarios in the Finanzplanung output', () => {
+    const input = createHealthyLiquidityTest();
+    const [basis, best] = calculateSzenarien(input);
+
+    const stored = storeSzenarien({ umsatzplanung: input.umsatzplanung }, [basis!, best!]);
+    const updated = storeSzenarien(stored, [{ ...best!, name: 'Best Case angepasst' }]);
+
+    expect(stored.umsatzplanung).toBe(input.umsatzplanung);
+    expect(updated.szenarien).toHaveLength(2);
+    expect(updated.szenarien?.find(szenario => szenario.id === 'best')?.name).toBe('Best Case angepasst');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Finanzplanung Tilgungsplan Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Annuity vs. Ratentilgung per loan
+ * - Tilgungsfreie Anlaufjahre (KfW StartGeldKredit)
+ * - Disbursement month on the plan timeline
+ * - Interest in Rentabilität and interest/principal split in Liquidität
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  calculateLoanPayment,
+  calculateLoanSchedule,
+  calculateDebtServiceSchedule,
+  calculateAnnualInterest,
+  validateFinancingSource,
+} from '@/lib/finance/finanzierung';
+
+import { calculateRentabilitaet } from '@/lib/finance/rentabilitaet';
+
+import {
+  calculateLiquiditaet,
+  createHealthyLiquidityTest,
+} from '@/lib/finance/liquiditaet';
+
+import type { Finanzierungsquelle } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+function createStartGeldKredit(overrides: Partial<Finanzierungsquelle> = {}): Finanzierungsquelle {
+  return {
+    typ: 'foerderkredit',
+    bezeichnung: 'KfW StartGeldKredit',
+    betrag: 36000,
+    zinssatz: 6,
+    laufzeit: 60,
+    tilgungsfrei: 12,
+    status: 'beantragt',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Loan Schedules
+// ============================================================================
+
+describe('Tilgungsplan', () => {
+  it('should only charge interest during tilgungsfreie Anlaufzeit', () => {
+    const schedule = calculateLoanSchedule(createStartGeldKredit());
+
+    expect(schedule).toHaveLength(36);
+    schedule.slice(0, 12).forEach(entry => {
+      expect(entry.interest).toBe(180); // 36.000 € × 6 % / 12
+      expect(entry.principal).toBe(0);
+      expect(entry.balance).toBe(36000);
+    });
+    expect(schedule[12]?.principal).toBeGreaterThan(0);
+  });
+
+  it('should repay constant principal with Ratentilgung', () => {
+    const schedule = calculateLoanSchedule(createStartGeldKredit({ tilgungsart: 'raten' }));
+
+    // 36.000 € over 48 repayment months
+    expect(schedule[12]?.principal).toBe(750);
+    expect(schedule[12]?.interest).toBe(180);
+    expect(schedule[13]?.interest).toBeCloseTo(176.25, 2);
+    expect(schedule[13]?.payment).toBeLessThan(schedule[12]?.payment ?? 0);
+  });
+
+  it('should pay a constant annuity after the grace period', () => {
+    const schedule = calculateLoanSchedule(createStartGeldKredit());
+    const annuity = calculateLoanPayment(36000, 6, 48).monthlyPayment;
+
+    expect(schedule[12]?.payment).toBeCloseTo(annuity, 2);
+    expect(schedule[35]?.payment).toBeCloseTo(annuity, 2);
+    expect(schedule[35]?.principal).toBeGreaterThan(schedule[12]?.principal ?? 0);
+  });
+
+  it('should fully repay the loan over its term', () => {
+    const schedule = calculateLoanSchedule(createStartGeldKredit(), 72);
+    const tilgungGesamt = schedule.reduce((sum, entry) => sum + entry.principal, 0);
+
+    expect(tilgungGesamt).toBeCloseTo(36000, 2);
+    expect(schedule[59]?.balance).toBe(0);
+    expect(schedule[60]?.payment).toBe(0);
+  });
+
+  it('should start the schedule in the disbursement month', () => {
+    const schedule = calculateLoanSchedule(createStartGeldKredit({ auszahlungsmonat: 4 }));
+
+    expect(schedule[2]?.payment).toBe(0);
+    expect(schedule[3]?.interest).toBe(180);
+    expect(schedule[14]?.principal).toBe(0);   // Still tilgungsfrei (12th loan month)
+    expect(schedule[15]?.principal).toBeGreaterThan(0);
+  });
+
+  it('should ignore equity and grants', () => {
+    const debtService = calculateDebtServiceSchedule({
+      quellen: [
+        { typ: 'eigenkapital', bezeichnung: 'Ersparnisse', betrag: 10000, status: 'gesichert' },
+        { typ: 'gruendungszuschuss', bezeichnung: 'GZ', betrag: 18000, status: 'beantragt' },
+        createStartGeldKredit({ typ: 'bankkredit', tilgungsfrei: 0 }),
+      ],
+    });
+
+    expect(debtService.interest[0]).toBe(180);
+    expect(debtService.payment[0]).toBeCloseTo(calculateLoanPayment(36000, 6, 60).monthlyPayment, 2);
+  });
+
+  it('should reject grace periods longer than the term', () => {
+    const result = validateFinancingSource(createStartGeldKredit({ tilgungsfrei: 60 }));
+    expect(result.errors).toContain('Tilgungsfreie Zeit muss kürzer als die Laufzeit sein');
+  });
+});
+
+// ============================================================================
+// Integration
+// ============================================================================
+
+describe('Tilgungsplan Integration', () => {
+  it('should book interest in the Rentabilitätsvorschau', () => {
+    const scenario = createHealthyLiquidityTest();
+    const finanzierung = { quellen: [createStartGeldKredit()] };
+    const ohneKredit = calculateRentabilitaet({ ...scenario, taxRate: 0 });
+    const mitKredit = calculateRentabilitaet({ ...scenario, finanzierung, taxRate: 0 });
+
+    const [zinsenJahr1] = calculateAnnualInterest(finanzierung);
+
+    expect(zinsenJahr1).toBe(2160);
+    expect(mitKredit.jahr1.zinsen).toBe(2160);
+    expect(mitKredit.jahr1.ergebnisVorSteuern).toBeCloseTo(ohneKredit.jahr1.ergebnisVorSteuern - 2160, 2);
+    expect(mitKredit.jahr2.zinsen).toBeLessThan(2160);
+  });
+
+  it('should split interest and principal in the Liquiditätsplanung', () => {
+    const scenario = createHealthyLiquidityTest();
+    const kredit = createStartGeldKredit({ auszahlungsmonat: 2 });
+    const result = calculateLiquiditaet({
+      ...scenario,
+      finanzierung: { ...scenario.finanzierung, quellen: [kredit] },
+    });
+
+    // Loan amount moves from month 1 to month 2
+    expect(result.monate[0]?.einzahlungenSonstige).toBe(scenario.finanzierung.gesamtfinanzierung - 36000);
+    expect(result.monate[1]?.einzahlungenSonstige).toBe(36000);
+
+    expect(result.monate[0]?.auszahlungenZinsen).toBe(0);
+    expect(result.monate[1]?.auszahlungenZinsen).toBe(180);
+    expect(result.monate[1]?.auszahlungenTilgung).toBe(0);
+    expect(result.monate[13]?.auszahlungenTilgung).toBeGreaterThan(0);
+
+    result.monate.forEach(monat => {
+      expect(monat.endbestand).toBeCloseTo(
+        monat.anfangsbestand + monat.einzahlungenGesamt - monat.auszahlungenGesamt,
+        2
+      );
+    });
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Finanzplanung Umsatzsteuer Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - USt on revenue and Vorsteuer on costs / investments
+ * - USt-Voranmeldung timing (monthly / quarterly)
+ * - Kleinunternehmer §19 UStG handling
+ * - Gross cash flows in the Liquiditätsplanung
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  getUmsatzsteuerSatz,
+  getVorsteuerSatz,
+  projectMonthlyUmsatzsteuer,
+  projectMonthlyVorsteuer,
+  calculateUmsatzsteuerPlan,
+  checkKleinunternehmerStatus,
+  getKleinunternehmerJahre,
+  createRetailUmsatzsteuerTest,
+} from '@/lib/finance/umsatzsteuer';
+
+import {
+  calculateLiquiditaet,
+  createHealthyLiquidityTest,
+  projectLiquiditaet,
+} from '@/lib/finance/liquiditaet';
+import { calculateUmsatzplanung } from '@/lib/finance/umsatzplanung';
+import type { UmsatzsteuerSatzType } from '@/types/modules/finanzplanung';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+// ============================================================================
+// Rates
+// ============================================================================
+
+describe('Umsatzsteuer Rates', () => {
+  it('should map German VAT rates', () => {
+    expect(getUmsatzsteuerSatz().toNumber()).toBe(0.19);
+    expect(getUmsatzsteuerSatz('ermaessigt').toNumber()).toBe(0.07);
+    expect(getUmsatzsteuerSatz('steuerfrei').toNumber()).toBe(0);
+    expect(getUmsatzsteuerSatz('kleinunternehmer').toNumber()).toBe(0);
+  });
+
+  it('should derive Vorsteuer from cost category unless overridden', () => {
+    expect(getVorsteuerSatz({ kategorie: 'personal' }).toNumber()).toBe(0);
+    expect(getVorsteuerSatz({ kategorie: 'versicherung' }).toNumber()).toBe(0);
+    expect(getVorsteuerSatz({ kategorie: 'marketing' }).toNumber()).toBe(0.19);
+    expect(getVorsteuerSatz({ kategorie: 'miete', vorsteuerSatz: 'steuerfrei' }).toNumber()).toBe(0);
+  });
+
+  it('should weight mixed rates by stream revenue', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const umsatzplanung = {
+      ...scenario.umsatzplanung,
+      umsatzstroeme: [
+        { name: 'Speisen', typ: 'produkt' as const, einheit: 'Stück', preis: 10, mengeJahr1: Array(12).fill(100), mengeJahr2: 1200, mengeJahr3: 1200, ustSatz: 'ermaessigt' as const },
+        { name: 'Getränke', typ: 'produkt' as const, einheit: 'Stück', preis: 10, mengeJahr1: Array(12).fill(100), mengeJahr2: 1200, mengeJahr3: 1200 },
+      ],
+      umsatzJahr1: Array(12).fill(2000),
+      umsatzJahr1Summe: 24000,
+    };
+
+    const ust = projectMonthlyUmsatzsteuer(umsatzplanung, scenario.config);
+
+    // 50 % at 7 % + 50 % at 19 % = 13 % of 2.000 €
+    expect(ust[0]).toBeCloseTo(260, 2);
+    expect(ust[24]).toBeCloseTo(260, 2);
+  });
+});
+
+// ============================================================================
+// USt-Plan
+// ============================================================================
+
+describe('Umsatzsteuer Plan', () => {
+  it('should calculate Vorsteuer on costs and investments', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const vorsteuer = projectMonthlyVorsteuer(
+      scenario.umsatzplanung,
+      scenario.kostenplanung,
+      scenario.kapitalbedarf
+    );
+
+    expect(vorsteuer.fixkosten[0]).toBeCloseTo(380, 2);       // Miete 2.000 € × 19 %, Versicherung steuerfrei
+    expect(vorsteuer.variableKosten[0]).toBeCloseTo(684, 2);  // 45 % Wareneinsatz of 8.000 € × 19 %
+    expect(vorsteuer.investitionen[0]).toBeCloseTo(1900, 2);  // 30.000 € × 19 % over 3 months
+    expect(vorsteuer.investitionen[3]).toBe(0);
+  });
+
+  it('should refund Vorsteuer surplus in the following month', () => {
+    const plan = calculateUmsatzsteuerPlan(createRetailUmsatzsteuerTest());
+
+    expect(plan.monate).toHaveLength(36);
+    expect(plan.monate[0]?.zahllast).toBeCloseTo(1520 - 2964, 2);
+    expect(plan.monate[0]?.zahlungFinanzamt).toBe(0);
+    expect(plan.monate[1]?.zahlungFinanzamt).toBeCloseTo(1520 - 2964, 2); // Erstattung
+    expect(plan.zahllastGesamt).toBeCloseTo(plan.umsatzsteuerGesamt - plan.vorsteuerGesamt, 2);
+  });
+
+  it('should settle quarterly Voranmeldung after quarter end', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const plan = calculateUmsatzsteuerPlan({
+      ...scenario,
+      config: { ...scenario.config, voranmeldung: 'vierteljaehrlich' },
+    });
+
+    const q1Zahllast = plan.monate.slice(0, 3).reduce((sum, m) => sum + m.zahllast, 0);
+
+    expect(plan.monate[1]?.zahlungFinanzamt).toBe(0);
+    expect(plan.monate[2]?.zahlungFinanzamt).toBe(0);
+    expect(plan.monate[3]?.zahlungFinanzamt).toBeCloseTo(q1Zahllast, 2);
+  });
+
+  it('should shift USt to payment month with Ist-Versteuerung', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const plan = calculateUmsatzsteuerPlan({
+      ...scenario,
+      config: { ...scenario.config, besteuerung: 'ist' },
+      paymentTerms: { customerPaymentDays: 45, supplierPaymentDays: 30, variableCostPaymentDelay: 30 },
+    });
+
+    expect(plan.monate[0]?.umsatzsteuer).toBe(0);
+    expect(plan.monate[1]?.umsatzsteuer).toBe(0);
+    expect(plan.monate[2]?.umsatzsteuer).toBeCloseTo(1520, 2);
+  });
+
+  it('should charge no USt and deduct no Vorsteuer as Kleinunternehmer', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const umsatzplanung = {
+      ...scenario.umsatzplanung,
+      umsatzJahr1: Array(12).fill(1500),
+      umsatzJahr1Summe: 18000,
+      umsatzJahr2: 20000,
+      umsatzJahr3: 22000,
+    };
+    const plan = calculateUmsatzsteuerPlan({
+      ...scenario,
+      umsatzplanung,
+      config: { ...scenario.config, kleinunternehmer: true },
+    });
+
+    expect(plan.umsatzsteuerGesamt).toBe(0);
+    expect(plan.vorsteuerGesamt).toBe(0);
+    expect(plan.monate.every(m => m.zahlungFinanzamt === 0)).toBe(true);
+    // Suppliers still charge USt on the investments
+    expect(projectMonthlyVorsteuer(umsatzplanung, scenario.kostenplanung, scenario.kapitalbedarf).investitionen[0])
+      .toBeCloseTo(1900, 2);
+  });
+
+  it('should switch to regular USt from the year the Kleinunternehmer status is lost', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const plan = calculateUmsatzsteuerPlan({
+      ...scenario,
+      umsatzplanung: {
+        ...scenario.umsatzplanung,
+        umsatzJahr1: Array(12).fill(1500),
+        umsatzJahr1Summe: 18000,
+        umsatzJahr2: 30000,
+        umsatzJahr3: 36000,
+      },
+      config: { ...scenario.config, kleinunternehmer: true },
+    });
+
+    // Jahr 2 above €25.000 → regular USt in Jahr 3
+    plan.monate.slice(0, 24).forEach(monat => {
+      expect(monat.umsatzsteuer).toBe(0);
+      expect(monat.vorsteuer).toBe(0);
+    });
+    expect(plan.monate[24]?.umsatzsteuer).toBeCloseTo(3000 * 0.19, 2);
+    expect(plan.monate[24]?.vorsteuer).toBeGreaterThan(0);
+    expect(plan.monate[25]?.zahlungFinanzamt).toBeCloseTo(plan.monate[24]?.zahllast ?? 0, 2);
+  });
+
+  it('should charge regular USt when the status is not available in the founding year', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const regulaer = calculateUmsatzsteuerPlan(scenario);
+    const kleinunternehmer = calculateUmsatzsteuerPlan({
+      ...scenario,
+      config: { ...scenario.config, kleinunternehmer: true },
+    });
+
+    expect(kleinunternehmer.umsatzsteuerGesamt).toBeCloseTo(regulaer.umsatzsteuerGesamt, 2);
+    expect(kleinunternehmer.vorsteuerGesamt).toBeCloseTo(regulaer.vorsteuerGesamt, 2);
+  });
+});
+
+// ============================================================================
+// Kleinunternehmer
+// ============================================================================
+
+describe('Kleinunternehmer Status', () => {
+  it('should reject Kleinunternehmer status above thresholds', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const warnings = checkKleinunternehmerStatus(scenario.umsatzplanung, { ...scenario.config, kleinunternehmer: true });
+
+    expect(warnings.some(w => w.includes('von Beginn an nicht möglich'))).toBe(true);
+    expect(warnings.some(w => w.includes('USt-Pflicht ab Jahr 2'))).toBe(false);
+  });
+
+  it('should apply the €25.000 limit in the founding year', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const config = { ...scenario.config, kleinunternehmer: true };
+    const umsatzplanung = { ...scenario.umsatzplanung, umsatzJahr1Summe: 40000, umsatzJahr2: 45000, umsatzJahr3: 50000 };
+
+    // €40.000 is below the €100.000 current-year limit, but there is no previous year
+    expect(getKleinunternehmerJahre([40000, 45000, 50000])).toEqual([false, false, false]);
+    expect(checkKleinunternehmerStatus(umsatzplanung, config)).toEqual([
+      expect.stringContaining('Kleinunternehmerregelung von Beginn an nicht möglich - Umsatz im Gründungsjahr über 25.000'),
+    ]);
+  });
+
+  it('should require USt from the year after the previous-year limit is exceeded', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const config = { ...scenario.config, kleinunternehmer: true };
+    const umsatzplanung = { ...scenario.umsatzplanung, umsatzJahr1Summe: 20000, umsatzJahr2: 30000, umsatzJahr3: 35000 };
+
+    expect(getKleinunternehmerJahre([20000, 30000, 35000])).toEqual([true, true, false]);
+    expect(checkKleinunternehmerStatus(umsatzplanung, config)).toEqual([
+      expect.stringContaining('USt-Pflicht ab Jahr 3 - Umsatz Jahr 2 über 25.000'),
+    ]);
+  });
+
+  it('should suggest Kleinunternehmer status for small revenue', () => {
+    const scenario = createRetailUmsatzsteuerTest();
+    const warnings = checkKleinunternehmerStatus(
+      { ...scenario.umsatzplanung, umsatzJahr1Summe: 18000 },
+      scenario.config
+    );
+
+    expect(warnings.some(w => w.includes('Kleinunternehmerregelung (§19 UStG) möglich'))).toBe(true);
+  });
+});
+
+// ============================================================================
+// Liquidity Integration
+// ============================================================================
+
+describe('Umsatzsteuer in Liquiditätsplanung', () => {
+  it('should keep net planning unchanged without VAT config', () => {
+    const result = calculateLiquiditaet(createHealthyLiquidityTest());
+
+    result.monate.forEach(monat => {
+      expect(monat.einzahlungenUmsatzsteuer).toBe(0);
+      expect(monat.auszahlungenUmsatzsteuer).toBe(0);
+    });
+  });
+
+  it('should add gross VAT cash flows and Finanzamt settlements', () => {
+    const scenario = createHealthyLiquidityTest();
+    const net = calculateLiquiditaet(scenario);
+    const gross = calculateLiquiditaet({
+      ...scenario,
+      umsatzsteuer: { kleinunternehmer: false, voranmeldung: 'monatlich', besteuerung: 'soll' },
+    });
+
+    // Month 1: Vorsteuer on investments paid, no customer payment yet
+    expect(gross.monate[0]?.auszahlungenUmsatzsteuer).toBeGreaterThan(0);
+    expect(gross.monate[0]?.einzahlungenUmsatzsteuer).toBe(0);
+    expect(gross.monate[0]?.endbestand).toBeLessThan(net.monate[0]?.endbestand ?? 0);
+
+    gross.monate.forEach(monat => {
+      expect(monat.einzahlungenGesamt).toBeCloseTo(
+        monat.einzahlungenUmsatz + monat.einzahlungenSonstige + (monat.einzahlungenUmsatzsteuer ?? 0),
+        2
+      );
+      expect(monat.endbestand).toBeCloseTo(
+        monat.anfangsbestand + monat.einzahlungenGesamt - monat.auszahlungenGesamt,
+        2
+      );
+    });
+  });
+
+  it('should pay the non-refundable Vorsteuer as Kleinunternehmer', () => {
+    const scenario = {
+      ...createHealthyLiquidityTest(),
+      umsatzplanung: {
+        ...createHealthyLiquidityTest().umsatzplanung,
+        umsatzJahr1: Array(12).fill(1500),
+        umsatzJahr1Summe: 18000,
+        umsatzJahr2: 20000,
+        umsatzJahr3: 22000,
+      },
+    };
+    const mitKleinunternehmer = {
+      ...scenario,
+      umsatzsteuer: { kleinunternehmer: true, voranmeldung: 'monatlich', besteuerung: 'soll' } as const,
+    };
+    const net = calculateLiquiditaet(scenario);
+    const kleinunternehmer = calculateLiquiditaet(mitKleinunternehmer);
+    const vorsteuer = projectLiquiditaet(mitKleinunternehmer).umsatzsteuer?.vorsteuer;
+
+    // Month 1: 19 % on fixed costs and a third of the investments, never refunded
+    expect(kleinunternehmer.monate[0]?.auszahlungenUmsatzsteuer).toBeCloseTo(
+      (vorsteuer?.fixkosten[0] ?? 0) + (vorsteuer?.investitionen[0] ?? 0),
+      2
+    );
+    expect(kleinunternehmer.monate.every(monat => monat.einzahlungenUmsatzsteuer === 0)).toBe(true);
+    expect(kleinunternehmer.monate[35]?.endbestand).toBeLessThan(net.monate[35]?.endbestand ?? 0);
+  });
+
+  it('should carry the stream rate from the Umsatzplanung into the liquidity plan', () => {
+    const scenario = createHealthyLiquidityTest();
+    const umsatzsteuer = { kleinunternehmer: false, voranmeldung: 'monatlich', besteuerung: 'soll' } as const;
+    const planMitSatz = (ustSatz: UmsatzsteuerSatzType) => {
+      const umsatzplanung = calculateUmsatzplanung({
+        umsatzstroeme: [
+          { name: 'Buch', typ: 'produkt', einheit: 'Stück', preis: 10, mengeJahr1: Array(12).fill(100), mengeJahr2: 1200, mengeJahr3: 1200, ustSatz },
+        ],
+      });
+      return { ...scenario, umsatzplanung, umsatzsteuer };
+    };
+
+    const ermaessigt = planMitSatz('ermaessigt');
+    const kleinunternehmer = planMitSatz('kleinunternehmer');
+
+    expect(ermaessigt.umsatzplanung.umsatzstroeme[0]?.ustSatz).toBe('ermaessigt');
+    // 7 % of 1.000 € monthly revenue, not 19 %
+    expect(projectLiquiditaet(ermaessigt).umsatzsteuer?.ustAufUmsatz[0]).toBeCloseTo(70, 2);
+    expect(projectLiquiditaet(kleinunternehmer).umsatzsteuer?.ustAufUmsatz.every(ust => ust === 0)).toBe(true);
+
+    // USt collected with the first customer payment (Vorsteuer refunds excluded)
+    const ustMitErsterZahlung = (plan: typeof ermaessigt) => {
+      const { monate } = calculateLiquiditaet(plan);
+      const index = monate.findIndex(monat => monat.einzahlungenUmsatz > 0);
+      const erstattung = Math.max(0, -(projectLiquiditaet(plan).umsatzsteuer?.zahlungFinanzamt[index] ?? 0));
+      return (monate[index]?.einzahlungenUmsatzsteuer ?? 0) - erstattung;
+    };
+
+    expect(ustMitErsterZahlung(planMitSatz('regulaer'))).toBeCloseTo(190, 2);
+    expect(ustMitErsterZahlung(ermaessigt)).toBeCloseTo(70, 2);
+    expect(ustMitErsterZahlung(kleinunternehmer)).toBeCloseTo(0, 2);
+  });
+});
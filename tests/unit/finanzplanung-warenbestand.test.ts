@@ -0,0 +1,125 @@
+/**
+ * Finanzplanung Warenbestand Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Initial stock, reorder cycle and Lagerreichweite from the Branchenbenchmarks
+ * - Supplier prepayment vs. Zahlungsziel
+ * - Warenbestand outflows in the Liquiditätsplanung
+ * - Betriebsmittel line in the Kapitalbedarf
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  getDefaultWarenbestandConfig,
+  calculateWarenbestandPlan,
+  calculateForderungsbestand,
+  calculateBetriebsmittel,
+} from '@/lib/finance/warenbestand';
+
+import { calculateLiquiditaet, createHealthyLiquidityTest } from '@/lib/finance/liquiditaet';
+import { calculateKapitalbedarf } from '@/lib/finance/kapitalbedarf';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+// Wareneinsatz of 50% on the healthy fixture: €2.000, €2.500, €3.000, ...
+const HANDEL = { lagerreichweiteTage: 30, wareneinsatzquote: 50 };
+
+// ============================================================================
+// Inventory Plan
+// ============================================================================
+
+describe('Warenbestand Plan', () => {
+  it('should read Lagerreichweite and Zahlungsziel from the Branchenbenchmarks', () => {
+    expect(getDefaultWarenbestandConfig('einzelhandel')).toEqual({
+      lagerreichweiteTage: 90,
+      bestellzyklusTage: 30,
+      lieferantenZahlungszielTage: 30,
+      vorkasseProzent: 0,
+    });
+    expect(getDefaultWarenbestandConfig('handel')?.lagerreichweiteTage).toBe(90);
+    expect(getDefaultWarenbestandConfig('beratung')).toBeUndefined();
+  });
+
+  it('should buy the first month plus the minimum stock up front', () => {
+    const { umsatzplanung, kostenplanung } = createHealthyLiquidityTest();
+    const plan = calculateWarenbestandPlan(umsatzplanung, kostenplanung, HANDEL);
+
+    expect(plan.wareneinsatz.slice(0, 3)).toEqual([2000, 2500, 3000]);
+    expect(plan.einkauf.slice(0, 3)).toEqual([4500, 3000, 3500]);
+    expect(plan.bestand.slice(0, 3)).toEqual([2500, 3000, 3500]);
+    expect(plan.anfangsbestand).toBe(4500);
+
+    // Supplier paid after 30 days, Wareneinsatz already in the variable costs
+    expect(plan.zahlungen.slice(0, 3)).toEqual([0, 4500, 3000]);
+    expect(plan.mehrauszahlungen.slice(0, 3)).toEqual([0, 2500, 500]);
+  });
+
+  it('should order a full quarter in a quarterly reorder cycle', () => {
+    const { umsatzplanung, kostenplanung } = createHealthyLiquidityTest();
+    const plan = calculateWarenbestandPlan(umsatzplanung, kostenplanung, { ...HANDEL, bestellzyklusTage: 90 });
+
+    expect(plan.einkauf.slice(0, 4)).toEqual([11000, 0, 0, 13500]);
+    expect(plan.bestand[2]).toBe(3500);
+  });
+
+  it('should shift supplier payments between Vorkasse and Zahlungsziel', () => {
+    const { umsatzplanung, kostenplanung } = createHealthyLiquidityTest();
+    const vorkasse = calculateWarenbestandPlan(umsatzplanung, kostenplanung, { ...HANDEL, vorkasseProzent: 100 });
+    const zahlungsziel = calculateWarenbestandPlan(umsatzplanung, kostenplanung, { ...HANDEL, lieferantenZahlungszielTage: 60 });
+
+    expect(vorkasse.zahlungen.slice(0, 2)).toEqual([4500, 3000]);
+    expect(zahlungsziel.zahlungen.slice(0, 3)).toEqual([0, 0, 4500]);
+    expect(vorkasse.maxKapitalbindung).toBeGreaterThan(zahlungsziel.maxKapitalbindung);
+  });
+});
+
+// ============================================================================
+// Integration
+// ============================================================================
+
+describe('Warenbestand Integration', () => {
+  it('should add the Warenbestand outflows to the Liquiditätsplanung', () => {
+    const input = createHealthyLiquidityTest();
+    const ohneLager = calculateLiquiditaet(input);
+    const mitLager = calculateLiquiditaet({ ...input, warenbestand: HANDEL });
+
+    expect(ohneLager.monate[1]?.auszahlungenWarenbestand).toBe(0);
+    expect(mitLager.monate[1]?.auszahlungenWarenbestand).toBe(2500);
+    expect(mitLager.monate[2]?.endbestand).toBe((ohneLager.monate[2]?.endbestand ?? 0) - 3000);
+  });
+
+  it('should add Betriebsmittel to the Kapitalbedarf', () => {
+    const { umsatzplanung, kostenplanung } = createHealthyLiquidityTest();
+    const plan = calculateWarenbestandPlan(umsatzplanung, kostenplanung, HANDEL);
+    const betriebsmittel = calculateBetriebsmittel(plan, calculateForderungsbestand(umsatzplanung, 45));
+
+    expect(betriebsmittel.forderungen).toBe(13250);
+    expect(betriebsmittel.summe).toBe(plan.maxKapitalbindung + 13250);
+
+    const basis = {
+      gruendungskosten: { notar: 800, handelsregister: 400, beratung: 1500, marketing: 2000, sonstige: 800 },
+      investitionen: [],
+      anlaufkosten: { monate: 6, monatlicheKosten: 4000 },
+    };
+    const ohne = calculateKapitalbedarf(basis);
+    const mit = calculateKapitalbedarf({ ...basis, betriebsmittel });
+
+    expect(ohne.betriebsmittel).toBeUndefined();
+    expect(mit.betriebsmittel?.summe).toBe(betriebsmittel.summe);
+    expect(mit.gesamtkapitalbedarf).toBe(ohne.gesamtkapitalbedarf + betriebsmittel.summe);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Finanzplanung Zielwertsuche Unit Tests
+ *
+ * CRITICAL: Tests verify exact decimal.js calculations
+ * - Affordable Privatentnahme and minimum price (liquidity ≥ €0)
+ * - Customers per month for Selbstragfähigkeit in month 6
+ * - Additional Fremdkapital closing the Finanzierungslücke
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import Decimal from 'decimal.js';
+
+import {
+  applyPreis,
+  calculateMonat6Ergebnis,
+  calculateZielwertPlan,
+  solvePrivatentnahme,
+  solveMindestpreis,
+  solveKundenFuerSelbsttragfaehigkeit,
+  solveZusaetzlichesFremdkapital,
+} from '@/lib/finance/zielwertsuche';
+
+import {
+  calculateLiquiditaet,
+  createHealthyLiquidityTest,
+  createNegativeLiquidityTest,
+  type LiquiditaetInput,
+} from '@/lib/finance/liquiditaet';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+beforeAll(() => {
+  // Configure decimal.js globally for tests
+  Decimal.set({
+    precision: 28,
+    rounding: Decimal.ROUND_HALF_UP,
+    toExpNeg: -28,
+    toExpPos: 28,
+  });
+});
+
+/**
+ * Add one stream at €100 per unit matching the revenue totals
+ */
+function withStream(input: LiquiditaetInput): LiquiditaetInput {
+  const { umsatzplanung } = input;
+
+  return {
+    ...input,
+    umsatzplanung: {
+      ...umsatzplanung,
+      umsatzstroeme: [{
+        name: 'Beratung',
+        typ: 'dienstleistung',
+        einheit: 'Stunde',
+        preis: 100,
+        mengeJahr1: umsatzplanung.umsatzJahr1.map(umsatz => umsatz / 100),
+        mengeJahr2: umsatzplanung.umsatzJahr2 / 100,
+        mengeJahr3: umsatzplanung.umsatzJahr3 / 100,
+      }],
+    },
+  };
+}
+
+// ============================================================================
+// Privatentnahme
+// ============================================================================
+
+describe('Zielwertsuche Privatentnahme', () => {
+  it('should find the highest affordable monthly withdrawal', () => {
+    const input = createHealthyLiquidityTest();
+    const result = solvePrivatentnahme(input);
+
+    expect(result.erreicht).toBe(true);
+    expect(result.wert).toBeGreaterThan(input.privatentnahme.monatlichePrivatentnahme);
+    expect(result.plan.liquiditaet.hatNegativeLiquiditaet).toBe(false);
+    expect(result.plan.input.privatentnahme.jaehrlichePrivatentnahme).toBe(result.wert * 12);
+
+    const zuHoch = calculateLiquiditaet({
+      ...input,
+      privatentnahme: { ...input.privatentnahme, monatlichePrivatentnahme: result.wert + 10 },
+    });
+    expect(zuHoch.hatNegativeLiquiditaet).toBe(true);
+  });
+
+  it('should report when no withdrawal keeps liquidity positive', () => {
+    const result = solvePrivatentnahme(createNegativeLiquidityTest());
+
+    expect(result.erreicht).toBe(false);
+    expect(result.wert).toBe(0);
+    expect(result.plan.liquiditaet.hatNegativeLiquiditaet).toBe(true);
+  });
+});
+
+// ============================================================================
+// Price and Customers
+// ============================================================================
+
+describe('Zielwertsuche Preis und Kunden', () => {
+  it('should shift revenue totals with the stream price', () => {
+    const { umsatzplanung } = withStream(createHealthyLiquidityTest());
+    const result = applyPreis(umsatzplanung, 0, 120);
+
+    // +€20 on 1.065 units sold in Year 1
+    expect(result.umsatzJahr1Summe).toBeCloseTo(umsatzplanung.umsatzJahr1Summe + 20 * 1065, 2);
+    expect(result.umsatzJahr1[0]).toBeCloseTo(4800, 2);
+    expect(result.umsatzJahr3).toBeCloseTo(umsatzplanung.umsatzJahr3 * 1.2, 2);
+    expect(result.umsatzstroeme[0]?.preis).toBe(120);
+  });
+
+  it('should find the minimum price for non-negative liquidity', () => {
+    const input = withStream(createNegativeLiquidityTest());
+    const result = solveMindestpreis(input);
+
+    expect(result.erreicht).toBe(true);
+    expect(result.wert).toBeGreaterThan(100);
+    expect(result.plan.liquiditaet.hatNegativeLiquiditaet).toBe(false);
+
+    const zuNiedrig = calculateZielwertPlan({
+      ...input,
+      umsatzplanung: applyPreis(input.umsatzplanung, 0, result.wert - 0.5),
+    });
+    expect(zuNiedrig.liquiditaet.hatNegativeLiquiditaet).toBe(true);
+  });
+
+  it('should find the customers needed for self-sufficiency in month 6', () => {
+    const input = withStream(createHealthyLiquidityTest());
+    const result = solveKundenFuerSelbsttragfaehigkeit(input);
+    const required = input.privatentnahme.monatlichePrivatentnahme;
+
+    expect(result.erreicht).toBe(true);
+    expect(Number.isInteger(result.wert)).toBe(true);
+    expect(result.plan.input.umsatzplanung.umsatzstroeme[0]?.mengeJahr1[5]).toBeCloseTo(result.wert, 6);
+    expect(calculateMonat6Ergebnis(result.plan.input)).toBeGreaterThanOrEqual(required);
+
+    const weniger = solveKundenFuerSelbsttragfaehigkeit(input, 0, { obergrenze: result.wert - 1 });
+    expect(weniger.erreicht).toBe(false);
+  });
+});
+
+// ============================================================================
+// Fremdkapital
+// ============================================================================
+
+describe('Zielwertsuche Fremdkapital', () => {
+  it('should find the additional loan that closes the Finanzierungslücke', () => {
+    const healthy = createHealthyLiquidityTest();
+    const input: LiquiditaetInput = {
+      ...healthy,
+      finanzierung: { ...healthy.finanzierung, gesamtfinanzierung: 30000, finanzierungsluecke: 18200 },
+    };
+    const result = solveZusaetzlichesFremdkapital(input);
+    const { finanzierung } = result.plan.input;
+
+    expect(result.erreicht).toBe(true);
+    expect(result.wert).toBeGreaterThanOrEqual(input.finanzierung.finanzierungsluecke);
+    expect(result.wert % 100).toBe(0);
+    expect(finanzierung.finanzierungsluecke).toBeLessThanOrEqual(0);
+    expect(finanzierung.quellen.at(-1)?.typ).toBe('bankkredit');
+    expect(result.plan.liquiditaet.hatNegativeLiquiditaet).toBe(false);
+  });
+
+  it('should not add a loan when the plan is already financed', () => {
+    const result = solveZusaetzlichesFremdkapital(createHealthyLiquidityTest());
+
+    expect(result.erreicht).toBe(true);
+    expect(result.wert).toBe(0);
+    expect(result.plan.input.finanzierung.quellen).toHaveLength(0);
+  });
+});
@@ -15,6 +15,7 @@ import {
   detectHockeyStickGrowth,
   detectSinglePersonOverload,
   detectOverutilization,
+  detectHourlyRateMismatch,
   detectMissingEssentials,
   detectUnrealisticLowCosts,
   detectScalingIgnorance,
@@ -340,6 +341,29 @@ describe('Financial Validation', () => {
     });
   });
 
+  describe('detectHourlyRateMismatch', () => {
+    test('detects rates below the calculated minimum', () => {
+      const result = detectHourlyRateMismatch(60, 'Freiberufler', 72.5);
+
+      expect(result).toBeTruthy();
+      expect(result?.priority).toBe('high');
+      expect(result?.challenge).toContain('Mindeststundensatz');
+    });
+
+    test('detects rates above the realistic ceiling', () => {
+      const result = detectHourlyRateMismatch(180, 'Handwerk');
+
+      expect(result).toBeTruthy();
+      expect(result?.priority).toBe('medium');
+      expect(result?.challenge).toContain('120,00');
+    });
+
+    test('allows rates within the range', () => {
+      expect(detectHourlyRateMismatch(95, 'Freiberufler', 72.5)).toBeNull();
+      expect(detectHourlyRateMismatch(0, 'Freiberufler')).toBeNull();
+    });
+  });
+
   describe('detectMissingEssentials', () => {
     test('detects missing essential cost categories', () => {
       const costs = {
@@ -0,0 +1,196 @@
+/**
+ * Tragfähigkeits-Vorprüfung Tests (GZ-803)
+ *
+ * Criteria of the fachkundige Stelle, quoted evidence and the docx document.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WorkshopSession } from '@/types/workshop-session';
+import { generateTragfaehigkeitReport } from '@/lib/validation/tragfaehigkeit-precheck';
+import { buildTragfaehigkeitDocument } from '@/lib/export/document-builder';
+
+// ============================================================================
+// Test Data Setup
+// ============================================================================
+
+function createLiquiditaetMonate(endbestand: (month: number) => number) {
+  return Array.from({ length: 36 }, (_, index) => ({ monat: index + 1, endbestand: endbestand(index + 1) }));
+}
+
+function createWorkshop(overrides: Record<string, unknown> = {}): WorkshopSession {
+  return {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    userId: '987fcdeb-51a2-43d1-9f12-345678901234',
+    status: 'completed',
+    businessName: 'Müller IT-Beratung',
+    createdAt: '2026-01-20T10:00:00.000Z',
+    updatedAt: '2026-01-20T15:00:00.000Z',
+    lastActivity: '2026-01-20T15:00:00.000Z',
+    modules: {
+      'gz-intake': {
+        status: 'completed',
+        data: {
+          founder: {
+            name: 'Anna Müller',
+            experience: { yearsInIndustry: 8, relevantRoles: ['IT-Projektleiterin'], previousFounder: false },
+            qualifications: { education: 'M.Sc. Wirtschaftsinformatik', certifications: ['PMP'], specialSkills: [] },
+          },
+        },
+      },
+      'gz-markt-wettbewerb': {
+        status: 'completed',
+        data: {
+          marktanalyse: { marketDescription: 'IT-Beratung für KMU in Bayern', som: { value: 450000 } },
+          wettbewerbsanalyse: { competitors: [{ name: 'A GmbH' }, { name: 'B AG' }, { name: 'C UG' }] },
+          positionierung: { positionStatement: 'Digitalisierung für Handwerksbetriebe zum Festpreis' },
+        },
+      },
+      'gz-finanzplanung': {
+        status: 'completed',
+        data: {
+          kapitalbedarf: { gesamtkapitalbedarf: 20000 },
+          finanzierung: {
+            quellen: [
+              { typ: 'eigenkapital', bezeichnung: 'Ersparnisse', betrag: 12000, status: 'gesichert' },
+              { typ: 'mikrokredit', bezeichnung: 'Mikrokredit', betrag: 8000, status: 'gesichert' },
+            ],
+          },
+          privatentnahme: { monatlichePrivatentnahme: 2500, jaehrlichePrivatentnahme: 30000 },
+          rentabilitaet: {
+            jahr1: { jahresueberschuss: 18000 },
+            jahr2: { jahresueberschuss: 42000 },
+            jahr3: { jahresueberschuss: 55000 },
+            breakEvenMonat: 5,
+          },
+          liquiditaet: {
+            monate: createLiquiditaetMonate(() => 5000),
+            minimumLiquiditaet: 5000,
+            minimumMonat: 1,
+            hatNegativeLiquiditaet: false,
+          },
+        },
+      },
+    },
+    ...overrides,
+  } as WorkshopSession;
+}
+
+function getCriterion(workshop: WorkshopSession, id: string) {
+  return generateTragfaehigkeitReport(workshop).criteria.find(criterion => criterion.id === id)!;
+}
+
+// ============================================================================
+// Report Tests
+// ============================================================================
+
+describe('Tragfähigkeits-Vorprüfung', () => {
+  it('should pass all six criteria for a viable plan', () => {
+    const report = generateTragfaehigkeitReport(createWorkshop(), new Date('2026-02-01T09:00:00.000Z'));
+
+    expect(report.criteria.map(criterion => criterion.id)).toEqual([
+      'gruenderqualifikation',
+      'marktchancen',
+      'finanzierung_gesichert',
+      'rentabilitaet',
+      'liquiditaet',
+      'lebensunterhalt_gesichert',
+    ]);
+    expect(report.passed).toBe(true);
+    expect(report.passedCriteria).toBe(6);
+    expect(report.generatedAt).toBe('2026-02-01T09:00:00.000Z');
+  });
+
+  it('should quote module values with a pointer to the field', () => {
+    const criterion = getCriterion(createWorkshop(), 'gruenderqualifikation');
+
+    expect(criterion.evidence).toContainEqual(expect.objectContaining({
+      module: 'gz-intake',
+      phase: 'founder_profile',
+      field: 'founder.qualifications.education',
+      label: 'Ausbildung',
+      quote: 'M.Sc. Wirtschaftsinformatik',
+    }));
+  });
+
+  it('should fail Finanzierung gesichert while sources are only applied for', () => {
+    const workshop = createWorkshop();
+    const finanzplanung = workshop.modules['gz-finanzplanung']!.data;
+    finanzplanung.finanzierung.quellen[1].status = 'beantragt';
+
+    const criterion = getCriterion(workshop, 'finanzierung_gesichert');
+
+    expect(criterion.passed).toBe(false);
+    expect(criterion.findings).toContain('Noch nicht gesichert: Mikrokredit.');
+    expect(criterion.evidence).toContainEqual(expect.objectContaining({
+      field: 'finanzierung.quellen[1].betrag',
+      phase: 'finanzierung',
+      value: 8000,
+    }));
+  });
+
+  it('should leave the applied-for Gründungszuschuss out of Finanzierung gesichert', () => {
+    const workshop = createWorkshop();
+    workshop.modules['gz-finanzplanung']!.data.finanzierung.quellen.push(
+      { typ: 'gruendungszuschuss', bezeichnung: 'Gründungszuschuss', betrag: 15000, status: 'beantragt' }
+    );
+
+    const criterion = getCriterion(workshop, 'finanzierung_gesichert');
+
+    expect(criterion.passed).toBe(true);
+    expect(criterion.findings.join(' ')).not.toContain('Gründungszuschuss');
+    expect(criterion.evidence.map(quote => quote.field)).not.toContain('finanzierung.quellen[2].betrag');
+  });
+
+  it('should point to every negative month in the liquidity plan', () => {
+    const workshop = createWorkshop();
+    const liquiditaet = workshop.modules['gz-finanzplanung']!.data.liquiditaet;
+    liquiditaet.monate = createLiquiditaetMonate(month => (month === 7 ? -800 : 5000));
+    liquiditaet.hatNegativeLiquiditaet = true;
+
+    const criterion = getCriterion(workshop, 'liquiditaet');
+
+    expect(criterion.passed).toBe(false);
+    expect(criterion.evidence).toContainEqual(expect.objectContaining({
+      field: 'liquiditaet.monate[6].endbestand',
+      month: 7,
+      value: -800,
+    }));
+  });
+
+  it('should fail Lebensunterhalt when the year-2 profit does not cover the Privatentnahme', () => {
+    const workshop = createWorkshop();
+    workshop.modules['gz-finanzplanung']!.data.rentabilitaet.jahr2.jahresueberschuss = 24000;
+
+    const report = generateTragfaehigkeitReport(workshop);
+    const criterion = report.criteria.find(c => c.id === 'lebensunterhalt_gesichert')!;
+
+    expect(criterion.passed).toBe(false);
+    expect(report.passed).toBe(false);
+    expect(report.passedCriteria).toBe(5);
+  });
+
+  it('should fail every criterion when the modules are empty', () => {
+    const report = generateTragfaehigkeitReport(createWorkshop({ modules: {} }));
+
+    expect(report.passedCriteria).toBe(0);
+    report.criteria.forEach(criterion => expect(criterion.findings.length).toBeGreaterThan(0));
+  });
+
+  it('should address the cover letter to the fachkundige Stelle', () => {
+    const report = generateTragfaehigkeitReport(createWorkshop());
+
+    expect(report.coverLetter[0]).toBe('Sehr geehrte Damen und Herren,');
+    expect(report.coverLetter.join('\n')).toContain('„Müller IT-Beratung"');
+    expect(report.coverLetter[report.coverLetter.length - 1]).toBe('Anna Müller');
+  });
+
+  it('should build a document with cover letter, overview and one section per criterion', () => {
+    const document = buildTragfaehigkeitDocument(generateTragfaehigkeitReport(createWorkshop()));
+
+    expect(document.metadata.title).toBe('Tragfähigkeits-Vorprüfung - Müller IT-Beratung');
+    expect(document.coverPage.id).toBe('tragfaehigkeit-anschreiben');
+    expect(document.tableOfContents.id).toBe('tragfaehigkeit-uebersicht');
+    expect(document.mainSections.map(section => section.number)).toEqual(['1', '2', '3', '4', '5', '6']);
+    expect(document.mainSections[0]!.id).toBe('tragfaehigkeit-gruenderqualifikation');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Validation History Tests (GZ-803)
+ *
+ * Snapshots of export validation runs, score timeline and regression diff.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ValidationIssue } from '@/lib/validation/types';
+import type { ExportValidationResult } from '@/lib/validation/final-validator';
+import { recordExportValidation } from '@/lib/validation/final-validator';
+import {
+  buildScoreTimeline,
+  createValidationSnapshot,
+  diffValidationRuns,
+  findPreviousRun,
+  VALIDATION_HISTORY_MODULE,
+} from '@/lib/validation/validation-history';
+
+// ============================================================================
+// Test Data Setup
+// ============================================================================
+
+function createIssue(id: string, severity: ValidationIssue['severity']): ValidationIssue {
+  return {
+    id,
+    severity,
+    category: 'financial',
+    title: id,
+    message: `Ausführliche Beschreibung zu ${id}`,
+  };
+}
+
+function createResult(
+  complianceScore: number,
+  blockerIds: string[],
+  warningIds: string[] = []
+): ExportValidationResult {
+  return {
+    canExport: blockerIds.length === 0,
+    blockers: blockerIds.map(id => createIssue(id, 'BLOCKER')),
+    warnings: warningIds.map(id => createIssue(id, 'WARNING')),
+    validationReport: '',
+    summary: {
+      status: blockerIds.length > 0 ? 'blocked' : warningIds.length > 0 ? 'warnings' : 'ready',
+      message: '',
+      complianceScore,
+    },
+  };
+}
+
+function createFakeSupabase(insertError: { message: string } | null = null) {
+  const insert = vi.fn().mockResolvedValue({ error: insertError });
+  const supabase = { from: vi.fn(() => ({ insert })) } as unknown as SupabaseClient;
+  return { supabase, insert };
+}
+
+// ============================================================================
+// Snapshot and Diff Tests
+// ============================================================================
+
+describe('Validation History', () => {
+  it('should store issues without their messages', () => {
+    const snapshot = createValidationSnapshot(
+      'workshop-1',
+      createResult(40, ['liquidity-non-negative'], ['break-even-reasonable']),
+      'check',
+      '2026-03-01T10:00:00.000Z'
+    );
+
+    expect(snapshot).toEqual({
+      workshopId: 'workshop-1',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      trigger: 'check',
+      canExport: false,
+      status: 'blocked',
+      complianceScore: 40,
+      blockers: [{ id: 'liquidity-non-negative', severity: 'BLOCKER', category: 'financial', title: 'liquidity-non-negative' }],
+      warnings: [{ id: 'break-even-reasonable', severity: 'WARNING', category: 'financial', title: 'break-even-reasonable' }],
+    });
+  });
+
+  it('should report fixed blockers and new warnings between two runs', () => {
+    const previous = createValidationSnapshot('w', createResult(40, ['liquidity-non-negative', 'month-6-self-sufficiency']), 'check', '2026-03-01T10:00:00.000Z');
+    const current = createValidationSnapshot('w', createResult(70, ['month-6-self-sufficiency'], ['break-even-reasonable']), 'check', '2026-03-08T10:00:00.000Z');
+
+    const diff = diffValidationRuns(previous, current);
+
+    expect(diff.trend).toBe('improved');
+    expect(diff.scoreDelta).toBe(30);
+    expect(diff.fixedBlockers.map(issue => issue.id)).toEqual(['liquidity-non-negative']);
+    expect(diff.remainingBlockers.map(issue => issue.id)).toEqual(['month-6-self-sufficiency']);
+    expect(diff.newBlockers).toEqual([]);
+    expect(diff.newWarnings.map(issue => issue.id)).toEqual(['break-even-reasonable']);
+  });
+
+  it('should treat a new blocker as a regression even if the score rose', () => {
+    const previous = createValidationSnapshot('w', createResult(60, []), 'export', '2026-03-01T10:00:00.000Z');
+    const current = createValidationSnapshot('w', createResult(65, ['gz-funding-included']), 'check', '2026-03-02T10:00:00.000Z');
+
+    expect(diffValidationRuns(previous, current).trend).toBe('regressed');
+  });
+
+  it('should build the timeline and find the last export', () => {
+    const history = [
+      createValidationSnapshot('w', createResult(80, []), 'check', '2026-03-10T10:00:00.000Z'),
+      createValidationSnapshot('w', createResult(40, ['liquidity-non-negative']), 'check', '2026-03-01T10:00:00.000Z'),
+      createValidationSnapshot('w', createResult(75, []), 'export', '2026-03-05T10:00:00.000Z'),
+    ];
+
+    expect(buildScoreTimeline(history).map(point => point.complianceScore)).toEqual([40, 75, 80]);
+    expect(findPreviousRun(history, '2026-03-10T10:00:00.000Z')?.complianceScore).toBe(75);
+    expect(findPreviousRun(history, '2026-03-05T10:00:00.000Z', 'export')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Persistence Tests
+// ============================================================================
+
+describe('recordExportValidation', () => {
+  it('should insert one module_progress row per run', async () => {
+    const { supabase, insert } = createFakeSupabase();
+
+    const record = await recordExportValidation(supabase, 'workshop-1', createResult(90, []), 'export');
+
+    expect(supabase.from).toHaveBeenCalledWith('module_progress');
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      workshop_id: 'workshop-1',
+      module_name: VALIDATION_HISTORY_MODULE,
+      validated: true,
+      created_at: record.timestamp,
+      data: expect.objectContaining({ trigger: 'export', complianceScore: 90 }),
+    }));
+  });
+
+  it('should not fail the export when the run cannot be stored', async () => {
+    const { supabase } = createFakeSupabase({ message: 'permission denied' });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const record = await recordExportValidation(supabase, 'workshop-1', createResult(90, []));
+
+    expect(record.workshopId).toBe('workshop-1');
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -20,6 +20,9 @@ import {
   currentPhaseAtom,
   isSavingAtom,
   lastSavedAtom,
+  currentModuleAtom,
+  fieldFocusAtom,
+  jumpToFieldAtom,
 
   // Factory functions
   createInitialWorkshopState,
@@ -235,6 +238,34 @@ describe('Workshop Atoms', () => {
       store.set(currentPhaseAtom, 'exploration');
       expect(store.get(currentPhaseAtom)).toBe('exploration');
     });
+
+    it('should open module and phase of a validation pointer', () => {
+      const pointer = {
+        module: 'gz-finanzplanung',
+        phase: 'liquiditaet',
+        field: 'liquiditaet.monate[6].endbestand',
+        month: 7,
+        value: -800,
+      };
+
+      store.set(workshopStateAtom, createInitialWorkshopState('test-id', 'user-123'));
+      store.set(jumpToFieldAtom, { workshopId: 'test-id', pointer });
+
+      expect(store.get(currentModuleAtom)).toBe('gz-finanzplanung');
+      expect(store.get(currentPhaseAtom)).toBe('liquiditaet');
+      expect(store.get(fieldFocusAtom)).toEqual(pointer);
+    });
+
+    it('should ignore pointers to unknown modules', () => {
+      const pointer = { module: 'gz-organisation', phase: 'kapazitaeten', field: 'kapazitaeten.currentCapacity' };
+
+      store.set(workshopStateAtom, createInitialWorkshopState('test-id', 'user-123'));
+      store.set(jumpToFieldAtom, { workshopId: 'test-id', pointer });
+
+      expect(store.get(currentModuleAtom)).toBe('gz-intake');
+      expect(store.get(currentPhaseAtom)).toBe('warmup');
+      expect(store.get(fieldFocusAtom)).toBeNull();
+    });
   });
 });
 